@@ -0,0 +1,151 @@
+/**
+ * Backtest Engine Tests
+ *
+ * These tests verify fill simulation and trade recording in the BacktestEngine
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { BacktestEngine } from "../lib/trading/backtest-engine"
+import type { Kline } from "../lib/types/market-types"
+
+// Signals returned by the mocked strategy, keyed by candle index
+let scriptedSignals: Record<number, { action: string; stopLoss?: number; takeProfit?: number }> = {}
+
+// Mock the strategy so each test controls the signal sequence
+vi.mock("../lib/trading/strategies/scalping-strategy", () => {
+  return {
+    SCALPING_PARAMETER_SCHEMA: [],
+    ScalpingStrategy: class {
+      private parameters: Record<string, any>
+
+      constructor(params: Record<string, any> = {}) {
+        this.parameters = { maxHoldingTimeMinutes: 60, maxTradesPerHour: 6, ...params }
+      }
+
+      getParameters() {
+        return { ...this.parameters }
+      }
+
+      reset() {}
+
+      calculateSignals(klines: Kline[]) {
+        return klines.map((k, i) => ({
+          action: scriptedSignals[i]?.action || "NONE",
+          price: k.close,
+          timestamp: k.openTime,
+          strength: 75,
+          reason: "scripted",
+          stopLoss: scriptedSignals[i]?.stopLoss ?? null,
+          takeProfit: scriptedSignals[i]?.takeProfit ?? null,
+          indicators: {},
+        }))
+      }
+    },
+  }
+})
+
+const MINUTE = 60 * 1000
+
+function makeKlines(prices: Array<[number, number, number, number]>): Kline[] {
+  return prices.map(([open, high, low, close], i) => ({
+    openTime: i * MINUTE,
+    open,
+    high,
+    low,
+    close,
+    volume: 10,
+    closeTime: (i + 1) * MINUTE - 1,
+    quoteVolume: 10 * close,
+    trades: 1,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: 5 * close,
+  }))
+}
+
+describe("BacktestEngine", () => {
+  beforeEach(() => {
+    scriptedSignals = {}
+  })
+
+  it("should fill take profit inside the candle range", () => {
+    scriptedSignals = { 0: { action: "BUY", stopLoss: 99, takeProfit: 102 } }
+    const klines = makeKlines([
+      [100, 100, 100, 100],
+      [100, 103, 99.5, 101],
+    ])
+
+    const result = new BacktestEngine({ symbol: "BTCUSDT", timeframe: "1m", feeRate: 0 }).run(klines)
+
+    expect(result.trades).toHaveLength(1)
+    expect(result.trades[0].exitPrice).toBe(102)
+    expect(result.trades[0].tags).toContain("TAKE_PROFIT")
+    expect(result.summary.winningTrades).toBe(1)
+    expect(result.finalBalance).toBeGreaterThan(result.initialBalance)
+  })
+
+  it("should assume the stop fills first when both levels are touched", () => {
+    scriptedSignals = { 0: { action: "BUY", stopLoss: 99, takeProfit: 102 } }
+    const klines = makeKlines([
+      [100, 100, 100, 100],
+      [100, 103, 98, 101],
+    ])
+
+    const result = new BacktestEngine({ symbol: "BTCUSDT", timeframe: "1m", feeRate: 0 }).run(klines)
+
+    expect(result.trades[0].exitPrice).toBe(99)
+    expect(result.trades[0].tags).toContain("STOP_LOSS")
+    expect(result.summary.losingTrades).toBe(1)
+  })
+
+  it("should close on exit signals and deduct fees", () => {
+    scriptedSignals = { 0: { action: "SELL", stopLoss: 110, takeProfit: 90 }, 2: { action: "CLOSE_SHORT" } }
+    const klines = makeKlines([
+      [100, 100, 100, 100],
+      [100, 100, 98, 99],
+      [99, 99, 97, 98],
+    ])
+
+    const result = new BacktestEngine({ symbol: "BTCUSDT", timeframe: "1m", feeRate: 0.001 }).run(klines)
+    const trade = result.trades[0]
+
+    expect(trade.exitPrice).toBe(98)
+    expect(trade.tags).toContain("SIGNAL")
+    expect(trade.fees).toBeCloseTo((100 + 98) * trade.quantity * 0.001)
+    expect(trade.pnl).toBeCloseTo(2 * trade.quantity - trade.fees)
+  })
+
+  it("should enforce the max holding time at candle close", () => {
+    scriptedSignals = { 0: { action: "BUY", stopLoss: 90, takeProfit: 110 } }
+    const klines = makeKlines([
+      [100, 100, 100, 100],
+      [100, 101, 99, 100.5],
+      [100.5, 101, 100, 100.8],
+    ])
+
+    const result = new BacktestEngine({
+      symbol: "BTCUSDT",
+      timeframe: "1m",
+      feeRate: 0,
+      strategyParameters: { maxHoldingTimeMinutes: 2 },
+    }).run(klines)
+
+    expect(result.trades[0].tags).toContain("MAX_HOLDING_TIME")
+    expect(result.trades[0].exitPrice).toBe(100.8)
+  })
+
+  it("should skip entries beyond the hourly trade limit", () => {
+    scriptedSignals = {
+      0: { action: "BUY" },
+      1: { action: "CLOSE_LONG" },
+      2: { action: "BUY" },
+      3: { action: "CLOSE_LONG" },
+      4: { action: "BUY" },
+    }
+    const klines = makeKlines(Array.from({ length: 6 }, () => [100, 100, 100, 100] as [number, number, number, number]))
+
+    const result = new BacktestEngine({ symbol: "BTCUSDT", timeframe: "1m", hourlyTradeLimit: 2 }).run(klines)
+
+    expect(result.trades).toHaveLength(2)
+    expect(result.skippedSignals).toBe(1)
+    expect(result.equityCurve).toHaveLength(3)
+  })
+})
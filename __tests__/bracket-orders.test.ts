@@ -0,0 +1,273 @@
+/**
+ * Bracket Order Tests
+ *
+ * These tests verify that bracket exits cancel each other, follow partial fills and are rebuilt from open orders
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { bracketOrderManager, parseBracketClientOrderId } from "../lib/binance/bracket-order-manager"
+import { binanceOrderManager } from "../lib/binance/binance-order-manager"
+import { binancePositionManager } from "../lib/binance/binance-position-manager"
+import { binanceUserDataStream } from "../lib/binance/user-data-stream"
+import { binanceApiService } from "../lib/binance/binance-api-service"
+import type {
+  BracketLeg,
+  OrderOptions,
+  OrderStatus,
+  OrderTradeUpdate,
+  PositionRisk,
+  UserOrderStatus,
+} from "../lib/types/binance-types"
+
+// Orders the mocked exchange accepted, in placement order
+let placed: Array<{ orderId: number; type: string; side: string; quantity: number; options: OrderOptions }>
+let cancelled: number[]
+
+function orderUpdate(
+  leg: BracketLeg,
+  orderStatus: UserOrderStatus,
+  filledQuantity: number,
+  lastFilledQuantity = 0,
+): OrderTradeUpdate {
+  return {
+    eventType: "ORDER_TRADE_UPDATE",
+    eventTime: Date.now(),
+    transactionTime: Date.now(),
+    symbol: "BTCUSDT",
+    orderId: leg.orderId!,
+    clientOrderId: leg.clientOrderId,
+    side: "SELL",
+    orderType: "MARKET",
+    originalOrderType: "STOP_MARKET",
+    timeInForce: "GTC",
+    positionSide: "BOTH",
+    executionType: lastFilledQuantity > 0 ? "TRADE" : orderStatus === "CANCELED" ? "CANCELED" : "NEW",
+    orderStatus,
+    quantity: leg.quantity,
+    price: 0,
+    averagePrice: 65000,
+    stopPrice: leg.price,
+    lastFilledQuantity,
+    lastFilledPrice: 65000,
+    filledQuantity,
+    commission: 0,
+    commissionAsset: "USDT",
+    realizedProfit: 0,
+    tradeId: 1,
+    isMaker: false,
+    reduceOnly: true,
+    closePosition: false,
+  }
+}
+
+function openOrder(orderId: number, clientOrderId: string, side: string, type: string, origQty: string, price: string) {
+  return {
+    symbol: "BTCUSDT",
+    orderId,
+    clientOrderId,
+    price: type === "LIMIT" ? price : "0",
+    origQty,
+    executedQty: "0",
+    status: "NEW",
+    timeInForce: "GTC",
+    type,
+    side,
+    stopPrice: type === "LIMIT" ? "0" : price,
+    time: 1000,
+    updateTime: 1000,
+  } satisfies OrderStatus
+}
+
+function position(positionAmt: string): PositionRisk {
+  return {
+    symbol: "BTCUSDT",
+    positionAmt,
+    entryPrice: "65000",
+    markPrice: "65000",
+    unRealizedProfit: "0",
+    liquidationPrice: "0",
+    leverage: "5",
+    maxNotionalValue: "0",
+    marginType: "cross",
+    isolatedMargin: "0",
+    isAutoAddMargin: "false",
+    positionSide: "BOTH",
+  }
+}
+
+describe("BracketOrderManager", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    bracketOrderManager.clear()
+    placed = []
+    cancelled = []
+
+    vi.spyOn(binanceUserDataStream, "start").mockResolvedValue()
+    vi.spyOn(binanceOrderManager, "placeOrder").mockImplementation(async (symbol, side, type, quantity, options) => {
+      const orderId = 100 + placed.length
+      placed.push({ orderId, type, side, quantity, options: options ?? {} })
+      return {
+        symbol,
+        orderId,
+        clientOrderId: options?.newClientOrderId ?? "",
+        transactTime: Date.now(),
+        price: "0",
+        origQty: String(quantity),
+        executedQty: "0",
+        status: "NEW",
+        timeInForce: "GTC",
+        type,
+        side,
+      }
+    })
+    vi.spyOn(binanceOrderManager, "cancelOrder").mockImplementation(async (symbol, options) => {
+      cancelled.push(options.orderId!)
+      return openOrder(options.orderId!, "", "SELL", "STOP_MARKET", "0", "0")
+    })
+  })
+
+  it("should resize the sibling on a partial exit fill and cancel it once the exit fills", async () => {
+    const bracket = await bracketOrderManager.protectPosition({
+      symbol: "BTCUSDT",
+      direction: "LONG",
+      quantity: 0.3,
+      takeProfitPrice: 70000,
+      stopLossPrice: 60000,
+    })
+
+    // The stop goes out first
+    expect(placed.map(({ type, side, quantity }) => [type, side, quantity])).toEqual([
+      ["STOP_MARKET", "SELL", 0.3],
+      ["TAKE_PROFIT_MARKET", "SELL", 0.3],
+    ])
+    expect(placed[0].options).toMatchObject({ stopPrice: 60000, reduceOnly: true })
+    expect(parseBracketClientOrderId(placed[1].options.newClientOrderId!)).toEqual({
+      bracketId: bracket.id,
+      leg: "TAKE_PROFIT",
+      revision: 1,
+    })
+
+    const takeProfit = bracket.takeProfit!
+    const firstStop = bracket.stopLoss!
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(takeProfit, "PARTIALLY_FILLED", 0.1, 0.1))
+
+    // A new stop for the remaining 0.2 replaces the old one, which is cancelled only afterwards
+    expect(placed[2].type).toBe("STOP_MARKET")
+    expect(placed[2].quantity).toBeCloseTo(0.2, 9)
+    expect(cancelled).toEqual([firstStop.orderId])
+    expect(bracket.stopLoss).toMatchObject({ orderId: 102, revision: 2 })
+    expect(bracket.takeProfit).toBe(takeProfit)
+
+    // The cancel confirmation of the replaced stop changes nothing
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(firstStop, "CANCELED", 0))
+    expect(bracket.status).toBe("OPEN")
+
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(takeProfit, "FILLED", 0.3, 0.2))
+    expect(cancelled).toEqual([firstStop.orderId, 102])
+    expect(bracket.status).toBe("CLOSED")
+    expect(bracket.exitedQuantity).toBeCloseTo(0.3, 9)
+    expect(bracketOrderManager.getBracket(bracket.id)).toBeNull()
+  })
+
+  it("should take a one-way position's direction from its amount unless one is given", async () => {
+    const positionRisk = vi.spyOn(binancePositionManager, "getPositionRisk").mockResolvedValue([position("-0.2")])
+    await binanceApiService.placeTpSlOrders("BTCUSDT", "BOTH", 60000, 70000, 0.2)
+    positionRisk.mockResolvedValue([position("0.2")])
+    await binanceApiService.placeTpSlOrders("BTCUSDT", "BOTH", 70000, 60000, 0.2)
+    await binanceApiService.placeTpSlOrders("BTCUSDT", "BOTH", 60000, 70000, 0.2, "SHORT")
+
+    expect(placed.map(({ type, side, options }) => [type, side, options.stopPrice, options.positionSide])).toEqual([
+      ["STOP_MARKET", "BUY", 70000, "BOTH"],
+      ["TAKE_PROFIT_MARKET", "BUY", 60000, "BOTH"],
+      ["STOP_MARKET", "SELL", 60000, "BOTH"],
+      ["TAKE_PROFIT_MARKET", "SELL", 70000, "BOTH"],
+      ["STOP_MARKET", "BUY", 70000, "BOTH"],
+      ["TAKE_PROFIT_MARKET", "BUY", 60000, "BOTH"],
+    ])
+
+    // Without an open position there is nothing to derive the direction from
+    positionRisk.mockResolvedValue([position("0")])
+    await expect(binanceApiService.placeTpSlOrders("BTCUSDT", "BOTH", 70000, 60000, 0.2)).rejects.toMatchObject({
+      code: "NO_POSITION",
+    })
+    expect(placed).toHaveLength(6)
+  })
+
+  it("should size the exits to the filled part of the entry", async () => {
+    const bracket = await bracketOrderManager.placeBracket({
+      symbol: "BTCUSDT",
+      direction: "SHORT",
+      quantity: 1,
+      entryType: "LIMIT",
+      entryPrice: 65000,
+      takeProfitPrice: 60000,
+      stopLossPrice: 68000,
+    })
+
+    expect(placed).toHaveLength(1)
+    expect(placed[0]).toMatchObject({ type: "LIMIT", side: "SELL", options: { price: 65000, timeInForce: "GTC" } })
+    expect(bracket.status).toBe("PENDING_ENTRY")
+
+    const entry = bracket.entry!
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(entry, "PARTIALLY_FILLED", 0.4, 0.4))
+    expect(bracket.status).toBe("OPEN")
+    expect(placed.slice(1).map(({ type, side, quantity }) => [type, side, quantity])).toEqual([
+      ["STOP_MARKET", "BUY", 0.4],
+      ["TAKE_PROFIT_MARKET", "BUY", 0.4],
+    ])
+
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(entry, "FILLED", 1, 0.6))
+    expect(placed.slice(3).map(({ type, quantity }) => [type, quantity])).toEqual([
+      ["STOP_MARKET", 1],
+      ["TAKE_PROFIT_MARKET", 1],
+    ])
+    expect(cancelled).toEqual([101, 102])
+
+    // An entry cancelled before any fill takes its bracket with it
+    const unfilled = await bracketOrderManager.placeBracket({
+      symbol: "BTCUSDT",
+      direction: "LONG",
+      quantity: 1,
+      entryType: "LIMIT",
+      entryPrice: 64000,
+      takeProfitPrice: 66000,
+      stopLossPrice: 63000,
+    })
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(unfilled.entry!, "CANCELED", 0))
+    expect(unfilled.status).toBe("CANCELED")
+    expect(bracketOrderManager.getBrackets()).toEqual([bracket])
+  })
+
+  it("should rebuild brackets from open orders and cancel exits of closed positions", async () => {
+    vi.spyOn(binanceOrderManager, "getOpenOrders").mockResolvedValue([
+      openOrder(1, "brk_aaa_SL1", "SELL", "STOP_MARKET", "0.5", "60000"),
+      openOrder(2, "brk_aaa_TP1", "SELL", "TAKE_PROFIT_MARKET", "0.5", "70000"),
+      openOrder(3, "brk_aaa_SL2", "SELL", "STOP_MARKET", "0.5", "61000"),
+      openOrder(4, "brk_bbb_SL1", "BUY", "STOP_MARKET", "0.2", "70000"),
+      openOrder(5, "manual", "SELL", "LIMIT", "1", "80000"),
+    ])
+    // The long is still open; the short that bracket bbb protected is gone
+    vi.spyOn(binancePositionManager, "getPositionRisk").mockResolvedValue([position("0.5")])
+
+    const brackets = await bracketOrderManager.reconcile("BTCUSDT")
+
+    expect(brackets).toHaveLength(1)
+    expect(brackets[0]).toMatchObject({
+      id: "aaa",
+      direction: "LONG",
+      status: "OPEN",
+      quantity: 0.5,
+      takeProfitPrice: 70000,
+      stopLossPrice: 61000,
+      stopLoss: { orderId: 3, revision: 2 },
+      takeProfit: { orderId: 2, revision: 1 },
+    })
+    // The stop left over from before the restart and the orphaned exit are cancelled; nothing new is placed
+    expect(cancelled.sort()).toEqual([1, 4])
+    expect(placed).toEqual([])
+
+    // Fills after the restart are handled like any other
+    await bracketOrderManager.handleOrderUpdate(orderUpdate(brackets[0].stopLoss!, "FILLED", 0.5, 0.5))
+    expect(cancelled).toContain(2)
+    expect(brackets[0].status).toBe("CLOSED")
+  })
+})
@@ -0,0 +1,136 @@
+/**
+ * Correlation Matrix Tests
+ *
+ * These tests verify rolling return correlations, derived sector tags and how both reach the RiskManager
+ */
+import { describe, it, expect, afterEach, vi } from "vitest"
+import { calculateCorrelationMatrix, deriveSectorTags } from "../lib/trading/correlation-matrix"
+import { riskManager } from "../lib/trading/risk-manager"
+import type { Kline } from "../lib/types/market-types"
+
+// Correlation updates never reach the exchange
+vi.mock("../lib/binance/binance-api-service", () => {
+  return { binanceApiService: {} }
+})
+
+const HOUR = 60 * 60 * 1000
+
+// Deterministic uniform noise in [-1, 1]
+function createNoise(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return (state / 4294967296) * 2 - 1
+  }
+}
+
+function makeKlines(returns: number[], skip: number[] = []): Kline[] {
+  let close = 100
+  const klines: Kline[] = [close, ...returns.map((r) => (close *= Math.exp(r)))].map((price, i) => ({
+    openTime: i * HOUR,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    volume: 10,
+    closeTime: (i + 1) * HOUR - 1,
+    quoteVolume: 10 * price,
+    trades: 1,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: 5 * price,
+  }))
+  return klines.filter((_, i) => !skip.includes(i))
+}
+
+const market = Array.from({ length: 200 }, createNoise(1)).map((value) => value * 0.01)
+const other = Array.from({ length: 200 }, createNoise(7)).map((value) => value * 0.01)
+
+describe("calculateCorrelationMatrix", () => {
+  it("should correlate returns over the candles each pair has in common", () => {
+    const matrix = calculateCorrelationMatrix(
+      {
+        BTCUSDT: makeKlines(market),
+        ETHUSDT: makeKlines(market.map((r) => r * 1.5), [50, 51, 120]),
+        XRPUSDT: makeKlines(market.map((r) => -r)),
+        USDCUSDT: makeKlines(new Array(200).fill(0)),
+      },
+      100,
+      "1h",
+      0,
+    )
+
+    expect(matrix.symbols).toEqual(["BTCUSDT", "ETHUSDT", "XRPUSDT", "USDCUSDT"])
+    expect(matrix.values[0][0]).toBe(1)
+    // Returns spanning the gaps in ETHUSDT are taken over the same candles in BTCUSDT
+    expect(matrix.values[0][1]).toBeCloseTo(1, 9)
+    expect(matrix.values[1][0]).toBe(matrix.values[0][1])
+    expect(matrix.values[0][2]).toBeCloseTo(-1, 9)
+    // A flat series has no defined correlation
+    expect(matrix.values[0][3]).toBeNaN()
+  })
+
+  it("should tag correlation clusters as sectors", () => {
+    const matrix = calculateCorrelationMatrix(
+      {
+        SOLUSDT: makeKlines(other),
+        BTCUSDT: makeKlines(market),
+        AVAXUSDT: makeKlines(other.map((r, i) => r + market[i] * 0.1)),
+        ETHUSDT: makeKlines(market.map((r, i) => r + other[i] * 0.2)),
+      },
+      200,
+      "1h",
+    )
+
+    expect(Math.abs(matrix.values[0][1])).toBeLessThan(0.3)
+    expect(deriveSectorTags(matrix, 0.8)).toEqual({
+      SOLUSDT: "AUTO_SOLUSDT",
+      BTCUSDT: "AUTO_BTCUSDT",
+      AVAXUSDT: "AUTO_SOLUSDT",
+      ETHUSDT: "AUTO_BTCUSDT",
+    })
+  })
+})
+
+describe("RiskManager correlations", () => {
+  afterEach(() => {
+    riskManager.getOpenPositions().forEach((position) => riskManager.releasePosition(position.symbol))
+    riskManager.updateCorrelationSettings({ autoSectorTags: false })
+  })
+
+  it("should apply computed correlations and derived sectors to entry checks", () => {
+    riskManager.updateParameters({ maxOpenPositions: 5, correlationThreshold: 0.7, sectorExposureLimit: 0.5 })
+    riskManager.updateCorrelationSettings({
+      autoSectorTags: true,
+      sectorCorrelationThreshold: 0.8,
+      lookbackPeriods: 150,
+    })
+    riskManager.setTotalEquity(10000)
+    riskManager.setSymbolSector("LINKUSDT", "CRYPTO_ORACLE")
+
+    const listener = vi.fn()
+    const unsubscribe = riskManager.onCorrelationsChange(listener)
+    const matrix = riskManager.updateCorrelationsFromKlines({
+      DOTUSDT: makeKlines(market),
+      LINKUSDT: makeKlines(market.map((r) => r * 2)),
+      NEARUSDT: makeKlines(market.map((r, i) => r + other[i] * 0.1)),
+      ATOMUSDT: makeKlines(other),
+    })
+    unsubscribe()
+
+    expect(listener).toHaveBeenCalledWith(matrix)
+    expect(riskManager.getCorrelationMatrix()).toBe(matrix)
+    expect(matrix.window).toBe(150)
+    expect(riskManager.getCorrelation("DOTUSDT", "LINKUSDT")).toBeCloseTo(1, 9)
+
+    // Configured sectors are kept; the rest follow the correlation clusters
+    expect(riskManager.getSymbolSector("LINKUSDT")).toBe("CRYPTO_ORACLE")
+    expect(riskManager.getSymbolSector("DOTUSDT")).toBe("AUTO_DOTUSDT")
+    expect(riskManager.getSymbolSector("NEARUSDT")).toBe("AUTO_DOTUSDT")
+    expect(riskManager.getSymbolSector("ATOMUSDT")).toBe("AUTO_ATOMUSDT")
+
+    expect(riskManager.reservePosition("DOTUSDT", "LONG", 1000).allowed).toBe(true)
+    expect(riskManager.reservePosition("LINKUSDT", "LONG", 1000).correlatedWith).toBe("DOTUSDT")
+    expect(riskManager.reservePosition("ATOMUSDT", "LONG", 1000).allowed).toBe(true)
+    expect(riskManager.getSectorExposures()).toEqual({ AUTO_DOTUSDT: 0.1, AUTO_ATOMUSDT: 0.1 })
+  })
+})
@@ -0,0 +1,141 @@
+/**
+ * Exchange Simulator Tests
+ *
+ * These tests drive the real Binance order manager against the local futures simulator over HTTP and WebSocket
+ */
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import http from "http"
+import crypto from "crypto"
+import { BinanceFuturesSimulator } from "../lib/testing/exchange-simulator"
+import type { BinanceOrderManager } from "../lib/binance/binance-order-manager"
+import type { BinancePositionManager } from "../lib/binance/binance-position-manager"
+
+const API_KEY = "simulator-api-key"
+const API_SECRET = "simulator-api-secret"
+
+// Opens a raw stream connection and resolves with the first text frame
+function readFirstFrame(wsUrl: string, path: string, onOpen: () => void): Promise<any> {
+  const { hostname, port } = new URL(wsUrl)
+
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      hostname,
+      port,
+      path,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": crypto.randomBytes(16).toString("base64"),
+        "Sec-WebSocket-Version": "13",
+      },
+    })
+
+    request.on("upgrade", (_response, socket) => {
+      let buffer = Buffer.alloc(0)
+      socket.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk])
+        let length = buffer[1] & 0x7f
+        let offset = 2
+        if (length === 126) {
+          length = buffer.readUInt16BE(2)
+          offset = 4
+        }
+        if (buffer.length >= offset + length) {
+          socket.destroy()
+          resolve(JSON.parse(buffer.subarray(offset, offset + length).toString("utf-8")))
+        }
+      })
+      onOpen()
+    })
+    request.on("error", reject)
+    request.end()
+  })
+}
+
+describe("BinanceFuturesSimulator", () => {
+  const simulator = new BinanceFuturesSimulator({ apiKey: API_KEY, apiSecret: API_SECRET })
+  let orderManager: BinanceOrderManager
+  let positionManager: BinancePositionManager
+  let wsUrl: string
+
+  beforeAll(async () => {
+    const urls = await simulator.start()
+    wsUrl = urls.wsUrl
+
+    // The API client reads its environment when first imported
+    process.env.BINANCE_API_BASE_URL = urls.restUrl
+    process.env.BINANCE_API_KEY = API_KEY
+    process.env.BINANCE_API_SECRET = API_SECRET
+    orderManager = (await import("../lib/binance/binance-order-manager")).binanceOrderManager
+    positionManager = (await import("../lib/binance/binance-position-manager")).binancePositionManager
+  })
+
+  afterAll(async () => {
+    await simulator.stop()
+  })
+
+  it("should fill market orders and trigger protective stops", async () => {
+    const entry = await orderManager.placeOrder("BTCUSDT", "BUY", "MARKET", 0.01)
+    expect(entry.status).toBe("FILLED")
+    expect(Number.parseFloat(entry.executedQty)).toBe(0.01)
+
+    const [position] = await positionManager.getPositionRisk("BTCUSDT")
+    expect(Number.parseFloat(position.positionAmt)).toBe(0.01)
+
+    const stop = await orderManager.placeOrder("BTCUSDT", "SELL", "STOP_MARKET", 0.01, {
+      stopPrice: 49000,
+      reduceOnly: true,
+    })
+    expect(stop.status).toBe("NEW")
+
+    simulator.trade("BTCUSDT", 48990)
+
+    const stopStatus = await orderManager.getOrderStatus("BTCUSDT", { orderId: stop.orderId })
+    expect(stopStatus.status).toBe("FILLED")
+    expect(simulator.engine.getPosition("BTCUSDT").amount).toBe(0)
+  })
+
+  it("should switch to hedge mode and hold a LONG and a SHORT leg per symbol", async () => {
+    await positionManager.setHedgeMode(true)
+    expect(await positionManager.isHedgeMode(true)).toBe(true)
+
+    // The exchange answers -4059 when the account is already in the mode, which counts as done
+    await expect(positionManager.setHedgeMode(true)).resolves.toBeUndefined()
+
+    await orderManager.placeOrder("BTCUSDT", "BUY", "MARKET", 0.02, { positionSide: "LONG" })
+    await orderManager.placeOrder("BTCUSDT", "SELL", "MARKET", 0.01, { positionSide: "SHORT" })
+
+    const legs = await positionManager.getPositionRisk("BTCUSDT")
+    expect(legs.map((leg) => [leg.positionSide, Number.parseFloat(leg.positionAmt)])).toEqual([
+      ["LONG", 0.02],
+      ["SHORT", -0.01],
+    ])
+
+    // Switching back is refused while a leg is open
+    await expect(positionManager.setHedgeMode(false)).rejects.toMatchObject({ code: "BINANCE_ERROR_-4068" })
+
+    await orderManager.placeOrder("BTCUSDT", "SELL", "MARKET", 0.02, { reduceOnly: true, positionSide: "LONG" })
+    await orderManager.placeOrder("BTCUSDT", "BUY", "MARKET", 0.01, { reduceOnly: true, positionSide: "SHORT" })
+    await positionManager.setHedgeMode(false)
+    expect(simulator.engine.getPositions().map((position) => position.positionSide)).toEqual(["BOTH", "BOTH"])
+  })
+
+  it("should reject requests with an invalid signature", async () => {
+    const response = await fetch(`${simulator.getRestUrl()}/fapi/v1/openOrders?timestamp=1&signature=00`, {
+      headers: { "X-MBX-APIKEY": API_KEY },
+    })
+
+    expect(response.status).toBe(400)
+    expect(await response.json()).toEqual({ code: -1022, msg: "Signature for this request is not valid." })
+  })
+
+  it("should publish trades on subscribed streams", async () => {
+    const message = await readFirstFrame(wsUrl, "/stream?streams=ethusdt@aggTrade", () =>
+      // Give the server a moment to register the subscription before printing the trade
+      setTimeout(() => simulator.trade("ETHUSDT", 3001.5, 2), 20),
+    )
+
+    expect(message.stream).toBe("ethusdt@aggTrade")
+    expect(message.data).toMatchObject({ e: "aggTrade", s: "ETHUSDT", p: "3001.5", q: "2" })
+  })
+})
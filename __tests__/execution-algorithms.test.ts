@@ -0,0 +1,247 @@
+/**
+ * Execution Algorithm Tests
+ *
+ * These tests verify that TWAP, iceberg and limit chase executions place their child orders, track fills and
+ * measure implementation shortfall
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { calculateImplementationShortfall, executionAlgorithms } from "../lib/binance/execution-algorithms"
+import { binanceOrderManager } from "../lib/binance/binance-order-manager"
+import { binanceMarketDataService } from "../lib/binance/market-data-service"
+import { orderNormalizer } from "../lib/binance/order-normalizer"
+import type { AlgoExecution, OrderOptions, OrderStatus } from "../lib/types/binance-types"
+
+// Orders the mocked exchange accepted, in placement order
+let placed: Array<{ orderId: number; type: string; quantity: number; options: OrderOptions }>
+let cancelled: number[]
+let bestBid: number
+let bestAsk: number
+
+function orderStatus(orderId: number, status: string, executedQty: number, avgPrice: number): OrderStatus {
+  const order = placed.find((p) => p.orderId === orderId)!
+  return {
+    symbol: "BTCUSDT",
+    orderId,
+    clientOrderId: order.options.newClientOrderId ?? "",
+    price: String(order.options.price ?? 0),
+    origQty: String(order.quantity),
+    executedQty: String(executedQty),
+    status,
+    timeInForce: order.options.timeInForce ?? "GTC",
+    type: order.type,
+    side: "BUY",
+    avgPrice: String(avgPrice),
+    time: 1000,
+    updateTime: 1000,
+  }
+}
+
+describe("calculateImplementationShortfall", () => {
+  it("should charge fills against the arrival price and the unfilled rest against the final price", () => {
+    const buy = calculateImplementationShortfall("BUY", 2, 1.5, 101, 100, 104)
+    expect(buy.executionCost).toBeCloseTo(1.5, 9)
+    expect(buy.opportunityCost).toBeCloseTo(2, 9)
+    expect(buy.bps).toBeCloseTo(175, 9)
+
+    // Selling above the arrival price is a saving
+    const sell = calculateImplementationShortfall("SELL", 1, 1, 101, 100, 99)
+    expect(sell.totalCost).toBeCloseTo(-1, 9)
+    expect(sell.opportunityCost).toBe(0)
+  })
+})
+
+describe("ExecutionAlgorithms", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    executionAlgorithms.clear()
+    executionAlgorithms.setConfig({ pollIntervalMs: 1 })
+    placed = []
+    cancelled = []
+    bestBid = 99.9
+    bestAsk = 100.1
+
+    vi.spyOn(binanceMarketDataService, "getOrderBook").mockImplementation(async () => ({
+      bids: [{ price: bestBid, quantity: 5 }],
+      asks: [{ price: bestAsk, quantity: 5 }],
+    }))
+    vi.spyOn(orderNormalizer, "getSymbolFilters").mockResolvedValue(null)
+    vi.spyOn(binanceOrderManager, "placeOrder").mockImplementation(async (symbol, side, type, quantity, options) => {
+      const orderId = 100 + placed.length
+      placed.push({ orderId, type, quantity, options: options ?? {} })
+      return { ...orderStatus(orderId, "NEW", 0, 0), transactTime: Date.now() }
+    })
+    vi.spyOn(binanceOrderManager, "cancelOrder").mockImplementation(async (symbol, options) => {
+      cancelled.push(options.orderId!)
+      return orderStatus(options.orderId!, "CANCELED", 0, 0)
+    })
+  })
+
+  it("should spread a TWAP over its slices and report progress", async () => {
+    vi.spyOn(binanceOrderManager, "getOrderStatus").mockImplementation(async (symbol, options) =>
+      orderStatus(options.orderId!, "FILLED", placed.find((p) => p.orderId === options.orderId)!.quantity, 100.5),
+    )
+    const progress: AlgoExecution[] = []
+
+    const execution = await executionAlgorithms.executeTwap({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      quantity: 0.9,
+      durationMs: 20,
+      slices: 3,
+      onProgress: (update) => progress.push(update),
+    })
+
+    expect(placed.map(({ type, quantity }) => [type, quantity])).toEqual([
+      ["MARKET", 0.3],
+      ["MARKET", expect.closeTo(0.3, 9)],
+      ["MARKET", expect.closeTo(0.3, 9)],
+    ])
+    expect(placed[0].options.newClientOrderId).toBe(`exe_${execution.id}_1`)
+    expect(execution).toMatchObject({ status: "COMPLETED", orderCount: 3, arrivalPrice: 100, averagePrice: 100.5 })
+    expect(execution.filledQuantity).toBeCloseTo(0.9, 9)
+    expect(execution.shortfall?.executionCost).toBeCloseTo(0.45, 9)
+    expect(execution.shortfall?.bps).toBeCloseTo(50, 9)
+
+    // One update per slice fill, then the final report
+    expect(progress.map((update) => update.filledQuantity)).toEqual([
+      0.3,
+      expect.closeTo(0.6, 9),
+      expect.closeTo(0.9, 9),
+      expect.closeTo(0.9, 9),
+    ])
+    expect(progress[progress.length - 1].status).toBe("COMPLETED")
+  })
+
+  it("should keep TWAP slices on the lot step and fold what is left into the last one", async () => {
+    // Slices fill as they are placed, so no slice depends on a status poll before its deadline
+    vi.spyOn(binanceOrderManager, "placeOrder").mockImplementation(async (symbol, side, type, quantity, options) => {
+      const orderId = 100 + placed.length
+      placed.push({ orderId, type, quantity, options: options ?? {} })
+      return { ...orderStatus(orderId, "FILLED", quantity, 100), transactTime: Date.now() }
+    })
+    vi.spyOn(orderNormalizer, "getSymbolFilters").mockResolvedValue({
+      symbol: "BTCUSDT",
+      price: null,
+      lotSize: { min: 0.001, max: 1000, step: "0.001" },
+      marketLotSize: { min: 0.002, max: 100, step: "0.001" },
+      minNotional: 0,
+    })
+
+    const twap = (quantity: number, slices: number) =>
+      executionAlgorithms.executeTwap({ symbol: "BTCUSDT", side: "BUY", quantity, durationMs: 0, slices })
+
+    // Even shares of 0.00333 are rounded down to the step; the last slice takes the remainder
+    const rounded = await twap(0.01, 3)
+    expect(placed.map(({ quantity }) => quantity)).toEqual([0.003, 0.003, expect.closeTo(0.004, 9)])
+    expect(rounded.status).toBe("COMPLETED")
+
+    // Shares below the market minimum are raised to it, and a rest too small for its own order joins the slice before
+    placed = []
+    const clamped = await twap(0.005, 4)
+    expect(placed.map(({ quantity }) => quantity)).toEqual([0.002, expect.closeTo(0.003, 9)])
+    expect(clamped).toMatchObject({ status: "COMPLETED", orderCount: 2 })
+  })
+
+  it("should show an iceberg one visible part at a time", async () => {
+    vi.spyOn(binanceOrderManager, "getOrderStatus").mockImplementation(async (symbol, options) =>
+      orderStatus(options.orderId!, "FILLED", placed.find((p) => p.orderId === options.orderId)!.quantity, 101),
+    )
+
+    const execution = await executionAlgorithms.executeIceberg({
+      symbol: "BTCUSDT",
+      side: "SELL",
+      quantity: 1,
+      price: 101,
+      visibleQuantity: 0.4,
+    })
+
+    expect(placed.map(({ quantity }) => quantity)).toEqual([0.4, 0.4, expect.closeTo(0.2, 9)])
+    expect(placed.every(({ type, options }) => type === "LIMIT" && options.price === 101)).toBe(true)
+    expect(execution.status).toBe("COMPLETED")
+    expect(execution.averagePrice).toBe(101)
+    // Selling one above the arrival mid saves one per unit
+    expect(execution.shortfall?.totalCost).toBeCloseTo(-1, 9)
+    expect(cancelled).toEqual([])
+  })
+
+  it("should keep iceberg parts on the lot step and above the minimum notional", async () => {
+    vi.spyOn(binanceOrderManager, "getOrderStatus").mockImplementation(async (symbol, options) =>
+      orderStatus(options.orderId!, "FILLED", placed.find((p) => p.orderId === options.orderId)!.quantity, 100),
+    )
+    vi.spyOn(orderNormalizer, "getSymbolFilters").mockResolvedValue({
+      symbol: "BTCUSDT",
+      price: null,
+      lotSize: { min: 0.001, max: 1000, step: "0.001" },
+      marketLotSize: null,
+      minNotional: 5,
+    })
+
+    // Parts of 0.0995 are rounded to 0.099; a 0.032 tail is under 5 USDT at 100, so it joins the last part
+    const execution = await executionAlgorithms.executeIceberg({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      quantity: 0.23,
+      price: 100,
+      visibleQuantity: 0.0995,
+    })
+
+    expect(placed.map(({ quantity }) => quantity)).toEqual([expect.closeTo(0.099, 9), expect.closeTo(0.131, 9)])
+    expect(execution).toMatchObject({ status: "COMPLETED", orderCount: 2 })
+    expect(execution.filledQuantity).toBeCloseTo(0.23, 9)
+  })
+
+  it("should re-price a post-only chase toward the best bid and stop at the timeout", async () => {
+    const statuses: Array<(orderId: number) => OrderStatus> = [
+      // The first order fills partly, then the bid moves up and the rest is re-posted at the limit price
+      (orderId) => {
+        bestBid = 100.2
+        return orderStatus(orderId, "PARTIALLY_FILLED", 0.4, 99.9)
+      },
+      (orderId) => orderStatus(orderId, "FILLED", 0.6, 100),
+    ]
+    vi.spyOn(binanceOrderManager, "getOrderStatus").mockImplementation(async (symbol, options) =>
+      statuses.shift()!(options.orderId!),
+    )
+    vi.spyOn(binanceOrderManager, "cancelOrder").mockImplementation(async (symbol, options) => {
+      cancelled.push(options.orderId!)
+      return orderStatus(options.orderId!, "CANCELED", 0.4, 99.9)
+    })
+
+    const execution = await executionAlgorithms.executeChase({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      quantity: 1,
+      timeoutMs: 1000,
+      limitPrice: 100,
+    })
+
+    expect(placed.map(({ quantity, options }) => [quantity, options.price, options.timeInForce])).toEqual([
+      [1, 99.9, "GTX"],
+      [expect.closeTo(0.6, 9), 100, "GTX"],
+    ])
+    expect(cancelled).toEqual([100])
+    expect(execution.status).toBe("COMPLETED")
+    expect(execution.averagePrice).toBeCloseTo(99.96, 9)
+
+    // An order that never fills is cancelled at the timeout and the rest is priced at the final mid
+    vi.spyOn(binanceOrderManager, "getOrderStatus").mockImplementation(async (symbol, options) =>
+      orderStatus(options.orderId!, "NEW", 0, 0),
+    )
+    vi.spyOn(binanceOrderManager, "cancelOrder").mockImplementation(async (symbol, options) => {
+      cancelled.push(options.orderId!)
+      bestAsk = 100.4
+      return orderStatus(options.orderId!, "CANCELED", 0, 0)
+    })
+
+    const expired = await executionAlgorithms.executeChase({
+      symbol: "BTCUSDT",
+      side: "BUY",
+      quantity: 1,
+      timeoutMs: 5,
+    })
+    expect(expired.status).toBe("EXPIRED")
+    expect(cancelled).toEqual([100, 102])
+    expect(expired.filledQuantity).toBe(0)
+    expect(expired.shortfall?.opportunityCost).toBeCloseTo(0.15, 9)
+  })
+})
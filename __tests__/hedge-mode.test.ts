@@ -0,0 +1,154 @@
+/**
+ * Hedge Mode Tests
+ *
+ * These tests verify that long and short legs of one symbol are tracked, sent and measured separately in hedge mode
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { riskManager } from "../lib/trading/risk-manager"
+import { PerformanceAnalytics, type Trade } from "../lib/trading/performance-analytics"
+import { binanceOrderManager } from "../lib/binance/binance-order-manager"
+import { binancePositionManager } from "../lib/binance/binance-position-manager"
+import { binanceApiClient } from "../lib/binance/binance-api-client"
+import { orderNormalizer } from "../lib/binance/order-normalizer"
+import { ApiError } from "../lib/error-handling/error-types"
+
+function trade(side: "BUY" | "SELL", pnl: number | null, positionSide?: Trade["positionSide"]): Omit<Trade, "id"> {
+  return {
+    symbol: "BTCUSDT",
+    side,
+    positionSide,
+    entryPrice: 65000,
+    exitPrice: pnl === null ? null : 65000 + pnl,
+    quantity: 1,
+    entryTime: 1000,
+    exitTime: pnl === null ? null : 2000,
+    pnl,
+    pnlPercent: null,
+    fees: pnl === null ? 0 : 1,
+    stopLoss: null,
+    takeProfit: null,
+    strategy: "test",
+    timeframe: "1m",
+    notes: "",
+    tags: [],
+  }
+}
+
+describe("RiskManager hedge mode legs", () => {
+  beforeEach(() => {
+    riskManager.getOpenPositions().forEach((position) => riskManager.releasePosition(position.symbol))
+    riskManager.updateParameters({ maxOpenPositions: 3, sectorExposureLimit: 1 })
+  })
+
+  it("should allow opposite legs of one symbol but not the same leg twice", () => {
+    expect(riskManager.reservePosition("BTCUSDT", "LONG", 1000, "LONG").allowed).toBe(true)
+    expect(riskManager.reservePosition("BTCUSDT", "SHORT", 1000, "SHORT").allowed).toBe(true)
+    expect(riskManager.reservePosition("BTCUSDT", "LONG", 1000, "LONG").reason).toContain("already open")
+    expect(riskManager.getOpenPositions()).toHaveLength(2)
+
+    // Closing one leg leaves the other registered
+    riskManager.recordTrade("BTCUSDT", Date.now() - 1000, Date.now(), 5, "LONG")
+    expect(riskManager.getOpenPositions().map((position) => position.positionSide)).toEqual(["SHORT"])
+  })
+
+  it("should block a leg while a one-way position is open on the symbol", () => {
+    riskManager.reservePosition("BTCUSDT", "LONG", 1000)
+
+    expect(riskManager.reservePosition("BTCUSDT", "SHORT", 1000, "SHORT").allowed).toBe(false)
+  })
+})
+
+describe("PerformanceAnalytics by leg", () => {
+  it("should measure the long and short legs of a symbol separately", () => {
+    const analytics = new PerformanceAnalytics(() => 1000)
+    analytics.recordTrade(trade("BUY", 10, "LONG"))
+    analytics.recordTrade(trade("BUY", -5, "LONG"))
+    analytics.recordTrade(trade("SELL", 8, "SHORT"))
+    analytics.recordTrade(trade("SELL", null, "SHORT"))
+
+    expect(analytics.getPerformanceByLeg()).toEqual([
+      {
+        symbol: "BTCUSDT",
+        leg: "LONG",
+        hedged: true,
+        trades: 2,
+        openTrades: 0,
+        winRate: 0.5,
+        profitFactor: 2,
+        netProfit: 5,
+        fees: 2,
+      },
+      {
+        symbol: "BTCUSDT",
+        leg: "SHORT",
+        hedged: true,
+        trades: 1,
+        openTrades: 1,
+        winRate: 1,
+        profitFactor: Number.POSITIVE_INFINITY,
+        netProfit: 8,
+        fees: 1,
+      },
+    ])
+  })
+})
+
+describe("Hedge mode orders", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.unstubAllGlobals()
+  })
+
+  it("should send the position side instead of reduceOnly for a hedge leg", async () => {
+    vi.spyOn(orderNormalizer, "normalize").mockImplementation(async (request) => ({
+      valid: true,
+      symbol: request.symbol,
+      quantity: request.quantity,
+      notional: null,
+      formatted: { quantity: String(request.quantity) },
+      adjustments: [],
+      violations: [],
+    }))
+    const request = vi.spyOn(binanceApiClient, "makeSignedRequest").mockResolvedValue({ orderId: 1 })
+
+    await binanceOrderManager.placeOrder("BTCUSDT", "SELL", "MARKET", 0.5, { reduceOnly: true, positionSide: "LONG" })
+    await binanceOrderManager.placeOrder("BTCUSDT", "SELL", "MARKET", 0.5, { reduceOnly: true, positionSide: "BOTH" })
+
+    expect(request.mock.calls[0][2]).toMatchObject({ positionSide: "LONG" })
+    expect(request.mock.calls[0][2]).not.toHaveProperty("reduceOnly")
+    expect(request.mock.calls[1][2]).toMatchObject({ positionSide: "BOTH", reduceOnly: true })
+    expect(request.mock.calls[0][3]).toEqual({ weight: 1 })
+  })
+
+  it("should treat switching to the current position mode as done", async () => {
+    vi.spyOn(binanceApiClient, "makeSignedRequest").mockRejectedValue(
+      new ApiError("No need to change position side.", { code: "BINANCE_ERROR_-4059" }),
+    )
+
+    await binancePositionManager.setHedgeMode(true)
+    expect(await binancePositionManager.isHedgeMode()).toBe(true)
+
+    vi.spyOn(binanceApiClient, "makeSignedRequest").mockRejectedValue(
+      new ApiError("Position side cannot be changed if there exists position.", { code: "BINANCE_ERROR_-4068" }),
+    )
+    await expect(binancePositionManager.setHedgeMode(false)).rejects.toThrow("exists position")
+  })
+
+  it("should read the Binance error code from a rejected position mode change", async () => {
+    const rejection = (code: number, msg: string) => new Response(JSON.stringify({ code, msg }), { status: 400 })
+    const fetch = vi.fn(async (_input: RequestInfo | URL, _init?: RequestInit) =>
+      rejection(-4059, "No need to change position side."),
+    )
+    vi.stubGlobal("fetch", fetch)
+
+    await binancePositionManager.setHedgeMode(false)
+    expect(await binancePositionManager.isHedgeMode()).toBe(false)
+    expect(String(fetch.mock.calls[0][0])).toContain("/positionSide/dual?dualSidePosition=false")
+
+    fetch.mockResolvedValue(rejection(-4068, "Position side cannot be changed if there exists position."))
+    await expect(binancePositionManager.setHedgeMode(true)).rejects.toMatchObject({
+      code: "BINANCE_ERROR_-4068",
+      context: expect.objectContaining({ status: 400, errorCode: -4068 }),
+    })
+  })
+})
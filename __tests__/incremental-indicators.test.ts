@@ -0,0 +1,94 @@
+/**
+ * Incremental Indicator Tests
+ *
+ * These tests verify that streaming indicators match the batch calculations and handle in-progress candle revisions
+ */
+import { describe, it, expect } from "vitest"
+import {
+  IncrementalEMA,
+  IncrementalMACD,
+  IncrementalRSI,
+  IncrementalSMA,
+  IncrementalVWAP,
+} from "../lib/indicators/incremental-indicators"
+import { calculateEMA, calculateMACD, calculateSMA, calculateVWAP } from "../lib/indicators/technical-indicators"
+
+const closes = Array.from({ length: 120 }, (_, i) => 100 + Math.sin(i / 5) * 4 + (i % 7) * 0.3)
+const highs = closes.map((close) => close + 0.8)
+const lows = closes.map((close) => close - 0.6)
+const volumes = closes.map((_, i) => 10 + (i % 5) * 3)
+
+// Batch results hold NaN during warm-up where the incremental indicators return null
+function expectSeries(actual: Array<number | null>, expected: number[]) {
+  expect(expected).toHaveLength(actual.length)
+  actual.forEach((value, i) => {
+    if (Number.isNaN(expected[i])) {
+      expect(value).toBeNull()
+    } else {
+      expect(value).toBeCloseTo(expected[i], 9)
+    }
+  })
+}
+
+describe("Incremental indicators", () => {
+  it("should match the batch EMA, SMA, MACD and VWAP", () => {
+    const ema = new IncrementalEMA(9)
+    const sma = new IncrementalSMA(20)
+    const macd = new IncrementalMACD(12, 26, 9)
+    const vwap = new IncrementalVWAP(20)
+
+    expectSeries(closes.map((close) => ema.add(close)), calculateEMA(closes, 9))
+    expectSeries(closes.map((close) => sma.add(close)), calculateSMA(closes, 20))
+
+    const streamed = closes.map((close) => macd.add(close))
+    const batch = calculateMACD(closes, 12, 26, 9)
+    expectSeries(streamed.map((value) => value?.macd ?? null), batch.macd)
+    expectSeries(streamed.map((value) => value?.signal ?? null), batch.signal)
+    expectSeries(streamed.map((value) => value?.histogram ?? null), batch.histogram)
+
+    const candles = closes.map((close, i) => ({ high: highs[i], low: lows[i], close, volume: volumes[i] }))
+    expectSeries(candles.map((candle) => vwap.add(candle)), calculateVWAP(highs, lows, closes, volumes, 20))
+  })
+
+  it("should compute RSI with Wilder smoothing", () => {
+    const rsi = new IncrementalRSI(3)
+    const values = [10, 11, 12, 11, 13].map((price) => rsi.add(price))
+
+    // Seed averages over the first three changes: gain 2/3, loss 1/3, then one smoothed step with a gain of 2
+    expect(values.slice(0, 3)).toEqual([null, null, null])
+    expect(values[3]).toBeCloseTo(100 - 100 / (1 + 2), 9)
+    expect(values[4]).toBeCloseTo(100 - 100 / (1 + (4 / 9 + 2 / 3) / (2 / 9)), 9)
+
+    const rising = new IncrementalRSI(3)
+    ;[1, 2, 3, 4].forEach((price) => rising.add(price))
+    expect(rising.getValue()).toBe(100)
+  })
+
+  it("should revise the in-progress candle without drifting", () => {
+    const revised = new IncrementalMACD(12, 26, 9)
+    const direct = new IncrementalMACD(12, 26, 9)
+    const rsiRevised = new IncrementalRSI(14)
+    const rsiDirect = new IncrementalRSI(14)
+
+    closes.forEach((close) => {
+      // Every candle receives a few ticks before it closes
+      revised.add(close - 1)
+      revised.revise(close + 2)
+      revised.revise(close)
+      rsiRevised.add(close + 3)
+      rsiRevised.revise(close)
+
+      direct.add(close)
+      rsiDirect.add(close)
+    })
+
+    expect(revised.getValue()).not.toBeNull()
+    expect(revised.getValue()!.histogram).toBeCloseTo(direct.getValue()!.histogram!, 9)
+    expect(revised.getValue()!.signal).toBeCloseTo(direct.getValue()!.signal!, 9)
+    expect(rsiRevised.getValue()).toBeCloseTo(rsiDirect.getValue()!, 9)
+
+    revised.reset()
+    expect(revised.getValue()).toBeNull()
+    expect(revised.add(100)).toBeNull()
+  })
+})
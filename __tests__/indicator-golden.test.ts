@@ -0,0 +1,203 @@
+/**
+ * Indicator Golden Value Tests
+ *
+ * These tests check every indicator against reference values: the published StockCharts RSI example and values
+ * computed independently from the textbook definitions (Wilder smoothing, SMA-seeded EMAs, population standard
+ * deviation) for a fixed OHLCV series
+ */
+import { describe, it, expect } from "vitest"
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateCCI,
+  calculateDMI,
+  calculateEMA,
+  calculateFibonacciLevels,
+  calculateIchimoku,
+  calculateMACD,
+  calculateOBV,
+  calculateParabolicSAR,
+  calculatePivotPoints,
+  calculateROC,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateVWAP,
+  calculateWilliamsR,
+  IncrementalATR,
+  IncrementalEMA,
+  IncrementalMACD,
+  IncrementalRSI,
+  IncrementalSMA,
+  IncrementalVWAP,
+  memoizedEMA,
+  memoizedMACD,
+} from "../lib/indicators"
+
+const closes = [
+  100, 101.99, 103.75, 105.1, 105.92, 106.22, 106.09, 105.7, 105.23, 104.88, 104.77, 104.94, 105.34, 105.82, 106.21,
+  106.31, 105.97, 105.12, 103.79, 102.11, 100.26, 98.49, 97.02, 96.01, 95.56, 95.64, 96.14, 96.87, 97.63, 98.26,
+  98.62, 98.71, 98.59, 98.39, 98.32, 98.55, 99.22, 100.38, 101.97, 103.86, 105.84, 107.67, 109.13, 110.07, 110.45,
+  110.29, 109.75, 109, 108.25, 107.68, 107.38, 107.37, 107.56, 107.8, 107.89, 107.67, 107.03, 105.92, 104.42, 102.69,
+]
+
+const highs = [
+  100.4, 102.54, 104.45, 105.95, 106.32, 106.77, 106.79, 106.55, 105.63, 105.43, 105.47, 105.79, 105.74, 106.37,
+  106.91, 107.16, 106.37, 105.67, 104.49, 102.96, 100.66, 99.04, 97.72, 96.86, 95.96, 96.19, 96.84, 97.72, 98.03,
+  98.81, 99.32, 99.56, 98.99, 98.94, 99.02, 99.4, 99.62, 100.93, 102.67, 104.71, 106.24, 108.22, 109.83, 110.92,
+  110.85, 110.84, 110.45, 109.85, 108.65, 108.23, 108.08, 108.22, 107.96, 108.35, 108.59, 108.52, 107.43, 106.47,
+  105.12, 103.54,
+]
+
+const lows = [
+  99.5, 101.29, 102.85, 104.6, 105.22, 105.32, 105.59, 105, 104.33, 104.38, 104.07, 104.04, 104.84, 105.12, 105.31,
+  105.81, 105.27, 104.22, 103.29, 101.41, 99.36, 97.99, 96.32, 95.11, 95.06, 94.94, 95.24, 96.37, 96.93, 97.36,
+  98.12, 98.01, 97.69, 97.89, 97.62, 97.65, 98.72, 99.68, 101.07, 103.36, 105.14, 106.77, 108.63, 109.37, 109.55,
+  109.79, 109.05, 108.1, 107.75, 106.98, 106.48, 106.87, 106.86, 106.9, 107.39, 106.97, 106.13, 105.42, 103.72,
+  101.79,
+]
+
+const volumes = [
+  1000, 1360, 1720, 1090, 1450, 1810, 1180, 1540, 1900, 1270, 1630, 1000, 1360, 1720, 1090, 1450, 1810, 1180, 1540,
+  1900, 1270, 1630, 1000, 1360, 1720, 1090, 1450, 1810, 1180, 1540, 1900, 1270, 1630, 1000, 1360, 1720, 1090, 1450,
+  1810, 1180, 1540, 1900, 1270, 1630, 1000, 1360, 1720, 1090, 1450, 1810, 1180, 1540, 1900, 1270, 1630, 1000, 1360,
+  1720, 1090, 1450,
+]
+
+const macd = calculateMACD(closes, 12, 26, 9)
+const bands = calculateBollingerBands(closes, 20, 2)
+const stochastic = calculateStochastic(highs, lows, closes, 14, 3)
+const ichimoku = calculateIchimoku(highs, lows, 9, 26, 52, 26)
+const dmi = calculateDMI(highs, lows, closes, 14)
+
+// Indicator, its series, the first index with a value and reference values by index
+const GOLDEN: Array<[string, number[], number, Record<number, number>]> = [
+  ["SMA(10)", calculateSMA(closes, 10), 9, { 9: 104.488, 34: 97.717, 59: 106.573 }],
+  ["EMA(10)", calculateEMA(closes, 10), 9, { 9: 104.488, 34: 98.357465, 59: 106.001424 }],
+  ["RSI(14)", calculateRSI(closes, 14), 14, { 14: 84.083425, 36: 51.216146, 59: 36.226801 }],
+  ["MACD(12, 26, 9) line", macd.macd, 25, { 25: -3.37778, 42: 0.961706, 59: 0.416203 }],
+  ["MACD(12, 26, 9) signal", macd.signal, 33, { 33: -2.891201, 46: 0.920869, 59: 1.149087 }],
+  ["MACD(12, 26, 9) histogram", macd.histogram, 33, { 33: 0.716256, 46: 1.345946, 59: -0.732884 }],
+  ["VWAP(10)", calculateVWAP(highs, lows, closes, volumes, 10), 9, { 9: 104.613936, 34: 97.733886, 59: 106.578482 }],
+  ["ATR(14)", calculateATR(highs, lows, closes, 14), 14, { 14: 1.567143, 36: 1.50514, 59: 1.662836 }],
+  ["Bollinger(20, 2) upper", bands.upper, 19, { 19: 108.030587, 39: 102.478518, 59: 111.470328 }],
+  ["Bollinger(20, 2) middle", bands.middle, 19, { 19: 104.763, 39: 98.4245, 59: 107.693 }],
+  ["Bollinger(20, 2) lower", bands.lower, 19, { 19: 101.495413, 39: 94.370482, 59: 103.915672 }],
+  ["Stochastic(14, 3) %K", stochastic.k, 13, { 13: 86.694102, 36: 91.452991, 59: 10.39261 }],
+  ["Stochastic(14, 3) %D", stochastic.d, 15, { 15: 84.839003, 37: 86.803183, 59: 9.810725 }],
+  ["OBV", calculateOBV(closes, volumes), 0, { 0: 0, 29: 190, 59: 1990 }],
+  ["Ichimoku conversion line", ichimoku.conversionLine, 8, { 8: 103.145, 33: 97.25, 59: 105.19 }],
+  ["Ichimoku base line", ichimoku.baseLine, 25, { 25: 101.05, 42: 102.385, 59: 104.27 }],
+  ["Ichimoku leading span A", ichimoku.leadingSpanA, 25, { 25: 100.6775, 42: 103.055, 59: 104.73 }],
+  ["Ichimoku leading span B", ichimoku.leadingSpanB, 51, { 51: 102.93, 55: 102.93, 59: 102.93 }],
+  [
+    "Parabolic SAR(0.02, 0.2)",
+    calculateParabolicSAR(highs, lows, 0.02, 0.2),
+    1,
+    { 1: 99.5, 30: 95.0174, 59: 108.15537 },
+  ],
+  ["ROC(10)", calculateROC(closes, 10), 10, { 10: 4.77, 34: 2.888238, 59: -4.634101 }],
+  ["CCI(20)", calculateCCI(highs, lows, closes, 20), 19, { 19: -142.222222, 39: 257.984188, 59: -245.214116 }],
+  [
+    "Williams %R(14)",
+    calculateWilliamsR(highs, lows, closes, 14),
+    13,
+    { 13: -13.305898, 36: -8.547009, 59: -89.60739 },
+  ],
+  ["DMI(14) +DI", dmi.plusDI, 14, { 14: 35.916135, 36: 19.744032, 59: 17.278281 }],
+  ["DMI(14) -DI", dmi.minusDI, 14, { 14: 7.15588, 36: 19.396266, 59: 31.384106 }],
+  ["DMI(14) ADX", dmi.adx, 27, { 27: 35.158306, 43: 31.586469, 59: 28.424674 }],
+]
+
+describe("Indicator golden values", () => {
+  it.each(GOLDEN)("%s", (_, values, firstValid, expected) => {
+    expect(values).toHaveLength(closes.length)
+    expect(values.slice(0, firstValid).every(Number.isNaN)).toBe(true)
+    expect(Number.isFinite(values[firstValid])).toBe(true)
+
+    for (const [index, value] of Object.entries(expected)) {
+      expect(values[Number(index)]).toBeCloseTo(value, 5)
+    }
+  })
+
+  it("should reproduce the StockCharts RSI example", () => {
+    const prices = [
+      44.3389, 44.0902, 44.1497, 43.6124, 44.3278, 44.8264, 45.0955, 45.4245, 45.8433, 46.0826, 45.8931, 46.0328,
+      45.614, 46.282, 46.282, 46.0028, 46.0328, 46.4116, 46.2222, 45.6439, 46.2122, 46.2521, 45.7137, 46.4515,
+      45.7835, 45.3548, 44.0288, 44.1783, 44.2181, 44.5672, 43.4205, 42.6628, 43.1314,
+    ]
+    const published = [
+      70.53, 66.32, 66.55, 69.41, 66.36, 57.97, 62.93, 63.26, 56.06, 62.38, 54.71, 50.42, 39.99, 41.46, 41.87, 45.46,
+      37.3, 33.08, 37.77,
+    ]
+
+    const rsi = calculateRSI(prices, 14)
+    published.forEach((value, i) => expect(rsi[14 + i]).toBeCloseTo(value, 2))
+  })
+
+  it("should calculate pivot points and Fibonacci levels", () => {
+    expect(calculatePivotPoints(110, 100, 105)).toEqual({
+      pivot: 105,
+      r1: 110,
+      r2: 115,
+      r3: 120,
+      s1: 100,
+      s2: 95,
+      s3: 90,
+    })
+    expect(calculateFibonacciLevels(200, 100)).toMatchObject({ level0: 100, level50: 150, level100: 200 })
+    expect(calculateFibonacciLevels(200, 100).level618).toBeCloseTo(161.8, 9)
+  })
+})
+
+describe("Indicator variants", () => {
+  it("should stream the same values as the batch indicators", () => {
+    const streams = {
+      sma: new IncrementalSMA(10),
+      ema: new IncrementalEMA(10),
+      rsi: new IncrementalRSI(14),
+      macd: new IncrementalMACD(12, 26, 9),
+      vwap: new IncrementalVWAP(10),
+      atr: new IncrementalATR(14),
+    }
+    const batch = {
+      sma: calculateSMA(closes, 10),
+      ema: calculateEMA(closes, 10),
+      rsi: calculateRSI(closes, 14),
+      vwap: calculateVWAP(highs, lows, closes, volumes, 10),
+      atr: calculateATR(highs, lows, closes, 14),
+      macdHistogram: macd.histogram,
+    }
+
+    closes.forEach((close, i) => {
+      const candle = { high: highs[i], low: lows[i], close, volume: volumes[i] }
+      const streamed = {
+        sma: streams.sma.add(close),
+        ema: streams.ema.add(close),
+        rsi: streams.rsi.add(close),
+        vwap: streams.vwap.add(candle),
+        atr: streams.atr.add(candle),
+        macdHistogram: streams.macd.add(close)?.histogram ?? null,
+      }
+
+      for (const [name, value] of Object.entries(streamed)) {
+        const expected = batch[name as keyof typeof batch][i]
+        if (Number.isNaN(expected)) {
+          expect(value).toBeNull()
+        } else {
+          expect(value).toBeCloseTo(expected, 9)
+        }
+      }
+    })
+  })
+
+  it("should only share memoized results between identical series", () => {
+    expect(memoizedEMA(closes, 10)).toEqual(calculateEMA(closes, 10))
+    expect(memoizedMACD(closes)).toBe(memoizedMACD([...closes]))
+
+    // Same length, first and last value, different middle
+    const changed = [...closes]
+    changed[30] += 1
+    expect(memoizedEMA(changed, 10)[30]).not.toBeCloseTo(memoizedEMA(closes, 10)[30], 6)
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Kline History Tests
+ *
+ * These tests verify gap detection, paginated downloads, the columnar on-disk kline store and the series it accepts
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
+import os from "os"
+import path from "path"
+import { mkdtemp, readdir, rm } from "fs/promises"
+import { ColumnarKlineStore } from "../lib/market/history/columnar-kline-store"
+import { KlineDownloader, findKlineGaps } from "../lib/market/history/kline-downloader"
+import type { KlinePageFetcher } from "../lib/market/history/kline-downloader"
+import type { Kline } from "../lib/types/market-types"
+
+// Pages come from the fake exchange below, never from the API client
+vi.mock("../lib/binance/binance-api-client", () => ({ binanceApiClient: {} }))
+
+const HOUR = 60 * 60 * 1000
+const START = Date.UTC(2024, 0, 31, 20)
+
+function kline(openTime: number): Kline {
+  return {
+    openTime,
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100.5,
+    volume: 10,
+    closeTime: openTime + HOUR - 1,
+    quoteVolume: 1005,
+    trades: 5,
+    takerBuyBaseAssetVolume: 6,
+    takerBuyQuoteAssetVolume: 603,
+  }
+}
+
+// Serves raw /klines rows for every hour, a few rows per page
+function createExchange(pageSize: number) {
+  const requests: Array<{ startTime: number; endTime: number }> = []
+  const fetchPage: KlinePageFetcher = async ({ startTime, endTime }) => {
+    requests.push({ startTime, endTime })
+    const rows: unknown[] = []
+    for (let openTime = startTime; openTime <= endTime && rows.length < pageSize; openTime += HOUR) {
+      const k = kline(openTime)
+      rows.push([k.openTime, "100", "101", "99", "100.5", "10", k.closeTime, "1005", 5, "6", "603"])
+    }
+    return rows
+  }
+  return { requests, fetchPage }
+}
+
+describe("findKlineGaps", () => {
+  it("should report missing candles between stored ones", () => {
+    const stored = [kline(START), kline(START + HOUR), kline(START + 4 * HOUR)]
+
+    expect(findKlineGaps(stored, "1h", START, START + 6 * HOUR)).toEqual([
+      { startTime: START + 2 * HOUR, endTime: START + 3 * HOUR },
+      { startTime: START + 5 * HOUR, endTime: START + 6 * HOUR },
+    ])
+    expect(findKlineGaps(stored, "1h", START, START + HOUR)).toEqual([])
+  })
+})
+
+describe("KlineDownloader", () => {
+  let rootDir: string
+
+  beforeEach(async () => {
+    rootDir = await mkdtemp(path.join(os.tmpdir(), "kline-store-"))
+  })
+
+  afterEach(async () => {
+    await rm(rootDir, { recursive: true, force: true })
+  })
+
+  it("should page through gaps and store candles by month", async () => {
+    const store = new ColumnarKlineStore(rootDir)
+    const exchange = createExchange(3)
+    const downloader = new KlineDownloader(store, exchange.fetchPage)
+
+    // Eight hours across the January/February boundary
+    const endTime = START + 7 * HOUR
+    const result = await downloader.download("btcusdt", "1h", START, endTime)
+
+    expect(result).toMatchObject({ symbol: "BTCUSDT", downloaded: 8, pages: 3 })
+    expect(exchange.requests.map((request) => request.startTime)).toEqual([START, START + 3 * HOUR, START + 6 * HOUR])
+    expect(await readdir(path.join(rootDir, "BTCUSDT", "1h"))).toEqual(["2024-01.json", "2024-02.json"])
+
+    const klines = await store.getKlines("BTCUSDT", "1h", START, endTime)
+    expect(klines).toHaveLength(8)
+    expect(klines[7]).toEqual(kline(endTime))
+
+    // A second download only fetches what is missing
+    const again = await downloader.download("BTCUSDT", "1h", START, endTime + 2 * HOUR)
+    expect(again).toMatchObject({ downloaded: 2, pages: 1 })
+    expect(exchange.requests[3].startTime).toBe(endTime + HOUR)
+  })
+
+  it("should refuse series that are not exchange symbols and intervals", async () => {
+    const store = new ColumnarKlineStore(rootDir)
+
+    await expect(store.getKlines("../../etc", "1h", START, START + HOUR)).rejects.toThrow("Invalid kline symbol")
+    await expect(store.saveKlines("BTCUSDT", "../1h", [kline(START)])).rejects.toThrow("Unsupported kline interval")
+    expect(await readdir(rootDir)).toEqual([])
+  })
+})
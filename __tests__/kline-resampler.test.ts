@@ -0,0 +1,114 @@
+/**
+ * Kline Resampler Tests
+ *
+ * These tests verify timeframe parsing, resampling of 1m klines and trades, and live multi-timeframe updates
+ */
+import { describe, it, expect } from "vitest"
+import { KlineResampler, getCandleOpenTime, parseTimeframe, resampleKlines } from "../lib/market/kline-resampler"
+import type { Kline } from "../lib/types/market-types"
+
+const MINUTE = 60 * 1000
+// A Monday at 00:00 UTC, so every bucket in these tests starts at a round time
+const START = Date.UTC(2024, 0, 1)
+
+function minute(index: number, close: number, volume = 1): Kline {
+  const open = close - 1
+  return {
+    openTime: START + index * MINUTE,
+    open,
+    high: close + 1,
+    low: open - 1,
+    close,
+    volume,
+    closeTime: START + (index + 1) * MINUTE - 1,
+    quoteVolume: volume * close,
+    trades: 1,
+    takerBuyBaseAssetVolume: volume / 2,
+    takerBuyQuoteAssetVolume: (volume / 2) * close,
+  }
+}
+
+describe("timeframes", () => {
+  it("should parse exchange and custom timeframes and align buckets", () => {
+    expect(parseTimeframe("2m")).toBe(2 * MINUTE)
+    expect(parseTimeframe("10m")).toBe(10 * MINUTE)
+    expect(parseTimeframe("3h")).toBe(180 * MINUTE)
+    expect(() => parseTimeframe("1M")).toThrow()
+
+    expect(getCandleOpenTime(START + 7 * MINUTE, parseTimeframe("10m"))).toBe(START)
+    // Weekly candles open on Monday even though the epoch is a Thursday
+    expect(getCandleOpenTime(START + 3 * 24 * 60 * MINUTE, parseTimeframe("1w"))).toBe(START)
+  })
+})
+
+describe("resampleKlines", () => {
+  it("should aggregate OHLCV into the target timeframe", () => {
+    const klines = [minute(0, 100), minute(1, 105, 2), minute(2, 98), minute(3, 101)]
+    const resampled = resampleKlines(klines, "2m")
+
+    expect(resampled).toHaveLength(2)
+    expect(resampled[0]).toMatchObject({
+      openTime: START,
+      closeTime: START + 2 * MINUTE - 1,
+      open: 99,
+      high: 106,
+      low: 98,
+      close: 105,
+      volume: 3,
+      trades: 2,
+    })
+    expect(resampled[1]).toMatchObject({ open: 97, high: 102, low: 96, close: 101 })
+  })
+})
+
+describe("KlineResampler", () => {
+  it("should keep in-progress candles of every timeframe consistent", () => {
+    const resampler = new KlineResampler(["2m", "10m"])
+    resampler.loadKlines([minute(0, 100), minute(1, 102)])
+
+    const updates: Array<{ timeframe: string; close: number; isClosed: boolean }> = []
+    resampler.subscribe("2m", ({ timeframe, kline, isClosed }) => {
+      updates.push({ timeframe, close: kline.close, isClosed })
+    })
+
+    // Two ticks of the same forming minute revise the candle instead of adding volume twice
+    resampler.addKline(minute(2, 103))
+    resampler.addKline(minute(2, 104, 3))
+
+    expect(updates).toEqual([
+      { timeframe: "2m", close: 102, isClosed: true },
+      { timeframe: "2m", close: 103, isClosed: false },
+      { timeframe: "2m", close: 104, isClosed: false },
+    ])
+
+    const tenMinute = resampler.getCurrentKline("10m")
+    expect(tenMinute).toMatchObject({ openTime: START, open: 99, close: 104, volume: 5, high: 105 })
+    expect(resampler.getCurrentKline("2m")).toMatchObject({ openTime: START + 2 * MINUTE, volume: 3 })
+
+    // A timeframe added later is backfilled from the finest view that divides it
+    resampler.addTimeframe("4m")
+    resampler.addKline(minute(3, 101))
+    const minutes = [minute(0, 100), minute(1, 102), minute(2, 104, 3), minute(3, 101)]
+    expect(resampler.getKlines("4m")).toEqual(resampleKlines(minutes, "4m"))
+  })
+
+  it("should build candles from raw trades", () => {
+    const resampler = new KlineResampler(["1m", "3m"])
+
+    resampler.addTrade({ id: 1, price: 100, quantity: 1, time: START + 1000, isBuyerMaker: false })
+    resampler.addTrade({ id: 2, price: 102, quantity: 2, time: START + 2000, isBuyerMaker: true })
+    resampler.addTrade({ id: 3, price: 99, quantity: 1, time: START + MINUTE + 1000, isBuyerMaker: false })
+
+    expect(resampler.getKlines("1m")).toHaveLength(2)
+    expect(resampler.getKlines("1m")[0]).toMatchObject({
+      open: 100,
+      high: 102,
+      low: 100,
+      close: 102,
+      volume: 3,
+      trades: 2,
+      takerBuyBaseAssetVolume: 1,
+    })
+    expect(resampler.getCurrentKline("3m")).toMatchObject({ open: 100, high: 102, low: 99, close: 99, volume: 4 })
+  })
+})
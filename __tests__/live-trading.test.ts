@@ -0,0 +1,255 @@
+/**
+ * Live Trading Tests
+ *
+ * These tests run a live-mode TradingService against the local futures simulator, through the same REST API, market
+ * streams and user data stream it uses on Binance
+ */
+import { describe, it, expect, beforeAll, afterAll } from "vitest"
+import { BinanceFuturesSimulator } from "../lib/testing/exchange-simulator"
+import type { parseBracketClientOrderId } from "../lib/binance/bracket-order-manager"
+import type { ExecutionAlgorithms } from "../lib/binance/execution-algorithms"
+import type { TradingService, TradingServiceConfig } from "../lib/trading/trading-service"
+import type { BaseStrategyParameters, Strategy, StrategySignal } from "../lib/trading/strategies/strategy"
+
+const API_KEY = "simulator-api-key"
+const API_SECRET = "simulator-api-secret"
+const PRICE = 50000
+
+// Signal the scripted strategy gives on every candle update until the test changes it
+let scriptedAction: StrategySignal["action"] = "NONE"
+
+class ScriptedStrategy implements Strategy {
+  private parameters: BaseStrategyParameters = {
+    symbol: "BTCUSDT",
+    interval: "1m",
+    takeProfitPercent: 0.02,
+    stopLossPercent: 0.01,
+    maxHoldingTimeMinutes: 60,
+    maxTradesPerHour: 10,
+    leverageMultiplier: 1,
+  }
+
+  public calculateSignals(klines: Parameters<Strategy["calculateSignals"]>[0]): StrategySignal[] {
+    const latest = klines[klines.length - 1]
+    return [
+      {
+        action: scriptedAction,
+        price: latest.close,
+        timestamp: latest.openTime,
+        strength: 1,
+        reason: "Scripted",
+        stopLoss: null,
+        takeProfit: null,
+        indicators: {},
+      },
+    ]
+  }
+
+  public getParameters(): BaseStrategyParameters {
+    return this.parameters
+  }
+
+  public updateParameters(params: Partial<BaseStrategyParameters>): void {
+    this.parameters = { ...this.parameters, ...params }
+  }
+
+  public reset(): void {}
+
+  public getParameterSchema() {
+    return []
+  }
+}
+
+describe("Live TradingService", () => {
+  const simulator = new BinanceFuturesSimulator({ apiKey: API_KEY, apiSecret: API_SECRET })
+  let createService: (config: Partial<TradingServiceConfig>) => TradingService
+  let stopStreams: () => Promise<void>
+  let parseClientOrderId: typeof parseBracketClientOrderId
+  let algorithms: ExecutionAlgorithms
+
+  // Print trades at one price until the service reacts, so stream connection delays do not matter
+  async function tradeUntil(condition: () => boolean, price = PRICE, timeout = 10000): Promise<void> {
+    const deadline = Date.now() + timeout
+    while (!condition()) {
+      if (Date.now() > deadline) {
+        throw new Error("Timed out waiting for the trading service")
+      }
+      simulator.trade("BTCUSDT", price, 0.001)
+      await new Promise((resolve) => setTimeout(resolve, 50))
+    }
+  }
+
+  beforeAll(async () => {
+    const urls = await simulator.start()
+
+    // Clients read their environment when first imported
+    process.env.BINANCE_API_BASE_URL = urls.restUrl
+    process.env.BINANCE_WS_BASE_URL = urls.wsUrl
+    process.env.BINANCE_API_KEY = API_KEY
+    process.env.BINANCE_API_SECRET = API_SECRET
+
+    const { TradingService } = await import("../lib/trading/trading-service")
+    const { strategyRegistry } = await import("../lib/trading/strategies/strategy-registry")
+    const { binanceUserDataStream } = await import("../lib/binance/user-data-stream")
+    const bracketOrders = await import("../lib/binance/bracket-order-manager")
+    const { executionAlgorithms } = await import("../lib/binance/execution-algorithms")
+
+    strategyRegistry.register({
+      name: "SCRIPTED",
+      label: "Scripted",
+      description: "Signals set by the test",
+      parameterSchema: [],
+      create: () => new ScriptedStrategy(),
+    })
+    createService = (config) =>
+      new TradingService({
+        symbol: "BTCUSDT",
+        timeframe: "1m",
+        strategyType: "SCRIPTED",
+        paperTrading: false,
+        enableRiskManagement: false,
+        enableMarketRegimeDetection: false,
+        enablePerformanceTracking: false,
+        ...config,
+      })
+    stopStreams = () => binanceUserDataStream.stop()
+    parseClientOrderId = bracketOrders.parseBracketClientOrderId
+    algorithms = executionAlgorithms
+  })
+
+  afterAll(async () => {
+    await stopStreams()
+    await simulator.stop()
+  })
+
+  it("should open and close a LONG and a SHORT leg of one symbol in hedge mode", async () => {
+    const { engine } = simulator
+    const service = createService({ hedgeMode: true })
+
+    expect(await service.start()).toBe(true)
+    expect(engine.isHedgeMode()).toBe(true)
+
+    const leg = (side: "LONG" | "SHORT") => service.getState().positions.find((position) => position.type === side)
+    const legOrders = (side: "LONG" | "SHORT") => engine.getOpenOrders("BTCUSDT").filter((o) => o.positionSide === side)
+
+    scriptedAction = "BUY"
+    await tradeUntil(() => Boolean(leg("LONG")?.bracketId))
+    scriptedAction = "SELL"
+    await tradeUntil(() => Boolean(leg("SHORT")?.bracketId))
+
+    const quantity = leg("LONG")!.quantity
+    expect(engine.getPosition("BTCUSDT", "LONG").amount).toBeCloseTo(quantity, 9)
+    expect(engine.getPosition("BTCUSDT", "SHORT").amount).toBeCloseTo(-leg("SHORT")!.quantity, 9)
+    expect(legOrders("LONG").map((order) => [order.type, order.side])).toEqual([
+      ["STOP_MARKET", "SELL"],
+      ["TAKE_PROFIT_MARKET", "SELL"],
+    ])
+    expect(legOrders("SHORT").map((order) => [order.type, order.side])).toEqual([
+      ["STOP_MARKET", "BUY"],
+      ["TAKE_PROFIT_MARKET", "BUY"],
+    ])
+
+    // Closing the long leg leaves the short leg and its exits in place
+    scriptedAction = "CLOSE_LONG"
+    await tradeUntil(() => !leg("LONG") && legOrders("LONG").length === 0)
+    expect(engine.getPosition("BTCUSDT", "LONG").amount).toBe(0)
+    expect(legOrders("SHORT")).toHaveLength(2)
+
+    scriptedAction = "CLOSE_SHORT"
+    await tradeUntil(() => !leg("SHORT") && legOrders("SHORT").length === 0)
+    expect(engine.getPosition("BTCUSDT", "SHORT").amount).toBe(0)
+    scriptedAction = "NONE"
+
+    // Both round trips are settled from their fills, so the P&L matches the wallet including every commission
+    const { pnl } = service.getState()
+    expect(pnl.winCount + pnl.lossCount).toBe(2)
+    expect(pnl.totalPnl).toBeCloseTo(engine.getBalances().walletBalance - 10000, 6)
+
+    service.stop()
+  })
+
+  it("should enter on a signal from the kline stream and leave through its bracket", async () => {
+    const { engine } = simulator
+    const service = createService({ hedgeMode: false })
+
+    expect(await service.start()).toBe(true)
+    expect(engine.isHedgeMode()).toBe(false)
+
+    scriptedAction = "BUY"
+    await tradeUntil(() => Boolean(service.getState().activePosition?.bracketId))
+    scriptedAction = "NONE"
+
+    const position = service.getState().activePosition!
+    const entry = engine.getOrder("BTCUSDT", Number(position.orderId))
+    expect(entry).toMatchObject({ side: "BUY", type: "MARKET", status: "FILLED", positionSide: "BOTH" })
+    expect(engine.getPosition("BTCUSDT").amount).toBeCloseTo(position.quantity, 9)
+    expect(position.entryPrice).toBe(entry.cumQuote / entry.executedQty)
+
+    // Both exits rest on the exchange as reduce-only orders of the bracket, at the default 1% stop and 2% target
+    const exits = engine.getOpenOrders("BTCUSDT")
+    expect(exits.map((order) => [order.type, order.side, order.stopPrice, order.quantity, order.reduceOnly])).toEqual([
+      ["STOP_MARKET", "SELL", PRICE * 0.99, position.quantity, true],
+      ["TAKE_PROFIT_MARKET", "SELL", PRICE * 1.02, position.quantity, true],
+    ])
+    expect(exits.map((order) => parseClientOrderId(order.clientOrderId)?.bracketId)).toEqual([
+      position.bracketId,
+      position.bracketId,
+    ])
+
+    // Trading through the stop fills it; the bracket cancels the target and the service closes the position
+    await tradeUntil(() => service.getState().activePosition === null, PRICE * 0.985)
+    expect(engine.getOrder("BTCUSDT", exits[0].orderId).status).toBe("FILLED")
+    await tradeUntil(() => engine.getOpenOrders("BTCUSDT").length === 0, PRICE * 0.985)
+    expect(engine.getOrder("BTCUSDT", exits[1].orderId).status).toBe("CANCELED")
+    expect(engine.getPosition("BTCUSDT").amount).toBe(0)
+    expect(service.getState().pnl.lossCount).toBe(1)
+
+    service.stop()
+  })
+
+  it("should work a large entry as TWAP slices on the lot step and settle it from their fills", async () => {
+    const { engine } = simulator
+    const walletBalance = engine.getBalances().walletBalance
+    const service = createService({
+      hedgeMode: false,
+      entryExecution: { algorithm: "TWAP", minNotional: 0, durationMs: 100, slices: 3 },
+    })
+
+    expect(await service.start()).toBe(true)
+
+    scriptedAction = "BUY"
+    await tradeUntil(() => Boolean(service.getState().activePosition?.bracketId))
+    scriptedAction = "NONE"
+
+    const position = service.getState().activePosition!
+    const [execution] = algorithms.getExecutions()
+    expect(execution).toMatchObject({ algorithm: "TWAP", side: "BUY", status: "COMPLETED" })
+    expect(execution.orderCount).toBeGreaterThan(1)
+    expect(position.entryPrice).toBe(execution.averagePrice)
+    expect(position.quantity).toBeCloseTo(execution.filledQuantity, 9)
+
+    // Every slice is a market order on the 0.001 lot step, and together they make up the position
+    const slices = Array.from({ length: execution.orderCount }, (_, n) =>
+      engine.getOrder("BTCUSDT", undefined, `exe_${execution.id}_${n + 1}`),
+    )
+    slices.forEach((slice) => {
+      expect(slice).toMatchObject({ type: "MARKET", status: "FILLED" })
+      expect(slice.executedQty * 1000).toBeCloseTo(Math.round(slice.executedQty * 1000), 9)
+    })
+    expect(slices.reduce((sum, slice) => sum + slice.executedQty, 0)).toBeCloseTo(position.quantity, 9)
+    expect(engine.getPosition("BTCUSDT").amount).toBeCloseTo(position.quantity, 9)
+    expect(engine.getOpenOrders("BTCUSDT").map((order) => order.quantity)).toEqual([
+      position.quantity,
+      position.quantity,
+    ])
+
+    // The slices' commission is part of the entry, so the round trip P&L matches the wallet
+    scriptedAction = "CLOSE_LONG"
+    await tradeUntil(() => service.getState().activePosition === null && engine.getOpenOrders("BTCUSDT").length === 0)
+    scriptedAction = "NONE"
+    expect(position.entryFee).toBeGreaterThan(0)
+    expect(service.getState().pnl.totalPnl).toBeCloseTo(engine.getBalances().walletBalance - walletBalance, 6)
+
+    service.stop()
+  })
+})
@@ -0,0 +1,146 @@
+/**
+ * Local Order Book Tests
+ *
+ * These tests verify snapshot and diff sequencing, gap detection and the depth metrics of LocalOrderBook, and how
+ * often OrderBookManager publishes the book
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest"
+import { LocalOrderBook } from "../lib/market/local-order-book"
+import { orderBookManager } from "../lib/market/order-book-manager"
+import { restApiService } from "../lib/market/rest-api-service"
+import { unifiedWebSocketClient } from "../lib/websocket/unified-websocket-client"
+import type { DepthUpdate, OrderBook } from "../lib/types/market-types"
+
+const snapshot: OrderBook = {
+  lastUpdateId: 100,
+  bids: [
+    { price: 99.9, quantity: 2 },
+    { price: 99.8, quantity: 3 },
+    { price: 98, quantity: 50 },
+  ],
+  asks: [
+    { price: 100.1, quantity: 1 },
+    { price: 100.2, quantity: 4 },
+    { price: 102, quantity: 50 },
+  ],
+}
+
+function diff(U: number, u: number, pu: number, levels: Partial<Pick<DepthUpdate, "bids" | "asks">> = {}): DepthUpdate {
+  return {
+    eventTime: Date.now(),
+    firstUpdateId: U,
+    finalUpdateId: u,
+    previousFinalUpdateId: pu,
+    bids: levels.bids ?? [],
+    asks: levels.asks ?? [],
+  }
+}
+
+describe("LocalOrderBook", () => {
+  let book: LocalOrderBook
+
+  beforeEach(() => {
+    book = new LocalOrderBook("BTCUSDT")
+  })
+
+  it("should buffer diffs until the snapshot and replay only those that follow it", () => {
+    expect(book.applyUpdate(diff(90, 95, 89, { bids: [{ price: 99.9, quantity: 7 }] }))).toBe("buffered")
+    expect(book.applyUpdate(diff(96, 105, 95, { asks: [{ price: 100.1, quantity: 0 }] }))).toBe("buffered")
+    expect(book.isSynced()).toBe(false)
+
+    expect(book.loadSnapshot(snapshot)).toBe(true)
+    expect(book.isSynced()).toBe(true)
+    expect(book.getLastUpdateId()).toBe(105)
+
+    // The first diff ended before the snapshot, the second removed the best ask
+    expect(book.getBestBid()).toEqual({ price: 99.9, quantity: 2 })
+    expect(book.getBestAsk()).toEqual({ price: 100.2, quantity: 4 })
+
+    expect(book.applyUpdate(diff(106, 110, 105, { bids: [{ price: 100, quantity: 1 }] }))).toBe("applied")
+    expect(book.getBestBid()).toEqual({ price: 100, quantity: 1 })
+    expect(book.applyUpdate(diff(106, 110, 105))).toBe("stale")
+  })
+
+  it("should detect sequence gaps and wait for a new snapshot", () => {
+    book.loadSnapshot(snapshot)
+    expect(book.applyUpdate(diff(95, 102, 94))).toBe("applied")
+
+    // pu must match the previous u
+    expect(book.applyUpdate(diff(105, 108, 104))).toBe("gap")
+    expect(book.isSynced()).toBe(false)
+    expect(book.getBestBid()).toBeNull()
+
+    // The diff that revealed the gap is replayed onto the next snapshot
+    expect(book.loadSnapshot({ ...snapshot, lastUpdateId: 106 })).toBe(true)
+    expect(book.getLastUpdateId()).toBe(108)
+
+    // A snapshot older than every buffered diff cannot be bridged
+    book.reset()
+    book.applyUpdate(diff(120, 125, 119))
+    expect(book.loadSnapshot(snapshot)).toBe(false)
+    expect(book.isSynced()).toBe(false)
+  })
+
+  it("should measure spread, depth within bps and book imbalance", () => {
+    book.loadSnapshot(snapshot)
+
+    expect(book.getMidPrice()).toBeCloseTo(100)
+    expect(book.getSpread()).toBeCloseTo(0.2)
+
+    // 50 bps of 100 covers the first two levels on each side but not the far ones
+    const depth = book.getDepth(50)
+    expect(depth.bidQuantity).toBeCloseTo(5)
+    expect(depth.askQuantity).toBeCloseTo(5)
+    expect(depth.bidNotional).toBeCloseTo(99.9 * 2 + 99.8 * 3)
+    expect(depth.askNotional).toBeCloseTo(100.1 + 100.2 * 4)
+
+    const imbalance = book.getImbalance(50)
+    expect(imbalance).toBeCloseTo(
+      (depth.bidNotional - depth.askNotional) / (depth.bidNotional + depth.askNotional),
+    )
+
+    // Full depth includes the far levels
+    expect(book.getDepth(500).bidQuantity).toBeCloseTo(55)
+    expect(book.getSnapshot(1)).toEqual({
+      lastUpdateId: 100,
+      bids: [{ price: 99.9, quantity: 2 }],
+      asks: [{ price: 100.1, quantity: 1 }],
+    })
+  })
+})
+
+describe("OrderBookManager", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it("should publish at most one book per interval with the latest diffs applied", async () => {
+    vi.useFakeTimers()
+    let onDepth: (data: any) => void = () => {}
+    vi.spyOn(unifiedWebSocketClient, "subscribeToStream").mockImplementation((_stream, callback) => {
+      onDepth = callback
+      return () => {}
+    })
+    vi.spyOn(restApiService, "getOrderBook").mockResolvedValue({
+      data: snapshot,
+      error: null,
+      source: "rest",
+      timestamp: Date.now(),
+    })
+
+    const updates: number[] = []
+    const unsubscribe = orderBookManager.subscribe("BTCUSDT", (result) => updates.push(result.data!.lastUpdateId))
+    await vi.advanceTimersByTimeAsync(0)
+    expect(updates).toEqual([100])
+
+    // Ten diffs at the stream's 100ms cadence
+    for (let u = 101; u <= 110; u++) {
+      onDepth({ e: "depthUpdate", E: Date.now(), U: u - 1, u, pu: u - 1, b: [["99.9", String(u)]], a: [] })
+      await vi.advanceTimersByTimeAsync(100)
+    }
+
+    expect(updates).toEqual([100, 105, 110])
+    unsubscribe()
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Microstructure Indicator Tests
+ *
+ * These tests verify the trade-flow and order book indicators and the rolling MicrostructureTracker window
+ */
+import { describe, it, expect, vi } from "vitest"
+import {
+  calculateAggressorRatio,
+  calculateCumulativeVolumeDelta,
+  calculateMicroprice,
+  calculateOrderBookImbalance,
+  calculateSpread,
+  detectLargeTrades,
+} from "../lib/utils/microstructure-indicators"
+import { MicrostructureTracker } from "../lib/market/microstructure-tracker"
+import type { OrderBook, Trade } from "../lib/types/market-types"
+
+// The tracker is fed directly; keep the market data service and its sockets out of the test
+vi.mock("../lib/market/enhanced-market-data-service", () => ({ enhancedMarketDataService: {} }))
+
+function trade(id: number, quantity: number, isBuyerMaker: boolean, time = Date.now()): Trade {
+  return { id, price: 100, quantity, time, isBuyerMaker }
+}
+
+const orderBook: OrderBook = {
+  lastUpdateId: 1,
+  bids: [
+    { price: 99.9, quantity: 3 },
+    { price: 99.8, quantity: 5 },
+    { price: 95, quantity: 100 },
+  ],
+  asks: [
+    { price: 100.1, quantity: 1 },
+    { price: 100.2, quantity: 1 },
+  ],
+}
+
+describe("microstructure indicators", () => {
+  it("should split volume by aggressor side", () => {
+    // Buyer-maker trades were sells hitting the bid
+    const trades = [trade(1, 2, false), trade(2, 1, true), trade(3, 3, false)]
+
+    expect(calculateCumulativeVolumeDelta(trades)).toEqual([2, 1, 4])
+    expect(calculateAggressorRatio(trades)).toEqual({ buyVolume: 5, sellVolume: 1, buyRatio: 5 / 6 })
+    expect(calculateAggressorRatio([]).buyRatio).toBe(0.5)
+  })
+
+  it("should derive spread, microprice and imbalance from the book", () => {
+    const spread = calculateSpread(orderBook)
+    expect(spread?.spread).toBeCloseTo(0.2)
+    expect(spread?.spreadBps).toBeCloseTo(20)
+
+    // Three times more bid than ask quantity pulls the microprice towards the ask
+    expect(calculateMicroprice(orderBook)).toBeCloseTo((99.9 * 1 + 100.1 * 3) / 4)
+
+    const bidNotional = 99.9 * 3 + 99.8 * 5
+    const askNotional = 100.1 + 100.2
+    expect(calculateOrderBookImbalance(orderBook, 50)).toBeCloseTo(
+      (bidNotional - askNotional) / (bidNotional + askNotional),
+    )
+    expect(calculateSpread({ lastUpdateId: 1, bids: [], asks: orderBook.asks })).toBeNull()
+  })
+
+  it("should flag trades far above the median size", () => {
+    const trades = [trade(1, 1, false), trade(2, 1.2, true), trade(3, 0.8, false), trade(4, 9, true)]
+
+    expect(detectLargeTrades(trades, 5).map((t) => t.id)).toEqual([4])
+    expect(detectLargeTrades(trades, 10)).toEqual([])
+  })
+})
+
+describe("MicrostructureTracker", () => {
+  it("should keep a deduplicated rolling window of trades", () => {
+    const tracker = new MicrostructureTracker("BTCUSDT", { windowMs: 60000 })
+    expect(tracker.getSnapshot()).toBeNull()
+
+    const now = Date.now()
+    tracker.updateOrderBook(orderBook)
+    // Trade batches arrive newest first and overlap
+    tracker.addTrades([trade(2, 1, true, now), trade(1, 2, false, now - 120000)])
+    tracker.addTrades([trade(3, 4, false, now), trade(2, 1, true, now)])
+
+    const snapshot = tracker.getSnapshot()
+    expect(snapshot).toMatchObject({ tradeCount: 2, buyVolume: 4, sellVolume: 1, cumulativeVolumeDelta: 3 })
+    expect(snapshot?.aggressorBuyRatio).toBeCloseTo(0.8)
+    expect(snapshot?.bookImbalance).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Order Normalizer Tests
+ *
+ * These tests verify that orders are rounded to exchange filters and that orders the exchange would reject are refused
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { normalizeOrder, orderNormalizer, parseSymbolFilters } from "../lib/binance/order-normalizer"
+import { binanceAccountManager } from "../lib/binance/binance-account-manager"
+import type { ExchangeInfo, SymbolInfo } from "../lib/types/binance-types"
+
+const btcInfo: SymbolInfo = {
+  symbol: "BTCUSDT",
+  status: "TRADING",
+  baseAsset: "BTC",
+  baseAssetPrecision: 8,
+  quoteAsset: "USDT",
+  quotePrecision: 8,
+  quoteAssetPrecision: 8,
+  orderTypes: ["LIMIT", "MARKET", "STOP_MARKET", "TAKE_PROFIT_MARKET"],
+  icebergAllowed: false,
+  ocoAllowed: false,
+  isSpotTradingAllowed: false,
+  isMarginTradingAllowed: false,
+  filters: [
+    { filterType: "PRICE_FILTER", minPrice: "556.80", maxPrice: "4529764", tickSize: "0.10" },
+    { filterType: "LOT_SIZE", minQty: "0.001", maxQty: "1000", stepSize: "0.001" },
+    { filterType: "MARKET_LOT_SIZE", minQty: "0.001", maxQty: "120", stepSize: "0.001" },
+    { filterType: "MAX_NUM_ORDERS", limit: 200 },
+    { filterType: "MIN_NOTIONAL", notional: "100" },
+  ],
+}
+
+const exchangeInfo: ExchangeInfo = {
+  timezone: "UTC",
+  serverTime: 0,
+  rateLimits: [],
+  exchangeFilters: [],
+  symbols: [btcInfo],
+}
+
+describe("normalizeOrder", () => {
+  const filters = parseSymbolFilters(btcInfo)
+
+  it("should parse the symbol filters", () => {
+    expect(filters).toEqual({
+      symbol: "BTCUSDT",
+      price: { min: 556.8, max: 4529764, step: "0.10" },
+      lotSize: { min: 0.001, max: 1000, step: "0.001" },
+      marketLotSize: { min: 0.001, max: 120, step: "0.001" },
+      minNotional: 100,
+    })
+  })
+
+  it("should round quantity down to the step and price to the nearest tick", () => {
+    const result = normalizeOrder(filters, {
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "LIMIT",
+      quantity: 0.0129999,
+      price: 65000.06,
+    })
+
+    expect(result.valid).toBe(true)
+    expect(result.quantity).toBe(0.012)
+    expect(result.price).toBe(65000.1)
+    expect(result.formatted).toEqual({ quantity: "0.012", price: "65000.1", stopPrice: undefined })
+    expect(result.notional).toBeCloseTo(780.0012, 6)
+    expect(result.adjustments).toHaveLength(2)
+
+    // Values already on a step stay put despite floating point noise
+    const exact = normalizeOrder(filters, {
+      symbol: "BTCUSDT",
+      side: "SELL",
+      type: "LIMIT",
+      quantity: 0.1 + 0.2,
+      price: 700,
+    })
+    expect(exact.formatted).toEqual({ quantity: "0.300", price: "700.0", stopPrice: undefined })
+    expect(exact.adjustments).toEqual(["Quantity rounded from 0.30000000000000004 to 0.300 (LOT_SIZE step 0.001)"])
+  })
+
+  it("should reject orders that break the lot size, price or notional limits", () => {
+    const market = normalizeOrder(filters, {
+      symbol: "BTCUSDT",
+      side: "BUY",
+      type: "MARKET",
+      quantity: 150,
+      referencePrice: 65000,
+    })
+    expect(market.valid).toBe(false)
+    expect(market.violations.map((violation) => violation.filter)).toEqual(["MARKET_LOT_SIZE"])
+
+    const small = normalizeOrder(filters, {
+      symbol: "BTCUSDT",
+      side: "SELL",
+      type: "STOP_MARKET",
+      quantity: 0.0014,
+      stopPrice: 500,
+    })
+    expect(small.violations).toEqual([
+      { filter: "PRICE_FILTER", message: "Stop price 500.0 is below the minimum 556.8" },
+      { filter: "MIN_NOTIONAL", message: "Order value 0.50 is below the minimum notional 100" },
+    ])
+
+    // Reduce-only orders may close positions of any size
+    const reduceOnly = normalizeOrder(filters, {
+      symbol: "BTCUSDT",
+      side: "SELL",
+      type: "STOP_MARKET",
+      quantity: 0.001,
+      stopPrice: 60000,
+      reduceOnly: true,
+    })
+    expect(reduceOnly.valid).toBe(true)
+
+    const dust = normalizeOrder(filters, { symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 0.0004 })
+    expect(dust.violations.map((violation) => violation.filter)).toEqual(["LOT_SIZE", "MARKET_LOT_SIZE"])
+    expect(dust.notional).toBeNull()
+  })
+})
+
+describe("OrderNormalizer", () => {
+  beforeEach(() => {
+    orderNormalizer.clearCache()
+    vi.restoreAllMocks()
+  })
+
+  it("should load exchange info once for concurrent orders", async () => {
+    const getExchangeInfo = vi.spyOn(binanceAccountManager, "getExchangeInfo").mockResolvedValue(exchangeInfo)
+
+    const [first, second] = await Promise.all([
+      orderNormalizer.normalize({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 0.0155 }),
+      orderNormalizer.getSymbolFilters("BTCUSDT"),
+    ])
+
+    expect(getExchangeInfo).toHaveBeenCalledTimes(1)
+    expect(first.quantity).toBe(0.015)
+    expect(second?.minNotional).toBe(100)
+  })
+
+  it("should leave orders unchanged when no filters are available", async () => {
+    vi.spyOn(binanceAccountManager, "getExchangeInfo").mockRejectedValue(new Error("offline"))
+
+    const result = await orderNormalizer.normalize({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: 1e-7 })
+    expect(result.valid).toBe(true)
+    expect(result.formatted.quantity).toBe("0.0000001")
+    expect(result.adjustments).toEqual(["No exchange filters for BTCUSDT; order left unchanged"])
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * Paper Fill Simulator Tests
+ *
+ * These tests verify order book slippage, fees and partial limit fills in the PaperFillSimulator
+ */
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { PaperFillSimulator, walkOrderBook } from "../lib/trading/paper-fill-simulator"
+import { enhancedMarketDataService } from "../lib/market/enhanced-market-data-service"
+import { binanceAccountManager } from "../lib/binance/binance-account-manager"
+import type { Kline } from "../lib/types/market-types"
+
+vi.mock("../lib/market/enhanced-market-data-service", () => {
+  return { enhancedMarketDataService: { getOrderBook: vi.fn() } }
+})
+
+vi.mock("../lib/binance/binance-account-manager", () => {
+  return { binanceAccountManager: { getTradingFee: vi.fn() } }
+})
+
+const orderBook = {
+  lastUpdateId: 1,
+  bids: [
+    { price: 99.9, quantity: 1 },
+    { price: 99.8, quantity: 2 },
+  ],
+  asks: [
+    { price: 100.1, quantity: 1 },
+    { price: 100.2, quantity: 2 },
+  ],
+}
+
+function kline(low: number, high: number, volume: number): Kline {
+  return {
+    openTime: 0,
+    open: 100,
+    high,
+    low,
+    close: 100,
+    volume,
+    closeTime: 59999,
+    quoteVolume: volume * 100,
+    trades: 1,
+    takerBuyBaseAssetVolume: volume / 2,
+    takerBuyQuoteAssetVolume: (volume / 2) * 100,
+  }
+}
+
+describe("walkOrderBook", () => {
+  it("should stop at levels beyond the limit price", () => {
+    expect(walkOrderBook(orderBook.asks, 2.5).fills).toEqual([
+      { price: 100.1, quantity: 1 },
+      { price: 100.2, quantity: 1.5 },
+    ])
+    expect(walkOrderBook(orderBook.asks, 2.5, { side: "BUY", price: 100.1 })).toEqual({
+      fills: [{ price: 100.1, quantity: 1 }],
+      remaining: 1.5,
+    })
+  })
+})
+
+describe("PaperFillSimulator", () => {
+  beforeEach(() => {
+    vi.mocked(enhancedMarketDataService.getOrderBook).mockResolvedValue({
+      data: orderBook,
+      error: null,
+      source: "rest",
+      timestamp: Date.now(),
+    } as any)
+    vi.mocked(binanceAccountManager.getTradingFee).mockRejectedValue(new Error("API key required"))
+  })
+
+  const simulator = () => new PaperFillSimulator({ latencyMs: 0, latencyJitterMs: 0 })
+
+  it("should walk the book and charge the default taker fee when the account rate is unavailable", async () => {
+    const fill = await simulator().executeMarketOrder("BTCUSDT", "BUY", 2, 100)
+
+    expect(fill.averagePrice).toBeCloseTo(100.15)
+    expect(fill.slippage).toBeCloseTo(0.0015)
+    expect(fill.fee).toBeCloseTo(100.15 * 2 * 0.0004)
+  })
+
+  it("should use the account commission rate when available", async () => {
+    vi.mocked(binanceAccountManager.getTradingFee).mockResolvedValue([
+      { symbol: "BTCUSDT", makerCommission: "0.0001", takerCommission: "0.0003" },
+    ])
+
+    const fill = await simulator().executeMarketOrder("BTCUSDT", "SELL", 1, 100)
+    expect(fill.averagePrice).toBe(99.9)
+    expect(fill.feeRate).toBe(0.0003)
+  })
+
+  it("should fill the crossing part of a limit order and the rest from later candles", async () => {
+    const paper = simulator()
+    const order = await paper.executeLimitOrder("BTCUSDT", "BUY", 3, 100.1)
+
+    expect(order.status).toBe("PARTIALLY_FILLED")
+    expect(order.filledQuantity).toBe(1)
+
+    // Touching the limit price is not a fill
+    expect(await paper.fillRestingOrder(order, kline(100.1, 101, 50))).toBeNull()
+
+    const fill = await paper.fillRestingOrder(order, kline(99.5, 101, 10))
+    expect(fill?.liquidity).toBe("MAKER")
+    expect(fill?.filledQuantity).toBe(1)
+
+    await paper.fillRestingOrder(order, kline(99.5, 101, 50))
+    expect(order.status).toBe("FILLED")
+    expect(order.averagePrice).toBeCloseTo(100.1)
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Parameter Optimizer Tests
+ *
+ * These tests verify candidate generation, walk-forward splits and ranking in the ParameterOptimizer
+ */
+import { describe, it, expect, vi } from "vitest"
+import {
+  ParameterOptimizer,
+  createWalkForwardWindows,
+  expandRange,
+  formatOptimizationTable,
+} from "../lib/trading/parameter-optimizer"
+import type { Kline } from "../lib/types/market-types"
+
+// Only the mean reversion strategy is optimized here; stub scalping so its path aliases are not loaded
+vi.mock("../lib/trading/strategies/scalping-strategy", () => {
+  return { SCALPING_PARAMETER_SCHEMA: [], ScalpingStrategy: class {} }
+})
+
+const MINUTE = 60 * 1000
+
+function makeKlines(count: number): Kline[] {
+  return Array.from({ length: count }, (_, i) => {
+    // Oscillating market with occasional flushes so the mean reversion strategy trades
+    const close = 100 + 2 * Math.sin(i / 4) + (i % 37 === 0 ? -3 : 0)
+    const open = 100 + 2 * Math.sin((i - 1) / 4)
+    return {
+      openTime: i * 5 * MINUTE,
+      open,
+      high: Math.max(open, close) + 0.3,
+      low: Math.min(open, close) - 0.3,
+      close,
+      volume: 10,
+      closeTime: (i + 1) * 5 * MINUTE - 1,
+      quoteVolume: 10 * close,
+      trades: 1,
+      takerBuyBaseAssetVolume: 5,
+      takerBuyQuoteAssetVolume: 5 * close,
+    }
+  })
+}
+
+describe("expandRange", () => {
+  it("should expand numeric ranges without float drift", () => {
+    expect(expandRange({ min: 0.1, max: 0.3, step: 0.1 })).toEqual([0.1, 0.2, 0.3])
+    expect(expandRange([9, 12])).toEqual([9, 12])
+  })
+})
+
+describe("createWalkForwardWindows", () => {
+  it("should tile out-of-sample segments after each in-sample segment", () => {
+    const windows = createWalkForwardWindows(makeKlines(100), { windows: 3, inSampleRatio: 0.7 })
+
+    expect(windows).toHaveLength(3)
+    expect(windows[0].inSample).toMatchObject({ start: 0, end: 46 })
+    expect(windows[0].outOfSample).toMatchObject({ start: 46, end: 64 })
+    expect(windows[1].inSample.start).toBe(18)
+    expect(windows[2].outOfSample.end).toBe(100)
+  })
+
+  it("should keep in-sample anchored at the first candle", () => {
+    const windows = createWalkForwardWindows(makeKlines(100), { windows: 3, inSampleRatio: 0.7, anchored: true })
+    expect(windows.every((window) => window.inSample.start === 0)).toBe(true)
+  })
+})
+
+describe("ParameterOptimizer", () => {
+  const backtest = { symbol: "BTCUSDT", timeframe: "5m", strategyType: "MEAN_REVERSION" }
+
+  it("should build the grid and apply constraints", () => {
+    const optimizer = new ParameterOptimizer({
+      backtest,
+      parameterSpace: { bollingerPeriod: [10, 20, 30], stochasticKPeriod: [10, 20] },
+      constraint: (params) => params.stochasticKPeriod <= params.bollingerPeriod,
+    })
+
+    expect(optimizer.generateCandidates()).toHaveLength(5)
+  })
+
+  it("should refuse grids above the iteration limit", () => {
+    const optimizer = new ParameterOptimizer({
+      backtest,
+      parameterSpace: { bollingerPeriod: { min: 10, max: 50, step: 1 } },
+      maxIterations: 10,
+    })
+
+    expect(() => optimizer.generateCandidates()).toThrow("more than the limit")
+  })
+
+  it("should sample reproducible distinct sets in random mode", () => {
+    const config = {
+      backtest,
+      method: "RANDOM" as const,
+      maxIterations: 8,
+      seed: 7,
+      parameterSpace: { bollingerPeriod: { min: 10, max: 40, step: 1 }, bollingerStdDev: [1.5, 2, 2.5] },
+    }
+    const first = new ParameterOptimizer(config).generateCandidates()
+
+    expect(first).toHaveLength(8)
+    expect(new Set(first.map((params) => JSON.stringify(params))).size).toBe(8)
+    expect(new ParameterOptimizer(config).generateCandidates()).toEqual(first)
+  })
+
+  it("should rank parameter sets by out-of-sample score", () => {
+    const result = new ParameterOptimizer({
+      backtest: { ...backtest, feeRate: 0 },
+      parameterSpace: { bollingerStdDev: [1.5, 2], stopLossPercent: [0.01, 0.02] },
+      objectives: [
+        { metric: "netProfit", weight: 1 },
+        { metric: "maxDrawdownPercent", weight: -1 },
+      ],
+      walkForward: { windows: 2, inSampleRatio: 0.6 },
+      warmupCandles: 40,
+      minTrades: 0,
+    }).optimize(makeKlines(400))
+
+    expect(result.evaluated).toBe(4)
+    expect(result.walkForward).toHaveLength(2)
+    expect(result.ranking.map((row) => row.rank)).toEqual([1, 2, 3, 4])
+    for (let i = 1; i < result.ranking.length; i++) {
+      expect(result.ranking[i - 1].outOfSampleScore).toBeGreaterThanOrEqual(result.ranking[i].outOfSampleScore)
+    }
+    expect(result.best).toBe(result.ranking[0])
+    expect(formatOptimizationTable(result).split("\n")).toHaveLength(6)
+  })
+})
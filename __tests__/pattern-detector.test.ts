@@ -0,0 +1,135 @@
+/**
+ * Pattern Detector Tests
+ *
+ * These tests verify candlestick and chart pattern recognition and how matches reach strategy signals
+ */
+import { describe, it, expect } from "vitest"
+import {
+  detectPatterns,
+  detectPatternsAt,
+  findSupportResistance,
+  toPatternIndicators,
+} from "../lib/market/pattern-detector"
+import { MeanReversionStrategy } from "../lib/trading/strategies/mean-reversion-strategy"
+import type { Kline } from "../lib/types/market-types"
+
+const MINUTE = 60 * 1000
+
+function makeKline(i: number, open: number, high: number, low: number, close: number): Kline {
+  return {
+    openTime: i * 5 * MINUTE,
+    open,
+    high,
+    low,
+    close,
+    volume: 10,
+    closeTime: (i + 1) * 5 * MINUTE - 1,
+    quoteVolume: 10 * close,
+    trades: 1,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: 5 * close,
+  }
+}
+
+// Candles that open at the previous close with a 0.1 wick on either side
+function makeKlines(closes: number[]): Kline[] {
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close - 1
+    return makeKline(i, open, Math.max(open, close) + 0.1, Math.min(open, close) - 0.1, close)
+  })
+}
+
+// Rally to 110, pull back to 105, retest 110 and break down through the 105 neckline
+const doubleTopCloses = [
+  ...Array.from({ length: 11 }, (_, i) => 100 + i),
+  109,
+  108,
+  107,
+  106,
+  105,
+  106,
+  107,
+  108,
+  109,
+  110.2,
+  109.2,
+  108.2,
+  107.2,
+  106.2,
+  105.2,
+  104.2,
+  103.2,
+]
+
+describe("Candlestick patterns", () => {
+  it("should detect engulfing, inside bar, doji and pin bars", () => {
+    const klines = [
+      makeKline(0, 100, 100.5, 99, 99.2),
+      makeKline(1, 99.2, 99.4, 98, 98.2),
+      makeKline(2, 98.2, 98.4, 97, 97.3),
+      makeKline(3, 97.3, 97.5, 96.4, 96.6),
+      makeKline(4, 96.5, 98.2, 96.3, 98),
+      makeKline(5, 97.4, 98.1, 96.6, 97.45),
+      makeKline(6, 97.9, 98, 96, 97.95),
+      makeKline(7, 98, 100, 97.9, 97.95),
+    ]
+
+    const found = detectPatterns(klines).map((match) => `${match.index}:${match.pattern}`)
+    expect(found).toEqual([
+      "4:BULLISH_ENGULFING",
+      "5:DOJI",
+      "5:INSIDE_BAR",
+      "6:DOJI",
+      "6:BULLISH_PIN_BAR",
+      "7:DOJI",
+      "7:BEARISH_PIN_BAR",
+    ])
+
+    // Engulfing 2.1x the previous body after a decline: 0.5 + 0.15 * 1.14 + 0.15
+    const engulfing = detectPatternsAt(klines, 4)[0]
+    expect(engulfing.direction).toBe("bullish")
+    expect(engulfing.confidence).toBeCloseTo(0.5 + 0.15 * (1.5 / 0.7 - 1) + 0.15, 6)
+  })
+})
+
+describe("Chart patterns", () => {
+  it("should confirm a double top on the neckline break", () => {
+    const klines = makeKlines(doubleTopCloses)
+    const matches = detectPatterns(klines)
+    const found = matches.map((match) => `${match.index}:${match.pattern}`)
+
+    expect(found).toEqual(["20:RESISTANCE_BREAKOUT", "26:DOUBLE_TOP", "26:SUPPORT_BREAKDOWN"])
+
+    const doubleTop = matches.find((match) => match.pattern === "DOUBLE_TOP")!
+    expect(doubleTop.price).toBeCloseTo(104.9, 9)
+    expect(doubleTop.timestamp).toBe(26 * 5 * MINUTE)
+    // Peaks 0.2 apart within a 0.3% tolerance, neckline far deeper than the minimum
+    expect(doubleTop.confidence).toBeCloseTo(0.5 + 0.25 * (1 - 0.2 / 110.3 / 0.003) + 0.25, 6)
+
+    // The same matches come out when each candle is checked on its own
+    expect(detectPatternsAt(klines, 26)).toEqual(matches.filter((match) => match.index === 26))
+    expect(detectPatterns(klines.slice(0, 26)).some((match) => match.pattern === "DOUBLE_TOP")).toBe(false)
+  })
+
+  it("should find support and resistance from swing points", () => {
+    const klines = makeKlines(doubleTopCloses.slice(0, 21))
+    const highs = klines.map((k) => k.high)
+    const lows = klines.map((k) => k.low)
+
+    expect(findSupportResistance(highs.slice(0, 19), lows.slice(0, 19), 107, 3)).toEqual({
+      support: 104.9,
+      resistance: 110.1,
+    })
+  })
+
+  it("should add pattern confidences to strategy signal indicators", () => {
+    const klines = makeKlines(doubleTopCloses)
+    const indicators = toPatternIndicators(detectPatternsAt(klines, 26))
+
+    expect(Object.keys(indicators)).toEqual(["patternDoubleTop", "patternSupportBreakdown"])
+
+    const signals = new MeanReversionStrategy({ bollingerPeriod: 20 }).calculateSignals(klines)
+    const signal = signals.find((candidate) => candidate.timestamp === 26 * 5 * MINUTE)
+    expect(signal?.indicators).toMatchObject(indicators)
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Portfolio Risk Tests
+ *
+ * These tests verify the shared RiskManager portfolio checks used by the PortfolioOrchestrator and its trailing stops
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest"
+import { riskManager } from "../lib/trading/risk-manager"
+import { PortfolioOrchestrator } from "../lib/trading/portfolio-orchestrator"
+import { enhancedMarketDataService } from "../lib/market/enhanced-market-data-service"
+import type { Kline } from "../lib/types/market-types"
+
+// Portfolio checks never reach the exchange; paper services only switch the API to test mode
+vi.mock("../lib/binance/binance-api-service", () => {
+  return { binanceApiService: { setTestMode: () => {} } }
+})
+
+function minuteKlines(count: number, price: number): Kline[] {
+  const start = Math.floor(Date.now() / 60000) * 60000 - count * 60000
+  return Array.from({ length: count }, (_, i) => ({
+    openTime: start + i * 60000,
+    open: price,
+    high: price * 1.001,
+    low: price * 0.999,
+    close: price,
+    volume: 10,
+    closeTime: start + i * 60000 + 59999,
+    quoteVolume: 10 * price,
+    trades: 10,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: 5 * price,
+  }))
+}
+
+describe("RiskManager portfolio checks", () => {
+  beforeEach(() => {
+    riskManager.getOpenPositions().forEach((position) => riskManager.releasePosition(position.symbol))
+    riskManager.updateParameters({ maxOpenPositions: 3, correlationThreshold: 0.7, sectorExposureLimit: 0.5 })
+    riskManager.setTotalEquity(10000)
+    riskManager.setCorrelation("BTCUSDT", "ETHUSDT", 0.85)
+  })
+
+  it("should block a same-direction position in a correlated symbol", () => {
+    expect(riskManager.reservePosition("BTCUSDT", "LONG", 1000).allowed).toBe(true)
+
+    const check = riskManager.reservePosition("ETHUSDT", "LONG", 1000)
+    expect(check.allowed).toBe(false)
+    expect(check.correlatedWith).toBe("BTCUSDT")
+    expect(riskManager.getOpenPositions()).toHaveLength(1)
+  })
+
+  it("should allow an opposite position in a correlated symbol as a hedge", () => {
+    riskManager.reservePosition("BTCUSDT", "LONG", 1000)
+    expect(riskManager.reservePosition("ETHUSDT", "SHORT", 1000).allowed).toBe(true)
+  })
+
+  it("should free the slot when the trade is recorded as closed", () => {
+    riskManager.reservePosition("BTCUSDT", "LONG", 1000)
+    riskManager.recordTrade("BTCUSDT", Date.now() - 1000, Date.now(), 5)
+
+    expect(riskManager.reservePosition("ETHUSDT", "LONG", 1000).allowed).toBe(true)
+  })
+
+  it("should enforce max open positions and sector exposure", () => {
+    riskManager.setSymbolSector("SOLUSDT", "CRYPTO_L1")
+    riskManager.setSymbolSector("AVAXUSDT", "CRYPTO_L1")
+
+    expect(riskManager.reservePosition("SOLUSDT", "LONG", 3000).allowed).toBe(true)
+    expect(riskManager.reservePosition("AVAXUSDT", "LONG", 3000).reason).toContain("Sector CRYPTO_L1")
+    expect(riskManager.getSectorExposures().CRYPTO_L1).toBeCloseTo(0.3)
+
+    riskManager.reservePosition("BTCUSDT", "LONG", 1000)
+    riskManager.reservePosition("BNBUSDT", "SHORT", 1000)
+    expect(riskManager.reservePosition("ADAUSDT", "LONG", 1000).reason).toContain("Max open positions")
+  })
+})
+
+describe("RiskManager trailing stops", () => {
+  beforeEach(() => {
+    riskManager.updateParameters({
+      trailingStopEnabled: true,
+      trailingStopActivationPercent: 0.01,
+      trailingStopDistance: 0.005,
+    })
+  })
+
+  it("should wait for the activation profit before trailing", () => {
+    expect(riskManager.calculateTrailingStop("LONG", 100, 100.5, 99)).toBeNull()
+    expect(riskManager.calculateTrailingStop("LONG", 100, 102, 99)).toBeCloseTo(101.49)
+    expect(riskManager.calculateTrailingStop("SHORT", 100, 98, 101)).toBeCloseTo(98.49)
+  })
+
+  it("should never loosen the current stop", () => {
+    expect(riskManager.calculateTrailingStop("LONG", 100, 102, 101.6)).toBeNull()
+    expect(riskManager.calculateTrailingStop("SHORT", 100, 98, 98.2)).toBeNull()
+  })
+})
+
+describe("PortfolioOrchestrator paper equity", () => {
+  it("should keep the paper equity it seeded when the services start", async () => {
+    vi.spyOn(enhancedMarketDataService, "getKlines").mockImplementation(async (symbol, interval, limit) => ({
+      data: minuteKlines(interval === "1m" ? (limit ?? 500) : 0, 100),
+      error: null,
+      source: "rest",
+      timestamp: Date.now(),
+    }))
+    vi.spyOn(enhancedMarketDataService, "subscribeToKlines").mockReturnValue(() => {})
+    const updatePortfolioStats = vi.spyOn(riskManager, "updatePortfolioStats")
+
+    const orchestrator = new PortfolioOrchestrator({
+      symbols: [{ symbol: "BTCUSDT" }, { symbol: "ETHUSDT" }],
+      accountBalance: 20000,
+      defaults: { timeframe: "1m", enablePerformanceTracking: false, enableMarketRegimeDetection: false },
+    })
+    expect(await orchestrator.start()).toEqual({ BTCUSDT: true, ETHUSDT: true })
+    orchestrator.stop()
+
+    // The paper portfolio never reads the exchange account
+    expect(updatePortfolioStats).not.toHaveBeenCalled()
+    expect(riskManager.getPortfolioStats().totalEquity).toBe(20000)
+  })
+
+  it("should give symbols added later the same share and only update equity when refreshed", async () => {
+    const orchestrator = new PortfolioOrchestrator({
+      symbols: [{ symbol: "BTCUSDT" }, { symbol: "ETHUSDT" }, { symbol: "BNBUSDT", accountBalance: 5000 }],
+      accountBalance: 20000,
+    })
+    orchestrator.addSymbol({ symbol: "SOLUSDT" })
+
+    const balances = orchestrator.getState().services.map((state) => [state.symbol, state.accountBalance])
+    expect(balances).toEqual([
+      ["BTCUSDT", 10000],
+      ["ETHUSDT", 10000],
+      ["BNBUSDT", 5000],
+      ["SOLUSDT", 10000],
+    ])
+
+    // Reading the state leaves the shared risk manager alone
+    const setTotalEquity = vi.spyOn(riskManager, "setTotalEquity")
+    orchestrator.getState()
+    expect(setTotalEquity).not.toHaveBeenCalled()
+
+    await orchestrator.refreshEquity()
+    expect(setTotalEquity).toHaveBeenCalledWith(35000)
+  })
+})
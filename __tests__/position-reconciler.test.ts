@@ -0,0 +1,112 @@
+/**
+ * Position Reconciler Tests
+ *
+ * These tests verify that the exchange position and its exit orders are read back and compared with local state
+ */
+import { describe, it, expect } from "vitest"
+import { reconcilePosition } from "../lib/trading/position-reconciler"
+import type { OrderStatus, PositionRisk } from "../lib/types/binance-types"
+
+function position(positionAmt: string, entryPrice = "65000"): PositionRisk {
+  return {
+    symbol: "BTCUSDT",
+    positionAmt,
+    entryPrice,
+    markPrice: "65500",
+    unRealizedProfit: "0",
+    liquidationPrice: "0",
+    leverage: "5",
+    maxNotionalValue: "0",
+    marginType: "cross",
+    isolatedMargin: "0",
+    isAutoAddMargin: "false",
+    positionSide: "BOTH",
+  }
+}
+
+function order(orderId: number, clientOrderId: string, side: string, type: string, stopPrice: string): OrderStatus {
+  return {
+    symbol: "BTCUSDT",
+    orderId,
+    clientOrderId,
+    price: type === "LIMIT" ? stopPrice : "0",
+    origQty: "0.5",
+    executedQty: "0",
+    status: "NEW",
+    timeInForce: "GTC",
+    type,
+    side,
+    stopPrice: type === "LIMIT" ? "0" : stopPrice,
+    time: 1000,
+    updateTime: 1000 + orderId,
+  }
+}
+
+describe("reconcilePosition", () => {
+  it("should rebuild an untracked position with its stop loss and take profit", () => {
+    const result = reconcilePosition(
+      "BTCUSDT",
+      null,
+      [position("0"), position("0.5")],
+      [
+        order(1, "brk_abc_SL1", "SELL", "STOP_MARKET", "63000"),
+        order(2, "brk_abc_SL2", "SELL", "STOP_MARKET", "64000"),
+        order(3, "brk_abc_TP1", "SELL", "TAKE_PROFIT_MARKET", "68000"),
+        // Neither closes the long
+        order(4, "manual", "BUY", "STOP_MARKET", "70000"),
+        order(5, "limit", "SELL", "LIMIT", "69000"),
+      ],
+      0,
+    )
+
+    expect(result.position).toMatchObject({
+      type: "LONG",
+      quantity: 0.5,
+      entryPrice: 65000,
+      markPrice: 65500,
+      stopLoss: { orderId: 2, price: 64000, bracketId: "abc" },
+      takeProfit: { orderId: 3, price: 68000, quantity: 0.5 },
+    })
+    expect(result.position?.exitOrders.map((exit) => exit.orderId)).toEqual([1, 2, 3])
+    expect(result.mismatches).toEqual([
+      { type: "UNTRACKED_POSITION", message: "Exchange holds an untracked LONG position of 0.5 BTCUSDT" },
+    ])
+  })
+
+  it("should flag where the local position drifted from the exchange", () => {
+    const local = { type: "SHORT" as const, quantity: 1, entryPrice: 64990, stopLoss: 66000, takeProfit: 62000 }
+    const orders = [order(7, "manual_tp", "BUY", "TAKE_PROFIT_MARKET", "62000.5")]
+
+    const drifted = reconcilePosition("BTCUSDT", local, [position("-0.5")], orders)
+    expect(drifted.mismatches.map((mismatch) => mismatch.type)).toEqual([
+      "QUANTITY",
+      "ENTRY_PRICE",
+      "MISSING_STOP_LOSS",
+    ])
+
+    // Tick rounding of the exits is not a mismatch
+    const matching = reconcilePosition(
+      "BTCUSDT",
+      { ...local, quantity: 0.5, entryPrice: 65000 },
+      [position("-0.5")],
+      [...orders, order(8, "manual_sl", "BUY", "STOP_MARKET", "66000.1")],
+    )
+    expect(matching.mismatches).toEqual([])
+  })
+
+  it("should report a local position that is closed on the exchange", () => {
+    const local = { type: "LONG" as const, quantity: 0.5, entryPrice: 65000, stopLoss: 64000, takeProfit: 68000 }
+
+    const closed = reconcilePosition("BTCUSDT", local, [position("0")], [])
+    expect(closed.position).toBeNull()
+    expect(closed.mismatches.map((mismatch) => mismatch.type)).toEqual(["POSITION_CLOSED"])
+
+    const reversed = reconcilePosition("BTCUSDT", local, [position("-0.5")], [])
+    expect(reversed.position?.type).toBe("SHORT")
+    expect(reversed.mismatches.map((mismatch) => mismatch.type)).toEqual([
+      "DIRECTION",
+      "MISSING_STOP_LOSS",
+      "MISSING_TAKE_PROFIT",
+    ])
+  })
+})
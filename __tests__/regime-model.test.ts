@@ -0,0 +1,134 @@
+/**
+ * Regime Model Tests
+ *
+ * These tests verify the Gaussian HMM regime probabilities, hysteresis and the regime transition timeline
+ */
+import { describe, it, expect } from "vitest"
+import { GaussianHmmRegimeModel, mostLikelyRegime, RegimeHysteresis } from "../lib/market/regime-model"
+import type { RegimeProbabilities } from "../lib/market/regime-model"
+import { marketRegimeDetector } from "../lib/market/market-regime-detector"
+import type { MarketRegime } from "../lib/market/market-regime-detector"
+import type { Kline } from "../lib/types/market-types"
+
+const HOUR = 60 * 60 * 1000
+const SEGMENT_LENGTH = 150
+
+// Drift and noise of each segment, in basis points per candle
+const SEGMENTS: Array<{ regime: MarketRegime; drift: number; noise: number }> = [
+  { regime: "TRENDING_UP", drift: 25, noise: 10 },
+  { regime: "RANGING", drift: 0, noise: 5 },
+  { regime: "VOLATILE", drift: 0, noise: 80 },
+  { regime: "TRENDING_DOWN", drift: -25, noise: 10 },
+]
+
+// Deterministic uniform noise in [-1, 1]
+function createNoise(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state * 1664525 + 1013904223) % 4294967296
+    return (state / 4294967296) * 2 - 1
+  }
+}
+
+function makeKlines(segments = SEGMENTS): Kline[] {
+  const noise = createNoise(42)
+  const klines: Kline[] = []
+  let close = 100
+
+  for (const { drift, noise: amplitude } of segments) {
+    for (let i = 0; i < SEGMENT_LENGTH; i++) {
+      const open = close
+      close = open * Math.exp((drift + amplitude * Math.sqrt(3) * noise()) / 10000)
+      const index = klines.length
+      klines.push({
+        openTime: index * HOUR,
+        open,
+        high: Math.max(open, close),
+        low: Math.min(open, close),
+        close,
+        volume: 10,
+        closeTime: (index + 1) * HOUR - 1,
+        quoteVolume: 10 * close,
+        trades: 1,
+        takerBuyBaseAssetVolume: 5,
+        takerBuyQuoteAssetVolume: 5 * close,
+      })
+    }
+  }
+  return klines
+}
+
+function probabilities(values: Partial<RegimeProbabilities>): RegimeProbabilities {
+  return { TRENDING_UP: 0, TRENDING_DOWN: 0, RANGING: 0, VOLATILE: 0, UNKNOWN: 0, ...values }
+}
+
+describe("GaussianHmmRegimeModel", () => {
+  it("should recover the regime of each synthetic segment", () => {
+    const klines = makeKlines()
+    const model = GaussianHmmRegimeModel.fit(klines)
+    const series = model.predictSeries(klines)
+
+    expect(series).toHaveLength(klines.length)
+    expect(series[0].UNKNOWN).toBe(1)
+
+    SEGMENTS.forEach(({ regime }, segment) => {
+      // Skip the candles whose feature window still overlaps the previous segment
+      const start = segment * SEGMENT_LENGTH + 20
+      const end = (segment + 1) * SEGMENT_LENGTH
+      const matches = series.slice(start, end).filter((p) => mostLikelyRegime(p).regime === regime).length
+      expect(matches / (end - start)).toBeGreaterThan(0.8)
+    })
+
+    const total = Object.values(series[series.length - 1]).reduce((sum, p) => sum + p, 0)
+    expect(total).toBeCloseTo(1, 9)
+
+    // Persisted parameters rebuild the same model
+    const restored = new GaussianHmmRegimeModel(model.getParameters())
+    expect(restored.predict(klines)).toEqual(model.predict(klines))
+  })
+
+  it("should reject too little history", () => {
+    expect(() => GaussianHmmRegimeModel.fit(makeKlines().slice(0, 50))).toThrow(/Not enough klines/)
+  })
+})
+
+describe("RegimeHysteresis", () => {
+  it("should only switch after confirmed, clearly better readings", () => {
+    const hysteresis = new RegimeHysteresis({ enterProbability: 0.6, exitProbability: 0.4, confirmations: 2 })
+
+    expect(hysteresis.update(probabilities({ RANGING: 0.5, TRENDING_UP: 0.5 }))).toBe(false)
+    expect(hysteresis.update(probabilities({ RANGING: 0.7, TRENDING_UP: 0.3 }))).toBe(true)
+    expect(hysteresis.getRegime()).toBe("RANGING")
+
+    // Borderline readings flip the most likely regime but not the held one
+    expect(hysteresis.update(probabilities({ RANGING: 0.45, TRENDING_UP: 0.55 }))).toBe(false)
+    expect(hysteresis.update(probabilities({ RANGING: 0.42, TRENDING_UP: 0.58 }))).toBe(false)
+    expect(hysteresis.update(probabilities({ RANGING: 0.3, TRENDING_UP: 0.7 }))).toBe(false)
+    expect(hysteresis.update(probabilities({ RANGING: 0.45, TRENDING_UP: 0.55 }))).toBe(false)
+    expect(hysteresis.getRegime()).toBe("RANGING")
+
+    expect(hysteresis.update(probabilities({ RANGING: 0.3, TRENDING_UP: 0.7 }))).toBe(false)
+    expect(hysteresis.update(probabilities({ RANGING: 0.2, TRENDING_UP: 0.8 }))).toBe(true)
+    expect(hysteresis.getRegime()).toBe("TRENDING_UP")
+  })
+})
+
+describe("MarketRegimeDetector timeline", () => {
+  it("should record stable regime transitions from the model", () => {
+    const klines = makeKlines()
+    const model = GaussianHmmRegimeModel.fit(klines)
+    marketRegimeDetector.setRegimeModel("TESTUSDT", "1h", model.getParameters())
+
+    const updates = klines.map((_, i) => marketRegimeDetector.updateRegime("TESTUSDT", klines.slice(0, i + 1), "1h"))
+    const timeline = marketRegimeDetector.getRegimeTimeline("TESTUSDT", "1h")
+
+    expect(updates[updates.length - 1].estimate.source).toBe("model")
+    expect(timeline.map((transition) => transition.to)).toEqual(SEGMENTS.map((segment) => segment.regime))
+    expect(timeline[0].from).toBe("UNKNOWN")
+    timeline.forEach((transition, i) => {
+      expect(transition.probability).toBeGreaterThanOrEqual(0.6)
+      expect(updates.filter((update) => update.changed)[i].estimate.timestamp).toBe(transition.timestamp)
+    })
+    expect(marketRegimeDetector.getRegimeTimeline("TESTUSDT", "5m")).toEqual([])
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Rule DSL Tests
+ *
+ * These tests verify parsing and evaluation of indicator rules and the strategy built on them
+ */
+import { describe, it, expect, vi } from "vitest"
+import { compileRule, parseRule, RuleContext, validateRule } from "../lib/trading/rules"
+import { RuleStrategy } from "../lib/trading/strategies/rule-strategy"
+import type { Kline } from "../lib/types/market-types"
+
+const MINUTE = 60 * 1000
+
+function makeKlines(closes: number[]): Kline[] {
+  return closes.map((close, i) => ({
+    openTime: i * 5 * MINUTE,
+    open: i > 0 ? closes[i - 1] : close,
+    high: close + 0.5,
+    low: close - 0.5,
+    close,
+    volume: 10,
+    closeTime: (i + 1) * 5 * MINUTE - 1,
+    quoteVolume: 10 * close,
+    trades: 1,
+    takerBuyBaseAssetVolume: 5,
+    takerBuyQuoteAssetVolume: 5 * close,
+  }))
+}
+
+describe("parseRule", () => {
+  it("should respect precedence and fill in default arguments", () => {
+    const node = parseRule("not close > sma(3) * 2 + 1 or RSI < 30 and volume > 0")
+
+    expect(node).toEqual({
+      type: "logical",
+      operator: "or",
+      left: {
+        type: "not",
+        operand: {
+          type: "comparison",
+          operator: ">",
+          left: { type: "series", name: "close", args: [] },
+          right: {
+            type: "arithmetic",
+            operator: "+",
+            left: {
+              type: "arithmetic",
+              operator: "*",
+              left: { type: "series", name: "sma", args: [3] },
+              right: { type: "number", value: 2 },
+            },
+            right: { type: "number", value: 1 },
+          },
+        },
+      },
+      right: {
+        type: "logical",
+        operator: "and",
+        left: {
+          type: "comparison",
+          operator: "<",
+          left: { type: "series", name: "rsi", args: [14] },
+          right: { type: "number", value: 30 },
+        },
+        right: {
+          type: "comparison",
+          operator: ">",
+          left: { type: "series", name: "volume", args: [] },
+          right: { type: "number", value: 0 },
+        },
+      },
+    })
+    expect(JSON.parse(JSON.stringify(node))).toEqual(node)
+  })
+
+  it("should report invalid rules with their position", () => {
+    expect(validateRule("ema(9) crosses_above ema(21) and rsi(14) < 70")).toBeNull()
+    expect(validateRule("")).toBe("Invalid rule at position 1: Rule is empty")
+    expect(validateRule("foo(3) > 1")).toBe('Invalid rule at position 1: Unknown indicator "foo"')
+    expect(validateRule("ema(9)")).toContain("Rule must be a condition")
+    expect(validateRule("rsi(14) < 30 + (close > 1)")).toContain('"+" expects numbers, not conditions')
+    expect(validateRule("rsi(14) and close > 1")).toContain('"and" expects conditions, not numbers')
+    expect(validateRule("20 < rsi < 80")).toContain("Comparisons cannot be chained")
+    expect(validateRule("ema(9, 3) > 1")).toContain("ema takes period")
+    expect(validateRule("ema(0) > 1")).toContain("ema period must be positive")
+    expect(validateRule("close > 1 )")).toBe('Invalid rule at position 11: Unexpected ")"')
+    expect(validateRule("close # 1")).toBe('Invalid rule at position 7: Unexpected character "#"')
+
+    expect(() => parseRule("close >")).toThrow(expect.objectContaining({ code: "INVALID_RULE" }))
+  })
+})
+
+describe("compileRule", () => {
+  it("should evaluate comparisons and crosses candle by candle", () => {
+    const context = new RuleContext(makeKlines([10, 10, 10, 9, 12, 13, 11]))
+    const crossUp = compileRule("close crosses_above sma(3)")
+    const crossDown = compileRule("close crosses_below sma(3)")
+    const stretched = compileRule("close - sma(3) >= 1.5")
+
+    // sma(3): NaN, NaN, 10, 9.667, 10.333, 11.333, 12
+    const indices = [0, 1, 2, 3, 4, 5, 6]
+    expect(indices.filter((i) => crossUp.evaluate(context, i))).toEqual([4])
+    expect(indices.filter((i) => crossDown.evaluate(context, i))).toEqual([3, 6])
+    expect(indices.filter((i) => stretched.evaluate(context, i))).toEqual([4, 5])
+    expect(crossUp.references.map((reference) => reference.label)).toEqual(["close", "sma(3)"])
+  })
+
+  it("should not match while indicators are warming up", () => {
+    const context = new RuleContext(makeKlines([1, 2, 3, 4, 5]))
+
+    expect(compileRule("sma(10) != 0").evaluate(context, 4)).toBe(false)
+    expect(compileRule("close / (close - close) > 0").evaluate(context, 4)).toBe(false)
+    expect(compileRule("htf_ema > 0").evaluate(context, 4)).toBe(false)
+    expect(compileRule("htf_ema > 4").evaluate(new RuleContext(makeKlines([1, 2, 3, 4, 5]), 4.5), 4)).toBe(true)
+  })
+})
+
+describe("RuleStrategy", () => {
+  it("should enter and exit on its rules", () => {
+    const closes = [100, 100, 100, 99, 98, 97, 98, 99.5, 100.2, 100.5, 100.4, 100, 99.5, 99.4]
+    const strategy = new RuleStrategy({
+      longEntryRule: "close crosses_above sma(4)",
+      shortEntryRule: "",
+      longExitRule: "close crosses_below sma(4)",
+      takeProfitPercent: 0.05,
+      stopLossPercent: 0.05,
+    })
+
+    const signals = strategy.calculateSignals(makeKlines(closes))
+    const trades = signals.filter((signal) => signal.action !== "NONE")
+
+    expect(trades.map((signal) => signal.action)).toEqual(["BUY", "CLOSE_LONG"])
+    expect(trades[0].reason).toBe("Entry rule matched: close crosses_above sma(4)")
+    expect(trades[0].price).toBe(99.5)
+    expect(trades[0].indicators["sma(4)"]).toBeCloseTo(98.125, 9)
+    expect(trades[1].reason).toBe("Exit rule matched: close crosses_below sma(4)")
+    expect(trades[1].price).toBe(100)
+    expect(strategy.getActivePosition()).toBeNull()
+  })
+
+  it("should produce no signals for an invalid rule", () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {})
+    const strategy = new RuleStrategy({ longEntryRule: "ema(9) crosses_above" })
+
+    expect(strategy.calculateSignals(makeKlines([1, 2, 3]))).toEqual([])
+    expect(errorSpy).toHaveBeenCalled()
+    errorSpy.mockRestore()
+  })
+})
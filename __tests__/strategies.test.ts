@@ -0,0 +1,121 @@
+/**
+ * Strategy Tests
+ *
+ * These tests verify strategy selection and the entry/exit rules of the indicator strategies
+ */
+import { describe, it, expect, vi } from "vitest"
+import {
+  createStrategy,
+  strategyRegistry,
+  ScalpingStrategy,
+  TrendFollowingStrategy,
+  MeanReversionStrategy,
+} from "../lib/trading/strategies"
+import type { Kline } from "../lib/types/market-types"
+
+// The scalping strategy is covered elsewhere; stub it so its path aliases are not loaded
+vi.mock("../lib/trading/strategies/scalping-strategy", () => {
+  return { SCALPING_PARAMETER_SCHEMA: [], ScalpingStrategy: class {} }
+})
+
+const MINUTE = 60 * 1000
+
+function makeKlines(closes: number[], range = 0.5): Kline[] {
+  return closes.map((close, i) => {
+    const open = i > 0 ? closes[i - 1] : close
+    return {
+      openTime: i * 5 * MINUTE,
+      open,
+      high: Math.max(open, close) + range,
+      low: Math.min(open, close) - range,
+      close,
+      volume: 10,
+      closeTime: (i + 1) * 5 * MINUTE - 1,
+      quoteVolume: 10 * close,
+      trades: 1,
+      takerBuyBaseAssetVolume: 5,
+      takerBuyQuoteAssetVolume: 5 * close,
+    }
+  })
+}
+
+describe("createStrategy", () => {
+  it("should build the strategy matching the configured type", () => {
+    expect(createStrategy("SCALPING")).toBeInstanceOf(ScalpingStrategy)
+    expect(createStrategy("TREND_FOLLOWING")).toBeInstanceOf(TrendFollowingStrategy)
+
+    const meanReversion = createStrategy("MEAN_REVERSION", { bollingerPeriod: 30 })
+    expect(meanReversion).toBeInstanceOf(MeanReversionStrategy)
+    expect((meanReversion as MeanReversionStrategy).getParameters().bollingerPeriod).toBe(30)
+  })
+})
+
+describe("strategyRegistry", () => {
+  it("should create strategies registered by name", () => {
+    const custom = new MeanReversionStrategy({ interval: "1h" })
+    strategyRegistry.register({
+      name: "IN_HOUSE",
+      label: "In House",
+      description: "Test strategy",
+      parameterSchema: custom.getParameterSchema(),
+      create: () => custom,
+    })
+
+    expect(createStrategy("IN_HOUSE")).toBe(custom)
+    expect(strategyRegistry.list().map((definition) => definition.name)).toContain("IN_HOUSE")
+
+    strategyRegistry.unregister("IN_HOUSE")
+    expect(() => createStrategy("IN_HOUSE")).toThrow("Unknown strategy: IN_HOUSE")
+  })
+})
+
+describe("MeanReversionStrategy", () => {
+  it("should buy a flush below the lower band and exit at the mean", () => {
+    // Range-bound market, a sharp drop, then a recovery to the range
+    const closes = [
+      ...Array.from({ length: 40 }, (_, i) => 100 + Math.sin(i / 2)),
+      98,
+      96.5,
+      95.5,
+      95.8,
+      97,
+      98.5,
+      100,
+      100.5,
+    ]
+    const strategy = new MeanReversionStrategy({ stopLossPercent: 0.05, takeProfitPercent: 0.1 })
+    const signals = strategy.calculateSignals(makeKlines(closes))
+
+    const entry = signals.find((s) => s.action !== "NONE")
+    expect(entry?.action).toBe("BUY")
+    expect(entry?.stopLoss).toBeLessThan(entry!.price)
+
+    const exit = signals.find((s) => s.timestamp > entry!.timestamp && s.action !== "NONE")
+    expect(exit?.action).toBe("CLOSE_LONG")
+    expect(exit?.reason).toBe("Price reverted to the mean")
+  })
+
+  it("should not signal without enough history", () => {
+    expect(new MeanReversionStrategy().calculateSignals(makeKlines([100, 101, 102]))).toEqual([])
+  })
+})
+
+describe("TrendFollowingStrategy", () => {
+  it("should go long in a confirmed uptrend", () => {
+    // Sideways market followed by a steady advance with a shallow pullback
+    const closes = [
+      ...Array.from({ length: 80 }, (_, i) => 100 + Math.sin(i / 3)),
+      ...Array.from({ length: 30 }, (_, i) => 100 + i * 0.8),
+      122,
+      121,
+      120.5,
+      ...Array.from({ length: 20 }, (_, i) => 121.5 + i * 0.8),
+    ]
+    const signals = new TrendFollowingStrategy().calculateSignals(makeKlines(closes, 0.3))
+    const entries = signals.filter((s) => s.action === "BUY" || s.action === "SELL")
+
+    expect(entries.length).toBeGreaterThan(0)
+    expect(entries.every((s) => s.action === "BUY")).toBe(true)
+    expect(entries[0].indicators.adx).toBeGreaterThan(25)
+  })
+})
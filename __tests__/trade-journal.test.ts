@@ -0,0 +1,80 @@
+/**
+ * Trade Journal Tests
+ *
+ * These tests verify that PerformanceAnalytics persists to and reloads from the JSONL journal storage
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import { appendFile, mkdtemp, readFile, rm } from "fs/promises"
+import { tmpdir } from "os"
+import { join } from "path"
+import { PerformanceAnalytics } from "../lib/trading/performance-analytics"
+import { JsonlJournalStorage } from "../lib/trading/journal/jsonl-journal-storage"
+
+describe("JsonlJournalStorage", () => {
+  let directory: string
+  let filePath: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "trade-journal-"))
+    filePath = join(directory, "journal", "trades.jsonl")
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  const openTrade = {
+    symbol: "BTCUSDT",
+    side: "BUY" as const,
+    entryPrice: 100,
+    exitPrice: null,
+    quantity: 1,
+    entryTime: 1000,
+    exitTime: null,
+    pnl: null,
+    pnlPercent: null,
+    fees: 0.1,
+    stopLoss: 99,
+    takeProfit: 102,
+    strategy: "SCALPING",
+    timeframe: "5m",
+    notes: "",
+    tags: [],
+  }
+
+  it("should reload trades and equity saved by another instance", async () => {
+    const analytics = new PerformanceAnalytics(() => 1000)
+    analytics.setInitialEquity(5000)
+    await analytics.attachStorage(new JsonlJournalStorage(filePath))
+
+    const id = analytics.recordTrade(openTrade)
+    analytics.updateTrade(id, { exitPrice: 102, exitTime: 2000, pnl: 2, pnlPercent: 0.02 })
+    await analytics.flush()
+
+    const restored = new PerformanceAnalytics()
+    expect(await restored.attachStorage(new JsonlJournalStorage(filePath))).toBe(true)
+
+    expect(restored.getAllTrades()).toEqual([{ ...openTrade, id, exitPrice: 102, exitTime: 2000, pnl: 2, pnlPercent: 0.02 }])
+    expect(restored.getEquityCurve().map((point) => point.equity)).toEqual([5000, 5002])
+    expect(restored.getPerformanceSummary().netProfit).toBe(2)
+  })
+
+  it("should skip a truncated last line and compact superseded records", async () => {
+    const analytics = new PerformanceAnalytics(() => 1000)
+    await analytics.attachStorage(new JsonlJournalStorage(filePath))
+
+    const id = analytics.recordTrade(openTrade)
+    for (let i = 0; i < 10; i++) {
+      analytics.updateTrade(id, { notes: `update ${i}` })
+    }
+    await analytics.flush()
+    await appendFile(filePath, '{"type":"trade","tra')
+
+    const data = await new JsonlJournalStorage(filePath).load()
+    expect(data?.trades).toHaveLength(1)
+    expect(data?.trades[0].notes).toBe("update 9")
+
+    const lines = (await readFile(filePath, "utf-8")).trim().split("\n")
+    expect(lines).toHaveLength(3)
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * User Data Stream Tests
+ *
+ * These tests verify listen key handling and typed user data events against the local exchange simulator
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest"
+import http from "http"
+import crypto from "crypto"
+import { BinanceFuturesSimulator } from "../lib/testing/exchange-simulator"
+import type { BinanceApiClient } from "../lib/binance/binance-api-client"
+import type { BinanceUserDataStream } from "../lib/binance/user-data-stream"
+import type { AccountUpdate, OrderTradeUpdate, UserDataEvent } from "../lib/types/binance-types"
+
+const API_KEY = "simulator-api-key"
+const API_SECRET = "simulator-api-secret"
+
+async function waitFor(condition: () => boolean, timeout = 10000): Promise<void> {
+  const deadline = Date.now() + timeout
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error("Timed out waiting for the user data stream")
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+}
+
+// Opens a raw stream connection and collects text frames until the predicate matches one of them
+function collectFrames(wsUrl: string, path: string, onOpen: () => void, done: (data: any) => boolean): Promise<any[]> {
+  const { hostname, port } = new URL(wsUrl)
+
+  return new Promise((resolve, reject) => {
+    const request = http.request({
+      hostname,
+      port,
+      path,
+      headers: {
+        Connection: "Upgrade",
+        Upgrade: "websocket",
+        "Sec-WebSocket-Key": crypto.randomBytes(16).toString("base64"),
+        "Sec-WebSocket-Version": "13",
+      },
+    })
+
+    request.on("upgrade", (_response, socket) => {
+      const frames: any[] = []
+      let buffer = Buffer.alloc(0)
+
+      socket.on("data", (chunk: Buffer) => {
+        buffer = Buffer.concat([buffer, chunk])
+
+        while (buffer.length >= 2) {
+          let length = buffer[1] & 0x7f
+          let offset = 2
+          if (length === 126) {
+            length = buffer.readUInt16BE(2)
+            offset = 4
+          }
+          if (buffer.length < offset + length) return
+
+          const data = JSON.parse(buffer.subarray(offset, offset + length).toString("utf-8"))
+          buffer = buffer.subarray(offset + length)
+          frames.push(data)
+
+          if (done(data)) {
+            socket.destroy()
+            resolve(frames)
+            return
+          }
+        }
+      })
+      onOpen()
+    })
+    request.on("error", reject)
+    request.end()
+  })
+}
+
+describe("BinanceUserDataStream", () => {
+  const simulator = new BinanceFuturesSimulator({ apiKey: API_KEY, apiSecret: API_SECRET })
+  let parseUserDataEvent: (data: any) => UserDataEvent | null
+  let makeUserStreamRequest: <T>(method: "POST" | "PUT" | "DELETE") => Promise<T>
+  let apiClient: BinanceApiClient
+  let userDataStream: BinanceUserDataStream
+  let wsUrl: string
+
+  beforeAll(async () => {
+    const urls = await simulator.start()
+    wsUrl = urls.wsUrl
+
+    // The API client reads its environment when first imported
+    process.env.BINANCE_API_BASE_URL = urls.restUrl
+    process.env.BINANCE_WS_BASE_URL = urls.wsUrl
+    process.env.BINANCE_API_KEY = API_KEY
+    process.env.BINANCE_API_SECRET = API_SECRET
+
+    const { binanceApiClient } = await import("../lib/binance/binance-api-client")
+    const userDataStreamModule = await import("../lib/binance/user-data-stream")
+    parseUserDataEvent = userDataStreamModule.parseUserDataEvent
+    userDataStream = userDataStreamModule.binanceUserDataStream
+    apiClient = binanceApiClient
+    makeUserStreamRequest = (method) => binanceApiClient.makeUserStreamRequest(method, {}, { showInLogs: false })
+  })
+
+  afterAll(async () => {
+    await userDataStream.stop()
+    await simulator.stop()
+  })
+
+  it("should parse order and account updates and apply them to the portfolio stats", async () => {
+    const { listenKey } = await makeUserStreamRequest<{ listenKey: string }>("POST")
+    await makeUserStreamRequest("PUT")
+
+    const frames = await collectFrames(
+      wsUrl,
+      `/ws/${listenKey}`,
+      () =>
+        // Give the server a moment to register the connection before trading
+        setTimeout(() => {
+          simulator.engine.placeOrder({ symbol: "BTCUSDT", side: "BUY", type: "MARKET", quantity: "0.01" })
+        }, 20),
+      (data) => data.e === "ACCOUNT_UPDATE",
+    )
+    const events = frames.map((frame) => parseUserDataEvent(frame))
+
+    const fill = events.find(
+      (event): event is OrderTradeUpdate => event?.eventType === "ORDER_TRADE_UPDATE" && event.executionType === "TRADE",
+    )
+    expect(fill).toMatchObject({ symbol: "BTCUSDT", side: "BUY", orderStatus: "FILLED", filledQuantity: 0.01 })
+    expect(fill?.averagePrice).toBeGreaterThan(0)
+    expect(fill?.commission).toBeCloseTo(fill!.averagePrice * 0.01 * 0.0004)
+
+    const accountUpdate = events[events.length - 1] as AccountUpdate
+    expect(accountUpdate.positions[0]).toMatchObject({ symbol: "BTCUSDT", positionAmount: 0.01 })
+
+    const { riskManager } = await import("../lib/trading/risk-manager")
+    riskManager.applyAccountUpdate(accountUpdate)
+
+    const stats = riskManager.getPortfolioStats()
+    expect(stats.openPositions).toBe(1)
+    expect(stats.totalEquity).toBeCloseTo(
+      accountUpdate.balances[0].walletBalance + accountUpdate.positions[0].unrealizedPnl,
+    )
+    expect(stats.allocatedEquity).toBeCloseTo(0.01 * accountUpdate.positions[0].entryPrice)
+  })
+
+  it("should report an expired listen key", async () => {
+    const { listenKey } = await makeUserStreamRequest<{ listenKey: string }>("POST")
+
+    const [expired] = await collectFrames(
+      wsUrl,
+      `/ws/${listenKey}`,
+      () => setTimeout(() => simulator.expireListenKey(), 20),
+      () => true,
+    )
+
+    expect(parseUserDataEvent(expired)).toMatchObject({ eventType: "listenKeyExpired", listenKey })
+    await expect(makeUserStreamRequest("PUT")).rejects.toMatchObject({ code: "BINANCE_ERROR_-1125" })
+  })
+
+  it("should keep retrying keepalives and new listen keys until the stream is back", async () => {
+    // Only the keepalive interval is faked; retries and the socket run on real timers
+    vi.useFakeTimers({ toFake: ["setInterval"] })
+    const request = apiClient.makeUserStreamRequest.bind(apiClient)
+    const failures: string[] = []
+    const spy = vi.spyOn(apiClient, "makeUserStreamRequest").mockImplementation(async (method, params, options) => {
+      const index = failures.indexOf(method)
+      if (index >= 0) {
+        failures.splice(index, 1)
+        throw new Error("fetch failed: network unreachable")
+      }
+      return request(method, params, options)
+    })
+    const calls = (method: string) => spy.mock.calls.filter(([called]) => called === method).length
+    const reconnected = vi.fn()
+    const unsubscribe = userDataStream.onReconnect(reconnected)
+
+    try {
+      await userDataStream.start()
+      await waitFor(() => userDataStream.isConnected())
+
+      // A keepalive lost to the network is retried on the same key and socket
+      failures.push("PUT")
+      vi.advanceTimersByTime(30 * 60 * 1000)
+      await waitFor(() => calls("PUT") === 2)
+      expect(userDataStream.isConnected()).toBe(true)
+      expect(calls("POST")).toBe(1)
+
+      // Once the exchange no longer knows the key, a new one is requested until one is created
+      await makeUserStreamRequest("DELETE")
+      failures.push("POST")
+      vi.advanceTimersByTime(30 * 60 * 1000)
+      await waitFor(() => calls("POST") === 3 && userDataStream.isConnected())
+      await waitFor(() => reconnected.mock.calls.length === 1)
+
+      // Fills reach subscribers over the new key
+      const events: UserDataEvent[] = []
+      const unsubscribeEvents = userDataStream.subscribe((event) => events.push(event))
+      simulator.engine.placeOrder({ symbol: "BTCUSDT", side: "SELL", type: "MARKET", quantity: "0.01" })
+      await waitFor(() => events.some((event) => event.eventType === "ORDER_TRADE_UPDATE"))
+      unsubscribeEvents()
+    } finally {
+      unsubscribe()
+      vi.useRealTimers()
+    }
+  })
+})
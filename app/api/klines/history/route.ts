@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server"
+import { getHistoricalKlines, KLINE_INTERVALS } from "@/lib/market/history"
+import { parseTimeframe } from "@/lib/market/kline-resampler"
+
+const DAY = 24 * 60 * 60 * 1000
+// Largest range one request may download and return, counted in candles of the requested interval
+const MAX_KLINES_PER_REQUEST = 50000
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url)
+  const symbol = searchParams.get("symbol")?.toUpperCase()
+  const interval = searchParams.get("interval") || "1h"
+  const endTime = Number(searchParams.get("endTime") || Date.now())
+  const startTime = Number(searchParams.get("startTime") || endTime - 30 * DAY)
+
+  if (!symbol || !/^[A-Z0-9]+$/.test(symbol)) {
+    return NextResponse.json({ error: "symbol must be an exchange symbol such as BTCUSDT" }, { status: 400 })
+  }
+  if (!KLINE_INTERVALS.includes(interval)) {
+    return NextResponse.json({ error: `interval must be one of ${KLINE_INTERVALS.join(", ")}` }, { status: 400 })
+  }
+  if (!Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime > endTime) {
+    return NextResponse.json({ error: "a valid startTime/endTime range is required" }, { status: 400 })
+  }
+  if (endTime - startTime > MAX_KLINES_PER_REQUEST * parseTimeframe(interval)) {
+    return NextResponse.json(
+      { error: `range exceeds ${MAX_KLINES_PER_REQUEST} ${interval} candles; split it into smaller requests` },
+      { status: 400 },
+    )
+  }
+
+  try {
+    const klines = await getHistoricalKlines(symbol, interval, startTime, endTime)
+    return NextResponse.json({ symbol, interval, klines })
+  } catch (error) {
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 })
+  }
+}
@@ -4,6 +4,7 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import WebSocketStatus from "@/features/monitoring/components/websocket-status"
 import PerformanceMetrics from "@/features/monitoring/components/performance-metrics"
+import CorrelationHeatmap from "@/features/monitoring/components/correlation-heatmap"
 
 export default function MonitoringPage() {
   return (
@@ -22,6 +23,9 @@ export default function MonitoringPage() {
                   <TabsTrigger value="performance" className="rounded-none border-r data-[state=active]:bg-background">
                     Performance
                   </TabsTrigger>
+                  <TabsTrigger value="correlations" className="rounded-none border-r data-[state=active]:bg-background">
+                    Correlations
+                  </TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="status" className="p-6">
@@ -31,6 +35,10 @@ export default function MonitoringPage() {
                 <TabsContent value="performance" className="p-6">
                   <PerformanceMetrics />
                 </TabsContent>
+
+                <TabsContent value="correlations" className="p-6">
+                  <CorrelationHeatmap />
+                </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
@@ -115,7 +115,7 @@ async function positionExample(): Promise<void> {
         const stopLossPrice = entryPrice * 0.95 // 5% loss
 
         // Place TP/SL orders
-        const [tpOrder, slOrder] = await binanceApiService.placeTpSlOrders(
+        const bracket = await binanceApiService.placeTpSlOrders(
           symbol,
           "LONG" as PositionSide,
           takeProfitPrice,
@@ -123,8 +123,8 @@ async function positionExample(): Promise<void> {
           Math.abs(positionSize),
         )
 
-        console.log(`Take profit order placed: ${tpOrder.orderId}`)
-        console.log(`Stop loss order placed: ${slOrder.orderId}`)
+        console.log(`Take profit order placed: ${bracket.takeProfit?.orderId}`)
+        console.log(`Stop loss order placed: ${bracket.stopLoss?.orderId}`)
       }
     }
   } catch (error) {
@@ -4,7 +4,7 @@ import { useMemo } from "react"
 import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend } from "recharts"
 import { ChartContainer, ChartTooltipContent } from "@/components/ui/chart"
 import { Skeleton } from "@/components/ui/skeleton"
-import { calculateEMA, calculateVWAP, calculateATR } from "@/lib/indicators/technical-indicators"
+import { calculateEMA, calculateVWAP, calculateATR } from "@/lib/indicators"
 
 interface IndicatorChartProps {
   data: {
@@ -28,6 +28,11 @@ interface IndicatorChartProps {
   className?: string
 }
 
+// Warm-up values are NaN; recharts leaves a gap for null
+function toChartValue(value: number | undefined): number | null {
+  return value !== undefined && Number.isFinite(value) ? value : null
+}
+
 export function IndicatorChart({
   data,
   indicators = {
@@ -51,14 +56,11 @@ export function IndicatorChart({
     const lows = data.map((d) => d.low)
     const volumes = data.map((d) => d.volume)
 
-    // Calculate typical prices for VWAP
-    const typicalPrices = data.map((d) => (d.high + d.low + d.close) / 3)
-
     // Calculate indicators
     const emaValues = indicators.ema ? calculateEMA(closes, indicators.emaPeriod || 9) : Array(data.length).fill(null)
 
     const vwapValues = indicators.vwap
-      ? calculateVWAP(typicalPrices, volumes, indicators.vwapPeriod || 20)
+      ? calculateVWAP(highs, lows, closes, volumes, indicators.vwapPeriod || 20)
       : Array(data.length).fill(null)
 
     const atrValues = indicators.atr
@@ -69,9 +71,9 @@ export function IndicatorChart({
     return data.map((d, i) => ({
       timestamp: d.timestamp,
       price: d.close,
-      ema: emaValues[i],
-      vwap: vwapValues[i],
-      atr: atrValues[i],
+      ema: toChartValue(emaValues[i]),
+      vwap: toChartValue(vwapValues[i]),
+      atr: toChartValue(atrValues[i]),
     }))
   }, [data, indicators])
 
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useEffect, useMemo, useCallback } from "react"
-import { calculateRSI, calculateEMA, calculateSMA } from "@/lib/indicators/technical-indicators"
+import { calculateRSI, calculateEMA, calculateSMA, calculateMACD } from "@/lib/indicators"
 import { useKlineData } from "./use-kline-data"
 
 interface UseTechnicalIndicatorsOptions {
@@ -46,40 +46,21 @@ export function useTechnicalIndicators(symbol: string, options: UseTechnicalIndi
 
     const { closes } = priceData
 
-    // Calculate RSI (14 periods)
-    const rsiValues = calculateRSI(closes, 14)
-    const rsi = rsiValues[rsiValues.length - 1]
-
-    // Calculate EMA (20 periods)
-    const ema20Values = calculateEMA(closes, 20)
-    const ema20 = ema20Values[ema20Values.length - 1]
-
-    // Calculate SMA (50 periods)
-    const sma50Values = calculateSMA(closes, 50)
-    const sma50 = sma50Values[sma50Values.length - 1]
-
-    // Calculate MACD (12, 26, 9)
-    const ema12Values = calculateEMA(closes, 12)
-    const ema26Values = calculateEMA(closes, 26)
-
-    // Only calculate if we have enough data
-    if (ema12Values[ema12Values.length - 1] !== null && ema26Values[ema26Values.length - 1] !== null) {
-      const macdLine = ema12Values.map((ema12, i) => {
-        if (ema12 === null || ema26Values[i] === null) return null
-        return ema12 - ema26Values[i]
-      })
-
-      // Filter out null values for MACD signal calculation
-      const validMacdLine = macdLine.filter((value): value is number => value !== null)
-      const macdSignalValues = calculateEMA(validMacdLine, 9)
+    // Latest value of a series, or null while it is warming up
+    const latest = (values: number[]) => {
+      const value = values[values.length - 1]
+      return Number.isFinite(value) ? value : null
+    }
 
-      const macd = macdLine[macdLine.length - 1]
-      const macdSignal = macdSignalValues[macdSignalValues.length - 1]
+    const macd = calculateMACD(closes, 12, 26, 9)
 
-      setIndicators({ rsi, ema20, sma50, macd, macdSignal })
-    } else {
-      setIndicators({ rsi, ema20, sma50, macd: null, macdSignal: null })
-    }
+    setIndicators({
+      rsi: latest(calculateRSI(closes, 14)),
+      ema20: latest(calculateEMA(closes, 20)),
+      sma50: latest(calculateSMA(closes, 50)),
+      macd: latest(macd.macd),
+      macdSignal: latest(macd.signal),
+    })
   }, [priceData])
 
   // Effect to calculate indicators when price data changes
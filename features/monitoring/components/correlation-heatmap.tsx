@@ -0,0 +1,100 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { riskManager } from "@/lib/trading/risk-manager"
+import type { CorrelationMatrix } from "@/lib/trading/correlation-matrix"
+
+// Red for positive, blue for negative correlation, stronger the closer to +/-1
+function getCellColor(correlation: number): string {
+  if (!Number.isFinite(correlation)) {
+    return "transparent"
+  }
+  const hue = correlation >= 0 ? 0 : 217
+  return `hsla(${hue}, 80%, 50%, ${Math.abs(correlation) * 0.85})`
+}
+
+export default function CorrelationHeatmap() {
+  const [matrix, setMatrix] = useState<CorrelationMatrix | null>(() => riskManager.getCorrelationMatrix())
+  const threshold = riskManager.getParameters().correlationThreshold
+
+  useEffect(() => {
+    const unsubscribe = riskManager.onCorrelationsChange(setMatrix)
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  if (!matrix || matrix.symbols.length < 2) {
+    return (
+      <Card>
+        <CardHeader className="pb-2">
+          <CardTitle>Correlations</CardTitle>
+          <CardDescription>
+            No correlations computed yet; they appear once a portfolio with two or more symbols runs
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle>Correlations</CardTitle>
+        <CardDescription>
+          {matrix.window} {matrix.interval} returns, updated{" "}
+          {formatDistanceToNow(matrix.updatedAt, { addSuffix: true })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th />
+                {matrix.symbols.map((symbol) => (
+                  <th key={symbol} className="px-2 py-1 font-medium text-muted-foreground">
+                    {symbol}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.symbols.map((symbol, i) => (
+                <tr key={symbol}>
+                  <th className="px-2 py-1 text-left font-medium text-muted-foreground">{symbol}</th>
+                  {matrix.values[i].map((correlation, j) => (
+                    <td
+                      key={matrix.symbols[j]}
+                      className={`h-10 w-16 text-center font-mono ${
+                        i !== j && Math.abs(correlation) >= threshold ? "font-bold" : ""
+                      }`}
+                      style={{ backgroundColor: getCellColor(correlation) }}
+                      title={`${symbol} / ${matrix.symbols[j]}`}
+                    >
+                      {Number.isFinite(correlation) ? correlation.toFixed(2) : "–"}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          {matrix.symbols.map((symbol) => (
+            <Badge key={symbol} variant="outline">
+              {symbol}: {riskManager.getSymbolSector(symbol)}
+            </Badge>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Bold pairs are at or above the {threshold.toFixed(2)} correlation threshold and reduce position sizes
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import WebSocketStatus from "@/features/monitoring/components/websocket-status"
 import PerformanceMetrics from "@/features/monitoring/components/performance-metrics"
+import CorrelationHeatmap from "@/features/monitoring/components/correlation-heatmap"
 import { binanceWebSocketClient } from "@/features/websocket/lib/websocket-client"
 
 export default function MonitoringDashboard() {
@@ -33,6 +34,7 @@ export default function MonitoringDashboard() {
           <TabsList className="mb-4 flex flex-wrap">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="performance">Performance</TabsTrigger>
+            <TabsTrigger value="correlations">Correlations</TabsTrigger>
             {activeStreams.map((stream) => (
               <TabsTrigger key={stream} value={stream}>
                 {stream}
@@ -52,6 +54,12 @@ export default function MonitoringDashboard() {
             </div>
           </TabsContent>
 
+          <TabsContent value="correlations">
+            <div className="space-y-6">
+              <CorrelationHeatmap />
+            </div>
+          </TabsContent>
+
           {activeStreams.map((stream) => (
             <TabsContent key={stream} value={stream}>
               <div className="space-y-6">
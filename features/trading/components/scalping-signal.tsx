@@ -11,7 +11,7 @@ import {
   calculateVWAPSlope,
   calculateATR,
   getAdaptiveEmaPeriod,
-} from "@/lib/indicators/technical-indicators"
+} from "@/lib/indicators"
 import type { KlineData } from "@/lib/websocket/lib/market-data-service"
 import { LoadingSpinner } from "@/components/ui/loading-spinner"
 import { Skeleton } from "@/components/ui/skeleton"
@@ -320,7 +320,6 @@ function analyzeMarket(klineData: KlineData[], higherTimeframeData?: KlineData[]
   const highs = klineData.map((k) => k.high)
   const lows = klineData.map((k) => k.low)
   const volumes = klineData.map((k) => k.volume)
-  const typicalPrices = klineData.map((k) => (k.high + k.low + k.close) / 3)
 
   // Get current price (last candle close)
   const lastIndex = klineData.length - 1
@@ -338,7 +337,7 @@ function analyzeMarket(klineData: KlineData[], higherTimeframeData?: KlineData[]
   const currentEma = ema[lastIndex]
 
   // Calculate VWAP
-  const vwap = calculateVWAP(typicalPrices, volumes, vwapPeriod)
+  const vwap = calculateVWAP(highs, lows, closes, volumes, vwapPeriod)
   const currentVwap = vwap[lastIndex]
 
   // Calculate VWAP slope
@@ -350,13 +349,14 @@ function analyzeMarket(klineData: KlineData[], higherTimeframeData?: KlineData[]
   if (higherTimeframeData && higherTimeframeData.length > 0) {
     const htfCloses = higherTimeframeData.map((k) => k.close)
     const htfEma = calculateEMA(htfCloses, 15) // Higher timeframe EMA (15)
-    higherTimeframeEma = htfEma[htfEma.length - 1]
+    const lastHtfEma = htfEma[htfEma.length - 1]
+    higherTimeframeEma = Number.isFinite(lastHtfEma) ? lastHtfEma : null
   }
 
   // Validation checks according to strategy
   const priceAboveEma = currentPrice > currentEma
   const priceAboveVwap = currentPrice > currentVwap
-  const vwapSlopePositive = currentVwapSlope !== null && currentVwapSlope > 0
+  const vwapSlopePositive = Number.isFinite(currentVwapSlope) && currentVwapSlope > 0
   const priceAboveHigherTimeframeEma = higherTimeframeEma === null || currentPrice > higherTimeframeEma
 
   // Volatility check
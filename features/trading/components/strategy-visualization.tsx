@@ -10,9 +10,13 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Area, AreaChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
 import { ChartContainer, ChartTooltipContent } from "@/components/ui/chart"
 import { AlertCircle, ArrowDown, ArrowUp, RefreshCw } from "lucide-react"
+import { strategyRegistry } from "@/lib/trading/strategies"
+import { detectPatterns, groupPatternsByCandle } from "@/lib/market/pattern-detector"
+import type { PatternDirection, PatternMatch } from "@/lib/market/pattern-detector"
 import type { TradingSignal, Kline } from "@/lib/types/market-types"
 
 interface StrategyVisualizationProps {
+  strategyType?: string
   signal?: TradingSignal | null
   klineData?: Kline[] | null
   signals?: TradingSignal[] | null
@@ -21,7 +25,41 @@ interface StrategyVisualizationProps {
   onRefresh?: () => void
 }
 
+const PATTERN_COLORS: Record<PatternDirection, string> = {
+  bullish: "#22c55e",
+  bearish: "#ef4444",
+  neutral: "#f59e0b",
+}
+
+// Marks candles that complete a pattern, sized by the confidence of the strongest one
+const renderPatternMarker = (props: any) => {
+  const { cx, cy, index, payload } = props
+  const patterns: PatternMatch[] = payload?.patterns ?? []
+
+  if (patterns.length === 0 || cx == null || cy == null) {
+    return <g key={`pattern-${index}`} />
+  }
+
+  const strongest = patterns.reduce((best, match) => (match.confidence > best.confidence ? match : best))
+  return (
+    <circle
+      key={`pattern-${index}`}
+      cx={cx}
+      cy={cy}
+      r={3 + strongest.confidence * 3}
+      fill={PATTERN_COLORS[strongest.direction]}
+      stroke="white"
+      strokeWidth={1}
+    >
+      <title>
+        {patterns.map((match) => `${match.description} (${Math.round(match.confidence * 100)}%)`).join("\n")}
+      </title>
+    </circle>
+  )
+}
+
 export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
+  strategyType,
   signal,
   klineData,
   signals,
@@ -32,11 +70,18 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
   const [activeTab, setActiveTab] = useState("signal")
   const [chartData, setChartData] = useState<any[]>([])
   const [signalHistory, setSignalHistory] = useState<TradingSignal[]>([])
+  const [patterns, setPatterns] = useState<PatternMatch[]>([])
+
+  const strategyLabel = strategyType ? strategyRegistry.get(strategyType)?.label || strategyType : null
+  const title = strategyLabel ? `${strategyLabel} Strategy Analysis` : "Strategy Analysis"
 
   // Process kline data for chart
   useEffect(() => {
     if (klineData && klineData.length > 0) {
-      const processedData = klineData.map((kline) => {
+      const detectedPatterns = detectPatterns(klineData)
+      const patternsByCandle = groupPatternsByCandle(detectedPatterns, klineData.length)
+
+      const processedData = klineData.map((kline, index) => {
         const timestamp = typeof kline.openTime === "number" ? kline.openTime : Number.parseInt(kline.openTime as any)
 
         const close = typeof kline.close === "number" ? kline.close : Number.parseFloat(kline.close)
@@ -45,10 +90,12 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
           time: timestamp,
           price: close,
           formattedTime: new Date(timestamp).toLocaleTimeString(),
+          patterns: patternsByCandle[index],
         }
       })
 
       setChartData(processedData)
+      setPatterns(detectedPatterns)
     }
   }, [klineData])
 
@@ -77,7 +124,7 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
     return (
       <Card className="w-full">
         <CardHeader>
-          <CardTitle>Strategy Analysis</CardTitle>
+          <CardTitle>{title}</CardTitle>
           <CardDescription>Analyzing market data...</CardDescription>
         </CardHeader>
         <CardContent>
@@ -95,7 +142,7 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <AlertCircle className="h-5 w-5 text-red-500" />
-            <span>Strategy Analysis Error</span>
+            <span>{title} Error</span>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -117,7 +164,7 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
     return (
       <Card className="w-full">
         <CardHeader>
-          <CardTitle>Strategy Analysis</CardTitle>
+          <CardTitle>{title}</CardTitle>
           <CardDescription>No signal data available</CardDescription>
         </CardHeader>
         <CardContent>
@@ -169,12 +216,18 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
     return new Date(timestamp).toLocaleString()
   }
 
+  // Latest directional patterns, newest first
+  const recentPatterns = patterns
+    .filter((match) => match.direction !== "neutral")
+    .slice(-5)
+    .reverse()
+
   return (
     <Card className="w-full">
       <CardHeader>
         <div className="flex justify-between items-center">
           <div>
-            <CardTitle>Strategy Analysis</CardTitle>
+            <CardTitle>{title}</CardTitle>
             <CardDescription>Latest signal generated at {formatTimestamp(signal.timestamp)}</CardDescription>
           </div>
           <Badge className={getSignalColor(signal.type || signal.action)}>{signal.type || signal.action}</Badge>
@@ -246,36 +299,54 @@ export const StrategyVisualization: React.FC<StrategyVisualizationProps> = ({
 
           <TabsContent value="chart">
             {chartData.length > 0 ? (
-              <div className="h-[300px]">
-                <ChartContainer
-                  config={{
-                    price: {
-                      label: "Price",
-                      color: "hsl(var(--chart-1))",
-                    },
-                  }}
-                >
-                  <ResponsiveContainer width="100%" height="100%">
-                    <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
-                      <defs>
-                        <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="hsl(var(--chart-1))" stopOpacity={0.8} />
-                          <stop offset="95%" stopColor="hsl(var(--chart-1))" stopOpacity={0} />
-                        </linearGradient>
-                      </defs>
-                      <XAxis dataKey="formattedTime" axisLine={false} tickLine={false} minTickGap={60} />
-                      <YAxis dataKey="price" axisLine={false} tickLine={false} width={60} />
-                      <Tooltip content={<ChartTooltipContent />} />
-                      <Area
-                        type="monotone"
-                        dataKey="price"
-                        stroke="hsl(var(--chart-1))"
-                        fillOpacity={1}
-                        fill="url(#colorPrice)"
-                      />
-                    </AreaChart>
-                  </ResponsiveContainer>
-                </ChartContainer>
+              <div>
+                <div className="h-[300px]">
+                  <ChartContainer
+                    config={{
+                      price: {
+                        label: "Price",
+                        color: "hsl(var(--chart-1))",
+                      },
+                    }}
+                  >
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 20 }}>
+                        <defs>
+                          <linearGradient id="colorPrice" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="hsl(var(--chart-1))" stopOpacity={0.8} />
+                            <stop offset="95%" stopColor="hsl(var(--chart-1))" stopOpacity={0} />
+                          </linearGradient>
+                        </defs>
+                        <XAxis dataKey="formattedTime" axisLine={false} tickLine={false} minTickGap={60} />
+                        <YAxis dataKey="price" axisLine={false} tickLine={false} width={60} />
+                        <Tooltip content={<ChartTooltipContent />} />
+                        <Area
+                          type="monotone"
+                          dataKey="price"
+                          stroke="hsl(var(--chart-1))"
+                          fillOpacity={1}
+                          fill="url(#colorPrice)"
+                          dot={renderPatternMarker}
+                          isAnimationActive={false}
+                        />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </ChartContainer>
+                </div>
+                {recentPatterns.length > 0 && (
+                  <div className="mt-2 flex flex-wrap gap-2">
+                    {recentPatterns.map((match) => (
+                      <Badge key={`${match.pattern}-${match.index}`} variant="outline">
+                        <span
+                          className="mr-1 inline-block h-2 w-2 rounded-full"
+                          style={{ backgroundColor: PATTERN_COLORS[match.direction] }}
+                        />
+                        {match.description} · {Math.round(match.confidence * 100)}% ·{" "}
+                        {new Date(match.timestamp).toLocaleTimeString()}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
               </div>
             ) : (
               <div className="text-center p-4 text-muted-foreground">No chart data available</div>
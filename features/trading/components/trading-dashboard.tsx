@@ -6,6 +6,7 @@ import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useMarketData } from "@/features/market/hooks/use-market-data"
 import StrategyVisualization from "./strategy-visualization"
 import { useTechnicalAnalysis } from "@/hooks/use-technical-analysis"
+import { useAccountUpdates } from "@/hooks/use-account-updates"
 import type { StrategyParameters as NewStrategyParameters } from "@/lib/market/interfaces"
 
 interface TradingDashboardProps {
@@ -23,12 +24,16 @@ export default function TradingDashboard() {
     stopLossPercent: 0.005,
   })
 
-  const { signals, klineData, isLoading, error, strategy } = useTechnicalAnalysis({
+  const { signals, klineData, isLoading, error } = useTechnicalAnalysis({
     interval,
     limit: 100,
     strategyParams,
   })
 
+  // Account and positions are pushed by the user data stream, so the panels never poll the exchange
+  const { portfolioStats, positions, isConnected } = useAccountUpdates({ symbol: symbol?.toUpperCase() })
+  const symbolPositions = Object.values(positions).filter((position) => position.symbol === symbol?.toUpperCase())
+
   const handleRefresh = () => {
     // Force refresh by changing a parameter slightly
     setStrategyParams((prev) => ({
@@ -66,7 +71,7 @@ export default function TradingDashboard() {
         />
       )}
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
           <CardHeader>
             <CardTitle>Strategy Parameters</CardTitle>
@@ -91,30 +96,59 @@ export default function TradingDashboard() {
           </CardContent>
         </Card>
 
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="font-medium">Equity:</div>
+                <div>{portfolioStats.totalEquity.toFixed(2)}</div>
+                <div className="font-medium">Available:</div>
+                <div>{portfolioStats.availableEquity.toFixed(2)}</div>
+                <div className="font-medium">Daily P&L:</div>
+                <div className={portfolioStats.dailyPnL >= 0 ? "text-green-500" : "text-red-500"}>
+                  {portfolioStats.dailyPnL.toFixed(2)}
+                </div>
+                <div className="font-medium">Open Positions:</div>
+                <div>{portfolioStats.openPositions}</div>
+                <div className="font-medium">User Stream:</div>
+                <div>{isConnected ? "Connected" : "Disconnected"}</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader>
             <CardTitle>Current Position</CardTitle>
           </CardHeader>
           <CardContent>
-            {strategy && strategy.getActivePosition ? (
-              strategy.getActivePosition() ? (
-                <div className="text-sm">
-                  <div className="grid grid-cols-2 gap-2">
-                    <div className="font-medium">Type:</div>
-                    <div className={strategy.getActivePosition()?.type === "LONG" ? "text-green-500" : "text-red-500"}>
-                      {strategy.getActivePosition()?.type}
+            {symbolPositions.length > 0 ? (
+              <div className="space-y-4 text-sm">
+                {symbolPositions.map((position) => (
+                  <div key={`${position.symbol}:${position.positionSide}`} className="grid grid-cols-2 gap-2">
+                    <div className="font-medium">Side:</div>
+                    <div className={position.positionAmount > 0 ? "text-green-500" : "text-red-500"}>
+                      {position.positionAmount > 0 ? "LONG" : "SHORT"}
+                      {position.positionSide !== "BOTH" && ` (${position.positionSide} leg)`}
                     </div>
+                    <div className="font-medium">Size:</div>
+                    <div>{Math.abs(position.positionAmount)}</div>
                     <div className="font-medium">Entry Price:</div>
-                    <div>{strategy.getActivePosition()?.entryPrice}</div>
-                    <div className="font-medium">Entry Time:</div>
-                    <div>{new Date(strategy.getActivePosition()?.entryTime || 0).toLocaleString()}</div>
+                    <div>{position.entryPrice}</div>
+                    <div className="font-medium">Unrealized P&L:</div>
+                    <div className={position.unrealizedPnl >= 0 ? "text-green-500" : "text-red-500"}>
+                      {position.unrealizedPnl.toFixed(2)}
+                    </div>
                   </div>
-                </div>
-              ) : (
-                <div className="text-muted-foreground">No active position</div>
-              )
+                ))}
+              </div>
             ) : (
-              <div className="text-muted-foreground">Loading position data...</div>
+              <div className="text-muted-foreground">
+                {isConnected ? "No active position" : "Waiting for the user data stream..."}
+              </div>
             )}
           </CardContent>
         </Card>
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { binanceUserDataStream } from "@/lib/binance/user-data-stream"
+import { riskManager } from "@/lib/trading/risk-manager"
+import type { PortfolioStats } from "@/lib/trading/risk-manager"
+import type { AccountUpdatePosition, MarginCall, OrderTradeUpdate } from "@/lib/types/binance-types"
+
+interface UseAccountUpdatesOptions {
+  symbol?: string // Only keep order updates for this symbol
+  maxOrders?: number
+}
+
+interface AccountUpdates {
+  portfolioStats: PortfolioStats
+  positions: Record<string, AccountUpdatePosition> // Keyed by symbol and position side, e.g. "BTCUSDT:LONG"
+  recentOrders: OrderTradeUpdate[]
+  marginCall: MarginCall | null
+  isConnected: boolean
+}
+
+/**
+ * Account, position and order state pushed by the user data stream.
+ * The stream is started by the live TradingService; this hook only listens.
+ */
+export function useAccountUpdates({ symbol, maxOrders = 20 }: UseAccountUpdatesOptions = {}): AccountUpdates {
+  const [accountUpdates, setAccountUpdates] = useState<AccountUpdates>(() => ({
+    portfolioStats: riskManager.getPortfolioStats(),
+    positions: {},
+    recentOrders: [],
+    marginCall: null,
+    isConnected: binanceUserDataStream.isConnected(),
+  }))
+
+  // Portfolio stats are recalculated by the risk manager from account updates
+  useEffect(() => {
+    const unsubscribe = riskManager.onPortfolioStatsChange((portfolioStats) => {
+      setAccountUpdates((prev) => ({
+        ...prev,
+        portfolioStats,
+      }))
+    })
+
+    return () => {
+      unsubscribe()
+    }
+  }, [])
+
+  // Subscribe to order, position and margin call events
+  useEffect(() => {
+    const unsubscribe = binanceUserDataStream.subscribe((event) => {
+      const isConnected = binanceUserDataStream.isConnected()
+
+      if (event.eventType === "ORDER_TRADE_UPDATE") {
+        if (symbol && event.symbol !== symbol) return
+
+        setAccountUpdates((prev) => ({
+          ...prev,
+          recentOrders: [event, ...prev.recentOrders].slice(0, maxOrders),
+          isConnected,
+        }))
+      } else if (event.eventType === "ACCOUNT_UPDATE") {
+        setAccountUpdates((prev) => {
+          const positions = { ...prev.positions }
+          event.positions.forEach((position) => {
+            // Hedge mode reports a LONG and a SHORT leg for the same symbol
+            const key = `${position.symbol}:${position.positionSide}`
+            if (position.positionAmount === 0) {
+              delete positions[key]
+            } else {
+              positions[key] = position
+            }
+          })
+          return { ...prev, positions, isConnected }
+        })
+      } else if (event.eventType === "MARGIN_CALL") {
+        setAccountUpdates((prev) => ({
+          ...prev,
+          marginCall: event,
+          isConnected,
+        }))
+      }
+    })
+
+    return () => {
+      unsubscribe()
+    }
+  }, [symbol, maxOrders])
+
+  return accountUpdates
+}
+
+export default useAccountUpdates
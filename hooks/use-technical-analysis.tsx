@@ -4,11 +4,12 @@ import { useState, useEffect, useMemo } from "react"
 import TradingService from "@/lib/trading/trading-service"
 import type { Kline, TradingSignal, StrategyParameters } from "@/lib/types/market-types"
 import { AppError } from "@/lib/error-handling/error-types"
-import { ScalpingStrategy } from "@/lib/trading/strategies/scalping-strategy"
+import { createStrategy } from "@/lib/trading/strategies"
 
 interface UseTechnicalAnalysisOptions {
   symbol?: string
   interval?: string
+  strategyType?: string
   strategyParams?: Partial<StrategyParameters>
 }
 
@@ -23,12 +24,13 @@ interface UseTechnicalAnalysisResult {
 export function useTechnicalAnalysis({
   symbol = "BTCUSDT",
   interval = "1m",
+  strategyType = "SCALPING",
   strategyParams = {},
 }: UseTechnicalAnalysisOptions = {}): UseTechnicalAnalysisResult {
   // Initialize strategy with safe defaults
   const strategy = useMemo(() => {
     try {
-      return new ScalpingStrategy(strategyParams)
+      return createStrategy(strategyType, strategyParams)
     } catch (error) {
       console.error("Error initializing strategy:", error)
       return {
@@ -38,9 +40,10 @@ export function useTechnicalAnalysis({
         calculateSignals: () => [],
         updateParameters: () => {},
         reset: () => {},
+        getParameterSchema: () => [],
       }
     }
-  }, [strategyParams])
+  }, [strategyType, strategyParams])
   const [tradingService] = useState(() => new TradingService(symbol, interval, strategyParams))
   const [signal, setSignal] = useState<TradingSignal | null>(null)
   const [isLoading, setIsLoading] = useState<boolean>(false)
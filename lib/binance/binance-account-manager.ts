@@ -42,7 +42,7 @@ export class BinanceAccountManager extends Singleton<BinanceAccountManager> impl
    */
   public async getAccountInfo(): Promise<AccountInfo> {
     try {
-      return await binanceApiClient.makeSignedRequest<AccountInfo>("/account", "GET", {}, 10)
+      return await binanceApiClient.makeSignedRequest<AccountInfo>("/account", "GET", {}, { weight: 10 })
     } catch (error) {
       return errorHandler.handleError(error as Error, "Failed to get account information", {
         service: "BinanceAccountManager",
@@ -139,7 +139,7 @@ export class BinanceAccountManager extends Singleton<BinanceAccountManager> impl
         throw new Error("Leverage must be between 1 and 125")
       }
 
-      return await binanceApiClient.makeSignedRequest("/leverage", "POST", { symbol, leverage }, 1)
+      return await binanceApiClient.makeSignedRequest("/leverage", "POST", { symbol, leverage }, { weight: 1 })
     } catch (error) {
       return errorHandler.handleError(error as Error, `Failed to change leverage for ${symbol}`, {
         service: "BinanceAccountManager",
@@ -159,7 +159,7 @@ export class BinanceAccountManager extends Singleton<BinanceAccountManager> impl
    */
   public async changeMarginType(symbol: string, marginType: MarginType): Promise<{ code: number; msg: string }> {
     try {
-      return await binanceApiClient.makeSignedRequest("/marginType", "POST", { symbol, marginType }, 1)
+      return await binanceApiClient.makeSignedRequest("/marginType", "POST", { symbol, marginType }, { weight: 1 })
     } catch (error) {
       return errorHandler.handleError(error as Error, `Failed to change margin type for ${symbol}`, {
         service: "BinanceAccountManager",
@@ -181,7 +181,7 @@ export class BinanceAccountManager extends Singleton<BinanceAccountManager> impl
   ): Promise<Array<{ symbol: string; makerCommission: string; takerCommission: string }>> {
     try {
       const params = symbol ? { symbol } : {}
-      return await binanceApiClient.makeSignedRequest("/commissionRate", "GET", params, 20)
+      return await binanceApiClient.makeSignedRequest("/commissionRate", "GET", params, { weight: 20 })
     } catch (error) {
       return errorHandler.handleError(error as Error, `Failed to get trading fee${symbol ? ` for ${symbol}` : "s"}`, {
         service: "BinanceAccountManager",
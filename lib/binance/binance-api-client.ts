@@ -13,6 +13,12 @@ import { BinanceRateLimiter } from "./binance-rate-limiter"
 import { createSignature, createQueryString } from "./binance-utils"
 import type { RateLimitType } from "../types/binance-types"
 
+// Retry on network errors or 5xx errors
+function isRetryableError(error: Error): boolean {
+  const message = error.message
+  return message.includes("network") || message.includes("timeout") || message.includes("HTTP error 5")
+}
+
 /**
  * Options for API requests
  */
@@ -121,32 +127,20 @@ export class BinanceApiClient extends Singleton<BinanceApiClient> {
         console.log(`Making ${method} request to ${endpoint}`)
       }
 
-      const response = await retryFetch(url, {
-        method,
-        headers: {
-          "X-MBX-APIKEY": this.apiKey,
-          "Content-Type": "application/json",
-        },
-        maxRetries: 3,
-        retryCondition: (error) => {
-          // Retry on network errors or 5xx errors
-          return error.message.includes("network") || error.message.includes("timeout") || error.message.includes("5")
+      const response = await retryFetch(
+        url,
+        {
+          method,
+          headers: {
+            "X-MBX-APIKEY": this.apiKey,
+            "Content-Type": "application/json",
+          },
         },
+        { maxRetries: 3, retryCondition: isRetryableError },
+      ).catch(async (error) => {
+        throw await this.toApiError(error, endpoint, showInLogs ? params : { ...params, sensitive: "***" })
       })
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new ApiError(`Binance API error: ${errorData.msg || "Unknown error"}`, {
-          code: `BINANCE_ERROR_${errorData.code || "UNKNOWN"}`,
-          context: {
-            endpoint,
-            params: showInLogs ? params : { ...params, sensitive: "***" },
-            errorCode: errorData.code,
-            errorMsg: errorData.msg,
-          },
-        })
-      }
-
       return await response.json()
     } catch (error) {
       errorHandler.handleError(error, {
@@ -200,31 +194,19 @@ export class BinanceApiClient extends Singleton<BinanceApiClient> {
         console.log(`Making GET request to ${endpoint}`)
       }
 
-      const response = await retryFetch(url, {
-        headers: {
-          "X-MBX-APIKEY": this.apiKey,
-          "Content-Type": "application/json",
-        },
-        maxRetries: 3,
-        retryCondition: (error) => {
-          // Retry on network errors or 5xx errors
-          return error.message.includes("network") || error.message.includes("timeout") || error.message.includes("5")
+      const response = await retryFetch(
+        url,
+        {
+          headers: {
+            "X-MBX-APIKEY": this.apiKey,
+            "Content-Type": "application/json",
+          },
         },
+        { maxRetries: 3, retryCondition: isRetryableError },
+      ).catch(async (error) => {
+        throw await this.toApiError(error, endpoint, showInLogs ? params : { sensitive: "***" })
       })
 
-      if (!response.ok) {
-        const errorData = await response.json()
-        throw new ApiError(`Binance API error: ${errorData.msg || "Unknown error"}`, {
-          code: `BINANCE_ERROR_${errorData.code || "UNKNOWN"}`,
-          context: {
-            endpoint,
-            params: showInLogs ? params : { sensitive: "***" },
-            errorCode: errorData.code,
-            errorMsg: errorData.msg,
-          },
-        })
-      }
-
       return await response.json()
     } catch (error) {
       errorHandler.handleError(error, {
@@ -240,6 +222,92 @@ export class BinanceApiClient extends Singleton<BinanceApiClient> {
     }
   }
 
+  /**
+   * Make a user stream request, which needs the API key but no signature
+   *
+   * @param method - HTTP method: POST creates a listen key, PUT keeps it alive and DELETE closes it
+   * @param params - Request parameters
+   * @param options - Additional options
+   * @returns Promise with the API response
+   *
+   * @example
+   * ```typescript
+   * const { listenKey } = await binanceApiClient.makeUserStreamRequest<{ listenKey: string }>('POST');
+   * ```
+   */
+  public async makeUserStreamRequest<T>(
+    method: "POST" | "PUT" | "DELETE",
+    params: Record<string, any> = {},
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const endpoint = "/listenKey"
+
+    try {
+      const { weight = 1, rateLimitType = "REQUEST_WEIGHT", showInLogs = true } = options
+
+      // Check rate limits
+      await this.rateLimiter.checkRateLimit(rateLimitType, weight)
+
+      // Create query string
+      const queryString = createQueryString(params)
+
+      // Make request
+      const url = `${this.futuresBaseUrl}${endpoint}${queryString ? `?${queryString}` : ""}`
+
+      // Log request if not sensitive
+      if (showInLogs) {
+        console.log(`Making ${method} request to ${endpoint}`)
+      }
+
+      const response = await retryFetch(
+        url,
+        {
+          method,
+          headers: {
+            "X-MBX-APIKEY": this.apiKey,
+            "Content-Type": "application/json",
+          },
+        },
+        { maxRetries: 3, retryCondition: isRetryableError },
+      ).catch(async (error) => {
+        throw await this.toApiError(error, endpoint, showInLogs ? params : { sensitive: "***" })
+      })
+
+      return await response.json()
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: {
+          service: "BinanceApiClient",
+          action: "makeUserStreamRequest",
+          endpoint,
+          method,
+        },
+        severity: "high",
+      })
+      throw error
+    }
+  }
+
+  // retryFetch throws a plain HTTP error for non-2xx responses; Binance puts its error code in the body
+  private async toApiError(error: unknown, endpoint: string, params: Record<string, any>): Promise<unknown> {
+    const response: Response | undefined = (error as { response?: Response })?.response
+    if (!response) {
+      return error
+    }
+
+    const errorData = await response.json().catch(() => ({}))
+    return new ApiError(`Binance API error: ${errorData.msg || "Unknown error"}`, {
+      code: `BINANCE_ERROR_${errorData.code || "UNKNOWN"}`,
+      context: {
+        endpoint,
+        params,
+        status: response.status,
+        errorCode: errorData.code,
+        errorMsg: errorData.msg,
+      },
+    })
+  }
+
   /**
    * Get the current rate limit status
    * @returns The current rate limit status
@@ -3,11 +3,14 @@
  * Main entry point for Binance API functionality
  */
 import { Singleton } from "../utils/singleton"
+import { ValidationError } from "../error-handling/error-types"
 import { binanceOrderManager } from "./binance-order-manager"
 import { binanceAccountManager } from "./binance-account-manager"
 import { binancePositionManager } from "./binance-position-manager"
+import { bracketOrderManager } from "./bracket-order-manager"
 import type {
   BinanceApiServiceInterface,
+  BracketOrder,
   OrderSide,
   OrderType,
   PositionSide,
@@ -166,11 +169,13 @@ export class BinanceApiService extends Singleton<BinanceApiService> implements B
   /**
    * Place a take profit and stop loss order for an existing position
    * @param symbol Trading pair symbol
-   * @param positionSide Position side (LONG or SHORT)
+   * @param positionSide Position side (LONG or SHORT in hedge mode, BOTH in one-way mode)
    * @param takeProfitPrice Take profit price
    * @param stopLossPrice Stop loss price
    * @param quantity Order quantity
-   * @returns Tuple of [takeProfitOrder, stopLossOrder]
+   * @param direction Direction of the position; taken from the position side in hedge mode, and from the sign
+   * of the open position amount in one-way (BOTH) mode when left out
+   * @returns Bracket managing both orders; when one fills, the other is cancelled
    */
   public async placeTpSlOrders(
     symbol: string,
@@ -178,8 +183,16 @@ export class BinanceApiService extends Singleton<BinanceApiService> implements B
     takeProfitPrice: number,
     stopLossPrice: number,
     quantity: number,
-  ): Promise<[OrderResponse, OrderResponse]> {
-    return binanceOrderManager.placeTpSlOrders(symbol, positionSide, takeProfitPrice, stopLossPrice, quantity)
+    direction?: "LONG" | "SHORT",
+  ): Promise<BracketOrder> {
+    return bracketOrderManager.protectPosition({
+      symbol,
+      direction: direction ?? (await this.getPositionDirection(symbol, positionSide)),
+      positionSide,
+      quantity,
+      takeProfitPrice,
+      stopLossPrice,
+    })
   }
 
   /**
@@ -219,10 +232,11 @@ export class BinanceApiService extends Singleton<BinanceApiService> implements B
   /**
    * Get position for a specific symbol
    * @param symbol Trading pair symbol
+   * @param positionSide Optional position side (LONG or SHORT) to pick a hedge mode leg
    * @returns Position risk information or null if not found
    */
-  public async getPosition(symbol: string): Promise<PositionRisk | null> {
-    return binancePositionManager.getPosition(symbol)
+  public async getPosition(symbol: string, positionSide?: PositionSide): Promise<PositionRisk | null> {
+    return binancePositionManager.getPosition(symbol, positionSide)
   }
 
   /**
@@ -237,10 +251,44 @@ export class BinanceApiService extends Singleton<BinanceApiService> implements B
   /**
    * Get position size
    * @param symbol Trading pair symbol
+   * @param positionSide Optional position side; without it the hedge mode legs are netted
    * @returns Position size (positive for long, negative for short, 0 for no position)
    */
-  public async getPositionSize(symbol: string): Promise<number> {
-    return binancePositionManager.getPositionSize(symbol)
+  public async getPositionSize(symbol: string, positionSide?: PositionSide): Promise<number> {
+    return binancePositionManager.getPositionSize(symbol, positionSide)
+  }
+
+  /**
+   * Check whether the account is in hedge mode
+   * @param refresh Read the mode from the exchange instead of the cached value
+   * @returns Whether LONG and SHORT positions are held separately
+   */
+  public async isHedgeMode(refresh = false): Promise<boolean> {
+    return binancePositionManager.isHedgeMode(refresh)
+  }
+
+  /**
+   * Switch between hedge mode and one-way mode
+   * @param enabled Whether to hold LONG and SHORT positions separately
+   */
+  public async setHedgeMode(enabled: boolean): Promise<void> {
+    return binancePositionManager.setHedgeMode(enabled)
+  }
+
+  // A hedge mode position side is its own direction; a one-way position's direction is the sign of its amount
+  private async getPositionDirection(symbol: string, positionSide: PositionSide): Promise<"LONG" | "SHORT"> {
+    if (positionSide !== "BOTH") {
+      return positionSide
+    }
+
+    const size = await binancePositionManager.getPositionSize(symbol, "BOTH")
+    if (size === 0) {
+      throw new ValidationError("No open one-way position to protect; pass the direction explicitly", {
+        code: "NO_POSITION",
+        context: { symbol, positionSide },
+      })
+    }
+    return size > 0 ? "LONG" : "SHORT"
   }
 }
 
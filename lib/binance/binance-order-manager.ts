@@ -4,8 +4,9 @@
  */
 import { Singleton } from "../utils/singleton"
 import { errorHandler } from "../error-handling"
-import { OrderExecutionError } from "../error-handling/error-types"
+import { OrderExecutionError, ValidationError } from "../error-handling/error-types"
 import { binanceApiClient } from "./binance-api-client"
+import { formatOrderViolations, orderNormalizer } from "./order-normalizer"
 import type {
   OrderSide,
   OrderType,
@@ -17,6 +18,11 @@ import type {
   BinanceOrderManagerInterface,
 } from "../types"
 
+// LONG and SHORT position sides only exist in hedge mode; one-way mode orders use BOTH or leave it out
+function isHedgeLeg(positionSide?: PositionSide): boolean {
+  return positionSide === "LONG" || positionSide === "SHORT"
+}
+
 /**
  * BinanceOrderManager handles all order-related operations with the Binance API.
  * It provides methods for placing, canceling, and querying orders.
@@ -71,7 +77,7 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
   }
 
   /**
-   * Place a new order
+   * Place a new order, rounded to the symbol's exchange filters
    * @param symbol Trading pair symbol
    * @param side Order side (BUY or SELL)
    * @param type Order type (LIMIT, MARKET, etc.)
@@ -92,25 +98,43 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
         return this.mockPlaceOrder(symbol, side, type, quantity, options)
       }
 
+      // Orders that break LOT_SIZE, PRICE_FILTER or MIN_NOTIONAL never reach the exchange
+      const normalized = await orderNormalizer.normalize({
+        symbol,
+        side,
+        type,
+        quantity,
+        price: options.price || undefined,
+        stopPrice: options.stopPrice || undefined,
+        reduceOnly: options.reduceOnly || options.closePosition,
+      })
+      if (!normalized.valid) {
+        throw new ValidationError(formatOrderViolations(normalized), {
+          code: "ORDER_FILTER_VIOLATION",
+          context: { symbol, side, type, quantity, violations: normalized.violations },
+        })
+      }
+
       const params: Record<string, any> = {
         symbol,
         side,
         type,
-        quantity: quantity.toString(),
+        quantity: normalized.formatted.quantity,
       }
 
       // Add optional parameters
-      if (options.price) params.price = options.price.toString()
+      if (normalized.formatted.price) params.price = normalized.formatted.price
       if (options.timeInForce) params.timeInForce = options.timeInForce
-      if (options.stopPrice) params.stopPrice = options.stopPrice.toString()
+      if (normalized.formatted.stopPrice) params.stopPrice = normalized.formatted.stopPrice
       if (options.closePosition) params.closePosition = options.closePosition
-      if (options.reduceOnly) params.reduceOnly = options.reduceOnly
+      // Hedge mode orders name their leg instead; the exchange rejects reduceOnly alongside LONG or SHORT
+      if (options.reduceOnly && !isHedgeLeg(options.positionSide)) params.reduceOnly = options.reduceOnly
       if (options.workingType) params.workingType = options.workingType
       if (options.priceProtect) params.priceProtect = options.priceProtect
       if (options.newClientOrderId) params.newClientOrderId = options.newClientOrderId
       if (options.positionSide) params.positionSide = options.positionSide
 
-      return binanceApiClient.makeSignedRequest<OrderResponse>("/order", "POST", params, 1)
+      return binanceApiClient.makeSignedRequest<OrderResponse>("/order", "POST", params, { weight: 1 })
     } catch (error) {
       errorHandler.handleError(error, {
         context: {
@@ -185,7 +209,7 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
       if (options.orderId) params.orderId = options.orderId
       if (options.origClientOrderId) params.origClientOrderId = options.origClientOrderId
 
-      return binanceApiClient.makeSignedRequest<OrderStatus>("/order", "DELETE", params, 1)
+      return binanceApiClient.makeSignedRequest<OrderStatus>("/order", "DELETE", params, { weight: 1 })
     } catch (error) {
       errorHandler.handleError(error, {
         context: {
@@ -246,7 +270,7 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
     if (options.orderId) params.orderId = options.orderId
     if (options.origClientOrderId) params.origClientOrderId = options.origClientOrderId
 
-    return binanceApiClient.makeSignedRequest<OrderStatus>("/order", "GET", params, 2)
+    return binanceApiClient.makeSignedRequest<OrderStatus>("/order", "GET", params, { weight: 2 })
   }
 
   /**
@@ -260,7 +284,7 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
       params.symbol = symbol
     }
 
-    return binanceApiClient.makeSignedRequest<OrderStatus[]>("/openOrders", "GET", params, symbol ? 3 : 40)
+    return binanceApiClient.makeSignedRequest<OrderStatus[]>("/openOrders", "GET", params, { weight: symbol ? 3 : 40 })
   }
 
   /**
@@ -269,7 +293,7 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
    * @returns Cancellation response
    */
   public async cancelAllOpenOrders(symbol: string): Promise<any> {
-    return binanceApiClient.makeSignedRequest<any>("/allOpenOrders", "DELETE", { symbol }, 1)
+    return binanceApiClient.makeSignedRequest<any>("/allOpenOrders", "DELETE", { symbol }, { weight: 1 })
   }
 
   /**
@@ -280,6 +304,8 @@ export class BinanceOrderManager extends Singleton<BinanceOrderManager> implemen
    * @param stopLossPrice Stop loss price
    * @param quantity Order quantity
    * @returns Tuple of [takeProfitOrder, stopLossOrder]
+   * @deprecated The orders are independent, so one stays open after the other fills;
+   * use bracketOrderManager.protectPosition instead
    */
   public async placeTpSlOrders(
     symbol: string,
@@ -3,10 +3,13 @@
  * Handles position-related operations
  */
 import { Singleton } from "../utils/singleton"
+import { AppError } from "../error-handling/error-types"
 import { binanceApiClient } from "./binance-api-client"
-import type { PositionRisk } from "../types"
+import type { PositionRisk, PositionSide } from "../types"
 
 export class BinancePositionManager extends Singleton<BinancePositionManager> {
+  private hedgeMode: boolean | null = null // Account position mode, cached after the first read
+
   private constructor() {
     super()
   }
@@ -23,31 +26,66 @@ export class BinancePositionManager extends Singleton<BinancePositionManager> {
     if (symbol) {
       params.symbol = symbol
     }
-    return binanceApiClient.makeSignedRequest<PositionRisk[]>("/positionRisk", "GET", params, 5)
+    return binanceApiClient.makeSignedRequest<PositionRisk[]>("/positionRisk", "GET", params, { weight: 5 })
   }
 
   /**
-   * Get position for a specific symbol
+   * Get position for a specific symbol; in hedge mode pass the position side to pick the LONG or SHORT leg
    */
-  public async getPosition(symbol: string): Promise<PositionRisk | null> {
+  public async getPosition(symbol: string, positionSide?: PositionSide): Promise<PositionRisk | null> {
     const positions = await this.getPositionRisk(symbol)
-    return positions.find((p) => p.symbol === symbol) || null
+    return positions.find((p) => p.symbol === symbol && (!positionSide || p.positionSide === positionSide)) || null
   }
 
   /**
-   * Check if a position exists
+   * Check if a position exists on any position side
    */
   public async hasPosition(symbol: string): Promise<boolean> {
-    const position = await this.getPosition(symbol)
-    return position !== null && Number.parseFloat(position.positionAmt) !== 0
+    const positions = await this.getPositionRisk(symbol)
+    return positions.some((p) => p.symbol === symbol && Number.parseFloat(p.positionAmt) !== 0)
+  }
+
+  /**
+   * Get position size; without a position side this is the net size over both hedge mode legs
+   */
+  public async getPositionSize(symbol: string, positionSide?: PositionSide): Promise<number> {
+    const positions = await this.getPositionRisk(symbol)
+    return positions
+      .filter((p) => p.symbol === symbol && (!positionSide || p.positionSide === positionSide))
+      .reduce((size, p) => size + Number.parseFloat(p.positionAmt), 0)
   }
 
   /**
-   * Get position size
+   * Check whether the account is in hedge mode, holding separate LONG and SHORT positions per symbol
    */
-  public async getPositionSize(symbol: string): Promise<number> {
-    const position = await this.getPosition(symbol)
-    return position ? Number.parseFloat(position.positionAmt) : 0
+  public async isHedgeMode(refresh = false): Promise<boolean> {
+    if (this.hedgeMode === null || refresh) {
+      const response = await binanceApiClient.makeSignedRequest<{ dualSidePosition: boolean }>(
+        "/positionSide/dual",
+        "GET",
+        {},
+        { weight: 30 },
+      )
+      this.hedgeMode = response.dualSidePosition
+    }
+    return this.hedgeMode
+  }
+
+  /**
+   * Switch the account between hedge mode and one-way mode. The exchange refuses while any position or open order
+   * exists, on every symbol.
+   */
+  public async setHedgeMode(enabled: boolean): Promise<void> {
+    try {
+      const params = { dualSidePosition: String(enabled) }
+      await binanceApiClient.makeSignedRequest("/positionSide/dual", "POST", params, { weight: 1 })
+    } catch (error) {
+      // -4059: the account is already in the requested mode
+      if (!(error instanceof AppError && error.code === "BINANCE_ERROR_-4059")) {
+        throw error
+      }
+    }
+    this.hedgeMode = enabled
   }
 }
 
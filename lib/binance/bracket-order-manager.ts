@@ -0,0 +1,675 @@
+/**
+ * Bracket Order Manager
+ * Manages entry, take profit and stop loss orders as one unit: a filled exit cancels its sibling, fills resize the
+ * exits, and brackets are rebuilt from the open orders on the exchange after a restart
+ */
+import { errorHandler } from "../error-handling"
+import { AppError, ValidationError } from "../error-handling/error-types"
+import { binanceOrderManager } from "./binance-order-manager"
+import { binancePositionManager } from "./binance-position-manager"
+import { binanceUserDataStream } from "./user-data-stream"
+import type {
+  BracketLeg,
+  BracketLegType,
+  BracketOrder,
+  BracketOrderRequest,
+  BracketStatus,
+  OrderSide,
+  OrderStatus,
+  OrderTradeUpdate,
+  UserDataEvent,
+  UserOrderStatus,
+} from "../types"
+
+type ExitLegType = Exclude<BracketLegType, "ENTRY">
+
+export interface BracketClientOrderId {
+  bracketId: string
+  leg: BracketLegType
+  revision: number
+}
+
+export type ProtectPositionRequest = Omit<BracketOrderRequest, "entryType" | "entryPrice">
+
+// Client order ids carry the bracket id and leg so brackets can be rebuilt from open orders
+const LEG_CODES: Record<BracketLegType, string> = { ENTRY: "E", TAKE_PROFIT: "TP", STOP_LOSS: "SL" }
+const CLIENT_ORDER_ID_PATTERN = /^brk_([a-z0-9]+)_(E|TP|SL)(\d+)$/
+
+// The stop goes out first so a position is never left with only a take profit
+const EXIT_LEGS: ExitLegType[] = ["STOP_LOSS", "TAKE_PROFIT"]
+
+const LIVE_STATUSES: BracketLeg["status"][] = ["PENDING", "NEW", "PARTIALLY_FILLED"]
+
+// Quantities closer than this are treated as equal
+const QUANTITY_EPSILON = 1e-9
+
+/**
+ * Client order id of a bracket leg, e.g. brk_lx2k9a1b3f_SL2 for the second stop loss order
+ */
+export function createBracketClientOrderId(bracketId: string, leg: BracketLegType, revision: number): string {
+  return `brk_${bracketId}_${LEG_CODES[leg]}${revision}`
+}
+
+/**
+ * Bracket id, leg and revision encoded in a client order id; null for orders that belong to no bracket
+ */
+export function parseBracketClientOrderId(clientOrderId: string): BracketClientOrderId | null {
+  const match = CLIENT_ORDER_ID_PATTERN.exec(clientOrderId)
+  if (!match) {
+    return null
+  }
+
+  const leg = (Object.keys(LEG_CODES) as BracketLegType[]).find((type) => LEG_CODES[type] === match[2])!
+  return { bracketId: match[1], leg, revision: Number(match[3]) }
+}
+
+/**
+ * Position size the exit legs have to cover
+ */
+export function getOpenQuantity(bracket: BracketOrder): number {
+  const entered = bracket.entry ? bracket.entry.filledQuantity : bracket.quantity
+  return Math.max(0, entered - bracket.exitedQuantity)
+}
+
+/**
+ * Tracks brackets and keeps their orders consistent with each other
+ *
+ * @example
+ * ```typescript
+ * const bracket = await bracketOrderManager.placeBracket({
+ *   symbol: "BTCUSDT",
+ *   direction: "LONG",
+ *   quantity: 0.01,
+ *   entryType: "LIMIT",
+ *   entryPrice: 64000,
+ *   takeProfitPrice: 67000,
+ *   stopLossPrice: 62500,
+ * });
+ * // Exits follow the filled entry quantity; when one fills, the other is cancelled
+ * ```
+ */
+export class BracketOrderManager {
+  private static instance: BracketOrderManager
+  private brackets: Map<string, BracketOrder> = new Map()
+  private queues: Map<string, Promise<void>> = new Map()
+  private unsubscribeUserData: (() => void) | null = null
+  private unsubscribeReconnect: (() => void) | null = null
+
+  private constructor() {}
+
+  public static getInstance(): BracketOrderManager {
+    if (!BracketOrderManager.instance) {
+      BracketOrderManager.instance = new BracketOrderManager()
+    }
+    return BracketOrderManager.instance
+  }
+
+  /**
+   * Follow order updates from the user data stream, starting the stream if needed
+   */
+  public async start(): Promise<void> {
+    if (!this.unsubscribeUserData) {
+      this.unsubscribeUserData = binanceUserDataStream.subscribe((event: UserDataEvent) => {
+        if (event.eventType === "ORDER_TRADE_UPDATE") {
+          this.handleOrderUpdate(event)
+        }
+      })
+
+      // Fills sent while the stream was down are caught up from the exchange
+      this.unsubscribeReconnect = binanceUserDataStream.onReconnect(() => {
+        this.reconcile().catch((error) => {
+          errorHandler.handleError(error, {
+            context: { action: "reconcileBrackets" },
+            severity: "high",
+          })
+        })
+      })
+    }
+    await binanceUserDataStream.start()
+  }
+
+  /**
+   * Stop following order updates; orders on the exchange are left as they are
+   */
+  public stop(): void {
+    this.unsubscribeUserData?.()
+    this.unsubscribeUserData = null
+    this.unsubscribeReconnect?.()
+    this.unsubscribeReconnect = null
+  }
+
+  /**
+   * Place an entry order with a take profit and stop loss that cover whatever part of the entry has filled
+   */
+  public async placeBracket(request: BracketOrderRequest): Promise<BracketOrder> {
+    this.validateRequest(request)
+    await this.start()
+
+    const entryType = request.entryType ?? "MARKET"
+    const bracket = this.createBracket(request, "PENDING_ENTRY")
+    const entry = createLeg(bracket.id, "ENTRY", request.quantity, entryType === "LIMIT" ? request.entryPrice! : 0, 1)
+    bracket.entry = entry
+    this.brackets.set(bracket.id, bracket)
+
+    await this.enqueue(bracket, async () => {
+      try {
+        const order = await binanceOrderManager.placeOrder(
+          bracket.symbol,
+          request.direction === "LONG" ? "BUY" : "SELL",
+          entryType,
+          request.quantity,
+          {
+            price: entryType === "LIMIT" ? request.entryPrice : undefined,
+            timeInForce: entryType === "LIMIT" ? "GTC" : undefined,
+            positionSide: bracket.positionSide,
+            newClientOrderId: entry.clientOrderId,
+          },
+        )
+        entry.orderId = order.orderId
+        this.applyLegState(bracket, entry, order.status, Number(order.executedQty))
+      } catch (error) {
+        bracket.status = "CANCELED"
+        this.brackets.delete(bracket.id)
+        throw error
+      }
+
+      await this.syncExits(bracket)
+    })
+
+    return bracket
+  }
+
+  /**
+   * Place a take profit and stop loss for a position that is already open
+   */
+  public async protectPosition(request: ProtectPositionRequest): Promise<BracketOrder> {
+    this.validateRequest(request)
+    await this.start()
+
+    const bracket = this.createBracket(request, "OPEN")
+    this.brackets.set(bracket.id, bracket)
+    await this.enqueue(bracket, () => this.syncExits(bracket))
+
+    return bracket
+  }
+
+  /**
+   * Move the take profit and/or stop loss; the exit orders are replaced at the new prices
+   */
+  public async updateExitPrices(
+    bracketId: string,
+    prices: { takeProfitPrice?: number; stopLossPrice?: number },
+  ): Promise<BracketOrder> {
+    const bracket = this.getActiveBracket(bracketId)
+
+    await this.enqueue(bracket, async () => {
+      bracket.takeProfitPrice = prices.takeProfitPrice ?? bracket.takeProfitPrice
+      bracket.stopLossPrice = prices.stopLossPrice ?? bracket.stopLossPrice
+      await this.syncExits(bracket)
+    })
+
+    return bracket
+  }
+
+  /**
+   * Cancel every working order of a bracket; an open position is left unprotected
+   */
+  public async cancelBracket(bracketId: string): Promise<BracketOrder> {
+    const bracket = this.getActiveBracket(bracketId)
+    await this.enqueue(bracket, () => this.closeBracket(bracket, "CANCELED"))
+    return bracket
+  }
+
+  /**
+   * Apply an order update from the user data stream; resolves once the bracket has adjusted its orders
+   */
+  public handleOrderUpdate(update: OrderTradeUpdate): Promise<void> {
+    const parsed = parseBracketClientOrderId(update.clientOrderId)
+    const bracket = parsed ? this.brackets.get(parsed.bracketId) : undefined
+    if (!parsed || !bracket) {
+      return Promise.resolve()
+    }
+
+    const leg = getLeg(bracket, parsed.leg)
+    if (leg && leg.clientOrderId === update.clientOrderId) {
+      leg.orderId = update.orderId
+      this.applyLegState(bracket, leg, update.orderStatus, update.filledQuantity)
+    } else if (parsed.leg !== "ENTRY" && update.executionType === "TRADE") {
+      // A replaced exit order filled before its cancel reached the exchange
+      bracket.exitedQuantity += update.lastFilledQuantity
+      bracket.updatedAt = Date.now()
+    }
+
+    return this.enqueue(bracket, () => this.syncExits(bracket)).catch((error) => {
+      errorHandler.handleError(error, {
+        context: {
+          action: "syncBracket",
+          bracketId: bracket.id,
+          symbol: bracket.symbol,
+          clientOrderId: update.clientOrderId,
+        },
+        severity: "high",
+      })
+    })
+  }
+
+  /**
+   * Rebuild brackets from the open orders on the exchange, e.g. after a restart, and settle brackets whose
+   * orders finished while no updates were received. Exits of positions that are already closed are cancelled.
+   */
+  public async reconcile(symbol?: string): Promise<BracketOrder[]> {
+    const openOrders = await binanceOrderManager.getOpenOrders(symbol)
+    const ordersByBracket = new Map<string, OrderStatus[]>()
+
+    openOrders.forEach((order) => {
+      const parsed = parseBracketClientOrderId(order.clientOrderId)
+      if (parsed) {
+        ordersByBracket.set(parsed.bracketId, [...(ordersByBracket.get(parsed.bracketId) ?? []), order])
+      }
+    })
+
+    ordersByBracket.forEach((orders, bracketId) => {
+      if (!this.brackets.has(bracketId)) {
+        this.brackets.set(bracketId, rebuildBracket(bracketId, orders))
+      }
+    })
+
+    for (const bracket of this.getBrackets(symbol)) {
+      try {
+        await this.enqueue(bracket, () => this.reconcileBracket(bracket, ordersByBracket.get(bracket.id) ?? []))
+      } catch (error) {
+        errorHandler.handleError(error, {
+          context: { action: "reconcileBracket", bracketId: bracket.id, symbol: bracket.symbol },
+          severity: "high",
+        })
+      }
+    }
+
+    return this.getBrackets(symbol)
+  }
+
+  /**
+   * Brackets with working orders, optionally for one symbol
+   */
+  public getBrackets(symbol?: string): BracketOrder[] {
+    return Array.from(this.brackets.values()).filter((bracket) => !symbol || bracket.symbol === symbol)
+  }
+
+  /**
+   * Get a bracket with working orders by id
+   */
+  public getBracket(bracketId: string): BracketOrder | null {
+    return this.brackets.get(bracketId) ?? null
+  }
+
+  /**
+   * Forget all brackets without touching their orders
+   */
+  public clear(): void {
+    this.brackets.clear()
+    this.queues.clear()
+  }
+
+  // New bracket without orders
+  private createBracket(request: ProtectPositionRequest, status: BracketStatus): BracketOrder {
+    const now = Date.now()
+    return {
+      id: `${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+      symbol: request.symbol,
+      direction: request.direction,
+      positionSide: request.positionSide,
+      status,
+      quantity: request.quantity,
+      exitedQuantity: 0,
+      takeProfitPrice: request.takeProfitPrice,
+      stopLossPrice: request.stopLossPrice,
+      entry: null,
+      takeProfit: null,
+      stopLoss: null,
+      createdAt: now,
+      updatedAt: now,
+    }
+  }
+
+  // Reject requests whose exits would trigger on the wrong side of the entry
+  private validateRequest(request: BracketOrderRequest): void {
+    const { symbol, direction, quantity, takeProfitPrice, stopLossPrice, entryType, entryPrice } = request
+    const problems: string[] = []
+
+    if (!(quantity > 0)) {
+      problems.push("quantity must be positive")
+    }
+    if (!(takeProfitPrice > 0) || !(stopLossPrice > 0)) {
+      problems.push("take profit and stop loss prices must be positive")
+    }
+    if (entryType === "LIMIT" && !(entryPrice! > 0)) {
+      problems.push("a LIMIT entry needs an entry price")
+    }
+
+    const below = direction === "LONG" ? stopLossPrice : takeProfitPrice
+    const above = direction === "LONG" ? takeProfitPrice : stopLossPrice
+    const reference = entryType === "LIMIT" ? entryPrice : undefined
+    if (below >= above || (reference !== undefined && (reference <= below || reference >= above))) {
+      problems.push(`${direction} exits must be placed on either side of the entry`)
+    }
+
+    if (problems.length > 0) {
+      throw new ValidationError(`Invalid bracket for ${symbol}: ${problems.join("; ")}`, {
+        code: "INVALID_BRACKET",
+        context: { request },
+      })
+    }
+  }
+
+  private getActiveBracket(bracketId: string): BracketOrder {
+    const bracket = this.brackets.get(bracketId)
+    if (!bracket) {
+      throw new AppError(`Bracket ${bracketId} is not active`, {
+        code: "BRACKET_NOT_FOUND",
+        context: { bracketId },
+      })
+    }
+    return bracket
+  }
+
+  // Run the changes to a bracket one after another so order replacements never overlap
+  private enqueue(bracket: BracketOrder, task: () => Promise<void>): Promise<void> {
+    const result = (this.queues.get(bracket.id) ?? Promise.resolve()).then(task)
+    const queued = result.catch(() => undefined)
+    this.queues.set(bracket.id, queued)
+
+    queued.then(() => {
+      if (this.queues.get(bracket.id) === queued) {
+        this.queues.delete(bracket.id)
+      }
+    })
+    return result
+  }
+
+  // Record the latest state of a leg's order; states that arrive after a newer one are ignored
+  private applyLegState(bracket: BracketOrder, leg: BracketLeg, status: string, filledQuantity: number): void {
+    const orderStatus = status as UserOrderStatus
+    if (filledQuantity < leg.filledQuantity || (!isLive(leg) && LIVE_STATUSES.includes(orderStatus))) {
+      return
+    }
+
+    const filled = filledQuantity - leg.filledQuantity
+    leg.filledQuantity = filledQuantity
+    leg.status = orderStatus
+    bracket.updatedAt = Date.now()
+
+    if (leg.type === "ENTRY") {
+      if (filledQuantity > 0 && bracket.status === "PENDING_ENTRY") {
+        bracket.status = "OPEN"
+      }
+      return
+    }
+
+    bracket.exitedQuantity += filled
+    if ((orderStatus === "CANCELED" || orderStatus === "EXPIRED") && isActive(bracket)) {
+      errorHandler.handleError(
+        new AppError(`${leg.type} order ${leg.clientOrderId} of ${bracket.symbol} was ${orderStatus.toLowerCase()}`, {
+          code: "BRACKET_LEG_CANCELED",
+          context: { bracketId: bracket.id, symbol: bracket.symbol, leg: leg.type },
+        }),
+        {
+          context: { action: "applyBracketLegState", bracketId: bracket.id, symbol: bracket.symbol },
+          severity: "high",
+        },
+      )
+    }
+  }
+
+  // Bring the exit orders in line with the open quantity and target prices, or close the bracket once it is done
+  private async syncExits(bracket: BracketOrder): Promise<void> {
+    if (!isActive(bracket)) {
+      return
+    }
+
+    const quantity = getOpenQuantity(bracket)
+    const entryWorking = bracket.entry !== null && isLive(bracket.entry)
+    const exitFilled = EXIT_LEGS.some((type) => getLeg(bracket, type)?.status === "FILLED")
+
+    if (exitFilled || (quantity <= QUANTITY_EPSILON && !entryWorking)) {
+      await this.closeBracket(bracket, bracket.exitedQuantity > 0 ? "CLOSED" : "CANCELED")
+      return
+    }
+    if (quantity <= QUANTITY_EPSILON) {
+      return
+    }
+
+    for (const type of EXIT_LEGS) {
+      const leg = getLeg(bracket, type)
+      const price = type === "TAKE_PROFIT" ? bracket.takeProfitPrice : bracket.stopLossPrice
+
+      // Exits cancelled outside the bracket, or unknown after a restart, are not recreated
+      if ((leg && !isLive(leg)) || !(price > 0)) continue
+      if (leg && leg.price === price && Math.abs(leg.quantity - leg.filledQuantity - quantity) <= QUANTITY_EPSILON) {
+        continue
+      }
+
+      await this.replaceExit(bracket, type, quantity, price)
+    }
+  }
+
+  // Place the new exit order before cancelling the old one so the position is never unprotected
+  private async replaceExit(bracket: BracketOrder, type: ExitLegType, quantity: number, price: number): Promise<void> {
+    const previous = getLeg(bracket, type)
+    const leg = createLeg(bracket.id, type, quantity, price, (previous?.revision ?? 0) + 1)
+    setLeg(bracket, type, leg)
+
+    try {
+      const order = await binanceOrderManager.placeOrder(
+        bracket.symbol,
+        getExitSide(bracket),
+        type === "TAKE_PROFIT" ? "TAKE_PROFIT_MARKET" : "STOP_MARKET",
+        quantity,
+        {
+          stopPrice: price,
+          reduceOnly: true,
+          positionSide: bracket.positionSide,
+          newClientOrderId: leg.clientOrderId,
+        },
+      )
+      leg.orderId = order.orderId
+      this.applyLegState(bracket, leg, order.status, Number(order.executedQty))
+    } catch (error) {
+      setLeg(bracket, type, previous)
+      throw error
+    }
+
+    if (previous) {
+      await this.cancelLeg(bracket, previous)
+    }
+  }
+
+  // Cancel a leg's order; one that already filled or was cancelled leaves nothing to do
+  private async cancelLeg(bracket: BracketOrder, leg: BracketLeg): Promise<void> {
+    if (!isLive(leg)) {
+      return
+    }
+
+    try {
+      await binanceOrderManager.cancelOrder(
+        bracket.symbol,
+        leg.orderId ? { orderId: leg.orderId } : { origClientOrderId: leg.clientOrderId },
+      )
+      leg.status = "CANCELED"
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: {
+          action: "cancelBracketLeg",
+          bracketId: bracket.id,
+          symbol: bracket.symbol,
+          clientOrderId: leg.clientOrderId,
+        },
+        severity: "medium",
+      })
+    }
+  }
+
+  // Cancel whatever is still working and stop tracking the bracket
+  private async closeBracket(bracket: BracketOrder, status: "CLOSED" | "CANCELED"): Promise<void> {
+    bracket.status = status
+    bracket.updatedAt = Date.now()
+    this.brackets.delete(bracket.id)
+
+    for (const leg of [bracket.entry, bracket.takeProfit, bracket.stopLoss]) {
+      if (leg) {
+        await this.cancelLeg(bracket, leg)
+      }
+    }
+
+    console.log(`Bracket ${bracket.id} on ${bracket.symbol} ${status.toLowerCase()}`)
+  }
+
+  // Catch up on legs that changed while no updates were received, then check the position is still there
+  private async reconcileBracket(bracket: BracketOrder, openOrders: OrderStatus[]): Promise<void> {
+    for (const leg of [bracket.entry, bracket.takeProfit, bracket.stopLoss]) {
+      if (!leg || !isLive(leg)) continue
+
+      const order =
+        openOrders.find((openOrder) => openOrder.clientOrderId === leg.clientOrderId) ??
+        (await binanceOrderManager.getOrderStatus(bracket.symbol, { origClientOrderId: leg.clientOrderId }))
+      leg.orderId = order.orderId
+      this.applyLegState(bracket, leg, order.status, Number(order.executedQty))
+    }
+
+    // Older orders of a replaced leg are left over when the process stopped between placing and cancelling
+    const currentIds = [bracket.entry, bracket.takeProfit, bracket.stopLoss].map((leg) => leg?.clientOrderId)
+    for (const order of openOrders.filter((openOrder) => !currentIds.includes(openOrder.clientOrderId))) {
+      const { leg, revision } = parseBracketClientOrderId(order.clientOrderId)!
+      const price = Number(order.stopPrice) || Number(order.price)
+      await this.cancelLeg(bracket, {
+        ...createLeg(bracket.id, leg, Number(order.origQty), price, revision),
+        orderId: order.orderId,
+        status: "NEW",
+      })
+    }
+
+    // Without a working entry, exits are only needed while the position they protect is open
+    const entryWorking = bracket.entry !== null && isLive(bracket.entry)
+    if (!entryWorking && getOpenQuantity(bracket) > QUANTITY_EPSILON && !(await this.hasOpenPosition(bracket))) {
+      await this.closeBracket(bracket, "CLOSED")
+      return
+    }
+
+    await this.syncExits(bracket)
+  }
+
+  // Whether the exchange still has a position on the bracket's side
+  private async hasOpenPosition(bracket: BracketOrder): Promise<boolean> {
+    const positions = await binancePositionManager.getPositionRisk(bracket.symbol)
+    const positionSide = bracket.positionSide ?? "BOTH"
+
+    return positions.some((position) => {
+      const amount = Number.parseFloat(position.positionAmt)
+      return (
+        position.symbol === bracket.symbol &&
+        (position.positionSide ?? "BOTH") === positionSide &&
+        (bracket.direction === "LONG" ? amount > 0 : amount < 0)
+      )
+    })
+  }
+}
+
+function createLeg(
+  bracketId: string,
+  type: BracketLegType,
+  quantity: number,
+  price: number,
+  revision: number,
+): BracketLeg {
+  return {
+    type,
+    orderId: null,
+    clientOrderId: createBracketClientOrderId(bracketId, type, revision),
+    revision,
+    price,
+    quantity,
+    filledQuantity: 0,
+    status: "PENDING",
+  }
+}
+
+// Bracket state recovered from its open orders; fills from before the restart are not known
+function rebuildBracket(bracketId: string, orders: OrderStatus[]): BracketOrder {
+  const legs = orders.map((order): BracketLeg => {
+    const { leg, revision } = parseBracketClientOrderId(order.clientOrderId)!
+    return {
+      type: leg,
+      orderId: order.orderId,
+      clientOrderId: order.clientOrderId,
+      revision,
+      price: Number(order.stopPrice) || Number(order.price),
+      quantity: Number(order.origQty),
+      filledQuantity: Number(order.executedQty),
+      status: order.status as UserOrderStatus,
+    }
+  })
+  // Of two orders for the same leg, the replacement was placed before the cancel of the old one went through
+  const findLeg = (type: BracketLegType) =>
+    legs.filter((leg) => leg.type === type).sort((a, b) => b.revision - a.revision)[0] ?? null
+
+  const entry = findLeg("ENTRY")
+  const takeProfit = findLeg("TAKE_PROFIT")
+  const stopLoss = findLeg("STOP_LOSS")
+  const entrySide = entry ? orders.find((order) => order.clientOrderId === entry.clientOrderId)!.side : null
+  const exitSide = orders[0].side
+  const direction = (entrySide ?? (exitSide === "BUY" ? "SELL" : "BUY")) === "BUY" ? "LONG" : "SHORT"
+  const exitQuantity = Math.max(
+    0,
+    ...[takeProfit, stopLoss].map((leg) => (leg ? leg.quantity - leg.filledQuantity : 0)),
+  )
+
+  return {
+    id: bracketId,
+    symbol: orders[0].symbol,
+    direction,
+    positionSide: orders[0].positionSide,
+    status: entry && entry.filledQuantity === 0 ? "PENDING_ENTRY" : "OPEN",
+    quantity: entry ? entry.quantity : exitQuantity,
+    exitedQuantity: 0,
+    takeProfitPrice: takeProfit?.price ?? 0,
+    stopLossPrice: stopLoss?.price ?? 0,
+    entry,
+    takeProfit,
+    stopLoss,
+    createdAt: Math.min(...orders.map((order) => order.time)),
+    updatedAt: Date.now(),
+  }
+}
+
+function getLeg(bracket: BracketOrder, type: BracketLegType): BracketLeg | null {
+  switch (type) {
+    case "ENTRY":
+      return bracket.entry
+    case "TAKE_PROFIT":
+      return bracket.takeProfit
+    case "STOP_LOSS":
+      return bracket.stopLoss
+  }
+}
+
+function setLeg(bracket: BracketOrder, type: ExitLegType, leg: BracketLeg | null): void {
+  if (type === "TAKE_PROFIT") {
+    bracket.takeProfit = leg
+  } else {
+    bracket.stopLoss = leg
+  }
+}
+
+function getExitSide(bracket: BracketOrder): OrderSide {
+  return bracket.direction === "LONG" ? "SELL" : "BUY"
+}
+
+function isLive(leg: BracketLeg): boolean {
+  return LIVE_STATUSES.includes(leg.status)
+}
+
+function isActive(bracket: BracketOrder): boolean {
+  return bracket.status === "PENDING_ENTRY" || bracket.status === "OPEN"
+}
+
+// Export singleton instance
+export const bracketOrderManager = BracketOrderManager.getInstance()
@@ -0,0 +1,568 @@
+/**
+ * Execution Algorithms
+ * Works large orders through BinanceOrderManager as TWAP slices, iceberg limit orders or a post-only limit chaser,
+ * and measures what each execution cost against the mid price when it started
+ */
+import { errorHandler } from "../error-handling"
+import { AppError, ValidationError } from "../error-handling/error-types"
+import { binanceOrderManager } from "./binance-order-manager"
+import { binanceMarketDataService } from "./market-data-service"
+import { orderNormalizer } from "./order-normalizer"
+import type {
+  AlgoExecution,
+  AlgoExecutionRequest,
+  ChaseRequest,
+  ExecutionAlgorithm,
+  IcebergRequest,
+  ImplementationShortfall,
+  OrderOptions,
+  OrderResponse,
+  OrderSide,
+  OrderStatus,
+  TwapRequest,
+} from "../types"
+import type { StepRange } from "./order-normalizer"
+
+export interface ExecutionAlgorithmConfig {
+  pollIntervalMs: number // How often working orders are checked and the chaser compares its price with the book
+}
+
+// Smallest quantity and step of one child order under the lot filters and the minimum notional
+interface LotLimits {
+  min: number
+  step: number
+}
+
+interface BestPrices {
+  bid: number
+  ask: number
+}
+
+// Filled part of one child order
+interface ChildFill {
+  quantity: number
+  price: number
+}
+
+interface ExecutionState {
+  execution: AlgoExecution
+  request: AlgoExecutionRequest
+  fills: Map<number, ChildFill>
+  workingOrderId: number | null
+  cancelled: boolean
+  wake: (() => void) | null // Ends the current wait early when the execution is cancelled
+  done: Promise<AlgoExecution> | null
+}
+
+const DEFAULT_CONFIG: ExecutionAlgorithmConfig = {
+  pollIntervalMs: 1000,
+}
+
+const FINAL_STATUSES = ["FILLED", "CANCELED", "EXPIRED", "EXPIRED_IN_MATCH", "REJECTED"]
+
+// Quantities closer than this are treated as equal
+const QUANTITY_EPSILON = 1e-9
+
+// Client order ids of child orders start with this, followed by the execution id and the order number
+export const EXECUTION_CLIENT_ORDER_PREFIX = "exe_"
+
+/**
+ * Implementation shortfall of an order: what the fills cost against the arrival price, plus what the unfilled rest
+ * would cost now
+ */
+export function calculateImplementationShortfall(
+  side: OrderSide,
+  quantity: number,
+  filledQuantity: number,
+  averagePrice: number | null,
+  arrivalPrice: number,
+  finalPrice: number,
+): ImplementationShortfall {
+  const direction = side === "BUY" ? 1 : -1
+  const executionCost = averagePrice === null ? 0 : direction * (averagePrice - arrivalPrice) * filledQuantity
+  const opportunityCost = direction * (finalPrice - arrivalPrice) * Math.max(0, quantity - filledQuantity)
+  const totalCost = executionCost + opportunityCost
+
+  return {
+    arrivalPrice,
+    averagePrice,
+    finalPrice,
+    executionCost,
+    opportunityCost,
+    totalCost,
+    bps: arrivalPrice > 0 && quantity > 0 ? (totalCost / (arrivalPrice * quantity)) * 10000 : 0,
+  }
+}
+
+/**
+ * Runs execution algorithms and keeps their progress
+ *
+ * @example
+ * ```typescript
+ * const execution = await executionAlgorithms.executeTwap({
+ *   symbol: "BTCUSDT",
+ *   side: "BUY",
+ *   quantity: 2,
+ *   durationMs: 10 * 60 * 1000,
+ *   slices: 20,
+ *   onProgress: (progress) => console.log(progress.filledQuantity, progress.averagePrice),
+ * });
+ * console.log(execution.shortfall?.bps);
+ * ```
+ */
+export class ExecutionAlgorithms {
+  private static instance: ExecutionAlgorithms
+  private config: ExecutionAlgorithmConfig = { ...DEFAULT_CONFIG }
+  private executions: Map<string, ExecutionState> = new Map()
+
+  private constructor() {}
+
+  public static getInstance(): ExecutionAlgorithms {
+    if (!ExecutionAlgorithms.instance) {
+      ExecutionAlgorithms.instance = new ExecutionAlgorithms()
+    }
+    return ExecutionAlgorithms.instance
+  }
+
+  /**
+   * Update the configuration
+   */
+  public setConfig(config: Partial<ExecutionAlgorithmConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  /**
+   * Get the current configuration
+   */
+  public getConfig(): ExecutionAlgorithmConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Split an order into equal market orders spread over the time window. Slices are rounded down to the lot step and
+   * kept at the minimum size; what rounding leaves over goes out with the last slice.
+   */
+  public async executeTwap(request: TwapRequest): Promise<AlgoExecution> {
+    if (!Number.isInteger(request.slices) || request.slices < 1 || request.durationMs < 0) {
+      throw new ValidationError("TWAP needs at least one slice and a non-negative duration", {
+        code: "INVALID_EXECUTION_REQUEST",
+        context: { slices: request.slices, durationMs: request.durationMs },
+      })
+    }
+
+    return this.run("TWAP", request, async (state) => {
+      const interval = request.slices > 1 ? request.durationMs / (request.slices - 1) : 0
+      const limits = await this.getLotLimits(state, "MARKET", state.execution.arrivalPrice)
+
+      for (let slice = 0; slice < request.slices; slice++) {
+        const sliceAt = state.execution.startedAt + slice * interval
+        await this.wait(state, sliceAt - Date.now())
+        if (state.cancelled || this.getRemaining(state) <= QUANTITY_EPSILON) {
+          return
+        }
+
+        const remaining = this.getRemaining(state)
+        const quantity = this.getChildQuantity(remaining, remaining / (request.slices - slice), limits)
+        if (quantity <= 0) {
+          return
+        }
+        const order = await this.placeChild(state, "MARKET", quantity)
+
+        // Market orders fill at once; the deadline only guards against an order that never reports back
+        await this.waitForOrder(state, order, sliceAt + Math.max(interval, this.config.pollIntervalMs * 5))
+      }
+    })
+  }
+
+  /**
+   * Work a limit order by showing only the visible quantity; the next part goes out once the shown one has filled.
+   * Parts are kept on the lot step and at the minimum size, and a tail too small for its own order joins the last part.
+   */
+  public async executeIceberg(request: IcebergRequest): Promise<AlgoExecution> {
+    if (!(request.price > 0) || !(request.visibleQuantity > 0)) {
+      throw new ValidationError("Iceberg orders need a price and a positive visible quantity", {
+        code: "INVALID_EXECUTION_REQUEST",
+        context: { price: request.price, visibleQuantity: request.visibleQuantity },
+      })
+    }
+
+    return this.run("ICEBERG", request, async (state) => {
+      const deadline = request.timeoutMs ? state.execution.startedAt + request.timeoutMs : Number.POSITIVE_INFINITY
+      const limits = await this.getLotLimits(state, "LIMIT", request.price)
+
+      while (!state.cancelled && this.getRemaining(state) > QUANTITY_EPSILON && Date.now() < deadline) {
+        const quantity = this.getChildQuantity(this.getRemaining(state), request.visibleQuantity, limits)
+        if (quantity <= 0) {
+          return
+        }
+        const order = await this.placeChild(state, "LIMIT", quantity, { price: request.price, timeInForce: "GTC" })
+        const status = await this.waitForOrder(state, order, deadline)
+
+        // Cancelled or expired on the exchange rather than filled: stop instead of showing the next part
+        if (status.status !== "FILLED") {
+          return
+        }
+      }
+    })
+  }
+
+  /**
+   * Keep a post-only (GTX) limit order at the best bid for buys or the best ask for sells, re-pricing it as the book
+   * moves until it has filled or the timeout passes
+   */
+  public async executeChase(request: ChaseRequest): Promise<AlgoExecution> {
+    if (!(request.timeoutMs > 0)) {
+      throw new ValidationError("A limit chase needs a positive timeout", {
+        code: "INVALID_EXECUTION_REQUEST",
+        context: { timeoutMs: request.timeoutMs },
+      })
+    }
+
+    return this.run("CHASE", request, async (state) => {
+      const deadline = state.execution.startedAt + request.timeoutMs
+      const limits = await this.getLotLimits(state, "LIMIT", state.execution.arrivalPrice)
+      let workingPrice: number | null = null
+
+      while (!state.cancelled && this.getRemaining(state) > QUANTITY_EPSILON && Date.now() < deadline) {
+        const price = this.getChasePrice(request, await this.getBestPrices(request.symbol))
+
+        if (state.workingOrderId !== null && price !== workingPrice) {
+          await this.cancelChild(state, state.workingOrderId)
+        }
+
+        if (state.workingOrderId === null) {
+          // What partial fills leave may be below the minimum size, and can then not be posted again
+          const remaining = this.getRemaining(state)
+          const quantity = this.getChildQuantity(remaining, remaining, limits)
+          if (quantity <= 0) {
+            return
+          }
+
+          // A post-only order that would take liquidity expires at once and is re-posted on the next round
+          await this.placeChild(state, "LIMIT", quantity, { price, timeInForce: "GTX" })
+          workingPrice = price
+        }
+
+        await this.wait(state, Math.min(this.config.pollIntervalMs, deadline - Date.now()))
+        if (state.workingOrderId !== null) {
+          this.recordOrder(state, await this.getChildStatus(state, state.workingOrderId))
+        }
+      }
+    })
+  }
+
+  /**
+   * Stop an execution and cancel its working order; resolves with the final state, or null for unknown ids
+   */
+  public async cancel(id: string): Promise<AlgoExecution | null> {
+    const state = this.executions.get(id)
+    if (!state) {
+      return null
+    }
+
+    state.cancelled = true
+    state.wake?.()
+    return state.done ?? state.execution
+  }
+
+  /**
+   * Get an execution by id
+   */
+  public getExecution(id: string): AlgoExecution | null {
+    return this.executions.get(id)?.execution ?? null
+  }
+
+  /**
+   * Get all executions, running and finished
+   */
+  public getExecutions(): AlgoExecution[] {
+    return Array.from(this.executions.values()).map((state) => state.execution)
+  }
+
+  /**
+   * Forget all executions without touching their orders
+   */
+  public clear(): void {
+    this.executions.clear()
+  }
+
+  // Common lifecycle: price the arrival, run the algorithm, clean up its working order and measure the shortfall
+  private async run(
+    algorithm: ExecutionAlgorithm,
+    request: AlgoExecutionRequest,
+    work: (state: ExecutionState) => Promise<void>,
+  ): Promise<AlgoExecution> {
+    if (!(request.quantity > 0)) {
+      throw new ValidationError(`Execution quantity must be positive, got ${request.quantity}`, {
+        code: "INVALID_EXECUTION_REQUEST",
+        context: { algorithm, symbol: request.symbol, quantity: request.quantity },
+      })
+    }
+
+    const arrivalPrice = this.getMidPrice(await this.getBestPrices(request.symbol))
+    const now = Date.now()
+    const state: ExecutionState = {
+      execution: {
+        id: `${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+        algorithm,
+        symbol: request.symbol,
+        side: request.side,
+        status: "RUNNING",
+        quantity: request.quantity,
+        filledQuantity: 0,
+        averagePrice: null,
+        arrivalPrice,
+        orderCount: 0,
+        shortfall: null,
+        error: null,
+        startedAt: now,
+        updatedAt: now,
+        finishedAt: null,
+      },
+      request,
+      fills: new Map(),
+      workingOrderId: null,
+      cancelled: false,
+      wake: null,
+      done: null,
+    }
+    this.executions.set(state.execution.id, state)
+
+    state.done = this.complete(state, work)
+    return state.done
+  }
+
+  private async complete(
+    state: ExecutionState,
+    work: (state: ExecutionState) => Promise<void>,
+  ): Promise<AlgoExecution> {
+    const { execution } = state
+
+    try {
+      await work(state)
+    } catch (error) {
+      execution.error = error instanceof Error ? error.message : String(error)
+      errorHandler.handleError(error, {
+        context: { action: "runExecutionAlgorithm", algorithm: execution.algorithm, executionId: execution.id },
+        severity: "high",
+      })
+    }
+
+    try {
+      if (state.workingOrderId !== null) {
+        await this.cancelChild(state, state.workingOrderId)
+      }
+    } catch (error) {
+      execution.error ??= error instanceof Error ? error.message : String(error)
+      errorHandler.handleError(error, {
+        context: { action: "cancelExecutionOrder", executionId: execution.id, orderId: state.workingOrderId },
+        severity: "high",
+      })
+    }
+
+    // Without a book to price the rest, the unfilled quantity is left out of the shortfall
+    let finalPrice = execution.arrivalPrice
+    try {
+      finalPrice = this.getMidPrice(await this.getBestPrices(execution.symbol))
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: { action: "priceExecutionShortfall", executionId: execution.id },
+        severity: "low",
+      })
+    }
+
+    const filled = execution.quantity - execution.filledQuantity <= QUANTITY_EPSILON
+    execution.status = filled ? "COMPLETED" : execution.error ? "FAILED" : state.cancelled ? "CANCELED" : "EXPIRED"
+    execution.shortfall = calculateImplementationShortfall(
+      execution.side,
+      execution.quantity,
+      execution.filledQuantity,
+      execution.averagePrice,
+      execution.arrivalPrice,
+      finalPrice,
+    )
+    execution.finishedAt = Date.now()
+    execution.updatedAt = execution.finishedAt
+    this.notify(state)
+
+    return execution
+  }
+
+  private async placeChild(
+    state: ExecutionState,
+    type: "MARKET" | "LIMIT",
+    quantity: number,
+    options: OrderOptions = {},
+  ): Promise<OrderResponse> {
+    const { execution, request } = state
+    const order = await binanceOrderManager.placeOrder(execution.symbol, execution.side, type, quantity, {
+      ...options,
+      reduceOnly: request.reduceOnly,
+      positionSide: request.positionSide,
+      newClientOrderId: `${EXECUTION_CLIENT_ORDER_PREFIX}${execution.id}_${execution.orderCount + 1}`,
+    })
+
+    execution.orderCount++
+    state.workingOrderId = order.orderId
+    this.recordOrder(state, order)
+    return order
+  }
+
+  // Cancel a child order and record what filled before the cancel; an order that finished first is only read back
+  private async cancelChild(state: ExecutionState, orderId: number): Promise<void> {
+    let order: OrderStatus
+    try {
+      order = await binanceOrderManager.cancelOrder(state.execution.symbol, { orderId })
+    } catch {
+      order = await this.getChildStatus(state, orderId)
+    }
+
+    this.recordOrder(state, order)
+    if (state.workingOrderId === orderId) {
+      state.workingOrderId = null
+    }
+  }
+
+  // Poll a child order until it is final, the execution is cancelled or the deadline passes
+  private async waitForOrder(
+    state: ExecutionState,
+    order: OrderResponse | OrderStatus,
+    deadline: number,
+  ): Promise<OrderResponse | OrderStatus> {
+    let current = order
+
+    while (!FINAL_STATUSES.includes(current.status) && !state.cancelled && Date.now() < deadline) {
+      await this.wait(state, Math.min(this.config.pollIntervalMs, deadline - Date.now()))
+      current = await this.getChildStatus(state, order.orderId)
+      this.recordOrder(state, current)
+    }
+
+    return current
+  }
+
+  private async getChildStatus(state: ExecutionState, orderId: number): Promise<OrderStatus> {
+    return binanceOrderManager.getOrderStatus(state.execution.symbol, { orderId })
+  }
+
+  // Fold the latest state of a child order into the execution's fill totals
+  private recordOrder(state: ExecutionState, order: OrderResponse | OrderStatus): void {
+    const { execution } = state
+    const quantity = Number.parseFloat(order.executedQty) || 0
+
+    if (FINAL_STATUSES.includes(order.status) && state.workingOrderId === order.orderId) {
+      state.workingOrderId = null
+    }
+
+    const previous = state.fills.get(order.orderId)
+    if (quantity <= (previous?.quantity ?? 0)) {
+      return
+    }
+
+    // Market orders may report no average yet; their fill is then priced at the arrival mid
+    const price = Number(order.avgPrice) || Number(order.price) || execution.arrivalPrice
+    state.fills.set(order.orderId, { quantity, price })
+
+    const fills = Array.from(state.fills.values())
+    execution.filledQuantity = fills.reduce((sum, fill) => sum + fill.quantity, 0)
+    execution.averagePrice = fills.reduce((sum, fill) => sum + fill.quantity * fill.price, 0) / execution.filledQuantity
+    execution.updatedAt = Date.now()
+    this.notify(state)
+  }
+
+  // The target size on the lot step and at least the minimum. When the rest could no longer make an order of the
+  // minimum size, this child takes all of it; 0 when the whole remaining quantity is below the minimum.
+  private getChildQuantity(remaining: number, target: number, limits: LotLimits | null): number {
+    if (!limits) {
+      return Math.min(target, remaining)
+    }
+    if (remaining < limits.min - QUANTITY_EPSILON) {
+      return 0
+    }
+
+    const steps = Math.floor(Math.min(target, remaining) / limits.step + QUANTITY_EPSILON)
+    const quantity = Math.max(steps * limits.step, limits.min)
+    return remaining - quantity < limits.min - QUANTITY_EPSILON ? remaining : quantity
+  }
+
+  // The stricter lot filter for the order type, with the minimum raised to meet the minimum notional at the given
+  // price; null when the symbol has no lot filters, and child orders are then left unrounded
+  private async getLotLimits(
+    state: ExecutionState,
+    type: "MARKET" | "LIMIT",
+    price: number,
+  ): Promise<LotLimits | null> {
+    const filters = await orderNormalizer.getSymbolFilters(state.execution.symbol)
+    const ranges = [filters?.lotSize, type === "MARKET" ? filters?.marketLotSize : null].filter(
+      (range): range is StepRange => Boolean(range) && Number(range?.step) > 0,
+    )
+    if (!filters || ranges.length === 0) {
+      return null
+    }
+
+    const step = Math.max(...ranges.map((range) => Number(range.step)))
+    // Reduce-only orders are exempt from the minimum notional
+    const notionalSteps =
+      filters.minNotional > 0 && price > 0 && !state.request.reduceOnly
+        ? Math.ceil(filters.minNotional / price / step - QUANTITY_EPSILON)
+        : 0
+
+    return {
+      min: Math.max(...ranges.map((range) => range.min), notionalSteps * step),
+      step,
+    }
+  }
+
+  private getRemaining(state: ExecutionState): number {
+    return Math.max(0, state.execution.quantity - state.execution.filledQuantity)
+  }
+
+  // Join the best price on our side of the book, but never past the limit price
+  private getChasePrice(request: ChaseRequest, best: BestPrices): number {
+    if (request.side === "BUY") {
+      return request.limitPrice ? Math.min(best.bid, request.limitPrice) : best.bid
+    }
+    return request.limitPrice ? Math.max(best.ask, request.limitPrice) : best.ask
+  }
+
+  private async getBestPrices(symbol: string): Promise<BestPrices> {
+    const book = await binanceMarketDataService.getOrderBook(symbol, 5)
+    if (book.bids.length === 0 || book.asks.length === 0) {
+      throw new AppError(`Order book for ${symbol} is empty`, {
+        code: "EMPTY_ORDER_BOOK",
+        context: { symbol },
+      })
+    }
+
+    return { bid: book.bids[0].price, ask: book.asks[0].price }
+  }
+
+  private getMidPrice(best: BestPrices): number {
+    return (best.bid + best.ask) / 2
+  }
+
+  // Sleep that returns early when the execution is cancelled
+  private async wait(state: ExecutionState, ms: number): Promise<void> {
+    if (ms <= 0 || state.cancelled) {
+      return
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, ms)
+      state.wake = () => {
+        clearTimeout(timer)
+        resolve()
+      }
+    })
+    state.wake = null
+  }
+
+  private notify(state: ExecutionState): void {
+    try {
+      state.request.onProgress?.({ ...state.execution })
+    } catch (error) {
+      console.error("Error in execution progress callback:", error)
+    }
+  }
+}
+
+export const executionAlgorithms = ExecutionAlgorithms.getInstance()
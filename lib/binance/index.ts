@@ -34,6 +34,24 @@ export { binanceAccountManager } from "./binance-account-manager"
 export { binancePositionManager } from "./binance-position-manager"
 export { binanceApiClient } from "./binance-api-client"
 export { binanceRateLimiter } from "./binance-rate-limiter"
+export { binanceUserDataStream, parseUserDataEvent } from "./user-data-stream"
+export { orderNormalizer, normalizeOrder, parseSymbolFilters, formatOrderViolations } from "./order-normalizer"
+export {
+  bracketOrderManager,
+  createBracketClientOrderId,
+  parseBracketClientOrderId,
+  getOpenQuantity,
+} from "./bracket-order-manager"
+export type { BracketClientOrderId, ProtectPositionRequest } from "./bracket-order-manager"
+export { executionAlgorithms, calculateImplementationShortfall } from "./execution-algorithms"
+export type { ExecutionAlgorithmConfig } from "./execution-algorithms"
+export type {
+  OrderFilterType,
+  OrderFilterViolation,
+  OrderNormalizationRequest,
+  OrderValidationResult,
+  SymbolFilters,
+} from "./order-normalizer"
 
 // Export utility functions
 export {
@@ -74,8 +92,29 @@ export type {
   SymbolFilter,
   PriceFilter,
   LotSizeFilter,
+  MinNotionalFilter,
   // Rate limiting
   RateLimitType,
+  // User data stream events
+  UserDataEvent,
+  OrderTradeUpdate,
+  AccountUpdate,
+  MarginCall,
+  // Bracket orders
+  BracketOrder,
+  BracketOrderRequest,
+  BracketLeg,
+  BracketLegType,
+  BracketStatus,
+  // Execution algorithms
+  ExecutionAlgorithm,
+  AlgoExecution,
+  AlgoExecutionStatus,
+  AlgoExecutionRequest,
+  ImplementationShortfall,
+  TwapRequest,
+  IcebergRequest,
+  ChaseRequest,
   // Other types
   BinanceErrorResponse,
 } from "../types"
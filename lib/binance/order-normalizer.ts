@@ -0,0 +1,312 @@
+/**
+ * Binance Order Normalizer
+ * Rounds order quantities and prices to the symbol's exchange filters and rejects orders the exchange would refuse
+ */
+import { errorHandler } from "../error-handling"
+import { binanceAccountManager } from "./binance-account-manager"
+import type {
+  ExchangeInfo,
+  LotSizeFilter,
+  MinNotionalFilter,
+  OrderSide,
+  OrderType,
+  PriceFilter,
+  SymbolInfo,
+} from "../types"
+
+export type OrderFilterType = "PRICE_FILTER" | "LOT_SIZE" | "MARKET_LOT_SIZE" | "MIN_NOTIONAL"
+
+export interface StepRange {
+  min: number
+  max: number // 0 when the exchange sets no maximum
+  step: string // kept as text so rounded values can be formatted with exactly its decimals
+}
+
+export interface SymbolFilters {
+  symbol: string
+  price: StepRange | null
+  lotSize: StepRange | null
+  marketLotSize: StepRange | null
+  minNotional: number
+}
+
+export interface OrderNormalizationRequest {
+  symbol: string
+  side: OrderSide
+  type: OrderType
+  quantity: number
+  price?: number
+  stopPrice?: number
+  referencePrice?: number // Expected fill price of market orders, used for the notional check
+  reduceOnly?: boolean // Reduce-only orders are exempt from the minimum notional
+}
+
+export interface OrderFilterViolation {
+  filter: OrderFilterType
+  message: string
+}
+
+export interface OrderValidationResult {
+  valid: boolean
+  symbol: string
+  quantity: number
+  price?: number
+  stopPrice?: number
+  notional: number | null // null when no price is known, e.g. for market orders without a reference price
+  formatted: { quantity: string; price?: string; stopPrice?: string } // Request parameters for the exchange
+  adjustments: string[]
+  violations: OrderFilterViolation[]
+}
+
+// Exchange info rarely changes; filters are refreshed after this long
+const EXCHANGE_INFO_TTL = 60 * 60 * 1000
+
+// Tolerance for values that sit on a step boundary but land just below it in floating point
+const STEP_EPSILON = 1e-9
+
+/**
+ * Extract the price, quantity and notional filters of a symbol
+ */
+export function parseSymbolFilters(info: SymbolInfo): SymbolFilters {
+  const find = <T>(...types: string[]) =>
+    info.filters.find((filter) => types.includes(filter.filterType)) as T | undefined
+  const toRange = (filter: LotSizeFilter | undefined): StepRange | null =>
+    filter ? { min: Number(filter.minQty), max: Number(filter.maxQty), step: filter.stepSize } : null
+
+  const priceFilter = find<PriceFilter>("PRICE_FILTER")
+  const notionalFilter = find<MinNotionalFilter>("MIN_NOTIONAL", "NOTIONAL")
+
+  return {
+    symbol: info.symbol,
+    price: priceFilter
+      ? { min: Number(priceFilter.minPrice), max: Number(priceFilter.maxPrice), step: priceFilter.tickSize }
+      : null,
+    lotSize: toRange(find<LotSizeFilter>("LOT_SIZE")),
+    marketLotSize: toRange(find<LotSizeFilter>("MARKET_LOT_SIZE")),
+    minNotional: Number(notionalFilter?.notional ?? notionalFilter?.minNotional ?? 0),
+  }
+}
+
+/**
+ * Round an order to the symbol filters and check it against them.
+ * Quantities are rounded down so an order never grows; prices are rounded to the nearest tick.
+ */
+export function normalizeOrder(filters: SymbolFilters, request: OrderNormalizationRequest): OrderValidationResult {
+  const adjustments: string[] = []
+  const violations: OrderFilterViolation[] = []
+
+  // Orders that execute at market are also bound by MARKET_LOT_SIZE
+  const lotFilters: Array<[OrderFilterType, StepRange | null]> = [["LOT_SIZE", filters.lotSize]]
+  if (request.type.endsWith("MARKET")) {
+    lotFilters.push(["MARKET_LOT_SIZE", filters.marketLotSize])
+  }
+
+  let quantity = request.quantity
+  let quantityText = formatValue(quantity, null)
+  for (const [filter, range] of lotFilters) {
+    if (!range) continue
+
+    const rounded = roundToStep(quantity, range.step, "down")
+    if (rounded.value !== quantity) {
+      adjustments.push(`Quantity rounded from ${quantity} to ${rounded.text} (${filter} step ${range.step})`)
+    }
+    quantity = rounded.value
+    quantityText = rounded.text
+
+    if (quantity < range.min) {
+      violations.push({ filter, message: `Quantity ${quantityText} is below the minimum ${range.min}` })
+    } else if (range.max > 0 && quantity > range.max) {
+      violations.push({ filter, message: `Quantity ${quantityText} is above the maximum ${range.max}` })
+    }
+  }
+
+  const price = normalizePrice(filters.price, request.price, "Price", adjustments, violations)
+  const stopPrice = normalizePrice(filters.price, request.stopPrice, "Stop price", adjustments, violations)
+
+  const notionalPrice = price?.value ?? stopPrice?.value ?? request.referencePrice
+  const notional = notionalPrice !== undefined ? quantity * notionalPrice : null
+  if (notional !== null && !request.reduceOnly && filters.minNotional > 0 && notional < filters.minNotional) {
+    violations.push({
+      filter: "MIN_NOTIONAL",
+      message: `Order value ${notional.toFixed(2)} is below the minimum notional ${filters.minNotional}`,
+    })
+  }
+
+  return {
+    valid: violations.length === 0,
+    symbol: request.symbol,
+    quantity,
+    price: price?.value,
+    stopPrice: stopPrice?.value,
+    notional,
+    formatted: { quantity: quantityText, price: price?.text, stopPrice: stopPrice?.text },
+    adjustments,
+    violations,
+  }
+}
+
+/**
+ * Describe a rejected order for logs
+ */
+export function formatOrderViolations(result: OrderValidationResult): string {
+  return result.violations.map((violation) => `${violation.filter}: ${violation.message}`).join("; ")
+}
+
+/**
+ * Normalizes orders against cached exchange filters
+ *
+ * @example
+ * ```typescript
+ * const result = await orderNormalizer.normalize({
+ *   symbol: "BTCUSDT",
+ *   side: "BUY",
+ *   type: "MARKET",
+ *   quantity: 0.0123456,
+ *   referencePrice: 65000,
+ * });
+ * // result.quantity === 0.012 with a 0.001 step size
+ * ```
+ */
+export class OrderNormalizer {
+  private static instance: OrderNormalizer
+  private filters: Map<string, SymbolFilters> = new Map()
+  private loadedAt = 0
+  private pendingLoad: Promise<void> | null = null
+
+  private constructor() {}
+
+  public static getInstance(): OrderNormalizer {
+    if (!OrderNormalizer.instance) {
+      OrderNormalizer.instance = new OrderNormalizer()
+    }
+    return OrderNormalizer.instance
+  }
+
+  /**
+   * Cache filters from exchange info that was already fetched
+   */
+  public setExchangeInfo(exchangeInfo: ExchangeInfo): void {
+    this.filters = new Map(exchangeInfo.symbols.map((info) => [info.symbol, parseSymbolFilters(info)]))
+    this.loadedAt = Date.now()
+  }
+
+  /**
+   * Get the filters of a symbol, fetching exchange info when the cache is empty or stale
+   */
+  public async getSymbolFilters(symbol: string): Promise<SymbolFilters | null> {
+    if (Date.now() - this.loadedAt > EXCHANGE_INFO_TTL) {
+      // Concurrent orders share one exchange info request
+      this.pendingLoad ??= binanceAccountManager
+        .getExchangeInfo()
+        .then((exchangeInfo) => this.setExchangeInfo(exchangeInfo))
+        .finally(() => {
+          this.pendingLoad = null
+        })
+
+      try {
+        await this.pendingLoad
+      } catch (error) {
+        // Stale filters are better than none; without any, orders go out unchanged
+        errorHandler.handleError(error, {
+          context: { action: "loadExchangeFilters", symbol },
+          severity: "medium",
+        })
+      }
+    }
+
+    return this.filters.get(symbol) ?? null
+  }
+
+  /**
+   * Round an order to its symbol filters and check it against them
+   */
+  public async normalize(request: OrderNormalizationRequest): Promise<OrderValidationResult> {
+    const filters = await this.getSymbolFilters(request.symbol)
+    if (filters) {
+      return normalizeOrder(filters, request)
+    }
+
+    const notionalPrice = request.price ?? request.stopPrice ?? request.referencePrice
+    return {
+      valid: true,
+      symbol: request.symbol,
+      quantity: request.quantity,
+      price: request.price,
+      stopPrice: request.stopPrice,
+      notional: notionalPrice !== undefined ? request.quantity * notionalPrice : null,
+      formatted: {
+        quantity: formatValue(request.quantity, null),
+        price: request.price !== undefined ? formatValue(request.price, null) : undefined,
+        stopPrice: request.stopPrice !== undefined ? formatValue(request.stopPrice, null) : undefined,
+      },
+      adjustments: [`No exchange filters for ${request.symbol}; order left unchanged`],
+      violations: [],
+    }
+  }
+
+  /**
+   * Forget cached filters so the next order fetches exchange info again
+   */
+  public clearCache(): void {
+    this.filters.clear()
+    this.loadedAt = 0
+  }
+}
+
+// Round a price to the tick size and check its range; undefined when the order has no such price
+function normalizePrice(
+  range: StepRange | null,
+  value: number | undefined,
+  label: string,
+  adjustments: string[],
+  violations: OrderFilterViolation[],
+): { value: number; text: string } | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (!range) {
+    return { value, text: formatValue(value, null) }
+  }
+
+  const rounded = roundToStep(value, range.step, "nearest")
+  if (rounded.value !== value) {
+    adjustments.push(`${label} rounded from ${value} to ${rounded.text} (PRICE_FILTER tick ${range.step})`)
+  }
+
+  // A zero minimum or maximum means the exchange does not limit that side
+  if (range.min > 0 && rounded.value < range.min) {
+    violations.push({ filter: "PRICE_FILTER", message: `${label} ${rounded.text} is below the minimum ${range.min}` })
+  } else if (range.max > 0 && rounded.value > range.max) {
+    violations.push({ filter: "PRICE_FILTER", message: `${label} ${rounded.text} is above the maximum ${range.max}` })
+  }
+  return rounded
+}
+
+// Round to a multiple of the step and format it with the step's decimals; a zero step leaves the value as is
+function roundToStep(value: number, step: string, mode: "down" | "nearest"): { value: number; text: string } {
+  const stepSize = Number(step)
+  if (!(stepSize > 0)) {
+    return { value, text: formatValue(value, null) }
+  }
+
+  const steps = mode === "down" ? Math.floor(value / stepSize + STEP_EPSILON) : Math.round(value / stepSize)
+  const text = formatValue(steps * stepSize, getDecimals(step))
+  return { value: Number(text), text }
+}
+
+// Decimal places of a step such as "0.00100000"
+function getDecimals(step: string): number {
+  const fraction = step.split(".")[1] ?? ""
+  return fraction.replace(/0+$/, "").length
+}
+
+// Plain decimal text without exponent notation or float noise
+function formatValue(value: number, decimals: number | null): string {
+  if (decimals !== null) {
+    return value.toFixed(decimals)
+  }
+  return value.toFixed(8).replace(/(\.\d*?)0+$/, "$1").replace(/\.$/, "")
+}
+
+// Export singleton instance
+export const orderNormalizer = OrderNormalizer.getInstance()
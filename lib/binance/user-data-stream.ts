@@ -0,0 +1,329 @@
+/**
+ * Binance User Data Stream
+ * Creates and renews the futures listen key and turns order, account and margin call events into typed objects
+ */
+import { errorHandler } from "../error-handling"
+import { AppError } from "../error-handling/error-types"
+import { env } from "../env"
+import { binanceApiClient } from "./binance-api-client"
+import { BinanceWebSocketClient } from "./websocket-client"
+import type {
+  AccountUpdate,
+  MarginCall,
+  OrderTradeUpdate,
+  UserDataEvent,
+} from "../types/binance-types"
+
+type UserDataCallback = (event: UserDataEvent) => void
+
+// Listen keys expire 60 minutes after the last keepalive
+const LISTEN_KEY_KEEPALIVE_INTERVAL = 30 * 60 * 1000
+
+// Failed keepalives and listen key requests are retried after this delay, doubling up to the maximum
+const RETRY_BASE_DELAY = 1000
+const RETRY_MAX_DELAY = 60 * 1000
+
+const toNumber = (value: unknown): number => Number.parseFloat(String(value ?? 0)) || 0
+
+// -1125: the exchange no longer knows the listen key, so only a new one brings the stream back
+function isListenKeyGone(error: unknown): boolean {
+  return error instanceof AppError && error.code === "BINANCE_ERROR_-1125"
+}
+
+/**
+ * Parse a raw user data stream message; returns null for events this stream does not handle
+ */
+export function parseUserDataEvent(data: any): UserDataEvent | null {
+  switch (data?.e) {
+    case "ORDER_TRADE_UPDATE":
+      return parseOrderTradeUpdate(data)
+    case "ACCOUNT_UPDATE":
+      return parseAccountUpdate(data)
+    case "MARGIN_CALL":
+      return parseMarginCall(data)
+    case "listenKeyExpired":
+      return { eventType: "listenKeyExpired", eventTime: data.E, listenKey: data.listenKey }
+    default:
+      return null
+  }
+}
+
+function parseOrderTradeUpdate(data: any): OrderTradeUpdate {
+  const order = data.o
+
+  return {
+    eventType: "ORDER_TRADE_UPDATE",
+    eventTime: data.E,
+    transactionTime: data.T,
+    symbol: order.s,
+    orderId: order.i,
+    clientOrderId: order.c,
+    side: order.S,
+    orderType: order.o,
+    originalOrderType: order.ot ?? order.o,
+    timeInForce: order.f,
+    positionSide: order.ps ?? "BOTH",
+    executionType: order.x,
+    orderStatus: order.X,
+    quantity: toNumber(order.q),
+    price: toNumber(order.p),
+    averagePrice: toNumber(order.ap),
+    stopPrice: toNumber(order.sp),
+    lastFilledQuantity: toNumber(order.l),
+    lastFilledPrice: toNumber(order.L),
+    filledQuantity: toNumber(order.z),
+    commission: toNumber(order.n),
+    commissionAsset: order.N ?? null,
+    realizedProfit: toNumber(order.rp),
+    tradeId: order.t ?? 0,
+    isMaker: Boolean(order.m),
+    reduceOnly: Boolean(order.R),
+    closePosition: Boolean(order.cp),
+  }
+}
+
+function parseAccountUpdate(data: any): AccountUpdate {
+  const account = data.a ?? {}
+
+  return {
+    eventType: "ACCOUNT_UPDATE",
+    eventTime: data.E,
+    transactionTime: data.T,
+    reason: account.m,
+    balances: (account.B ?? []).map((balance: any) => ({
+      asset: balance.a,
+      walletBalance: toNumber(balance.wb),
+      crossWalletBalance: toNumber(balance.cw),
+      balanceChange: toNumber(balance.bc),
+    })),
+    positions: (account.P ?? []).map((position: any) => ({
+      symbol: position.s,
+      positionSide: position.ps ?? "BOTH",
+      positionAmount: toNumber(position.pa),
+      entryPrice: toNumber(position.ep),
+      breakEvenPrice: toNumber(position.bep),
+      accumulatedRealized: toNumber(position.cr),
+      unrealizedPnl: toNumber(position.up),
+      marginType: position.mt,
+      isolatedWallet: toNumber(position.iw),
+    })),
+  }
+}
+
+function parseMarginCall(data: any): MarginCall {
+  return {
+    eventType: "MARGIN_CALL",
+    eventTime: data.E,
+    crossWalletBalance: data.cw !== undefined ? toNumber(data.cw) : null,
+    positions: (data.p ?? []).map((position: any) => ({
+      symbol: position.s,
+      positionSide: position.ps ?? "BOTH",
+      positionAmount: toNumber(position.pa),
+      marginType: position.mt,
+      isolatedWallet: toNumber(position.iw),
+      markPrice: toNumber(position.mp),
+      unrealizedPnl: toNumber(position.up),
+      maintenanceMargin: toNumber(position.mm),
+    })),
+  }
+}
+
+export class BinanceUserDataStream {
+  private static instance: BinanceUserDataStream
+  private socketClient: BinanceWebSocketClient | null = null
+  private unsubscribeSocket: (() => void) | null = null
+  private keepAliveInterval: NodeJS.Timeout | null = null
+  private listenKey: string | null = null
+  private callbacks: Set<UserDataCallback> = new Set()
+  private reconnectCallbacks: Set<() => void> = new Set()
+  private hasConnected = false
+  private startPromise: Promise<void> | null = null
+  private isStarted = false // Connected since the last stop; failed keepalives and reconnects are retried meanwhile
+  private retryTimeout: NodeJS.Timeout | null = null
+  private retryAttempt = 0
+
+  private constructor() {}
+
+  public static getInstance(): BinanceUserDataStream {
+    if (!BinanceUserDataStream.instance) {
+      BinanceUserDataStream.instance = new BinanceUserDataStream()
+    }
+    return BinanceUserDataStream.instance
+  }
+
+  /**
+   * Create a listen key and connect to the stream; concurrent and repeated calls share one connection
+   */
+  public start(): Promise<void> {
+    if (!this.startPromise) {
+      this.startPromise = this.connect().catch((error) => {
+        this.startPromise = null
+        throw error
+      })
+    }
+    return this.startPromise
+  }
+
+  /**
+   * Disconnect and close the listen key
+   */
+  public async stop(): Promise<void> {
+    const listenKey = this.listenKey
+    this.isStarted = false
+    this.disconnect()
+    this.hasConnected = false
+
+    if (listenKey) {
+      try {
+        await binanceApiClient.makeUserStreamRequest("DELETE")
+      } catch {
+        // Already reported by the API client; an unclosed key simply expires
+      }
+    }
+  }
+
+  /**
+   * Register a callback for user data events
+   */
+  public subscribe(callback: UserDataCallback): () => void {
+    this.callbacks.add(callback)
+    return () => {
+      this.callbacks.delete(callback)
+    }
+  }
+
+  /**
+   * Register a callback for every reconnection of the stream. Events sent while it was down are lost,
+   * so callers use this to catch up through the REST API.
+   */
+  public onReconnect(callback: () => void): () => void {
+    this.reconnectCallbacks.add(callback)
+    return () => {
+      this.reconnectCallbacks.delete(callback)
+    }
+  }
+
+  /**
+   * Whether the stream has a listen key and an open connection
+   */
+  public isConnected(): boolean {
+    return this.listenKey !== null && this.socketClient !== null && this.socketClient.isConnected()
+  }
+
+  private async connect(): Promise<void> {
+    const { listenKey } = await binanceApiClient.makeUserStreamRequest<{ listenKey: string }>("POST", {}, {
+      showInLogs: false,
+    })
+
+    this.listenKey = listenKey
+    if (!this.socketClient) {
+      this.socketClient = new BinanceWebSocketClient(env.BINANCE_WS_BASE_URL)
+      this.socketClient.onOpen(() => this.handleOpen())
+    }
+    this.unsubscribeSocket = this.socketClient.connectToUserDataStream(listenKey, (data) => this.handleMessage(data))
+
+    this.keepAliveInterval = setInterval(() => this.keepAlive(), LISTEN_KEY_KEEPALIVE_INTERVAL)
+    this.isStarted = true
+    this.retryAttempt = 0
+  }
+
+  private disconnect(): void {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout)
+      this.retryTimeout = null
+    }
+    if (this.keepAliveInterval) {
+      clearInterval(this.keepAliveInterval)
+      this.keepAliveInterval = null
+    }
+
+    // Removing the last callback closes the socket
+    this.unsubscribeSocket?.()
+    this.unsubscribeSocket = null
+    this.listenKey = null
+    this.startPromise = null
+  }
+
+  private async keepAlive(): Promise<void> {
+    try {
+      await binanceApiClient.makeUserStreamRequest("PUT", {}, { showInLogs: false })
+      this.retryAttempt = 0
+    } catch (error) {
+      if (isListenKeyGone(error)) {
+        // The key was lost (e.g. expired while disconnected), so start over with a new one
+        this.reconnect()
+      } else {
+        // The key and socket still work; a network error or busy exchange only delays the keepalive
+        this.scheduleRetry(() => this.keepAlive())
+      }
+    }
+  }
+
+  private reconnect(): void {
+    this.disconnect()
+    this.start().catch((error) => {
+      errorHandler.handleError(error, {
+        context: { action: "reconnectUserDataStream", attempt: this.retryAttempt },
+        severity: "high",
+      })
+      this.scheduleRetry(() => this.reconnect())
+    })
+  }
+
+  // Retry with exponential backoff until stopped
+  private scheduleRetry(retry: () => void): void {
+    if (!this.isStarted || this.retryTimeout) {
+      return
+    }
+
+    const delay = Math.min(RETRY_BASE_DELAY * 2 ** this.retryAttempt, RETRY_MAX_DELAY)
+    this.retryAttempt++
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = null
+      retry()
+    }, delay)
+  }
+
+  // Every connection after the first one since start may have missed events
+  private handleOpen(): void {
+    if (this.hasConnected) {
+      this.reconnectCallbacks.forEach((callback) => {
+        try {
+          callback()
+        } catch (error) {
+          errorHandler.handleError(error, {
+            context: { action: "handleUserDataReconnect" },
+            severity: "medium",
+          })
+        }
+      })
+    }
+    this.hasConnected = true
+  }
+
+  private handleMessage(data: any): void {
+    const event = parseUserDataEvent(data)
+    if (!event) {
+      return
+    }
+
+    if (event.eventType === "listenKeyExpired") {
+      console.warn("User data stream listen key expired, creating a new one")
+      this.reconnect()
+    }
+
+    this.callbacks.forEach((callback) => {
+      try {
+        callback(event)
+      } catch (error) {
+        errorHandler.handleError(error, {
+          context: { action: "handleUserDataEvent", eventType: event.eventType },
+          severity: "medium",
+        })
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const binanceUserDataStream = BinanceUserDataStream.getInstance()
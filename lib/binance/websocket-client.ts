@@ -25,6 +25,7 @@ export class BinanceWebSocketClient {
   private heartbeatTimeoutId: NodeJS.Timeout | null = null
   private reconnectTimeout: NodeJS.Timeout | null = null
   private callbacks: Map<string, WebSocketCallback[]> = new Map()
+  private openCallbacks: Set<() => void> = new Set()
   private isClosing = false
   private reconnectAttempts = 0
   private maxReconnectAttempts = 5
@@ -49,6 +50,16 @@ export class BinanceWebSocketClient {
     return this.connect(url, callback, streamName)
   }
 
+  /**
+   * Register a callback for every time the socket opens, including reconnections
+   */
+  public onOpen(callback: () => void): () => void {
+    this.openCallbacks.add(callback)
+    return () => {
+      this.openCallbacks.delete(callback)
+    }
+  }
+
   /**
    * Connect to multiple WebSocket streams
    */
@@ -65,6 +76,18 @@ export class BinanceWebSocketClient {
     return this.connect(url, callback, streams.join(","))
   }
 
+  /**
+   * Connect to the user data stream for a listen key.
+   * Order and account events are dispatched to callbacks registered here.
+   */
+  public connectToUserDataStream(listenKey: string, callback: WebSocketCallback): () => void {
+    const url = `${this.baseUrl}/ws/${listenKey}`
+    this.listenKey = listenKey
+    this.activeStreams.add(listenKey)
+    webSocketMonitorRegistry.getMonitor(listenKey)
+    return this.connect(url, callback, listenKey)
+  }
+
   /**
    * Connect to WebSocket and set up event handlers
    */
@@ -162,6 +185,14 @@ export class BinanceWebSocketClient {
         const monitor = webSocketMonitorRegistry.getMonitor(stream)
         monitor.setConnectionStatus("connected")
       })
+
+      this.openCallbacks.forEach((callback) => {
+        try {
+          callback()
+        } catch (error) {
+          console.error("Error in WebSocket open callback:", error)
+        }
+      })
     }
 
     this.socket.onmessage = (event) => {
@@ -188,11 +219,6 @@ export class BinanceWebSocketClient {
               monitor.recordPingLatency(latency)
             })
 
-            // If we received a listenKey in the response, store it
-            if (data.result && data.result.listenKey) {
-              this.listenKey = data.result.listenKey
-            }
-
             return
           }
         }
@@ -208,9 +234,9 @@ export class BinanceWebSocketClient {
           return
         }
 
-        // Handle single stream format
+        // Handle single stream format; user data events carry no symbol and go to the listen key callbacks
         if (data.e) {
-          const streamName = data.s?.toLowerCase() || ""
+          const streamName = data.s?.toLowerCase() || this.listenKey || ""
           this.dispatchMessage(streamName, data)
 
           // Record message in monitor
@@ -300,22 +326,14 @@ export class BinanceWebSocketClient {
         // Create a unique ID for this ping request
         const pingId = uuidv4()
 
-        // Format ping based on Binance WebSocket API
+        // Format ping based on Binance WebSocket API.
+        // Listen keys are kept alive over REST by the user data stream, not with this ping.
         const pingMessage = {
           id: pingId,
           method: "ping",
           params: {},
         }
 
-        // If we have a user data stream with a listen key, use that format instead
-        if (this.listenKey && this.apiKey) {
-          pingMessage.method = "userDataStream.ping"
-          pingMessage.params = {
-            apiKey: this.apiKey,
-            listenKey: this.listenKey,
-          }
-        }
-
         // Send the ping
         this.socket.send(JSON.stringify(pingMessage))
 
@@ -481,6 +499,7 @@ export class BinanceWebSocketClient {
 
     this.callbacks.clear()
     this.activeStreams.clear()
+    this.listenKey = null
   }
 
   /**
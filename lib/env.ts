@@ -21,6 +21,8 @@ interface EnvironmentVariables {
 
   // Application settings
   NODE_ENV: string
+  TRADE_JOURNAL_PATH: string
+  KLINE_STORE_PATH: string
 
   // Together AI API
   TOGETHER_API_KEY: string
@@ -76,6 +78,12 @@ const validationRules: Record<keyof EnvironmentVariables, ValidationRules> = {
   NODE_ENV: {
     required: false,
   },
+  TRADE_JOURNAL_PATH: {
+    required: false,
+  },
+  KLINE_STORE_PATH: {
+    required: false,
+  },
   TOGETHER_API_KEY: {
     required: false,
   },
@@ -97,6 +105,10 @@ export const env: EnvironmentVariables = {
   WS_HEARTBEAT_TIMEOUT: Number.parseInt(process.env.WS_HEARTBEAT_TIMEOUT || "10000", 10),
 
   NODE_ENV: process.env.NODE_ENV || "development",
+  // Server-side trade journal file; set to an empty string to disable persistence
+  TRADE_JOURNAL_PATH: process.env.TRADE_JOURNAL_PATH ?? "data/trade-journal.jsonl",
+  // Directory of the historical kline store; set to an empty string to disable it
+  KLINE_STORE_PATH: process.env.KLINE_STORE_PATH ?? "data/klines",
   TOGETHER_API_KEY: process.env.TOGETHER_API_KEY || "",
 }
 
@@ -0,0 +1,430 @@
+/**
+ * Incremental Indicators
+ * Stateful indicators that update in O(1) per candle and can revise the candle that is still forming
+ */
+
+/**
+ * Common contract of the incremental indicators
+ */
+export interface IncrementalIndicator<TInput, TOutput> {
+  /**
+   * Add a new candle and return the indicator value for it, or null while warming up
+   */
+  add(input: TInput): TOutput | null
+
+  /**
+   * Replace the latest candle, e.g. when the in-progress candle changes, and return the revised value
+   */
+  revise(input: TInput): TOutput | null
+
+  /**
+   * Value for the latest candle
+   */
+  getValue(): TOutput | null
+
+  /**
+   * Forget all candles
+   */
+  reset(): void
+}
+
+export interface CandleInput {
+  high: number
+  low: number
+  close: number
+  volume: number
+}
+
+export interface MacdValue {
+  macd: number
+  signal: number | null
+  histogram: number | null
+}
+
+/**
+ * Shared add/revise bookkeeping: the latest input is kept out of the committed state until the next candle
+ * arrives, so revising it only recomputes one step.
+ */
+abstract class CandleIndicator<TInput, TOutput> implements IncrementalIndicator<TInput, TOutput> {
+  private latest: TInput | null = null
+  private value: TOutput | null = null
+
+  public add(input: TInput): TOutput | null {
+    if (this.latest !== null) {
+      this.commit(this.latest)
+    }
+    this.latest = input
+    this.value = this.compute(input)
+    return this.value
+  }
+
+  public revise(input: TInput): TOutput | null {
+    if (this.latest === null) {
+      return this.add(input)
+    }
+    this.latest = input
+    this.value = this.compute(input)
+    return this.value
+  }
+
+  public getValue(): TOutput | null {
+    return this.value
+  }
+
+  public reset(): void {
+    this.latest = null
+    this.value = null
+    this.clear()
+  }
+
+  // Fold a finished candle into the committed state
+  protected abstract commit(input: TInput): void
+
+  // Value for the committed state plus the latest candle, without changing the committed state
+  protected abstract compute(input: TInput): TOutput | null
+
+  protected abstract clear(): void
+}
+
+/**
+ * Fixed-size window with a running sum
+ */
+class RollingSum {
+  private values: number[]
+  private start = 0
+  private size = 0
+  private sum = 0
+
+  constructor(private capacity: number) {
+    this.values = new Array(capacity).fill(0)
+  }
+
+  public push(value: number): void {
+    if (this.size === this.capacity) {
+      this.sum -= this.values[this.start]
+      this.values[this.start] = value
+      this.start = (this.start + 1) % this.capacity
+    } else {
+      this.values[(this.start + this.size) % this.capacity] = value
+      this.size++
+    }
+    this.sum += value
+  }
+
+  public getSize(): number {
+    return this.size
+  }
+
+  public getSum(): number {
+    return this.sum
+  }
+
+  public getOldest(): number {
+    return this.size > 0 ? this.values[this.start] : 0
+  }
+
+  public clear(): void {
+    this.values.fill(0)
+    this.start = 0
+    this.size = 0
+    this.sum = 0
+  }
+}
+
+/**
+ * Exponential Moving Average seeded with the SMA of the first period, like calculateEMA
+ */
+export class IncrementalEMA extends CandleIndicator<number, number> {
+  private readonly multiplier: number
+  private count = 0
+  private seedSum = 0
+  private ema: number | null = null
+
+  constructor(private readonly period: number) {
+    super()
+    this.multiplier = 2 / (period + 1)
+  }
+
+  protected commit(price: number): void {
+    this.count++
+    if (this.ema !== null) {
+      this.ema = (price - this.ema) * this.multiplier + this.ema
+    } else {
+      this.seedSum += price
+      if (this.count === this.period) {
+        this.ema = this.seedSum / this.period
+      }
+    }
+  }
+
+  protected compute(price: number): number | null {
+    if (this.ema !== null) {
+      return (price - this.ema) * this.multiplier + this.ema
+    }
+    return this.count + 1 === this.period ? (this.seedSum + price) / this.period : null
+  }
+
+  protected clear(): void {
+    this.count = 0
+    this.seedSum = 0
+    this.ema = null
+  }
+}
+
+/**
+ * Simple Moving Average over the last period values
+ */
+export class IncrementalSMA extends CandleIndicator<number, number> {
+  private window: RollingSum
+
+  constructor(private readonly period: number) {
+    super()
+    this.window = new RollingSum(period)
+  }
+
+  protected commit(price: number): void {
+    this.window.push(price)
+  }
+
+  protected compute(price: number): number | null {
+    return rollingAverage(this.window, this.period, price)
+  }
+
+  protected clear(): void {
+    this.window.clear()
+  }
+}
+
+/**
+ * Relative Strength Index with Wilder smoothing
+ */
+export class IncrementalRSI extends CandleIndicator<number, number> {
+  private lastPrice: number | null = null
+  private changes = 0
+  private gainSum = 0
+  private lossSum = 0
+  private avgGain: number | null = null
+  private avgLoss = 0
+
+  constructor(private readonly period: number) {
+    super()
+  }
+
+  protected commit(price: number): void {
+    if (this.lastPrice !== null) {
+      const { gain, loss } = this.splitChange(price)
+      this.changes++
+
+      if (this.avgGain !== null) {
+        this.avgGain = (this.avgGain * (this.period - 1) + gain) / this.period
+        this.avgLoss = (this.avgLoss * (this.period - 1) + loss) / this.period
+      } else {
+        this.gainSum += gain
+        this.lossSum += loss
+        if (this.changes === this.period) {
+          this.avgGain = this.gainSum / this.period
+          this.avgLoss = this.lossSum / this.period
+        }
+      }
+    }
+    this.lastPrice = price
+  }
+
+  protected compute(price: number): number | null {
+    if (this.lastPrice === null) {
+      return null
+    }
+
+    const { gain, loss } = this.splitChange(price)
+    if (this.avgGain !== null) {
+      return toRsi(
+        (this.avgGain * (this.period - 1) + gain) / this.period,
+        (this.avgLoss * (this.period - 1) + loss) / this.period,
+      )
+    }
+    if (this.changes + 1 === this.period) {
+      return toRsi((this.gainSum + gain) / this.period, (this.lossSum + loss) / this.period)
+    }
+    return null
+  }
+
+  protected clear(): void {
+    this.lastPrice = null
+    this.changes = 0
+    this.gainSum = 0
+    this.lossSum = 0
+    this.avgGain = null
+    this.avgLoss = 0
+  }
+
+  private splitChange(price: number): { gain: number; loss: number } {
+    const change = price - (this.lastPrice as number)
+    return { gain: change > 0 ? change : 0, loss: change < 0 ? -change : 0 }
+  }
+}
+
+/**
+ * MACD line, signal line and histogram; the signal EMA starts once the slow EMA has warmed up, like calculateMACD
+ */
+export class IncrementalMACD implements IncrementalIndicator<number, MacdValue> {
+  private fast: IncrementalEMA
+  private slow: IncrementalEMA
+  private signal: IncrementalEMA
+  private signalHasLatest = false
+  private value: MacdValue | null = null
+
+  constructor(fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
+    this.fast = new IncrementalEMA(fastPeriod)
+    this.slow = new IncrementalEMA(slowPeriod)
+    this.signal = new IncrementalEMA(signalPeriod)
+  }
+
+  public add(price: number): MacdValue | null {
+    this.signalHasLatest = false
+    return this.update(this.fast.add(price), this.slow.add(price))
+  }
+
+  public revise(price: number): MacdValue | null {
+    return this.update(this.fast.revise(price), this.slow.revise(price))
+  }
+
+  public getValue(): MacdValue | null {
+    return this.value
+  }
+
+  public reset(): void {
+    this.fast.reset()
+    this.slow.reset()
+    this.signal.reset()
+    this.signalHasLatest = false
+    this.value = null
+  }
+
+  private update(fast: number | null, slow: number | null): MacdValue | null {
+    if (fast === null || slow === null) {
+      this.value = null
+      return null
+    }
+
+    const macd = fast - slow
+    const signal = this.signalHasLatest ? this.signal.revise(macd) : this.signal.add(macd)
+    this.signalHasLatest = true
+
+    this.value = { macd, signal, histogram: signal === null ? null : macd - signal }
+    return this.value
+  }
+}
+
+/**
+ * Rolling Volume Weighted Average Price of the typical price, like calculateVWAP; null while the window has no volume
+ */
+export class IncrementalVWAP extends CandleIndicator<CandleInput, number> {
+  private priceVolume: RollingSum
+  private volume: RollingSum
+
+  constructor(private readonly period: number) {
+    super()
+    this.priceVolume = new RollingSum(period)
+    this.volume = new RollingSum(period)
+  }
+
+  protected commit(candle: CandleInput): void {
+    this.priceVolume.push(typicalPrice(candle) * candle.volume)
+    this.volume.push(candle.volume)
+  }
+
+  protected compute(candle: CandleInput): number | null {
+    const sumPriceVolume = rollingAverage(this.priceVolume, this.period, typicalPrice(candle) * candle.volume)
+    const sumVolume = rollingAverage(this.volume, this.period, candle.volume)
+    if (sumPriceVolume === null || sumVolume === null) {
+      return null
+    }
+    return sumVolume > 0 ? sumPriceVolume / sumVolume : null
+  }
+
+  protected clear(): void {
+    this.priceVolume.clear()
+    this.volume.clear()
+  }
+}
+
+/**
+ * Average True Range with Wilder smoothing, like calculateATR
+ */
+export class IncrementalATR extends CandleIndicator<CandleInput, number> {
+  private previousClose: number | null = null
+  private ranges = 0
+  private rangeSum = 0
+  private atr: number | null = null
+
+  constructor(private readonly period: number) {
+    super()
+  }
+
+  protected commit(candle: CandleInput): void {
+    if (this.previousClose !== null) {
+      const range = this.trueRange(candle)
+      this.ranges++
+
+      if (this.atr !== null) {
+        this.atr = (this.atr * (this.period - 1) + range) / this.period
+      } else {
+        this.rangeSum += range
+        if (this.ranges === this.period) {
+          this.atr = this.rangeSum / this.period
+        }
+      }
+    }
+    this.previousClose = candle.close
+  }
+
+  protected compute(candle: CandleInput): number | null {
+    if (this.previousClose === null) {
+      return null
+    }
+
+    const range = this.trueRange(candle)
+    if (this.atr !== null) {
+      return (this.atr * (this.period - 1) + range) / this.period
+    }
+    return this.ranges + 1 === this.period ? (this.rangeSum + range) / this.period : null
+  }
+
+  protected clear(): void {
+    this.previousClose = null
+    this.ranges = 0
+    this.rangeSum = 0
+    this.atr = null
+  }
+
+  private trueRange(candle: CandleInput): number {
+    const previousClose = this.previousClose as number
+    return Math.max(
+      candle.high - candle.low,
+      Math.abs(candle.high - previousClose),
+      Math.abs(candle.low - previousClose),
+    )
+  }
+}
+
+// Average of the last period - 1 committed values and the latest one
+function rollingAverage(window: RollingSum, period: number, latest: number): number | null {
+  const size = window.getSize()
+  if (size + 1 < period) {
+    return null
+  }
+
+  const sum = window.getSum() - (size === period ? window.getOldest() : 0) + latest
+  return sum / period
+}
+
+function typicalPrice(candle: CandleInput): number {
+  return (candle.high + candle.low + candle.close) / 3
+}
+
+function toRsi(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) {
+    return avgGain === 0 ? 50 : 100
+  }
+  return 100 - 100 / (1 + avgGain / avgLoss)
+}
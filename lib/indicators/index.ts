@@ -0,0 +1,6 @@
+/**
+ * Indicators
+ * Canonical indicator module: batch and memoized indicators plus their streaming counterparts
+ */
+export * from "./technical-indicators"
+export * from "./incremental-indicators"
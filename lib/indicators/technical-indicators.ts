@@ -1,75 +1,201 @@
 /**
  * Technical Indicators Library
- * Contains functions for calculating various technical indicators
+ * Canonical batch indicators. Every series has the same length as its input and holds NaN until the indicator has
+ * warmed up; the memoized variants return the same arrays and the streaming variants live in ./incremental-indicators
  */
 
-import { memoize } from "@/lib/utils/memoize"
+import { memoize } from "../utils/memoize"
+
+// Results are cached for one minute
+const MEMO_TTL = 60000
+
+// Series of the given length with every value still warming up
+function warmUp(length: number): number[] {
+  return new Array(length).fill(Number.NaN)
+}
+
+// Cache key covering every value of the input series, so series that only differ in the middle never share an entry
+function seriesKey(...series: number[][]): string {
+  return series
+    .map((values) => {
+      let hash = 0
+      for (const value of values) {
+        hash = (hash * 31 + value) % 2147483647
+      }
+      return `${values.length}:${values[0]}:${values[values.length - 1]}:${hash}`
+    })
+    .join("|")
+}
+
+// Greatest of the candle range and the gaps from the previous close
+function trueRange(highs: number[], lows: number[], closes: number[], i: number): number {
+  return Math.max(highs[i] - lows[i], Math.abs(highs[i] - closes[i - 1]), Math.abs(lows[i] - closes[i - 1]))
+}
+
+// RSI from Wilder averages; a series without any change is neutral
+function rsiFromAverages(avgGain: number, avgLoss: number): number {
+  if (avgLoss === 0) {
+    return avgGain === 0 ? 50 : 100
+  }
+  return 100 - 100 / (1 + avgGain / avgLoss)
+}
 
 /**
- * Calculate Exponential Moving Average (EMA)
+ * Calculate Exponential Moving Average (EMA), seeded with the SMA of the first period
  * @param prices Array of price values
  * @param period EMA period
- * @returns Array of EMA values
+ * @returns Array of EMA values, first valid at index period - 1
  */
 export function calculateEMA(prices: number[], period: number): number[] {
-  if (prices.length < period) {
-    return Array(prices.length).fill(null)
+  const ema = warmUp(prices.length)
+  if (period <= 0 || prices.length < period) {
+    return ema
   }
 
-  // Calculate initial SMA
-  const sma = prices.slice(0, period).reduce((sum, price) => sum + price, 0) / period
-
-  // Calculate multiplier
   const multiplier = 2 / (period + 1)
 
-  // Initialize EMA array with the first value as SMA
-  const ema = Array(prices.length).fill(0)
-  ema[period - 1] = sma
+  // Initialize EMA with SMA for the first period
+  let sum = 0
+  for (let i = 0; i < period; i++) {
+    sum += prices[i]
+  }
+  ema[period - 1] = sum / period
 
   // Calculate EMA for the rest of the prices
   for (let i = period; i < prices.length; i++) {
     ema[i] = (prices[i] - ema[i - 1]) * multiplier + ema[i - 1]
   }
 
-  // Fill initial values with null
-  for (let i = 0; i < period - 1; i++) {
-    ema[i] = null
+  return ema
+}
+
+/**
+ * Calculate Simple Moving Average (SMA)
+ * @param prices Array of price values
+ * @param period SMA period
+ * @returns Array of SMA values, first valid at index period - 1
+ */
+export function calculateSMA(prices: number[], period: number): number[] {
+  const sma = warmUp(prices.length)
+  if (period <= 0 || prices.length < period) {
+    return sma
   }
 
-  return ema
+  for (let i = period - 1; i < prices.length; i++) {
+    let sum = 0
+    for (let j = i - period + 1; j <= i; j++) {
+      sum += prices[j]
+    }
+    sma[i] = sum / period
+  }
+
+  return sma
 }
 
-// Memoized version of calculateEMA
-export const memoizedEMA = memoize(
-  calculateEMA,
-  (prices, period) => `ema-${period}-${prices.length}-${prices[0]}-${prices[prices.length - 1]}`,
-  60000, // 1 minute cache
-)
+/**
+ * Calculate Relative Strength Index (RSI) with Wilder smoothing
+ * @param prices Array of price values
+ * @param period RSI period
+ * @returns Array of RSI values, first valid at index period
+ */
+export function calculateRSI(prices: number[], period: number): number[] {
+  const rsi = warmUp(prices.length)
+  if (period <= 0 || prices.length <= period) {
+    return rsi
+  }
+
+  // Initial averages are the means of the first period changes
+  let avgGain = 0
+  let avgLoss = 0
+  for (let i = 1; i <= period; i++) {
+    const change = prices[i] - prices[i - 1]
+    avgGain += change > 0 ? change : 0
+    avgLoss += change < 0 ? -change : 0
+  }
+  avgGain /= period
+  avgLoss /= period
+  rsi[period] = rsiFromAverages(avgGain, avgLoss)
+
+  for (let i = period + 1; i < prices.length; i++) {
+    const change = prices[i] - prices[i - 1]
+    avgGain = (avgGain * (period - 1) + (change > 0 ? change : 0)) / period
+    avgLoss = (avgLoss * (period - 1) + (change < 0 ? -change : 0)) / period
+    rsi[i] = rsiFromAverages(avgGain, avgLoss)
+  }
+
+  return rsi
+}
 
 /**
- * Calculate Volume Weighted Average Price (VWAP)
- * @param prices Array of price values (typically (high + low + close) / 3)
- * @param volumes Array of volume values
+ * Calculate Moving Average Convergence Divergence (MACD)
+ * @param prices Array of price values
+ * @param fastPeriod Fast EMA period (default: 12)
+ * @param slowPeriod Slow EMA period (default: 26)
+ * @param signalPeriod Signal EMA period (default: 9)
+ * @returns Object with MACD line (first valid at slowPeriod - 1), signal line and histogram (first valid at
+ * slowPeriod + signalPeriod - 2)
+ */
+export function calculateMACD(
+  prices: number[],
+  fastPeriod = 12,
+  slowPeriod = 26,
+  signalPeriod = 9,
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fastEMA = calculateEMA(prices, fastPeriod)
+  const slowEMA = calculateEMA(prices, slowPeriod)
+  const macd = prices.map((_, i) => fastEMA[i] - slowEMA[i])
+  const signal = warmUp(prices.length)
+
+  // The signal line is the EMA of the MACD line from the first candle the slow EMA covers
+  const start = slowPeriod - 1
+  if (start >= 0 && start < prices.length) {
+    const signalValues = calculateEMA(macd.slice(start), signalPeriod)
+    for (let i = 0; i < signalValues.length; i++) {
+      signal[start + i] = signalValues[i]
+    }
+  }
+
+  const histogram = macd.map((value, i) => value - signal[i])
+
+  return { macd, signal, histogram }
+}
+
+/**
+ * Calculate rolling Volume Weighted Average Price (VWAP) of the typical price
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param closes Array of close prices
+ * @param volumes Array of volumes
  * @param period VWAP period
- * @returns Array of VWAP values
+ * @returns Array of VWAP values, first valid at index period - 1; NaN where the window has no volume
  */
-export function calculateVWAP(prices: number[], volumes: number[], period: number): number[] {
-  if (prices.length !== volumes.length) {
-    throw new Error("Prices and volumes arrays must have the same length")
+export function calculateVWAP(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  volumes: number[],
+  period: number,
+): number[] {
+  const length = Math.min(highs.length, lows.length, closes.length, volumes.length)
+  const vwap = warmUp(length)
+  if (period <= 0 || length < period) {
+    return vwap
   }
 
-  const vwap = Array(prices.length).fill(null)
+  const typicalPrices = closes.slice(0, length).map((close, i) => (highs[i] + lows[i] + close) / 3)
 
-  for (let i = period - 1; i < prices.length; i++) {
-    let sumPV = 0
-    let sumV = 0
+  for (let i = period - 1; i < length; i++) {
+    let sumPriceVolume = 0
+    let sumVolume = 0
 
     for (let j = i - period + 1; j <= i; j++) {
-      sumPV += prices[j] * volumes[j]
-      sumV += volumes[j]
+      sumPriceVolume += typicalPrices[j] * volumes[j]
+      sumVolume += volumes[j]
     }
 
-    vwap[i] = sumPV / sumV
+    if (sumVolume > 0) {
+      vwap[i] = sumPriceVolume / sumVolume
+    }
   }
 
   return vwap
@@ -82,169 +208,494 @@ export function calculateVWAP(prices: number[], volumes: number[], period: numbe
  * @returns Array of VWAP slope values
  */
 export function calculateVWAPSlope(vwap: number[], periods = 3): number[] {
-  const slope = Array(vwap.length).fill(null)
+  const slope = warmUp(vwap.length)
 
   for (let i = periods; i < vwap.length; i++) {
-    if (vwap[i] !== null && vwap[i - periods] !== null) {
-      slope[i] = (vwap[i] - vwap[i - periods]) / periods
-    }
+    slope[i] = (vwap[i] - vwap[i - periods]) / periods
   }
 
   return slope
 }
 
-// Memoized version of calculateVWAP
-export const memoizedVWAP = memoize(
-  calculateVWAP,
-  (prices, volumes, period) =>
-    `vwap-${period}-${prices.length}-${prices[0]}-${prices[prices.length - 1]}-${volumes[0]}-${volumes[volumes.length - 1]}`,
-  60000, // 1 minute cache
-)
-
 /**
- * Calculate Average True Range (ATR)
+ * Calculate Average True Range (ATR) with Wilder smoothing
  * @param highs Array of high prices
  * @param lows Array of low prices
  * @param closes Array of close prices
- * @param period ATR period
- * @returns Array of ATR values
+ * @param period ATR period (default: 14)
+ * @returns Array of ATR values, first valid at index period
  */
-export function calculateATR(highs: number[], lows: number[], closes: number[], period: number): number[] {
-  if (highs.length !== lows.length || highs.length !== closes.length) {
-    throw new Error("Highs, lows, and closes arrays must have the same length")
+export function calculateATR(highs: number[], lows: number[], closes: number[], period = 14): number[] {
+  const length = Math.min(highs.length, lows.length, closes.length)
+  const atr = warmUp(length)
+  if (period <= 0 || length <= period) {
+    return atr
+  }
+
+  // The first true range needs a previous close, so the first ATR averages candles 1 to period
+  let sum = 0
+  for (let i = 1; i <= period; i++) {
+    sum += trueRange(highs, lows, closes, i)
+  }
+  atr[period] = sum / period
+
+  for (let i = period + 1; i < length; i++) {
+    atr[i] = (atr[i - 1] * (period - 1) + trueRange(highs, lows, closes, i)) / period
   }
 
-  const trueRanges = Array(highs.length).fill(0)
-  const atr = Array(highs.length).fill(null)
+  return atr
+}
 
-  // Calculate true ranges
-  for (let i = 1; i < highs.length; i++) {
-    const tr1 = highs[i] - lows[i] // Current high - current low
-    const tr2 = Math.abs(highs[i] - closes[i - 1]) // Current high - previous close
-    const tr3 = Math.abs(lows[i] - closes[i - 1]) // Current low - previous close
-    trueRanges[i] = Math.max(tr1, tr2, tr3)
+/**
+ * Calculate Bollinger Bands with the population standard deviation
+ * @param prices Array of price values
+ * @param period Bollinger Bands period
+ * @param stdDev Standard deviation multiplier
+ * @returns Object with upper, middle, and lower bands, first valid at index period - 1
+ */
+export function calculateBollingerBands(
+  prices: number[],
+  period = 20,
+  stdDev = 2,
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = calculateSMA(prices, period)
+  const upper = warmUp(prices.length)
+  const lower = warmUp(prices.length)
+  if (period <= 0) {
+    return { upper, middle, lower }
   }
 
-  // Calculate initial ATR as simple average of true ranges
-  if (highs.length >= period) {
+  for (let i = period - 1; i < prices.length; i++) {
     let sum = 0
-    for (let i = 1; i <= period; i++) {
-      sum += trueRanges[i]
+    for (let j = i - period + 1; j <= i; j++) {
+      sum += Math.pow(prices[j] - middle[i], 2)
     }
-    atr[period] = sum / period
+    const std = Math.sqrt(sum / period)
+    upper[i] = middle[i] + stdDev * std
+    lower[i] = middle[i] - stdDev * std
+  }
 
-    // Calculate subsequent ATR values using smoothing
-    for (let i = period + 1; i < highs.length; i++) {
-      atr[i] = (atr[i - 1] * (period - 1) + trueRanges[i]) / period
+  return { upper, middle, lower }
+}
+
+/**
+ * Calculate Stochastic Oscillator
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param closes Array of close prices
+ * @param kPeriod Period for %K calculation (default: 14)
+ * @param dPeriod Period for %D calculation (default: 3)
+ * @returns Object with %K (first valid at kPeriod - 1) and %D, the SMA of %K (first valid at kPeriod + dPeriod - 2)
+ */
+export function calculateStochastic(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  kPeriod = 14,
+  dPeriod = 3,
+): { k: number[]; d: number[] } {
+  const length = Math.min(highs.length, lows.length, closes.length)
+  const k = warmUp(length)
+  if (kPeriod <= 0 || dPeriod <= 0) {
+    return { k, d: warmUp(length) }
+  }
+
+  for (let i = kPeriod - 1; i < length; i++) {
+    // Find highest high and lowest low in the period
+    let highestHigh = Number.NEGATIVE_INFINITY
+    let lowestLow = Number.POSITIVE_INFINITY
+
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      highestHigh = Math.max(highestHigh, highs[j])
+      lowestLow = Math.min(lowestLow, lows[j])
     }
+
+    // Without a range the close sits in the middle of it
+    const range = highestHigh - lowestLow
+    k[i] = range === 0 ? 50 : ((closes[i] - lowestLow) / range) * 100
   }
 
-  return atr
+  return { k, d: calculateSMA(k, dPeriod) }
 }
 
-// Memoized version of calculateATR
-export const memoizedATR = memoize(
-  calculateATR,
-  (highs, lows, closes, period) =>
-    `atr-${period}-${highs.length}-${highs[0]}-${highs[highs.length - 1]}-${lows[0]}-${closes[closes.length - 1]}`,
-  60000, // 1 minute cache
-)
-
 /**
- * Calculate Simple Moving Average (SMA)
- * @param prices Array of price values
- * @param period SMA period
- * @returns Array of SMA values
+ * Calculate On-Balance Volume (OBV)
+ * @param closes Array of close prices
+ * @param volumes Array of volume values
+ * @returns Array of OBV values, starting at 0
  */
-export function calculateSMA(prices: number[], period: number): number[] {
-  if (prices.length < period) {
-    return Array(prices.length).fill(null)
+export function calculateOBV(closes: number[], volumes: number[]): number[] {
+  const length = Math.min(closes.length, volumes.length)
+  if (length === 0) {
+    return []
   }
 
-  const sma = Array(prices.length).fill(null)
+  const obv: number[] = [0]
 
-  // Optimize by using a sliding window approach
-  let sum = 0
+  for (let i = 1; i < length; i++) {
+    if (closes[i] > closes[i - 1]) {
+      // Price up, add volume
+      obv.push(obv[i - 1] + volumes[i])
+    } else if (closes[i] < closes[i - 1]) {
+      // Price down, subtract volume
+      obv.push(obv[i - 1] - volumes[i])
+    } else {
+      // Price unchanged, OBV unchanged
+      obv.push(obv[i - 1])
+    }
+  }
 
-  // Calculate first SMA
-  for (let i = 0; i < period; i++) {
-    sum += prices[i]
+  return obv
+}
+
+// Midpoint of the highest high and lowest low over the period ending at each candle
+function donchianMidpoint(highs: number[], lows: number[], length: number, period: number): number[] {
+  const midpoint = warmUp(length)
+
+  for (let i = period - 1; i < length; i++) {
+    let highestHigh = Number.NEGATIVE_INFINITY
+    let lowestLow = Number.POSITIVE_INFINITY
+
+    for (let j = i - period + 1; j <= i; j++) {
+      highestHigh = Math.max(highestHigh, highs[j])
+      lowestLow = Math.min(lowestLow, lows[j])
+    }
+
+    midpoint[i] = (highestHigh + lowestLow) / 2
   }
-  sma[period - 1] = sum / period
 
-  // Calculate remaining SMAs using sliding window
-  for (let i = period; i < prices.length; i++) {
-    sum = sum - prices[i - period] + prices[i]
-    sma[i] = sum / period
+  return midpoint
+}
+
+/**
+ * Calculate Ichimoku Cloud. The leading spans are indexed by the candle they are calculated on; they are plotted
+ * displacement candles ahead, so the cloud under candle i is leadingSpanA[i - displacement].
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param conversionPeriod Tenkan-sen period (default: 9)
+ * @param basePeriod Kijun-sen period (default: 26)
+ * @param laggingSpanPeriod Senkou Span B period (default: 52)
+ * @param displacement Displacement period (default: 26)
+ * @returns Object with Tenkan-sen, Kijun-sen, Senkou Span A, Senkou Span B, and the midpoint of the candle
+ * displacement periods back as Chikou Span
+ */
+export function calculateIchimoku(
+  highs: number[],
+  lows: number[],
+  conversionPeriod = 9,
+  basePeriod = 26,
+  laggingSpanPeriod = 52,
+  displacement = 26,
+): {
+  conversionLine: number[]
+  baseLine: number[]
+  leadingSpanA: number[]
+  leadingSpanB: number[]
+  laggingSpan: number[]
+} {
+  const length = Math.min(highs.length, lows.length)
+  const conversionLine = donchianMidpoint(highs, lows, length, conversionPeriod)
+  const baseLine = donchianMidpoint(highs, lows, length, basePeriod)
+  const leadingSpanA = conversionLine.map((conversion, i) => (conversion + baseLine[i]) / 2)
+  const leadingSpanB = donchianMidpoint(highs, lows, length, laggingSpanPeriod)
+  const laggingSpan = warmUp(length)
+
+  for (let i = displacement; i < length; i++) {
+    laggingSpan[i] = (highs[i - displacement] + lows[i - displacement]) / 2
   }
 
-  return sma
+  return {
+    conversionLine,
+    baseLine,
+    leadingSpanA,
+    leadingSpanB,
+    laggingSpan,
+  }
 }
 
-// Memoized version of calculateSMA
-export const memoizedSMA = memoize(
-  calculateSMA,
-  (prices, period) => `sma-${period}-${prices.length}-${prices[0]}-${prices[prices.length - 1]}`,
-  60000, // 1 minute cache
-)
+/**
+ * Calculate Parabolic SAR
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param accelerationFactor Initial acceleration factor (default: 0.02)
+ * @param maxAcceleration Maximum acceleration (default: 0.2)
+ * @returns Array of SAR values, first valid at index 1
+ */
+export function calculateParabolicSAR(
+  highs: number[],
+  lows: number[],
+  accelerationFactor = 0.02,
+  maxAcceleration = 0.2,
+): number[] {
+  const length = Math.min(highs.length, lows.length)
+  if (length < 2) {
+    return warmUp(length)
+  }
+
+  const sar: number[] = [Number.NaN]
+
+  // Determine initial trend from the second bar; the extreme point covers both bars
+  let isUptrend = highs[1] > highs[0]
+
+  let extremePoint = isUptrend ? highs[1] : Math.min(lows[0], lows[1])
+  let currentAF = accelerationFactor
+
+  sar.push(isUptrend ? lows[0] : highs[0])
+
+  for (let i = 2; i < length; i++) {
+    // Calculate SAR for the current period
+    const prevSAR = sar[i - 1]
+    let currentSAR = prevSAR + currentAF * (extremePoint - prevSAR)
+
+    // Ensure SAR doesn't penetrate the previous two price bars
+    if (isUptrend) {
+      currentSAR = Math.min(currentSAR, lows[i - 1], lows[i - 2])
+    } else {
+      currentSAR = Math.max(currentSAR, highs[i - 1], highs[i - 2])
+    }
+
+    // Check if trend reversal occurred
+    if ((isUptrend && lows[i] < currentSAR) || (!isUptrend && highs[i] > currentSAR)) {
+      isUptrend = !isUptrend
+      currentSAR = extremePoint
+      extremePoint = isUptrend ? highs[i] : lows[i]
+      currentAF = accelerationFactor
+    } else if (isUptrend && highs[i] > extremePoint) {
+      extremePoint = highs[i]
+      currentAF = Math.min(currentAF + accelerationFactor, maxAcceleration)
+    } else if (!isUptrend && lows[i] < extremePoint) {
+      extremePoint = lows[i]
+      currentAF = Math.min(currentAF + accelerationFactor, maxAcceleration)
+    }
+
+    sar.push(currentSAR)
+  }
+
+  return sar
+}
+
+/**
+ * Calculate Fibonacci Retracement Levels
+ * @param high Highest price in the trend
+ * @param low Lowest price in the trend
+ * @returns Object with Fibonacci retracement levels
+ */
+export function calculateFibonacciLevels(
+  high: number,
+  low: number,
+): {
+  level0: number // 0% (low)
+  level236: number // 23.6%
+  level382: number // 38.2%
+  level50: number // 50%
+  level618: number // 61.8%
+  level786: number // 78.6%
+  level100: number // 100% (high)
+} {
+  const range = high - low
+
+  return {
+    level0: low,
+    level236: low + range * 0.236,
+    level382: low + range * 0.382,
+    level50: low + range * 0.5,
+    level618: low + range * 0.618,
+    level786: low + range * 0.786,
+    level100: high,
+  }
+}
+
+/**
+ * Calculate Pivot Points (Standard)
+ * @param high Previous period's high
+ * @param low Previous period's low
+ * @param close Previous period's close
+ * @returns Object with pivot point and support/resistance levels
+ */
+export function calculatePivotPoints(
+  high: number,
+  low: number,
+  close: number,
+): {
+  pivot: number
+  r1: number
+  r2: number
+  r3: number
+  s1: number
+  s2: number
+  s3: number
+} {
+  const pivot = (high + low + close) / 3
+
+  const r1 = 2 * pivot - low
+  const r2 = pivot + (high - low)
+  const r3 = high + 2 * (pivot - low)
+
+  const s1 = 2 * pivot - high
+  const s2 = pivot - (high - low)
+  const s3 = low - 2 * (high - pivot)
+
+  return { pivot, r1, r2, r3, s1, s2, s3 }
+}
 
 /**
- * Calculate Relative Strength Index (RSI)
+ * Calculate Rate of Change (ROC)
  * @param prices Array of price values
- * @param period RSI period
- * @returns Array of RSI values
+ * @param period Period for ROC calculation
+ * @returns Array of ROC values (percentage), first valid at index period
  */
-export function calculateRSI(prices: number[], period: number): number[] {
-  if (prices.length <= period) {
-    return Array(prices.length).fill(null)
+export function calculateROC(prices: number[], period: number): number[] {
+  const roc = warmUp(prices.length)
+  if (period <= 0) {
+    return roc
   }
 
-  const rsi = Array(prices.length).fill(null)
-  const gains = Array(prices.length).fill(0)
-  const losses = Array(prices.length).fill(0)
+  for (let i = period; i < prices.length; i++) {
+    const previousPrice = prices[i - period]
+    roc[i] = previousPrice === 0 ? 0 : ((prices[i] - previousPrice) / previousPrice) * 100
+  }
 
-  // Calculate price changes
-  for (let i = 1; i < prices.length; i++) {
-    const change = prices[i] - prices[i - 1]
-    if (change > 0) {
-      gains[i] = change
-    } else {
-      losses[i] = Math.abs(change)
+  return roc
+}
+
+/**
+ * Calculate Commodity Channel Index (CCI)
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param closes Array of close prices
+ * @param period Period for CCI calculation (default: 20)
+ * @returns Array of CCI values, first valid at index period - 1
+ */
+export function calculateCCI(highs: number[], lows: number[], closes: number[], period = 20): number[] {
+  const length = Math.min(highs.length, lows.length, closes.length)
+  const cci = warmUp(length)
+  if (period <= 0) {
+    return cci
+  }
+
+  const typicalPrices = closes.slice(0, length).map((close, i) => (highs[i] + lows[i] + close) / 3)
+
+  for (let i = period - 1; i < length; i++) {
+    // Calculate SMA of typical price
+    let sum = 0
+    for (let j = i - period + 1; j <= i; j++) {
+      sum += typicalPrices[j]
+    }
+    const sma = sum / period
+
+    // Calculate mean deviation
+    let meanDeviation = 0
+    for (let j = i - period + 1; j <= i; j++) {
+      meanDeviation += Math.abs(typicalPrices[j] - sma)
     }
+    meanDeviation /= period
+
+    cci[i] = meanDeviation === 0 ? 0 : (typicalPrices[i] - sma) / (0.015 * meanDeviation)
   }
 
-  // Calculate initial average gain and loss
-  let avgGain = 0
-  let avgLoss = 0
+  return cci
+}
 
-  for (let i = 1; i <= period; i++) {
-    avgGain += gains[i]
-    avgLoss += losses[i]
+/**
+ * Calculate Williams %R
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param closes Array of close prices
+ * @param period Period for Williams %R calculation (default: 14)
+ * @returns Array of Williams %R values, first valid at index period - 1
+ */
+export function calculateWilliamsR(highs: number[], lows: number[], closes: number[], period = 14): number[] {
+  const length = Math.min(highs.length, lows.length, closes.length)
+  const williamsR = warmUp(length)
+  if (period <= 0) {
+    return williamsR
   }
 
-  avgGain /= period
-  avgLoss /= period
+  for (let i = period - 1; i < length; i++) {
+    // Find highest high and lowest low in the period
+    let highestHigh = Number.NEGATIVE_INFINITY
+    let lowestLow = Number.POSITIVE_INFINITY
 
-  // Calculate RSI
-  for (let i = period + 1; i < prices.length; i++) {
-    // Smooth averages
-    avgGain = (avgGain * (period - 1) + gains[i]) / period
-    avgLoss = (avgLoss * (period - 1) + losses[i]) / period
+    for (let j = i - period + 1; j <= i; j++) {
+      highestHigh = Math.max(highestHigh, highs[j])
+      lowestLow = Math.min(lowestLow, lows[j])
+    }
 
-    // Calculate RS and RSI
-    const rs = avgGain / (avgLoss === 0 ? 0.001 : avgLoss) // Avoid division by zero
-    rsi[i] = 100 - 100 / (1 + rs)
+    // Williams %R formula: ((Highest High - Close) / (Highest High - Lowest Low)) * -100
+    const range = highestHigh - lowestLow
+    williamsR[i] = range === 0 ? -50 : ((highestHigh - closes[i]) / range) * -100
   }
 
-  return rsi
+  return williamsR
 }
 
-// Memoized version of calculateRSI
-export const memoizedRSI = memoize(
-  calculateRSI,
-  (prices, period) => `rsi-${period}-${prices.length}-${prices[0]}-${prices[prices.length - 1]}`,
-  60000, // 1 minute cache
-)
+/**
+ * Calculate Directional Movement Index (DMI) and Average Directional Index (ADX) as defined by Wilder
+ * @param highs Array of high prices
+ * @param lows Array of low prices
+ * @param closes Array of close prices
+ * @param period Period for calculations (default: 14)
+ * @returns Object with +DI and -DI (first valid at index period) and ADX (first valid at index 2 * period - 1)
+ */
+export function calculateDMI(
+  highs: number[],
+  lows: number[],
+  closes: number[],
+  period = 14,
+): { plusDI: number[]; minusDI: number[]; adx: number[] } {
+  const length = Math.min(highs.length, lows.length, closes.length)
+  const plusDI = warmUp(length)
+  const minusDI = warmUp(length)
+  const adx = warmUp(length)
+  if (period <= 0 || length <= period) {
+    return { plusDI, minusDI, adx }
+  }
+
+  let smoothedTR = 0
+  let smoothedPlusDM = 0
+  let smoothedMinusDM = 0
+  let dxSum = 0
+
+  for (let i = 1; i < length; i++) {
+    // Directional Movement
+    const upMove = highs[i] - highs[i - 1]
+    const downMove = lows[i - 1] - lows[i]
+    const plusDM = upMove > downMove && upMove > 0 ? upMove : 0
+    const minusDM = downMove > upMove && downMove > 0 ? downMove : 0
+    const tr = trueRange(highs, lows, closes, i)
+
+    // The first smoothed values are the sums over candles 1 to period, then Wilder's smoothing
+    if (i <= period) {
+      smoothedTR += tr
+      smoothedPlusDM += plusDM
+      smoothedMinusDM += minusDM
+      if (i < period) {
+        continue
+      }
+    } else {
+      smoothedTR = smoothedTR - smoothedTR / period + tr
+      smoothedPlusDM = smoothedPlusDM - smoothedPlusDM / period + plusDM
+      smoothedMinusDM = smoothedMinusDM - smoothedMinusDM / period + minusDM
+    }
+
+    plusDI[i] = smoothedTR === 0 ? 0 : (smoothedPlusDM / smoothedTR) * 100
+    minusDI[i] = smoothedTR === 0 ? 0 : (smoothedMinusDM / smoothedTR) * 100
+
+    const diSum = plusDI[i] + minusDI[i]
+    const dx = diSum === 0 ? 0 : (Math.abs(plusDI[i] - minusDI[i]) / diSum) * 100
+
+    // The first ADX is the mean of the first period DX values
+    if (i < 2 * period - 1) {
+      dxSum += dx
+    } else if (i === 2 * period - 1) {
+      adx[i] = (dxSum + dx) / period
+    } else {
+      adx[i] = (adx[i - 1] * (period - 1) + dx) / period
+    }
+  }
+
+  return { plusDI, minusDI, adx }
+}
 
 /**
  * Get adaptive EMA period based on volatility (ATR)
@@ -273,55 +724,46 @@ export function getAdaptiveEmaPeriod(price: number, atr: number, baseEmaPeriod =
   return baseEmaPeriod
 }
 
-/**
- * Calculate MACD (Moving Average Convergence Divergence)
- * @param prices Array of price values
- * @param fastPeriod Fast EMA period (default: 12)
- * @param slowPeriod Slow EMA period (default: 26)
- * @param signalPeriod Signal EMA period (default: 9)
- * @returns Object with macdLine, signalLine, and histogram arrays
- */
-export function calculateMACD(prices: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) {
-  // Calculate fast and slow EMAs
-  const fastEMA = calculateEMA(prices, fastPeriod)
-  const slowEMA = calculateEMA(prices, slowPeriod)
+// Memoized versions; callers must not mutate the returned arrays since they are shared through the cache
+export const memoizedEMA = memoize(calculateEMA, (prices, period) => `ema-${period}-${seriesKey(prices)}`, MEMO_TTL)
 
-  // Calculate MACD line (fast EMA - slow EMA)
-  const macdLine = fastEMA.map((fast, i) => {
-    if (fast === null || slowEMA[i] === null) return null
-    return fast - slowEMA[i]
-  })
-
-  // Calculate signal line (EMA of MACD line)
-  const validMacdValues = macdLine.filter((value): value is number => value !== null)
-  const signalLineTemp = calculateEMA(validMacdValues, signalPeriod)
-
-  // Align signal line with original array length
-  const signalLine = Array(prices.length).fill(null)
-  let validCount = 0
-
-  for (let i = 0; i < macdLine.length; i++) {
-    if (macdLine[i] !== null) {
-      if (validCount < signalLineTemp.length) {
-        signalLine[i] = signalLineTemp[validCount]
-        validCount++
-      }
-    }
-  }
+export const memoizedSMA = memoize(calculateSMA, (prices, period) => `sma-${period}-${seriesKey(prices)}`, MEMO_TTL)
 
-  // Calculate histogram (MACD line - signal line)
-  const histogram = macdLine.map((macd, i) => {
-    if (macd === null || signalLine[i] === null) return null
-    return macd - signalLine[i]
-  })
+export const memoizedRSI = memoize(calculateRSI, (prices, period) => `rsi-${period}-${seriesKey(prices)}`, MEMO_TTL)
 
-  return { macdLine, signalLine, histogram }
-}
-
-// Memoized version of calculateMACD
 export const memoizedMACD = memoize(
   calculateMACD,
   (prices, fastPeriod = 12, slowPeriod = 26, signalPeriod = 9) =>
-    `macd-${fastPeriod}-${slowPeriod}-${signalPeriod}-${prices.length}-${prices[0]}-${prices[prices.length - 1]}`,
-  60000, // 1 minute cache
+    `macd-${fastPeriod}-${slowPeriod}-${signalPeriod}-${seriesKey(prices)}`,
+  MEMO_TTL,
+)
+
+export const memoizedVWAP = memoize(
+  calculateVWAP,
+  (highs, lows, closes, volumes, period) => `vwap-${period}-${seriesKey(highs, lows, closes, volumes)}`,
+  MEMO_TTL,
+)
+
+export const memoizedATR = memoize(
+  calculateATR,
+  (highs, lows, closes, period = 14) => `atr-${period}-${seriesKey(highs, lows, closes)}`,
+  MEMO_TTL,
+)
+
+export const memoizedBollingerBands = memoize(
+  calculateBollingerBands,
+  (prices, period = 20, stdDev = 2) => `bb-${period}-${stdDev}-${seriesKey(prices)}`,
+  MEMO_TTL,
+)
+
+export const memoizedStochastic = memoize(
+  calculateStochastic,
+  (highs, lows, closes, kPeriod = 14, dPeriod = 3) => `stoch-${kPeriod}-${dPeriod}-${seriesKey(highs, lows, closes)}`,
+  MEMO_TTL,
+)
+
+export const memoizedDMI = memoize(
+  calculateDMI,
+  (highs, lows, closes, period = 14) => `dmi-${period}-${seriesKey(highs, lows, closes)}`,
+  MEMO_TTL,
 )
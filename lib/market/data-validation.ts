@@ -1,7 +1,7 @@
 /**
  * Data validation utilities for market data
  */
-import type { OrderBook, OrderBookEntry, Trade, Kline, MarketTicker } from "./interfaces"
+import type { DepthUpdate, OrderBook, OrderBookEntry, Trade, Kline, MarketTicker } from "./interfaces"
 import { errorHandler } from "../error-handling"
 
 export class DataValidator {
@@ -156,6 +156,35 @@ export class DataValidator {
     }
   }
 
+  /**
+   * Transform a raw diff depth event; zero quantities are kept because they remove levels
+   */
+  static transformDepthUpdate(data: any): DepthUpdate | null {
+    if (!data || data.e !== "depthUpdate" || !Array.isArray(data.b) || !Array.isArray(data.a)) {
+      return null
+    }
+    if (typeof data.U !== "number" || typeof data.u !== "number") {
+      return null
+    }
+
+    const toEntries = (levels: any[][]): OrderBookEntry[] =>
+      levels
+        .map((level) => ({
+          price: this.safeParseFloat(level[0]) ?? 0,
+          quantity: this.safeParseFloat(level[1]) ?? 0,
+        }))
+        .filter((entry) => entry.price > 0 && entry.quantity >= 0)
+
+    return {
+      eventTime: data.E || Date.now(),
+      firstUpdateId: data.U,
+      finalUpdateId: data.u,
+      previousFinalUpdateId: typeof data.pu === "number" ? data.pu : -1,
+      bids: toEntries(data.b),
+      asks: toEntries(data.a),
+    }
+  }
+
   /**
    * Transform raw API trade data to our standard format with validation
    */
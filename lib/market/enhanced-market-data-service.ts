@@ -8,6 +8,8 @@ import { restApiService } from "./rest-api-service"
 import { errorHandler } from "../error-handling"
 import { DataValidator } from "./data-validation"
 import { CacheManager } from "./cache-manager"
+import { orderBookManager } from "./order-book-manager"
+import type { LocalOrderBook } from "./local-order-book"
 import type {
   MarketDataService,
   MarketDataResult,
@@ -476,7 +478,7 @@ export class EnhancedMarketDataService extends Singleton<EnhancedMarketDataServi
   }
 
   /**
-   * Subscribe to order book updates
+   * Subscribe to full-depth order book updates
    */
   public subscribeToOrderBook(
     symbol: string,
@@ -484,54 +486,19 @@ export class EnhancedMarketDataService extends Singleton<EnhancedMarketDataServi
     options?: SubscriptionOptions,
   ): () => void {
     const formattedSymbol = this.formatSymbol(symbol)
-    const streamName = `${formattedSymbol.toLowerCase()}@depth`
-    const mergedOptions = { ...this.defaultSubscriptionOptions, ...options }
+    const streamName = `${formattedSymbol.toLowerCase()}@depth@100ms`
 
     // Track this subscription
     this.activeSubscriptions.add(streamName)
 
-    // Use the unified WebSocket client
-    const unsubscribe = unifiedWebSocketClient.subscribeToStream(streamName, (data) => {
-      try {
-        const orderBook = DataValidator.transformOrderBook(data)
-
-        if (orderBook) {
-          // Store in cache
-          const cacheKey = this.getCacheKey("orderbook", formattedSymbol)
-          this.cache.set(cacheKey, orderBook)
-
-          // Notify callback
-          callback({
-            data: orderBook,
-            error: null,
-            source: "websocket",
-            timestamp: Date.now(),
-          })
-        }
-      } catch (error) {
-        errorHandler.handleError(error as Error, {
-          context: { action: "subscribeToOrderBook", symbol: formattedSymbol, data },
-          severity: "medium",
-        })
-
-        callback({
-          data: null,
-          error: error as Error,
-          source: "websocket",
-          timestamp: Date.now(),
-        })
-
-        // If WebSocket fails, try to get data from REST API
-        if (mergedOptions.reconnect) {
-          this.getOrderBook(formattedSymbol)
-            .then((result) => {
-              if (result.data !== null) {
-                callback(result)
-              }
-            })
-            .catch((err) => console.error("Failed to get order book via REST:", err))
-        }
+    // The order book manager rebuilds the full book from a snapshot and diffs, and resyncs on gaps by itself
+    const unsubscribe = orderBookManager.subscribe(formattedSymbol, (result) => {
+      if (result.data) {
+        const cacheKey = this.getCacheKey("orderbook", formattedSymbol)
+        this.cache.set(cacheKey, result.data)
       }
+
+      callback(result)
     })
 
     return () => {
@@ -540,6 +507,13 @@ export class EnhancedMarketDataService extends Singleton<EnhancedMarketDataServi
     }
   }
 
+  /**
+   * Get the live local order book for a subscribed symbol, for best bid/ask, depth and imbalance queries
+   */
+  public getLocalOrderBook(symbol: string): LocalOrderBook | null {
+    return orderBookManager.getLocalOrderBook(this.formatSymbol(symbol))
+  }
+
   /**
    * Subscribe to trades updates
    */
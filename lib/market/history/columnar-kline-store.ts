@@ -0,0 +1,146 @@
+/**
+ * Columnar Kline Store
+ * Server-side kline store with one column-oriented JSON file per symbol, interval and UTC month
+ */
+import type { Kline } from "../../types/market-types"
+import { validateKlineSeries } from "./kline-store"
+import type { KlineStore } from "./kline-store"
+
+const KLINE_COLUMNS = [
+  "openTime",
+  "open",
+  "high",
+  "low",
+  "close",
+  "volume",
+  "closeTime",
+  "quoteVolume",
+  "trades",
+  "takerBuyBaseAssetVolume",
+  "takerBuyQuoteAssetVolume",
+] as const
+
+type KlinePartition = Record<(typeof KLINE_COLUMNS)[number], number[]>
+
+export class ColumnarKlineStore implements KlineStore {
+  private rootDir: string
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(rootDir: string) {
+    this.rootDir = rootDir
+  }
+
+  /**
+   * Read the monthly partitions that overlap the range
+   */
+  public async getKlines(symbol: string, interval: string, startTime: number, endTime: number): Promise<Kline[]> {
+    await this.writeQueue
+
+    const klines: Kline[] = []
+    for (const month of this.getMonths(startTime, endTime)) {
+      const partition = await this.readPartition(symbol, interval, month)
+      klines.push(...partition.filter((kline) => kline.openTime >= startTime && kline.openTime <= endTime))
+    }
+
+    return klines
+  }
+
+  /**
+   * Merge candles into their monthly partitions
+   */
+  public saveKlines(symbol: string, interval: string, klines: Kline[]): Promise<void> {
+    const byMonth = new Map<string, Kline[]>()
+    for (const kline of klines) {
+      const month = this.getMonth(kline.openTime)
+      byMonth.set(month, [...(byMonth.get(month) || []), kline])
+    }
+
+    return this.enqueue(async () => {
+      for (const [month, monthKlines] of byMonth) {
+        const merged = new Map<number, Kline>()
+        for (const kline of await this.readPartition(symbol, interval, month)) {
+          merged.set(kline.openTime, kline)
+        }
+        for (const kline of monthKlines) {
+          merged.set(kline.openTime, kline)
+        }
+
+        const sorted = Array.from(merged.values()).sort((a, b) => a.openTime - b.openTime)
+        await this.writePartition(symbol, interval, month, sorted)
+      }
+    })
+  }
+
+  private async readPartition(symbol: string, interval: string, month: string): Promise<Kline[]> {
+    const { readFile } = await import("fs/promises")
+
+    let content: string
+    try {
+      content = await readFile(await this.getPartitionPath(symbol, interval, month), "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+
+    const columns: KlinePartition = JSON.parse(content)
+    return columns.openTime.map((_, row) => {
+      const kline = {} as Kline
+      KLINE_COLUMNS.forEach((column) => {
+        kline[column] = columns[column][row]
+      })
+      return kline
+    })
+  }
+
+  private async writePartition(symbol: string, interval: string, month: string, klines: Kline[]): Promise<void> {
+    const { mkdir, writeFile, rename } = await import("fs/promises")
+    const { dirname } = await import("path")
+
+    const columns = {} as KlinePartition
+    KLINE_COLUMNS.forEach((column) => {
+      columns[column] = klines.map((kline) => kline[column])
+    })
+
+    const filePath = await this.getPartitionPath(symbol, interval, month)
+    await mkdir(dirname(filePath), { recursive: true })
+
+    // Write to a temporary file first so a crash never leaves a half-written partition
+    const tempPath = `${filePath}.tmp`
+    await writeFile(tempPath, JSON.stringify(columns), "utf-8")
+    await rename(tempPath, filePath)
+  }
+
+  // Writes run one at a time so concurrent downloads never merge into the same partition at once
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task)
+    this.writeQueue = result.catch(() => undefined)
+    return result
+  }
+
+  private async getPartitionPath(symbol: string, interval: string, month: string): Promise<string> {
+    validateKlineSeries(symbol, interval)
+
+    const { join } = await import("path")
+    return join(this.rootDir, symbol.toUpperCase(), interval, `${month}.json`)
+  }
+
+  private getMonth(time: number): string {
+    return new Date(time).toISOString().slice(0, 7)
+  }
+
+  private getMonths(startTime: number, endTime: number): string[] {
+    const months: string[] = []
+    const cursor = new Date(startTime)
+    cursor.setUTCDate(1)
+    cursor.setUTCHours(0, 0, 0, 0)
+
+    while (cursor.getTime() <= endTime) {
+      months.push(this.getMonth(cursor.getTime()))
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1)
+    }
+
+    return months
+  }
+}
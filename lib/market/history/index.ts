@@ -0,0 +1,74 @@
+/**
+ * Kline History
+ * Query API over the local kline store; missing candles are downloaded before the range is returned
+ */
+import { env, isTest } from "../../env"
+import { ColumnarKlineStore } from "./columnar-kline-store"
+import { KlineDownloader } from "./kline-downloader"
+import type { Kline } from "../../types/market-types"
+import type { KlineStore } from "./kline-store"
+
+export * from "./kline-store"
+export { ColumnarKlineStore } from "./columnar-kline-store"
+export { KlineDownloader, findKlineGaps } from "./kline-downloader"
+export type { KlineDownloadResult, KlineGap, KlinePageFetcher } from "./kline-downloader"
+
+export interface HistoricalKlineOptions {
+  download?: boolean // Fill gaps from the exchange first (default: true)
+}
+
+let defaultStore: KlineStore | null | undefined
+let defaultDownloader: KlineDownloader | null = null
+const pendingDownloads = new Map<string, Promise<unknown>>()
+
+/**
+ * A columnar store on the server; null in the browser, in tests or when the store is disabled
+ */
+export function createDefaultKlineStore(): KlineStore | null {
+  if (typeof window !== "undefined" || isTest() || !env.KLINE_STORE_PATH) {
+    return null
+  }
+
+  return new ColumnarKlineStore(env.KLINE_STORE_PATH)
+}
+
+/**
+ * Candles with an open time in [startTime, endTime] from the default store, oldest first
+ */
+export async function getHistoricalKlines(
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number = Date.now(),
+  options: HistoricalKlineOptions = {},
+): Promise<Kline[]> {
+  if (defaultStore === undefined) {
+    defaultStore = createDefaultKlineStore()
+    defaultDownloader = defaultStore ? new KlineDownloader(defaultStore) : null
+  }
+  if (!defaultStore) {
+    return []
+  }
+
+  const formattedSymbol = symbol.toUpperCase()
+
+  if (options.download !== false && defaultDownloader) {
+    // Overlapping requests for the same series wait for one download instead of fetching the pages twice
+    const key = `${formattedSymbol}:${interval}`
+    const previous = pendingDownloads.get(key) || Promise.resolve()
+    const download = previous
+      .catch(() => undefined)
+      .then(() => defaultDownloader!.download(formattedSymbol, interval, startTime, endTime))
+    pendingDownloads.set(key, download)
+
+    try {
+      await download
+    } finally {
+      if (pendingDownloads.get(key) === download) {
+        pendingDownloads.delete(key)
+      }
+    }
+  }
+
+  return defaultStore.getKlines(formattedSymbol, interval, startTime, endTime)
+}
@@ -0,0 +1,170 @@
+/**
+ * Kline Downloader
+ * Pages through /klines by start and end time to fill the gaps in a KlineStore
+ */
+import { binanceApiClient } from "../../binance/binance-api-client"
+import { getCandleOpenTime, parseTimeframe } from "../kline-resampler"
+import type { Kline } from "../../types/market-types"
+import type { KlineStore } from "./kline-store"
+
+// Largest page the futures API returns; it costs 10 request weight
+const KLINE_PAGE_LIMIT = 1500
+const KLINE_PAGE_WEIGHT = 10
+
+export interface KlineGap {
+  startTime: number // Open time of the first missing candle
+  endTime: number // Open time of the last missing candle
+}
+
+export interface KlineDownloadResult {
+  symbol: string
+  interval: string
+  downloaded: number
+  pages: number
+}
+
+export type KlinePageFetcher = (params: {
+  symbol: string
+  interval: string
+  startTime: number
+  endTime: number
+  limit: number
+}) => Promise<unknown[]>
+
+// Requests go through the API client so they count against the shared rate limiter
+const fetchKlinePage: KlinePageFetcher = (params) =>
+  binanceApiClient.makeUnsignedRequest<unknown[]>("/klines", params, {
+    weight: KLINE_PAGE_WEIGHT,
+    showInLogs: false,
+  })
+
+/**
+ * Find the closed candles missing from a sorted series between two times
+ */
+export function findKlineGaps(klines: Kline[], interval: string, startTime: number, endTime: number): KlineGap[] {
+  const intervalMs = parseTimeframe(interval)
+
+  let expected = getCandleOpenTime(startTime, intervalMs)
+  if (expected < startTime) {
+    expected += intervalMs
+  }
+
+  // Only candles that have closed can be stored
+  const lastOpenTime = Math.min(
+    getCandleOpenTime(endTime, intervalMs),
+    getCandleOpenTime(Date.now(), intervalMs) - intervalMs,
+  )
+
+  const gaps: KlineGap[] = []
+  for (const kline of klines) {
+    if (kline.openTime < expected) {
+      continue
+    }
+    if (kline.openTime > lastOpenTime) {
+      break
+    }
+    if (kline.openTime > expected) {
+      gaps.push({ startTime: expected, endTime: kline.openTime - intervalMs })
+    }
+    expected = kline.openTime + intervalMs
+  }
+
+  if (expected <= lastOpenTime) {
+    gaps.push({ startTime: expected, endTime: lastOpenTime })
+  }
+
+  return gaps
+}
+
+/**
+ * Parse a raw /klines row
+ */
+function parseRawKline(row: unknown): Kline | null {
+  if (!Array.isArray(row)) {
+    return null
+  }
+
+  const toNumber = (value: unknown): number => (typeof value === "number" ? value : Number.parseFloat(String(value)))
+  const kline: Kline = {
+    openTime: toNumber(row[0]),
+    open: toNumber(row[1]),
+    high: toNumber(row[2]),
+    low: toNumber(row[3]),
+    close: toNumber(row[4]),
+    volume: toNumber(row[5]),
+    closeTime: toNumber(row[6]),
+    quoteVolume: toNumber(row[7]),
+    trades: toNumber(row[8]),
+    takerBuyBaseAssetVolume: toNumber(row[9]),
+    takerBuyQuoteAssetVolume: toNumber(row[10]),
+  }
+
+  return Object.values(kline).every((value) => Number.isFinite(value)) ? kline : null
+}
+
+export class KlineDownloader {
+  private store: KlineStore
+  private fetchPage: KlinePageFetcher
+
+  constructor(store: KlineStore, fetchPage: KlinePageFetcher = fetchKlinePage) {
+    this.store = store
+    this.fetchPage = fetchPage
+  }
+
+  /**
+   * Download every closed candle in the range that is not stored yet
+   */
+  public async download(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<KlineDownloadResult> {
+    const formattedSymbol = symbol.toUpperCase()
+    const stored = await this.store.getKlines(formattedSymbol, interval, startTime, endTime)
+    const result: KlineDownloadResult = { symbol: formattedSymbol, interval, downloaded: 0, pages: 0 }
+
+    for (const gap of findKlineGaps(stored, interval, startTime, endTime)) {
+      await this.downloadGap(formattedSymbol, interval, gap, result)
+    }
+
+    return result
+  }
+
+  // Pages forward from the start of the gap; each page resumes after the last candle received
+  private async downloadGap(
+    symbol: string,
+    interval: string,
+    gap: KlineGap,
+    result: KlineDownloadResult,
+  ): Promise<void> {
+    const intervalMs = parseTimeframe(interval)
+    let cursor = gap.startTime
+
+    while (cursor <= gap.endTime) {
+      const pageStart = cursor
+      const rows = await this.fetchPage({
+        symbol,
+        interval,
+        startTime: pageStart,
+        endTime: gap.endTime + intervalMs - 1,
+        limit: KLINE_PAGE_LIMIT,
+      })
+      result.pages++
+
+      const klines = rows
+        .map(parseRawKline)
+        .filter((kline): kline is Kline => kline !== null)
+        .filter((kline) => kline.openTime >= pageStart && kline.openTime <= gap.endTime)
+
+      // The exchange has nothing more in this gap, e.g. before the symbol was listed
+      if (klines.length === 0) {
+        break
+      }
+
+      await this.store.saveKlines(symbol, interval, klines)
+      result.downloaded += klines.length
+      cursor = klines[klines.length - 1].openTime + intervalMs
+    }
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Kline Store
+ * Persistence contract for historical candles, partitioned by symbol and interval
+ */
+import { ValidationError } from "../../error-handling/error-types"
+import type { Kline } from "../../types/market-types"
+
+// Futures kline intervals with a fixed length; monthly candles cannot be stored or gap-checked by duration
+export const KLINE_INTERVALS = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "3d", "1w"]
+
+const SYMBOL_PATTERN = /^[A-Z0-9]+$/
+
+/**
+ * Reject symbols and intervals that are not an exchange series, since both become part of the storage path
+ */
+export function validateKlineSeries(symbol: string, interval: string): void {
+  if (!SYMBOL_PATTERN.test(symbol.toUpperCase())) {
+    throw new ValidationError(`Invalid kline symbol: ${symbol}`, { context: { symbol } })
+  }
+  if (!KLINE_INTERVALS.includes(interval)) {
+    throw new ValidationError(`Unsupported kline interval: ${interval}`, { context: { interval } })
+  }
+}
+
+export interface KlineStore {
+  /**
+   * Load stored candles with an open time in [startTime, endTime], oldest first
+   */
+  getKlines(symbol: string, interval: string, startTime: number, endTime: number): Promise<Kline[]>
+
+  /**
+   * Insert candles, replacing any stored candle with the same open time
+   */
+  saveKlines(symbol: string, interval: string, klines: Kline[]): Promise<void>
+}
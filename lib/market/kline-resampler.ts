@@ -0,0 +1,303 @@
+/**
+ * Kline Resampler
+ * Builds candles of any timeframe from 1m klines or raw trades, so every timeframe view comes from one feed
+ */
+import { ValidationError } from "../error-handling/error-types"
+import type { Kline, Trade } from "../types"
+
+const MINUTE = 60 * 1000
+const TIMEFRAME_UNITS: Record<string, number> = {
+  m: MINUTE,
+  h: 60 * MINUTE,
+  d: 24 * 60 * MINUTE,
+  w: 7 * 24 * 60 * MINUTE,
+}
+
+// The epoch is a Thursday; weekly candles open on Monday like the exchange's
+const WEEK_OFFSET = 4 * TIMEFRAME_UNITS.d
+
+export interface ResampledKlineUpdate {
+  timeframe: string
+  kline: Kline
+  isClosed: boolean
+}
+
+type ResampledKlineCallback = (update: ResampledKlineUpdate) => void
+
+interface TimeframeView {
+  intervalMs: number
+  klines: Kline[]
+  // Finished minutes of the newest candle, so the in-progress minute can be re-applied on every tick
+  closedPart: Kline | null
+}
+
+/**
+ * Parse a timeframe such as "2m", "10m", "3h" or "1w" into milliseconds
+ */
+export function parseTimeframe(timeframe: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(timeframe)
+  if (!match || Number(match[1]) <= 0) {
+    throw new ValidationError(`Unsupported timeframe: ${timeframe}`, {
+      context: { timeframe },
+    })
+  }
+  return Number(match[1]) * TIMEFRAME_UNITS[match[2]]
+}
+
+/**
+ * Open time of the candle that contains the given time
+ */
+export function getCandleOpenTime(time: number, intervalMs: number): number {
+  const offset = intervalMs % TIMEFRAME_UNITS.w === 0 ? WEEK_OFFSET : 0
+  return Math.floor((time - offset) / intervalMs) * intervalMs + offset
+}
+
+/**
+ * Resample a 1m kline series into another timeframe in one pass
+ */
+export function resampleKlines(klines: Kline[], timeframe: string): Kline[] {
+  const sorted = [...klines].sort((a, b) => a.openTime - b.openTime)
+  return bucketKlines(sorted, parseTimeframe(timeframe))
+}
+
+function bucketKlines(sortedKlines: Kline[], intervalMs: number): Kline[] {
+  const bucketed: Kline[] = []
+
+  for (const kline of sortedKlines) {
+    const openTime = getCandleOpenTime(kline.openTime, intervalMs)
+    const last = bucketed[bucketed.length - 1]
+
+    if (last && last.openTime === openTime) {
+      bucketed[bucketed.length - 1] = mergeKlines(last, kline)
+    } else {
+      bucketed.push(startCandle(kline, openTime, intervalMs))
+    }
+  }
+
+  return bucketed
+}
+
+function startCandle(kline: Kline, openTime: number, intervalMs: number): Kline {
+  return { ...kline, openTime, closeTime: openTime + intervalMs - 1 }
+}
+
+function mergeKlines(candle: Kline, kline: Kline): Kline {
+  return {
+    ...candle,
+    high: Math.max(candle.high, kline.high),
+    low: Math.min(candle.low, kline.low),
+    close: kline.close,
+    volume: candle.volume + kline.volume,
+    quoteVolume: candle.quoteVolume + kline.quoteVolume,
+    trades: candle.trades + kline.trades,
+    takerBuyBaseAssetVolume: candle.takerBuyBaseAssetVolume + kline.takerBuyBaseAssetVolume,
+    takerBuyQuoteAssetVolume: candle.takerBuyQuoteAssetVolume + kline.takerBuyQuoteAssetVolume,
+  }
+}
+
+export class KlineResampler {
+  private views: Map<string, TimeframeView> = new Map()
+  private callbacks: Map<string, Set<ResampledKlineCallback>> = new Map()
+  private currentMinute: Kline | null = null
+  private maxKlines: number
+
+  constructor(timeframes: string[] = [], maxKlines = 1000) {
+    this.maxKlines = maxKlines
+    timeframes.forEach((timeframe) => this.addTimeframe(timeframe))
+  }
+
+  /**
+   * Start building a timeframe; it is backfilled from the 1m klines already seen by other views
+   */
+  public addTimeframe(timeframe: string): void {
+    if (this.views.has(timeframe)) {
+      return
+    }
+
+    const intervalMs = parseTimeframe(timeframe)
+    const view: TimeframeView = { intervalMs, klines: [], closedPart: null }
+
+    // The finest view that divides the new interval holds the history at the best available resolution
+    const source = this.findFinestView(intervalMs)
+    if (source) {
+      view.klines = bucketKlines(source.klines, intervalMs).slice(-this.maxKlines)
+      const current = view.klines[view.klines.length - 1]
+      const closedPart = bucketKlines(this.getFinishedKlines(source), intervalMs).pop()
+      view.closedPart = closedPart && closedPart.openTime === current?.openTime ? closedPart : null
+    }
+
+    this.views.set(timeframe, view)
+  }
+
+  /**
+   * Timeframes currently being built
+   */
+  public getTimeframes(): string[] {
+    return Array.from(this.views.keys())
+  }
+
+  /**
+   * Load 1m history without notifying subscribers
+   */
+  public loadKlines(klines: Kline[]): void {
+    const sorted = [...klines].sort((a, b) => a.openTime - b.openTime)
+    sorted.forEach((kline) => this.applyMinute(kline))
+  }
+
+  /**
+   * Prepend closed candles fetched for a timeframe that are older than anything resampled so far
+   */
+  public seedHistory(timeframe: string, klines: Kline[]): void {
+    const view = this.views.get(timeframe)
+    if (!view) {
+      return
+    }
+
+    const firstOpenTime = view.klines[0]?.openTime ?? Number.POSITIVE_INFINITY
+    const older = klines.filter((kline) => kline.openTime < firstOpenTime).sort((a, b) => a.openTime - b.openTime)
+    view.klines = [...older, ...view.klines].slice(-this.maxKlines)
+  }
+
+  /**
+   * Apply a closed or in-progress 1m kline and notify subscribers of every timeframe it changed
+   */
+  public addKline(kline: Kline): void {
+    this.notify(this.applyMinute(kline))
+  }
+
+  /**
+   * Apply a trade to the current 1m candle, for feeds that only carry trades
+   */
+  public addTrade(trade: Trade): void {
+    const openTime = getCandleOpenTime(trade.time, MINUTE)
+    const notional = trade.price * trade.quantity
+    const takerBuyQuantity = trade.isBuyerMaker ? 0 : trade.quantity
+    const tradeKline: Kline = {
+      openTime,
+      open: trade.price,
+      high: trade.price,
+      low: trade.price,
+      close: trade.price,
+      volume: trade.quantity,
+      closeTime: openTime + MINUTE - 1,
+      quoteVolume: notional,
+      trades: 1,
+      takerBuyBaseAssetVolume: takerBuyQuantity,
+      takerBuyQuoteAssetVolume: takerBuyQuantity * trade.price,
+    }
+
+    const minute =
+      this.currentMinute && this.currentMinute.openTime === openTime
+        ? mergeKlines(this.currentMinute, tradeKline)
+        : tradeKline
+    this.addKline(minute)
+  }
+
+  /**
+   * Candles of a timeframe, oldest first; the last one may still be in progress
+   */
+  public getKlines(timeframe: string): Kline[] {
+    return [...(this.views.get(timeframe)?.klines ?? [])]
+  }
+
+  /**
+   * The in-progress candle of a timeframe
+   */
+  public getCurrentKline(timeframe: string): Kline | null {
+    const klines = this.views.get(timeframe)?.klines ?? []
+    return klines[klines.length - 1] ?? null
+  }
+
+  /**
+   * Register a callback for candle updates of a timeframe
+   */
+  public subscribe(timeframe: string, callback: ResampledKlineCallback): () => void {
+    this.addTimeframe(timeframe)
+
+    const callbacks = this.callbacks.get(timeframe) || new Set()
+    callbacks.add(callback)
+    this.callbacks.set(timeframe, callbacks)
+
+    return () => {
+      callbacks.delete(callback)
+    }
+  }
+
+  // Update every view before anyone is notified, so subscribers reading another timeframe see the same tick
+  private applyMinute(kline: Kline): ResampledKlineUpdate[] {
+    if (this.currentMinute && kline.openTime < this.currentMinute.openTime) {
+      return []
+    }
+
+    const finishedMinute =
+      this.currentMinute && kline.openTime > this.currentMinute.openTime ? this.currentMinute : null
+    this.currentMinute = kline
+
+    const updates: ResampledKlineUpdate[] = []
+    this.views.forEach((view, timeframe) => {
+      if (finishedMinute) {
+        this.foldMinute(view, finishedMinute)
+      }
+
+      const openTime = this.getOpenTime(kline, view)
+      const base = view.closedPart && view.closedPart.openTime === openTime ? view.closedPart : null
+      const candle = base ? mergeKlines(base, kline) : startCandle(kline, openTime, view.intervalMs)
+
+      const last = view.klines[view.klines.length - 1]
+      if (last && last.openTime === openTime) {
+        view.klines[view.klines.length - 1] = candle
+      } else {
+        if (last) {
+          updates.push({ timeframe, kline: last, isClosed: true })
+        }
+        view.klines.push(candle)
+        if (view.klines.length > this.maxKlines) {
+          view.klines.shift()
+        }
+      }
+
+      updates.push({ timeframe, kline: candle, isClosed: false })
+    })
+
+    return updates
+  }
+
+  private foldMinute(view: TimeframeView, minute: Kline): void {
+    const openTime = this.getOpenTime(minute, view)
+    view.closedPart =
+      view.closedPart && view.closedPart.openTime === openTime
+        ? mergeKlines(view.closedPart, minute)
+        : startCandle(minute, openTime, view.intervalMs)
+  }
+
+  private getOpenTime(kline: Kline, view: TimeframeView): number {
+    return getCandleOpenTime(kline.openTime, view.intervalMs)
+  }
+
+  private findFinestView(intervalMs: number): TimeframeView | null {
+    let finest: TimeframeView | null = null
+    this.views.forEach((view) => {
+      if (intervalMs % view.intervalMs === 0 && (!finest || view.intervalMs < finest.intervalMs)) {
+        finest = view
+      }
+    })
+    return finest
+  }
+
+  // History of a view with the in-progress minute taken out of its newest candle
+  private getFinishedKlines(view: TimeframeView): Kline[] {
+    const current = view.klines[view.klines.length - 1]
+    if (!current) {
+      return []
+    }
+
+    const finished = view.klines.slice(0, -1)
+    return view.closedPart && view.closedPart.openTime === current.openTime ? [...finished, view.closedPart] : finished
+  }
+
+  private notify(updates: ResampledKlineUpdate[]): void {
+    updates.forEach((update) => {
+      this.callbacks.get(update.timeframe)?.forEach((callback) => callback(update))
+    })
+  }
+}
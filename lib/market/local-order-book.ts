@@ -0,0 +1,264 @@
+/**
+ * Local Order Book
+ * Full-depth order book rebuilt from a REST snapshot and diff depth events with futures sequence checks
+ */
+import type { DepthUpdate, OrderBook, OrderBookEntry } from "../types"
+
+export type DepthUpdateResult = "applied" | "buffered" | "stale" | "gap"
+
+/**
+ * Resting liquidity within a distance of the mid price
+ */
+export interface BookDepth {
+  bidQuantity: number
+  askQuantity: number
+  bidNotional: number
+  askNotional: number
+}
+
+// Diffs received before the snapshot; the stream runs at 100ms so this covers well over a minute
+const DEFAULT_MAX_BUFFERED_UPDATES = 1000
+
+export class LocalOrderBook {
+  public readonly symbol: string
+  private bids: Map<number, number> = new Map()
+  private asks: Map<number, number> = new Map()
+  private lastUpdateId = 0
+  private synced = false
+  private awaitingFirstUpdate = false
+  private bufferedUpdates: DepthUpdate[] = []
+  private maxBufferedUpdates: number
+  private sortedBids: OrderBookEntry[] | null = null
+  private sortedAsks: OrderBookEntry[] | null = null
+
+  constructor(symbol: string, maxBufferedUpdates = DEFAULT_MAX_BUFFERED_UPDATES) {
+    this.symbol = symbol
+    this.maxBufferedUpdates = maxBufferedUpdates
+  }
+
+  /**
+   * Whether the book has a snapshot and an unbroken sequence of diffs since
+   */
+  public isSynced(): boolean {
+    return this.synced
+  }
+
+  /**
+   * Update id of the last snapshot or diff applied
+   */
+  public getLastUpdateId(): number {
+    return this.lastUpdateId
+  }
+
+  /**
+   * Replace the book with a REST snapshot and replay the diffs buffered while it was loading.
+   * Returns false when the buffered diffs do not connect to the snapshot and a newer one is needed.
+   */
+  public loadSnapshot(snapshot: OrderBook): boolean {
+    this.bids = new Map(snapshot.bids.map((bid) => [bid.price, bid.quantity]))
+    this.asks = new Map(snapshot.asks.map((ask) => [ask.price, ask.quantity]))
+    this.lastUpdateId = snapshot.lastUpdateId
+    this.synced = true
+    this.awaitingFirstUpdate = true
+    this.invalidate()
+
+    const bufferedUpdates = this.bufferedUpdates
+    this.bufferedUpdates = []
+
+    for (const update of bufferedUpdates) {
+      if (this.applyUpdate(update) === "gap") {
+        return false
+      }
+    }
+    return true
+  }
+
+  /**
+   * Apply a diff depth event. Events are buffered until a snapshot is loaded; a break in the
+   * sequence returns "gap", clears the book and starts buffering again for the next snapshot.
+   */
+  public applyUpdate(update: DepthUpdate): DepthUpdateResult {
+    if (!this.synced) {
+      this.bufferedUpdates.push(update)
+      if (this.bufferedUpdates.length > this.maxBufferedUpdates) {
+        this.bufferedUpdates.shift()
+      }
+      return "buffered"
+    }
+
+    if (this.awaitingFirstUpdate) {
+      // Events that end before the snapshot are already part of it
+      if (update.finalUpdateId < this.lastUpdateId) {
+        return "stale"
+      }
+      // The first event must straddle the snapshot, otherwise updates were missed in between
+      if (update.firstUpdateId > this.lastUpdateId) {
+        return this.handleGap(update)
+      }
+    } else {
+      if (update.finalUpdateId <= this.lastUpdateId) {
+        return "stale"
+      }
+      if (update.previousFinalUpdateId !== this.lastUpdateId) {
+        return this.handleGap(update)
+      }
+    }
+
+    this.applyLevels(this.bids, update.bids)
+    this.applyLevels(this.asks, update.asks)
+    this.lastUpdateId = update.finalUpdateId
+    this.awaitingFirstUpdate = false
+    this.invalidate()
+
+    return "applied"
+  }
+
+  /**
+   * Clear the book and wait for a new snapshot
+   */
+  public reset(): void {
+    this.bids.clear()
+    this.asks.clear()
+    this.lastUpdateId = 0
+    this.synced = false
+    this.awaitingFirstUpdate = false
+    this.bufferedUpdates = []
+    this.invalidate()
+  }
+
+  /**
+   * Bids sorted from best (highest) to worst
+   */
+  public getBids(): OrderBookEntry[] {
+    if (!this.sortedBids) {
+      this.sortedBids = this.toSortedEntries(this.bids, (a, b) => b - a)
+    }
+    return this.sortedBids
+  }
+
+  /**
+   * Asks sorted from best (lowest) to worst
+   */
+  public getAsks(): OrderBookEntry[] {
+    if (!this.sortedAsks) {
+      this.sortedAsks = this.toSortedEntries(this.asks, (a, b) => a - b)
+    }
+    return this.sortedAsks
+  }
+
+  /**
+   * Highest bid, or null if the book is empty
+   */
+  public getBestBid(): OrderBookEntry | null {
+    return this.getBids()[0] ?? null
+  }
+
+  /**
+   * Lowest ask, or null if the book is empty
+   */
+  public getBestAsk(): OrderBookEntry | null {
+    return this.getAsks()[0] ?? null
+  }
+
+  /**
+   * Midpoint between the best bid and ask
+   */
+  public getMidPrice(): number | null {
+    const bestBid = this.getBestBid()
+    const bestAsk = this.getBestAsk()
+    if (!bestBid || !bestAsk) {
+      return null
+    }
+    return (bestBid.price + bestAsk.price) / 2
+  }
+
+  /**
+   * Best ask minus best bid
+   */
+  public getSpread(): number | null {
+    const bestBid = this.getBestBid()
+    const bestAsk = this.getBestAsk()
+    if (!bestBid || !bestAsk) {
+      return null
+    }
+    return bestAsk.price - bestBid.price
+  }
+
+  /**
+   * Quantity and notional resting within the given basis points of the mid price on each side
+   */
+  public getDepth(bps: number): BookDepth {
+    const depth: BookDepth = { bidQuantity: 0, askQuantity: 0, bidNotional: 0, askNotional: 0 }
+    const midPrice = this.getMidPrice()
+    if (midPrice === null) {
+      return depth
+    }
+
+    const minBidPrice = midPrice * (1 - bps / 10000)
+    const maxAskPrice = midPrice * (1 + bps / 10000)
+
+    for (const bid of this.getBids()) {
+      if (bid.price < minBidPrice) break
+      depth.bidQuantity += bid.quantity
+      depth.bidNotional += bid.price * bid.quantity
+    }
+    for (const ask of this.getAsks()) {
+      if (ask.price > maxAskPrice) break
+      depth.askQuantity += ask.quantity
+      depth.askNotional += ask.price * ask.quantity
+    }
+
+    return depth
+  }
+
+  /**
+   * Notional imbalance within the given basis points of the mid price, from -1 (all asks) to 1 (all bids)
+   */
+  public getImbalance(bps = 10): number {
+    const { bidNotional, askNotional } = this.getDepth(bps)
+    const total = bidNotional + askNotional
+    return total > 0 ? (bidNotional - askNotional) / total : 0
+  }
+
+  /**
+   * Copy of the book as an OrderBook, optionally limited to the best levels on each side
+   */
+  public getSnapshot(levels?: number): OrderBook {
+    const bids = this.getBids()
+    const asks = this.getAsks()
+
+    return {
+      lastUpdateId: this.lastUpdateId,
+      bids: levels ? bids.slice(0, levels) : [...bids],
+      asks: levels ? asks.slice(0, levels) : [...asks],
+    }
+  }
+
+  private handleGap(update: DepthUpdate): DepthUpdateResult {
+    this.reset()
+    // The event that revealed the gap may still connect to the next snapshot
+    this.bufferedUpdates.push(update)
+    return "gap"
+  }
+
+  private applyLevels(side: Map<number, number>, levels: OrderBookEntry[]): void {
+    for (const level of levels) {
+      if (level.quantity === 0) {
+        side.delete(level.price)
+      } else {
+        side.set(level.price, level.quantity)
+      }
+    }
+  }
+
+  private toSortedEntries(side: Map<number, number>, compare: (a: number, b: number) => number): OrderBookEntry[] {
+    return Array.from(side.keys())
+      .sort(compare)
+      .map((price) => ({ price, quantity: side.get(price)! }))
+  }
+
+  private invalidate(): void {
+    this.sortedBids = null
+    this.sortedAsks = null
+  }
+}
@@ -1,5 +1,6 @@
 import { unifiedWebSocketClient } from "../websocket/unified-websocket-client"
 import { restApiService } from "./rest-api-service"
+import { orderBookManager } from "./order-book-manager"
 import { errorHandler } from "../error-handling"
 import type { MarketDataResult, OrderBook, Trade, Kline, MarketTicker } from "./interfaces"
 
@@ -478,74 +479,24 @@ export class BinanceMarketDataProvider implements MarketDataProvider {
   }
 
   /**
-   * Subscribe to order book updates
+   * Subscribe to full-depth order book updates
    */
   public subscribeToOrderBook(symbol: string, callback: (result: MarketDataResult<OrderBook>) => void): () => void {
     const formattedSymbol = this.formatSymbol(symbol)
-    const streamName = `${formattedSymbol.toLowerCase()}@depth`
+    const streamName = `${formattedSymbol.toLowerCase()}@depth@100ms`
 
     // Track this subscription
     this.activeSubscriptions.add(streamName)
 
-    // Use the unified WebSocket client
-    const unsubscribe = unifiedWebSocketClient.subscribeToStream(streamName, (data) => {
-      try {
-        // Transform the data to OrderBook format
-        const orderBook: OrderBook = {
-          lastUpdateId: data.lastUpdateId,
-          bids: data.bids.map((bid: string[]) => ({
-            price: Number.parseFloat(bid[0]),
-            quantity: Number.parseFloat(bid[1]),
-          })),
-          asks: data.asks.map((ask: string[]) => ({
-            price: Number.parseFloat(ask[0]),
-            quantity: Number.parseFloat(ask[1]),
-          })),
-        }
-
-        // Store in cache
+    // The order book manager loads the REST snapshot and keeps the book in sync with the diff stream
+    const unsubscribe = orderBookManager.subscribe(formattedSymbol, (result) => {
+      if (result.data) {
         const cacheKey = this.getCacheKey("orderbook", formattedSymbol)
-        this.storeInCache(cacheKey, orderBook, "websocket")
-
-        // Notify callback
-        callback({
-          data: orderBook,
-          error: null,
-          source: "websocket",
-          timestamp: Date.now(),
-        })
-      } catch (error) {
-        errorHandler.handleError(error as Error, {
-          context: { action: "subscribeToOrderBook", symbol: formattedSymbol, data },
-          severity: "medium",
-        })
-
-        callback({
-          data: null,
-          error: error as Error,
-          source: "websocket",
-          timestamp: Date.now(),
-        })
-
-        // If WebSocket fails, try to get data from REST API
-        this.getOrderBook(formattedSymbol)
-          .then((result) => {
-            if (result.data !== null) {
-              callback(result)
-            }
-          })
-          .catch((err) => console.error("Failed to get order book via REST:", err))
+        this.storeInCache(cacheKey, result.data, result.source)
       }
-    })
 
-    // Initialize with REST API data
-    this.getOrderBook(formattedSymbol)
-      .then((result) => {
-        if (result.data !== null) {
-          callback(result)
-        }
-      })
-      .catch((err) => console.error("Failed to get initial order book:", err))
+      callback(result)
+    })
 
     return () => {
       unsubscribe()
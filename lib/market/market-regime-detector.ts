@@ -2,9 +2,12 @@
  * Market Regime Detector
  * Detects market conditions and adapts strategy parameters accordingly
  */
-import { calculateRSI, calculateBollingerBands, calculateATR, calculateEMA } from "../utils/technical-indicators"
+import { calculateRSI, calculateBollingerBands, calculateATR, calculateEMA } from "../indicators"
 import type { Kline } from "../market/interfaces"
 import { errorHandler } from "../error-handling"
+import { findSupportResistance } from "./pattern-detector"
+import { certainRegime, GaussianHmmRegimeModel, mostLikelyRegime, RegimeHysteresis } from "./regime-model"
+import type { RegimeModelFitOptions, RegimeModelParameters, RegimeProbabilities } from "./regime-model"
 
 export type MarketRegime = "TRENDING_UP" | "TRENDING_DOWN" | "RANGING" | "VOLATILE" | "UNKNOWN"
 
@@ -25,12 +28,45 @@ export interface RegimeDetectionConfig {
   volatilityThreshold: number
   momentumThreshold: number
   rangeBoundThreshold: number
+  enterProbability: number // probability a new regime needs before it replaces the current one
+  exitProbability: number // probability the current regime must have fallen to before it is replaced
+  confirmations: number // consecutive readings that must agree on a new regime
 }
 
+export interface RegimeEstimate {
+  regime: MarketRegime // most likely regime of this reading
+  probabilities: RegimeProbabilities
+  timestamp: number
+  source: "model" | "thresholds"
+}
+
+export interface RegimeTransition {
+  from: MarketRegime
+  to: MarketRegime
+  timestamp: number
+  probability: number
+}
+
+export interface RegimeUpdate {
+  regime: MarketRegime // regime after hysteresis
+  changed: boolean
+  estimate: RegimeEstimate
+}
+
+interface RegimeTracker {
+  hysteresis: RegimeHysteresis
+  timeline: RegimeTransition[]
+}
+
+// Transitions kept per symbol and timeframe
+const MAX_TIMELINE_LENGTH = 500
+
 export class MarketRegimeDetector {
   private static instance: MarketRegimeDetector
   private config: RegimeDetectionConfig
   private regimeCache: Map<string, { condition: MarketCondition; timestamp: number }> = new Map()
+  private regimeModels: Map<string, GaussianHmmRegimeModel> = new Map()
+  private regimeTrackers: Map<string, RegimeTracker> = new Map()
 
   private constructor() {
     this.config = {
@@ -39,6 +75,9 @@ export class MarketRegimeDetector {
       volatilityThreshold: 0.015,
       momentumThreshold: 0.2,
       rangeBoundThreshold: 0.6,
+      enterProbability: 0.6,
+      exitProbability: 0.4,
+      confirmations: 2,
     }
   }
 
@@ -54,6 +93,8 @@ export class MarketRegimeDetector {
    */
   public updateConfig(config: Partial<RegimeDetectionConfig>): void {
     this.config = { ...this.config, ...config }
+    // Hysteresis settings apply from a fresh start
+    this.regimeTrackers.forEach((tracker) => tracker.hysteresis.reset())
   }
 
   /**
@@ -63,6 +104,20 @@ export class MarketRegimeDetector {
     return { ...this.config }
   }
 
+  /**
+   * Detect market regime over stored history, downloading missing candles first (server only)
+   */
+  public async detectRegimeFromHistory(
+    symbol: string,
+    timeframe: string,
+    startTime: number,
+    endTime: number = Date.now(),
+  ): Promise<MarketCondition> {
+    const { getHistoricalKlines } = await import("./history")
+    const klines = await getHistoricalKlines(symbol, timeframe, startTime, endTime)
+    return this.detectRegime(symbol, klines, timeframe)
+  }
+
   /**
    * Detect market regime from kline data
    */
@@ -78,101 +133,7 @@ export class MarketRegimeDetector {
         return cachedRegime.condition
       }
 
-      // Ensure we have enough data
-      if (klines.length < this.config.lookbackPeriods * 2) {
-        return {
-          regime: "UNKNOWN",
-          strength: 0,
-          volatility: 0,
-          trend: 0,
-          momentum: 0,
-          support: null,
-          resistance: null,
-          description: "Insufficient data for regime detection",
-        }
-      }
-
-      // Extract price data
-      const closes = klines.map((k) => (typeof k.close === "number" ? k.close : Number.parseFloat(k.close as string)))
-      const highs = klines.map((k) => (typeof k.high === "number" ? k.high : Number.parseFloat(k.high as string)))
-      const lows = klines.map((k) => (typeof k.low === "number" ? k.low : Number.parseFloat(k.low as string)))
-
-      // Calculate indicators
-      const rsi = calculateRSI(closes, 14)
-      const ema20 = calculateEMA(closes, 20)
-      const ema50 = calculateEMA(closes, 50)
-      const ema200 = calculateEMA(closes, 200)
-      const bbands = calculateBollingerBands(closes, 20, 2)
-      const atr = calculateATR(highs, lows, closes, 14)
-
-      // Get latest values
-      const currentClose = closes[closes.length - 1]
-      const currentRsi = rsi[rsi.length - 1]
-      const currentEma20 = ema20[ema20.length - 1]
-      const currentEma50 = ema50[ema50.length - 1]
-      const currentEma200 = ema200[ema200.length - 1]
-      const currentAtr = atr[atr.length - 1]
-      const currentUpperBand = bbands.upper[bbands.upper.length - 1]
-      const currentLowerBand = bbands.lower[bbands.lower.length - 1]
-      const currentMiddleBand = bbands.middle[bbands.middle.length - 1]
-
-      // Calculate normalized volatility (ATR as percentage of price)
-      const normalizedVolatility = currentAtr / currentClose
-
-      // Calculate trend strength
-      const shortTermTrend = (currentEma20 - currentEma50) / currentEma50
-      const longTermTrend = (currentEma50 - currentEma200) / currentEma200
-      const trendStrength = (shortTermTrend + longTermTrend) / 2
-
-      // Calculate momentum
-      const momentum = (currentRsi - 50) / 50
-
-      // Calculate range-bound indicator
-      const bandWidth = (currentUpperBand - currentLowerBand) / currentMiddleBand
-      const normalizedBandWidth = Math.min(bandWidth / 0.05, 1) // Normalize to 0-1
-      const rangeBoundIndicator = 1 - normalizedBandWidth
-
-      // Detect support and resistance
-      const { support, resistance } = this.detectSupportResistance(closes, highs, lows)
-
-      // Determine market regime
-      let regime: MarketRegime
-      let strength: number
-      let description: string
-
-      if (normalizedVolatility > this.config.volatilityThreshold) {
-        regime = "VOLATILE"
-        strength = Math.min(normalizedVolatility / (this.config.volatilityThreshold * 2), 1)
-        description = `Volatile market with ${(normalizedVolatility * 100).toFixed(2)}% price swings`
-      } else if (trendStrength > this.config.trendThreshold && momentum > this.config.momentumThreshold) {
-        regime = "TRENDING_UP"
-        strength = Math.min(trendStrength / (this.config.trendThreshold * 2), 1)
-        description = `Uptrend with ${(trendStrength * 100).toFixed(2)}% strength and positive momentum`
-      } else if (trendStrength < -this.config.trendThreshold && momentum < -this.config.momentumThreshold) {
-        regime = "TRENDING_DOWN"
-        strength = Math.min(Math.abs(trendStrength) / (this.config.trendThreshold * 2), 1)
-        description = `Downtrend with ${(Math.abs(trendStrength) * 100).toFixed(2)}% strength and negative momentum`
-      } else if (rangeBoundIndicator > this.config.rangeBoundThreshold) {
-        regime = "RANGING"
-        strength = Math.min(rangeBoundIndicator / (this.config.rangeBoundThreshold * 1.2), 1)
-        description = `Range-bound market with ${(rangeBoundIndicator * 100).toFixed(2)}% containment`
-      } else {
-        regime = "UNKNOWN"
-        strength = 0.5
-        description = "Mixed market conditions with no clear regime"
-      }
-
-      // Create market condition object
-      const condition: MarketCondition = {
-        regime,
-        strength,
-        volatility: normalizedVolatility,
-        trend: trendStrength,
-        momentum,
-        support,
-        resistance,
-        description,
-      }
+      const condition = this.analyzeRegime(klines)
 
       // Cache the result
       this.regimeCache.set(cacheKey, {
@@ -201,6 +162,109 @@ export class MarketRegimeDetector {
     }
   }
 
+  /**
+   * Regime from fixed indicator thresholds, without caching
+   */
+  private analyzeRegime(klines: Kline[]): MarketCondition {
+    // Ensure we have enough data
+    if (klines.length < this.config.lookbackPeriods * 2) {
+      return {
+        regime: "UNKNOWN",
+        strength: 0,
+        volatility: 0,
+        trend: 0,
+        momentum: 0,
+        support: null,
+        resistance: null,
+        description: "Insufficient data for regime detection",
+      }
+    }
+
+    // Extract price data
+    const closes = klines.map((k) => (typeof k.close === "number" ? k.close : Number.parseFloat(k.close as string)))
+    const highs = klines.map((k) => (typeof k.high === "number" ? k.high : Number.parseFloat(k.high as string)))
+    const lows = klines.map((k) => (typeof k.low === "number" ? k.low : Number.parseFloat(k.low as string)))
+
+    // Calculate indicators
+    const rsi = calculateRSI(closes, 14)
+    const ema20 = calculateEMA(closes, 20)
+    const ema50 = calculateEMA(closes, 50)
+    const ema200 = calculateEMA(closes, 200)
+    const bbands = calculateBollingerBands(closes, 20, 2)
+    const atr = calculateATR(highs, lows, closes, 14)
+
+    // Get latest values
+    const currentClose = closes[closes.length - 1]
+    const currentRsi = rsi[rsi.length - 1]
+    const currentEma20 = ema20[ema20.length - 1]
+    const currentEma50 = ema50[ema50.length - 1]
+    const currentEma200 = ema200[ema200.length - 1]
+    const currentAtr = atr[atr.length - 1]
+    const currentUpperBand = bbands.upper[bbands.upper.length - 1]
+    const currentLowerBand = bbands.lower[bbands.lower.length - 1]
+    const currentMiddleBand = bbands.middle[bbands.middle.length - 1]
+
+    // Calculate normalized volatility (ATR as percentage of price)
+    const normalizedVolatility = currentAtr / currentClose
+
+    // Calculate trend strength
+    const shortTermTrend = (currentEma20 - currentEma50) / currentEma50
+    const longTermTrend = (currentEma50 - currentEma200) / currentEma200
+    const trendStrength = (shortTermTrend + longTermTrend) / 2
+
+    // Calculate momentum
+    const momentum = (currentRsi - 50) / 50
+
+    // Calculate range-bound indicator
+    const bandWidth = (currentUpperBand - currentLowerBand) / currentMiddleBand
+    const normalizedBandWidth = Math.min(bandWidth / 0.05, 1) // Normalize to 0-1
+    const rangeBoundIndicator = 1 - normalizedBandWidth
+
+    // Detect support and resistance
+    const { support, resistance } = this.detectSupportResistance(closes, highs, lows)
+
+    // Determine market regime
+    let regime: MarketRegime
+    let strength: number
+    let description: string
+
+    if (normalizedVolatility > this.config.volatilityThreshold) {
+      regime = "VOLATILE"
+      strength = Math.min(normalizedVolatility / (this.config.volatilityThreshold * 2), 1)
+      description = `Volatile market with ${(normalizedVolatility * 100).toFixed(2)}% price swings`
+    } else if (trendStrength > this.config.trendThreshold && momentum > this.config.momentumThreshold) {
+      regime = "TRENDING_UP"
+      strength = Math.min(trendStrength / (this.config.trendThreshold * 2), 1)
+      description = `Uptrend with ${(trendStrength * 100).toFixed(2)}% strength and positive momentum`
+    } else if (trendStrength < -this.config.trendThreshold && momentum < -this.config.momentumThreshold) {
+      regime = "TRENDING_DOWN"
+      strength = Math.min(Math.abs(trendStrength) / (this.config.trendThreshold * 2), 1)
+      description = `Downtrend with ${(Math.abs(trendStrength) * 100).toFixed(2)}% strength and negative momentum`
+    } else if (rangeBoundIndicator > this.config.rangeBoundThreshold) {
+      regime = "RANGING"
+      strength = Math.min(rangeBoundIndicator / (this.config.rangeBoundThreshold * 1.2), 1)
+      description = `Range-bound market with ${(rangeBoundIndicator * 100).toFixed(2)}% containment`
+    } else {
+      regime = "UNKNOWN"
+      strength = 0.5
+      description = "Mixed market conditions with no clear regime"
+    }
+
+    // Create market condition object
+    const condition: MarketCondition = {
+      regime,
+      strength,
+      volatility: normalizedVolatility,
+      trend: trendStrength,
+      momentum,
+      support,
+      resistance,
+      description,
+    }
+
+    return condition
+  }
+
   /**
    * Detect support and resistance levels
    */
@@ -209,48 +273,140 @@ export class MarketRegimeDetector {
     highs: number[],
     lows: number[],
   ): { support: number | null; resistance: number | null } {
-    // Simple implementation - can be enhanced with more sophisticated algorithms
-    const recentLows = lows.slice(-30)
-    const recentHighs = highs.slice(-30)
-
-    // Find local minima and maxima
-    const localMinima: number[] = []
-    const localMaxima: number[] = []
-
-    for (let i = 2; i < recentLows.length - 2; i++) {
-      // Local minimum
-      if (
-        recentLows[i] < recentLows[i - 1] &&
-        recentLows[i] < recentLows[i - 2] &&
-        recentLows[i] < recentLows[i + 1] &&
-        recentLows[i] < recentLows[i + 2]
-      ) {
-        localMinima.push()
+    // Swing points of the last 30 candles; support is the highest swing low below the current price and
+    // resistance the lowest swing high above it
+    const currentPrice = closes[closes.length - 1]
+    return findSupportResistance(highs.slice(-30), lows.slice(-30), currentPrice, 2)
+  }
+
+  /**
+   * Use a fitted regime model for a symbol and timeframe; estimates fall back to thresholds without one
+   */
+  public setRegimeModel(
+    symbol: string,
+    timeframe: string,
+    model: GaussianHmmRegimeModel | RegimeModelParameters | null,
+  ): void {
+    const key = `${symbol}_${timeframe}`
+    if (model === null) {
+      this.regimeModels.delete(key)
+      return
+    }
+    this.regimeModels.set(key, model instanceof GaussianHmmRegimeModel ? model : new GaussianHmmRegimeModel(model))
+  }
+
+  /**
+   * Get the regime model for a symbol and timeframe
+   */
+  public getRegimeModel(symbol: string, timeframe: string): GaussianHmmRegimeModel | null {
+    return this.regimeModels.get(`${symbol}_${timeframe}`) ?? null
+  }
+
+  /**
+   * Fit a regime model offline on stored history and use it for the symbol and timeframe (server only)
+   */
+  public async fitRegimeModelFromHistory(
+    symbol: string,
+    timeframe: string,
+    startTime: number,
+    endTime: number = Date.now(),
+    options: Partial<RegimeModelFitOptions> = {},
+  ): Promise<GaussianHmmRegimeModel> {
+    const { getHistoricalKlines } = await import("./history")
+    const klines = await getHistoricalKlines(symbol, timeframe, startTime, endTime)
+    const model = GaussianHmmRegimeModel.fit(klines, options)
+    this.setRegimeModel(symbol, timeframe, model)
+    return model
+  }
+
+  /**
+   * Probability of each regime at the last kline
+   */
+  public estimateRegime(symbol: string, klines: Kline[], timeframe = "1h"): RegimeEstimate {
+    const timestamp = klines.length > 0 ? Number(klines[klines.length - 1].openTime) : Date.now()
+    const model = this.getRegimeModel(symbol, timeframe)
+
+    try {
+      const probabilities = model ? model.predict(klines) : this.thresholdProbabilities(this.analyzeRegime(klines))
+      return {
+        regime: mostLikelyRegime(probabilities).regime,
+        probabilities,
+        timestamp,
+        source: model ? "model" : "thresholds",
       }
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: { action: "estimateRegime", symbol, timeframe },
+        severity: "medium",
+      })
 
-      // Local maximum
-      if (
-        recentHighs[i] > recentHighs[i - 1] &&
-        recentHighs[i] > recentHighs[i - 2] &&
-        recentHighs[i] > recentHighs[i + 1] &&
-        recentHighs[i] > recentHighs[i + 2]
-      ) {
-        localMaxima.push(recentHighs[i])
+      return { regime: "UNKNOWN", probabilities: certainRegime("UNKNOWN"), timestamp, source: "thresholds" }
+    }
+  }
+
+  /**
+   * Estimate the regime and pass it through hysteresis, recording stable regime changes in the timeline
+   */
+  public updateRegime(symbol: string, klines: Kline[], timeframe = "1h"): RegimeUpdate {
+    const estimate = this.estimateRegime(symbol, klines, timeframe)
+    const tracker = this.getTracker(symbol, timeframe)
+    const previous = tracker.hysteresis.getRegime()
+    const changed = tracker.hysteresis.update(estimate.probabilities)
+    const regime = tracker.hysteresis.getRegime()
+
+    if (changed) {
+      tracker.timeline.push({
+        from: previous,
+        to: regime,
+        timestamp: estimate.timestamp,
+        probability: estimate.probabilities[regime],
+      })
+      if (tracker.timeline.length > MAX_TIMELINE_LENGTH) {
+        tracker.timeline.splice(0, tracker.timeline.length - MAX_TIMELINE_LENGTH)
       }
     }
 
-    // Find the most recent significant support and resistance
-    const currentPrice = closes[closes.length - 1]
+    return { regime, changed, estimate }
+  }
+
+  /**
+   * Get the stable regime changes recorded for a symbol and timeframe, oldest first
+   */
+  public getRegimeTimeline(symbol: string, timeframe: string): RegimeTransition[] {
+    return [...(this.regimeTrackers.get(`${symbol}_${timeframe}`)?.timeline ?? [])]
+  }
 
-    // Support is the highest local minimum below current price
-    const supportCandidates = localMinima.filter((price) => price < currentPrice)
-    const support = supportCandidates.length > 0 ? Math.max(...supportCandidates) : null
+  // Hysteresis state and timeline of a symbol and timeframe, created on first use
+  private getTracker(symbol: string, timeframe: string): RegimeTracker {
+    const key = `${symbol}_${timeframe}`
+    let tracker = this.regimeTrackers.get(key)
+    if (!tracker) {
+      const { enterProbability, exitProbability, confirmations } = this.config
+      tracker = {
+        hysteresis: new RegimeHysteresis({ enterProbability, exitProbability, confirmations }),
+        timeline: [],
+      }
+      this.regimeTrackers.set(key, tracker)
+    }
+    return tracker
+  }
 
-    // Resistance is the lowest local maximum above current price
-    const resistanceCandidates = localMaxima.filter((price) => price > currentPrice)
-    const resistance = resistanceCandidates.length > 0 ? Math.min(...resistanceCandidates) : null
+  // Threshold regimes as probabilities: the detected regime gets 0.5 to 1 by strength, the rest is shared evenly
+  private thresholdProbabilities(condition: MarketCondition): RegimeProbabilities {
+    if (condition.regime === "UNKNOWN") {
+      return certainRegime("UNKNOWN")
+    }
 
-    return { support, resistance }
+    const probability = 0.5 + 0.5 * Math.min(Math.max(condition.strength, 0), 1)
+    const rest = (1 - probability) / 3
+    return {
+      TRENDING_UP: rest,
+      TRENDING_DOWN: rest,
+      RANGING: rest,
+      VOLATILE: rest,
+      UNKNOWN: 0,
+      [condition.regime]: probability,
+    }
   }
 
   /**
@@ -259,12 +415,18 @@ export class MarketRegimeDetector {
   public getOptimizedParameters(symbol: string, klines: Kline[], timeframe: string, baseParameters: any): any {
     // Detect the current market regime
     const marketCondition = this.detectRegime(symbol, klines, timeframe)
+    return this.adjustParametersForRegime(marketCondition.regime, marketCondition.strength, baseParameters)
+  }
 
+  /**
+   * Adjust strategy parameters for a regime, scaling each adjustment by the regime strength (0-1)
+   */
+  public adjustParametersForRegime(regime: MarketRegime, strength: number, baseParameters: any): any {
     // Clone the base parameters
     const optimizedParams = { ...baseParameters }
 
     // Adjust parameters based on market regime
-    switch (marketCondition.regime) {
+    switch (regime) {
       case "TRENDING_UP":
         // In strong uptrends, we can be more aggressive
         optimizedParams.takeProfitPercent = baseParameters.takeProfitPercent * 1.5
@@ -301,7 +463,7 @@ export class MarketRegimeDetector {
     }
 
     // Scale adjustments based on regime strength
-    const strengthFactor = marketCondition.strength
+    const strengthFactor = strength
 
     // Apply strength-based scaling to the adjustments
     for (const key of Object.keys(optimizedParams)) {
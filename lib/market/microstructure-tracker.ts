@@ -0,0 +1,136 @@
+/**
+ * Microstructure Tracker
+ * Keeps a rolling window of trades and the latest order book for a symbol and derives microstructure features
+ */
+import { enhancedMarketDataService } from "./enhanced-market-data-service"
+import {
+  calculateAggressorRatio,
+  calculateMicroprice,
+  calculateOrderBookImbalance,
+  calculateSpread,
+  detectLargeTrades,
+} from "../utils/microstructure-indicators"
+import type { MicrostructureSnapshot, OrderBook, Trade } from "../types"
+
+export interface MicrostructureTrackerOptions {
+  windowMs?: number // Trades older than this are dropped from the window
+  maxTrades?: number
+  imbalanceDepthBps?: number
+  largeTradeMultiplier?: number
+}
+
+export class MicrostructureTracker {
+  private symbol: string
+  private windowMs: number
+  private maxTrades: number
+  private imbalanceDepthBps: number
+  private largeTradeMultiplier: number
+  private trades: Trade[] = []
+  private lastTradeId = -1
+  private orderBook: OrderBook | null = null
+  private unsubscribeFunctions: (() => void)[] = []
+
+  constructor(symbol: string, options: MicrostructureTrackerOptions = {}) {
+    this.symbol = symbol
+    this.windowMs = options.windowMs || 60000
+    this.maxTrades = options.maxTrades || 5000
+    this.imbalanceDepthBps = options.imbalanceDepthBps || 10
+    this.largeTradeMultiplier = options.largeTradeMultiplier || 5
+  }
+
+  /**
+   * Subscribe to the trade and order book streams
+   */
+  public start(): void {
+    if (this.unsubscribeFunctions.length > 0) {
+      return
+    }
+
+    const unsubscribeTrades = enhancedMarketDataService.subscribeToTrades(this.symbol, (result) => {
+      if (result.error || !result.data) return
+      this.addTrades(result.data)
+    })
+    const unsubscribeOrderBook = enhancedMarketDataService.subscribeToOrderBook(this.symbol, (result) => {
+      if (result.error || !result.data) return
+      this.updateOrderBook(result.data)
+    })
+
+    this.unsubscribeFunctions.push(unsubscribeTrades, unsubscribeOrderBook)
+  }
+
+  /**
+   * Unsubscribe and clear the window
+   */
+  public stop(): void {
+    this.unsubscribeFunctions.forEach((unsubscribe) => unsubscribe())
+    this.unsubscribeFunctions = []
+    this.trades = []
+    this.lastTradeId = -1
+    this.orderBook = null
+  }
+
+  /**
+   * Add trades to the window; already seen trades are ignored, so overlapping batches are safe
+   */
+  public addTrades(trades: Trade[]): void {
+    const newTrades = trades
+      .filter((trade) => trade.id > this.lastTradeId)
+      .sort((a, b) => a.id - b.id)
+
+    if (newTrades.length > 0) {
+      this.trades.push(...newTrades)
+      this.lastTradeId = newTrades[newTrades.length - 1].id
+    }
+
+    this.pruneTrades()
+  }
+
+  /**
+   * Replace the order book used for the book features
+   */
+  public updateOrderBook(orderBook: OrderBook): void {
+    this.orderBook = orderBook
+  }
+
+  /**
+   * Current features, or null until both sides of the order book have been seen
+   */
+  public getSnapshot(): MicrostructureSnapshot | null {
+    if (!this.orderBook) {
+      return null
+    }
+
+    const spread = calculateSpread(this.orderBook)
+    const microprice = calculateMicroprice(this.orderBook)
+    if (!spread || microprice === null) {
+      return null
+    }
+
+    this.pruneTrades()
+    const { buyVolume, sellVolume, buyRatio } = calculateAggressorRatio(this.trades)
+
+    return {
+      timestamp: Date.now(),
+      tradeCount: this.trades.length,
+      cumulativeVolumeDelta: buyVolume - sellVolume,
+      buyVolume,
+      sellVolume,
+      aggressorBuyRatio: buyRatio,
+      bookImbalance: calculateOrderBookImbalance(this.orderBook, this.imbalanceDepthBps),
+      spread: spread.spread,
+      spreadBps: spread.spreadBps,
+      microprice,
+      largeTrades: detectLargeTrades(this.trades, this.largeTradeMultiplier),
+    }
+  }
+
+  private pruneTrades(): void {
+    const cutoff = Date.now() - this.windowMs
+    const firstInWindow = this.trades.findIndex((trade) => trade.time >= cutoff)
+    const start = firstInWindow === -1 ? this.trades.length : firstInWindow
+
+    if (start > 0 || this.trades.length > this.maxTrades) {
+      this.trades = this.trades.slice(Math.max(start, this.trades.length - this.maxTrades))
+    }
+  }
+}
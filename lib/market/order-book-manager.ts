@@ -0,0 +1,228 @@
+/**
+ * Order Book Manager
+ * Keeps one local order book per symbol in sync with the diff depth stream and resyncs on sequence gaps
+ */
+import { unifiedWebSocketClient } from "../websocket/unified-websocket-client"
+import { restApiService } from "./rest-api-service"
+import { errorHandler } from "../error-handling"
+import { DataValidator } from "./data-validation"
+import { LocalOrderBook } from "./local-order-book"
+import type { MarketDataResult, OrderBook } from "../types"
+
+type OrderBookCallback = (result: MarketDataResult<OrderBook>) => void
+
+interface ManagedOrderBook {
+  book: LocalOrderBook
+  callbacks: Set<OrderBookCallback>
+  unsubscribe: () => void
+  resyncing: boolean
+  resyncAttempts: number
+  resyncTimeout: NodeJS.Timeout | null
+  lastNotifyTime: number
+  notifyTimeout: NodeJS.Timeout | null
+}
+
+// Largest snapshot the futures REST API returns
+const SNAPSHOT_LIMIT = 1000
+const RESYNC_BASE_DELAY = 1000
+const MAX_RESYNC_DELAY = 30000
+// Diffs arrive every 100ms; subscribers get at most one full-book copy per interval, with the latest book
+const NOTIFY_INTERVAL = 500
+
+export class OrderBookManager {
+  private static instance: OrderBookManager
+  private books: Map<string, ManagedOrderBook> = new Map()
+
+  private constructor() {}
+
+  public static getInstance(): OrderBookManager {
+    if (!OrderBookManager.instance) {
+      OrderBookManager.instance = new OrderBookManager()
+    }
+    return OrderBookManager.instance
+  }
+
+  /**
+   * Subscribe to full-depth order book updates, throttled to one per notify interval; the first subscriber for a
+   * symbol opens the depth stream
+   */
+  public subscribe(symbol: string, callback: OrderBookCallback): () => void {
+    const formattedSymbol = symbol.toUpperCase()
+    const managed = this.books.get(formattedSymbol) || this.startBook(formattedSymbol)
+    managed.callbacks.add(callback)
+
+    // Late subscribers get the current book straight away
+    if (managed.book.isSynced()) {
+      callback(this.toResult(managed.book))
+    }
+
+    return () => {
+      managed.callbacks.delete(callback)
+      if (managed.callbacks.size === 0) {
+        this.stopBook(formattedSymbol)
+      }
+    }
+  }
+
+  /**
+   * The live local order book for a symbol, or null if nobody is subscribed to it
+   */
+  public getLocalOrderBook(symbol: string): LocalOrderBook | null {
+    return this.books.get(symbol.toUpperCase())?.book ?? null
+  }
+
+  /**
+   * Symbols with an open depth stream
+   */
+  public getActiveSymbols(): string[] {
+    return Array.from(this.books.keys())
+  }
+
+  private startBook(symbol: string): ManagedOrderBook {
+    const streamName = `${symbol.toLowerCase()}@depth@100ms`
+    const managed: ManagedOrderBook = {
+      book: new LocalOrderBook(symbol),
+      callbacks: new Set(),
+      unsubscribe: () => {},
+      resyncing: false,
+      resyncAttempts: 0,
+      resyncTimeout: null,
+      lastNotifyTime: 0,
+      notifyTimeout: null,
+    }
+    this.books.set(symbol, managed)
+
+    // Diffs are buffered by the book until the snapshot arrives
+    managed.unsubscribe = unifiedWebSocketClient.subscribeToStream(streamName, (data) =>
+      this.handleDepthUpdate(managed, data),
+    )
+    this.resync(managed)
+
+    return managed
+  }
+
+  private stopBook(symbol: string): void {
+    const managed = this.books.get(symbol)
+    if (!managed) {
+      return
+    }
+
+    if (managed.resyncTimeout) {
+      clearTimeout(managed.resyncTimeout)
+    }
+    if (managed.notifyTimeout) {
+      clearTimeout(managed.notifyTimeout)
+    }
+    managed.unsubscribe()
+    managed.book.reset()
+    this.books.delete(symbol)
+  }
+
+  private handleDepthUpdate(managed: ManagedOrderBook, data: any): void {
+    const update = DataValidator.transformDepthUpdate(data)
+    if (!update) {
+      return
+    }
+
+    const result = managed.book.applyUpdate(update)
+    if (result === "applied") {
+      this.scheduleNotify(managed)
+    } else if (result === "gap") {
+      console.warn(`Order book sequence gap for ${managed.book.symbol}, resyncing from a new snapshot`)
+      this.resync(managed)
+    }
+  }
+
+  // Fetch a snapshot and replay buffered diffs on top of it, retrying with backoff until they connect
+  private async resync(managed: ManagedOrderBook): Promise<void> {
+    if (managed.resyncing) {
+      return
+    }
+    managed.resyncing = true
+
+    const { book } = managed
+    const result = await restApiService.getOrderBook(book.symbol, SNAPSHOT_LIMIT)
+    managed.resyncing = false
+
+    // The last subscriber may have left while the snapshot was loading
+    if (this.books.get(book.symbol) !== managed) {
+      return
+    }
+
+    if (result.data && book.loadSnapshot(result.data)) {
+      managed.resyncAttempts = 0
+      this.notifyBook(managed)
+      return
+    }
+
+    if (result.error) {
+      this.notify(managed, result)
+    }
+    this.scheduleResync(managed)
+  }
+
+  private scheduleResync(managed: ManagedOrderBook): void {
+    managed.resyncAttempts++
+    const delay = Math.min(RESYNC_BASE_DELAY * 2 ** (managed.resyncAttempts - 1), MAX_RESYNC_DELAY)
+
+    managed.resyncTimeout = setTimeout(() => {
+      managed.resyncTimeout = null
+      this.resync(managed)
+    }, delay)
+  }
+
+  // Publish the book now if the interval has passed, otherwise once at the end of it
+  private scheduleNotify(managed: ManagedOrderBook): void {
+    if (managed.notifyTimeout) {
+      return
+    }
+
+    const wait = managed.lastNotifyTime + NOTIFY_INTERVAL - Date.now()
+    if (wait <= 0) {
+      this.notifyBook(managed)
+      return
+    }
+
+    managed.notifyTimeout = setTimeout(() => {
+      managed.notifyTimeout = null
+      // A gap since scheduling leaves the book unsynced until the next snapshot publishes it
+      if (managed.book.isSynced()) {
+        this.notifyBook(managed)
+      }
+    }, wait)
+  }
+
+  private notifyBook(managed: ManagedOrderBook): void {
+    if (managed.notifyTimeout) {
+      clearTimeout(managed.notifyTimeout)
+      managed.notifyTimeout = null
+    }
+    managed.lastNotifyTime = Date.now()
+    this.notify(managed, this.toResult(managed.book))
+  }
+
+  private toResult(book: LocalOrderBook): MarketDataResult<OrderBook> {
+    return {
+      data: book.getSnapshot(),
+      error: null,
+      source: "websocket",
+      timestamp: Date.now(),
+    }
+  }
+
+  private notify(managed: ManagedOrderBook, result: MarketDataResult<OrderBook>): void {
+    managed.callbacks.forEach((callback) => {
+      try {
+        callback(result)
+      } catch (error) {
+        errorHandler.handleError(error as Error, {
+          context: { action: "notifyOrderBookSubscriber", symbol: managed.book.symbol },
+          severity: "medium",
+        })
+      }
+    })
+  }
+}
+
+// Export singleton instance
+export const orderBookManager = OrderBookManager.getInstance()
@@ -0,0 +1,380 @@
+/**
+ * Pattern Detector
+ * Recognizes candlestick patterns and classical chart patterns in kline data, scored by confidence
+ */
+import type { Kline } from "../types/market-types"
+
+export type PatternType =
+  | "BULLISH_ENGULFING"
+  | "BEARISH_ENGULFING"
+  | "BULLISH_PIN_BAR"
+  | "BEARISH_PIN_BAR"
+  | "DOJI"
+  | "INSIDE_BAR"
+  | "DOUBLE_TOP"
+  | "DOUBLE_BOTTOM"
+  | "RESISTANCE_BREAKOUT"
+  | "SUPPORT_BREAKDOWN"
+
+export type PatternDirection = "bullish" | "bearish" | "neutral"
+
+export interface PatternMatch {
+  pattern: PatternType
+  direction: PatternDirection
+  index: number // index of the candle that completes the pattern
+  timestamp: number
+  price: number // close for candlestick patterns, the broken level for chart patterns
+  confidence: number // 0-1
+  description: string
+}
+
+export interface PatternDetectionOptions {
+  dojiBodyRatio: number // max body as a share of the candle range
+  pinBarWickRatio: number // min rejection wick as a share of the candle range
+  swingStrength: number // candles on each side that a swing high or low must exceed
+  lookbackPeriods: number // candles searched for swing points
+  levelTolerance: number // max relative difference between two peaks of a double top or bottom
+  minPatternDepth: number // min relative distance from the peaks to the neckline
+}
+
+export interface SwingPoint {
+  index: number
+  price: number
+}
+
+export const DEFAULT_PATTERN_OPTIONS: PatternDetectionOptions = {
+  dojiBodyRatio: 0.1,
+  pinBarWickRatio: 0.6,
+  swingStrength: 3,
+  lookbackPeriods: 60,
+  levelTolerance: 0.003,
+  minPatternDepth: 0.004,
+}
+
+interface Candles {
+  open: number[]
+  high: number[]
+  low: number[]
+  close: number[]
+  time: number[]
+}
+
+/**
+ * Detect every pattern in a kline series; each match only uses candles up to the one that completes it
+ */
+export function detectPatterns(klines: Kline[], options: Partial<PatternDetectionOptions> = {}): PatternMatch[] {
+  const config = { ...DEFAULT_PATTERN_OPTIONS, ...options }
+  const candles = toCandles(klines)
+  const matches: PatternMatch[] = []
+
+  for (let i = 0; i < klines.length; i++) {
+    matches.push(...matchCandle(candles, i, config))
+  }
+  return matches
+}
+
+/**
+ * Detect the patterns completed by one candle, looking back at most lookbackPeriods candles
+ */
+export function detectPatternsAt(
+  klines: Kline[],
+  index: number,
+  options: Partial<PatternDetectionOptions> = {},
+): PatternMatch[] {
+  const config = { ...DEFAULT_PATTERN_OPTIONS, ...options }
+  const start = Math.max(0, index - config.lookbackPeriods)
+  const candles = toCandles(klines.slice(start, index + 1))
+
+  return matchCandle(candles, index - start, config).map((match) => ({ ...match, index }))
+}
+
+/**
+ * Group matches by the candle that completes them, so strategies can look them up per candle
+ */
+export function groupPatternsByCandle(matches: PatternMatch[], length: number): PatternMatch[][] {
+  const groups: PatternMatch[][] = Array.from({ length }, () => [])
+  for (const match of matches) {
+    groups[match.index]?.push(match)
+  }
+  return groups
+}
+
+/**
+ * Indicator values for a candle's patterns, keyed like patternBullishEngulfing with the confidence as value
+ */
+export function toPatternIndicators(matches: PatternMatch[] = []): Record<string, number> {
+  const indicators: Record<string, number> = {}
+  for (const match of matches) {
+    const key = `pattern${match.pattern
+      .toLowerCase()
+      .split("_")
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join("")}`
+    indicators[key] = Math.max(indicators[key] ?? 0, Number(match.confidence.toFixed(2)))
+  }
+  return indicators
+}
+
+/**
+ * Swing highs and lows: candles whose high (low) exceeds the strength candles on either side
+ */
+export function findSwingPoints(
+  highs: number[],
+  lows: number[],
+  strength: number,
+): { highs: SwingPoint[]; lows: SwingPoint[] } {
+  const swingHighs: SwingPoint[] = []
+  const swingLows: SwingPoint[] = []
+
+  for (let i = strength; i < highs.length - strength; i++) {
+    let isHigh = true
+    let isLow = true
+
+    for (let offset = 1; offset <= strength && (isHigh || isLow); offset++) {
+      // Strict on the left and inclusive on the right, so a flat top is reported once
+      isHigh = isHigh && highs[i] > highs[i - offset] && highs[i] >= highs[i + offset]
+      isLow = isLow && lows[i] < lows[i - offset] && lows[i] <= lows[i + offset]
+    }
+
+    if (isHigh) swingHighs.push({ index: i, price: highs[i] })
+    if (isLow) swingLows.push({ index: i, price: lows[i] })
+  }
+
+  return { highs: swingHighs, lows: swingLows }
+}
+
+/**
+ * Nearest swing low below and swing high above a price
+ */
+export function findSupportResistance(
+  highs: number[],
+  lows: number[],
+  price: number,
+  strength: number,
+): { support: number | null; resistance: number | null } {
+  const swings = findSwingPoints(highs, lows, strength)
+  const supports = swings.lows.map((point) => point.price).filter((level) => level < price)
+  const resistances = swings.highs.map((point) => point.price).filter((level) => level > price)
+
+  return {
+    support: supports.length > 0 ? Math.max(...supports) : null,
+    resistance: resistances.length > 0 ? Math.min(...resistances) : null,
+  }
+}
+
+function toCandles(klines: Kline[]): Candles {
+  return {
+    open: klines.map((k) => Number(k.open)),
+    high: klines.map((k) => Number(k.high)),
+    low: klines.map((k) => Number(k.low)),
+    close: klines.map((k) => Number(k.close)),
+    time: klines.map((k) => Number(k.openTime)),
+  }
+}
+
+function matchCandle(candles: Candles, i: number, options: PatternDetectionOptions): PatternMatch[] {
+  return [...matchCandlestickPatterns(candles, i, options), ...matchChartPatterns(candles, i, options)]
+}
+
+// Single and two-candle patterns
+function matchCandlestickPatterns(candles: Candles, i: number, options: PatternDetectionOptions): PatternMatch[] {
+  const { open, high, low, close } = candles
+  const range = high[i] - low[i]
+  if (!(range > 0)) {
+    return []
+  }
+
+  const matches: PatternMatch[] = []
+  const body = Math.abs(close[i] - open[i])
+  const upperWick = high[i] - Math.max(open[i], close[i])
+  const lowerWick = Math.min(open[i], close[i]) - low[i]
+  const trend = priorTrend(close, i)
+
+  if (body / range <= options.dojiBodyRatio) {
+    const confidence = 0.5 + 0.5 * (1 - body / range / options.dojiBodyRatio)
+    matches.push(createMatch(candles, i, "DOJI", "neutral", close[i], confidence, "Doji: open and close nearly equal"))
+  }
+
+  if (lowerWick / range >= options.pinBarWickRatio && upperWick / range <= 0.2) {
+    // Rejection of lower prices counts for more after a decline
+    const confidence = 0.4 + (lowerWick / range - options.pinBarWickRatio) * 1.5 + (trend < 0 ? 0.15 : 0)
+    matches.push(
+      createMatch(candles, i, "BULLISH_PIN_BAR", "bullish", close[i], confidence, "Bullish pin bar rejecting lows"),
+    )
+  }
+
+  if (upperWick / range >= options.pinBarWickRatio && lowerWick / range <= 0.2) {
+    const confidence = 0.4 + (upperWick / range - options.pinBarWickRatio) * 1.5 + (trend > 0 ? 0.15 : 0)
+    matches.push(
+      createMatch(candles, i, "BEARISH_PIN_BAR", "bearish", close[i], confidence, "Bearish pin bar rejecting highs"),
+    )
+  }
+
+  if (i < 1) {
+    return matches
+  }
+
+  const previousBody = Math.abs(close[i - 1] - open[i - 1])
+  const previousRange = high[i - 1] - low[i - 1]
+  const engulfs = body > previousBody && previousBody > 0
+  const isBullish = close[i] > open[i]
+  const isBearish = close[i] < open[i]
+  const sizeBonus = engulfs ? Math.min(0.3, 0.15 * (body / previousBody - 1)) : 0
+
+  if (engulfs && isBullish && close[i - 1] < open[i - 1] && open[i] <= close[i - 1] && close[i] >= open[i - 1]) {
+    const confidence = 0.5 + sizeBonus + (trend < 0 ? 0.15 : 0)
+    matches.push(
+      createMatch(candles, i, "BULLISH_ENGULFING", "bullish", close[i], confidence, "Bullish engulfing candle"),
+    )
+  }
+
+  if (engulfs && isBearish && close[i - 1] > open[i - 1] && open[i] >= close[i - 1] && close[i] <= open[i - 1]) {
+    const confidence = 0.5 + sizeBonus + (trend > 0 ? 0.15 : 0)
+    matches.push(
+      createMatch(candles, i, "BEARISH_ENGULFING", "bearish", close[i], confidence, "Bearish engulfing candle"),
+    )
+  }
+
+  if (high[i] < high[i - 1] && low[i] > low[i - 1] && previousRange > 0) {
+    const confidence = 0.4 + 0.6 * (1 - range / previousRange)
+    matches.push(
+      createMatch(candles, i, "INSIDE_BAR", "neutral", close[i], confidence, "Inside bar within the previous range"),
+    )
+  }
+
+  return matches
+}
+
+// Double tops and bottoms confirmed by a neckline break, and breaks of the nearest support or resistance
+function matchChartPatterns(candles: Candles, i: number, options: PatternDetectionOptions): PatternMatch[] {
+  const { high, low, close } = candles
+  const { swingStrength, lookbackPeriods, levelTolerance, minPatternDepth } = options
+  if (i < 1) {
+    return []
+  }
+
+  // Only swing points already confirmed by the previous candle, so nothing is taken from the future
+  const start = Math.max(0, i - lookbackPeriods)
+  const swings = findSwingPoints(high.slice(start, i), low.slice(start, i), swingStrength)
+  const swingHighs = swings.highs.map((point) => ({ index: point.index + start, price: point.price }))
+  const swingLows = swings.lows.map((point) => ({ index: point.index + start, price: point.price }))
+  const matches: PatternMatch[] = []
+
+  if (swingHighs.length >= 2) {
+    const [first, second] = swingHighs.slice(-2)
+    const neckline = Math.min(...low.slice(first.index, second.index + 1))
+    const peak = Math.max(first.price, second.price)
+    const difference = Math.abs(first.price - second.price) / peak
+    const depth = (peak - neckline) / peak
+    // Price must not have pushed through the peaks since the second one
+    const intact = Math.max(...high.slice(second.index, i + 1)) <= peak * (1 + levelTolerance)
+
+    if (intact && difference <= levelTolerance && depth >= minPatternDepth && breaksBelow(close, i, neckline)) {
+      const confidence = doublePatternConfidence(difference, depth, options)
+      matches.push(
+        createMatch(candles, i, "DOUBLE_TOP", "bearish", neckline, confidence, "Double top confirmed below neckline"),
+      )
+    }
+  }
+
+  if (swingLows.length >= 2) {
+    const [first, second] = swingLows.slice(-2)
+    const neckline = Math.max(...high.slice(first.index, second.index + 1))
+    const trough = Math.min(first.price, second.price)
+    const difference = Math.abs(first.price - second.price) / trough
+    const depth = (neckline - trough) / trough
+    const intact = Math.min(...low.slice(second.index, i + 1)) >= trough * (1 - levelTolerance)
+
+    if (intact && difference <= levelTolerance && depth >= minPatternDepth && breaksAbove(close, i, neckline)) {
+      const confidence = doublePatternConfidence(difference, depth, options)
+      const description = "Double bottom confirmed above neckline"
+      matches.push(createMatch(candles, i, "DOUBLE_BOTTOM", "bullish", neckline, confidence, description))
+    }
+  }
+
+  const averageRange = averageCandleRange(candles, i)
+  const resistances = swingHighs.filter((point) => point.price > close[i - 1])
+  if (resistances.length > 0) {
+    const level = Math.min(...resistances.map((point) => point.price))
+    if (close[i] > level) {
+      // Clean breaks and levels that held several times are more meaningful
+      const touches = swingHighs.filter((point) => Math.abs(point.price - level) / level <= levelTolerance).length
+      const margin = averageRange > 0 ? (close[i] - level) / averageRange : 0
+      const confidence = 0.45 + Math.min(0.3, margin * 0.3) + Math.min(0.2, (touches - 1) * 0.1)
+      matches.push(
+        createMatch(candles, i, "RESISTANCE_BREAKOUT", "bullish", level, confidence, "Close above swing resistance"),
+      )
+    }
+  }
+
+  const supports = swingLows.filter((point) => point.price < close[i - 1])
+  if (supports.length > 0) {
+    const level = Math.max(...supports.map((point) => point.price))
+    if (close[i] < level) {
+      const touches = swingLows.filter((point) => Math.abs(point.price - level) / level <= levelTolerance).length
+      const margin = averageRange > 0 ? (level - close[i]) / averageRange : 0
+      const confidence = 0.45 + Math.min(0.3, margin * 0.3) + Math.min(0.2, (touches - 1) * 0.1)
+      matches.push(
+        createMatch(candles, i, "SUPPORT_BREAKDOWN", "bearish", level, confidence, "Close below swing support"),
+      )
+    }
+  }
+
+  return matches
+}
+
+function createMatch(
+  candles: Candles,
+  index: number,
+  pattern: PatternType,
+  direction: PatternDirection,
+  price: number,
+  confidence: number,
+  description: string,
+): PatternMatch {
+  return {
+    pattern,
+    direction,
+    index,
+    timestamp: candles.time[index],
+    price,
+    confidence: Math.min(1, Math.max(0, confidence)),
+    description,
+  }
+}
+
+// Closer peaks and a deeper neckline make a cleaner double top or bottom
+function doublePatternConfidence(difference: number, depth: number, options: PatternDetectionOptions): number {
+  const { levelTolerance, minPatternDepth } = options
+  return 0.5 + 0.25 * (1 - difference / levelTolerance) + 0.25 * Math.min(1, depth / (minPatternDepth * 3))
+}
+
+function breaksAbove(close: number[], i: number, level: number): boolean {
+  return close[i] > level && close[i - 1] <= level
+}
+
+function breaksBelow(close: number[], i: number, level: number): boolean {
+  return close[i] < level && close[i - 1] >= level
+}
+
+// Direction of the three closes before a candle: 1 rising, -1 falling, 0 flat or not enough data
+function priorTrend(close: number[], i: number): number {
+  if (i < 4) {
+    return 0
+  }
+  return Math.sign(close[i - 1] - close[i - 4])
+}
+
+// Mean high-low range of the 14 candles before a candle
+function averageCandleRange(candles: Candles, i: number): number {
+  const start = Math.max(0, i - 14)
+  if (i <= start) {
+    return 0
+  }
+
+  let sum = 0
+  for (let j = start; j < i; j++) {
+    sum += candles.high[j] - candles.low[j]
+  }
+  return sum / (i - start)
+}
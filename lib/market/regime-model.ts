@@ -0,0 +1,429 @@
+/**
+ * Regime Model
+ * Gaussian hidden Markov model over return and volatility features that gives a probability for each market regime
+ */
+import { ValidationError } from "../error-handling"
+import type { Kline } from "../types/market-types"
+import type { MarketRegime } from "./market-regime-detector"
+
+export type RegimeProbabilities = Record<MarketRegime, number>
+
+export interface RegimeModelState {
+  regime: MarketRegime
+  mean: number[]
+  variance: number[]
+}
+
+/**
+ * Everything needed to rebuild a fitted model; plain JSON so it can be stored next to the klines it was fit on
+ */
+export interface RegimeModelParameters {
+  featureWindow: number
+  initial: number[]
+  transition: number[][]
+  states: RegimeModelState[]
+  logLikelihood: number
+  trainedOn: number
+}
+
+export interface RegimeModelFitOptions {
+  featureWindow: number // candles per return and volatility feature
+  maxIterations: number
+  tolerance: number // stop when the log-likelihood improves by less than this per observation
+}
+
+export interface RegimeHysteresisOptions {
+  enterProbability: number // a new regime needs at least this probability
+  exitProbability: number // and the current regime must have dropped to this probability or below
+  confirmations: number // consecutive readings that must agree before switching
+}
+
+const DEFAULT_FIT_OPTIONS: RegimeModelFitOptions = {
+  featureWindow: 10,
+  maxIterations: 50,
+  tolerance: 1e-4,
+}
+
+const DEFAULT_HYSTERESIS_OPTIONS: RegimeHysteresisOptions = {
+  enterProbability: 0.6,
+  exitProbability: 0.4,
+  confirmations: 2,
+}
+
+const MODEL_REGIMES: MarketRegime[] = ["TRENDING_UP", "TRENDING_DOWN", "RANGING", "VOLATILE"]
+const MIN_VARIANCE = 1e-6
+const MIN_OBSERVATIONS = 100
+
+/**
+ * Probabilities with all weight on one regime
+ */
+export function certainRegime(regime: MarketRegime): RegimeProbabilities {
+  return { TRENDING_UP: 0, TRENDING_DOWN: 0, RANGING: 0, VOLATILE: 0, UNKNOWN: 0, [regime]: 1 }
+}
+
+/**
+ * Most likely regime and its probability
+ */
+export function mostLikelyRegime(probabilities: RegimeProbabilities): { regime: MarketRegime; probability: number } {
+  let regime: MarketRegime = "UNKNOWN"
+  let probability = -1
+
+  for (const [candidate, value] of Object.entries(probabilities) as Array<[MarketRegime, number]>) {
+    if (value > probability) {
+      regime = candidate
+      probability = value
+    }
+  }
+  return { regime, probability }
+}
+
+/**
+ * Feature vectors for every candle from index window on: mean log return and log realized volatility of the last
+ * window candles, both in basis points
+ */
+export function extractRegimeFeatures(closes: number[], window: number): number[][] {
+  const returns = closes.slice(1).map((close, i) => Math.log(close / closes[i]) * 10000)
+  const features: number[][] = []
+
+  for (let t = window; t <= returns.length; t++) {
+    const slice = returns.slice(t - window, t)
+    const mean = slice.reduce((sum, value) => sum + value, 0) / window
+    const variance = slice.reduce((sum, value) => sum + (value - mean) ** 2, 0) / window
+    features.push([mean, Math.log(Math.sqrt(variance) + 1e-3)])
+  }
+  return features
+}
+
+/**
+ * Gaussian HMM with one state per regime and diagonal covariances
+ */
+export class GaussianHmmRegimeModel {
+  private parameters: RegimeModelParameters
+
+  constructor(parameters: RegimeModelParameters) {
+    const stateCount = parameters.states.length
+    const isValid =
+      stateCount > 0 &&
+      parameters.initial.length === stateCount &&
+      parameters.transition.length === stateCount &&
+      parameters.transition.every((row) => row.length === stateCount)
+
+    if (!isValid) {
+      throw new ValidationError("Invalid regime model parameters", {
+        code: "INVALID_REGIME_MODEL",
+        context: { states: stateCount },
+      })
+    }
+    this.parameters = cloneParameters(parameters)
+  }
+
+  /**
+   * Fit a model with Baum-Welch, starting from states seeded by feature quantiles
+   */
+  public static fit(klines: Kline[], options: Partial<RegimeModelFitOptions> = {}): GaussianHmmRegimeModel {
+    const { featureWindow, maxIterations, tolerance } = { ...DEFAULT_FIT_OPTIONS, ...options }
+    const observations = extractRegimeFeatures(klines.map((k) => Number(k.close)), featureWindow)
+
+    if (observations.length < MIN_OBSERVATIONS) {
+      throw new ValidationError(`Not enough klines to fit a regime model: need ${MIN_OBSERVATIONS + featureWindow}`, {
+        code: "INSUFFICIENT_DATA",
+        context: { klines: klines.length, featureWindow },
+      })
+    }
+
+    let parameters = seedParameters(observations, featureWindow)
+    let previousLogLikelihood = -Infinity
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+      const step = baumWelchStep(parameters, observations)
+      parameters = step.parameters
+      if ((step.logLikelihood - previousLogLikelihood) / observations.length < tolerance) {
+        break
+      }
+      previousLogLikelihood = step.logLikelihood
+    }
+
+    parameters.logLikelihood = forward(parameters, observations).logLikelihood
+    parameters.trainedOn = observations.length
+    return new GaussianHmmRegimeModel(labelStates(parameters))
+  }
+
+  /**
+   * Regime probabilities for the latest candle, using only candles up to it
+   */
+  public predict(klines: Kline[]): RegimeProbabilities {
+    const series = this.predictSeries(klines)
+    return series.length > 0 ? series[series.length - 1] : certainRegime("UNKNOWN")
+  }
+
+  /**
+   * Filtered regime probabilities for every candle; UNKNOWN until the first feature window is complete
+   */
+  public predictSeries(klines: Kline[]): RegimeProbabilities[] {
+    const { featureWindow, states } = this.parameters
+    const observations = extractRegimeFeatures(klines.map((k) => Number(k.close)), featureWindow)
+    const warmUp = klines.length - observations.length
+    const { alpha } = forward(this.parameters, observations)
+
+    return klines.map((_, i) => {
+      if (i < warmUp) {
+        return certainRegime("UNKNOWN")
+      }
+      const probabilities = certainRegime("UNKNOWN")
+      probabilities.UNKNOWN = 0
+      alpha[i - warmUp].forEach((probability, state) => {
+        probabilities[states[state].regime] += probability
+      })
+      return probabilities
+    })
+  }
+
+  /**
+   * Parameters of the model, e.g. to persist it
+   */
+  public getParameters(): RegimeModelParameters {
+    return cloneParameters(this.parameters)
+  }
+}
+
+/**
+ * Keeps a regime until another one is clearly more likely, so borderline readings do not flip it back and forth
+ */
+export class RegimeHysteresis {
+  private options: RegimeHysteresisOptions
+  private regime: MarketRegime = "UNKNOWN"
+  private candidate: MarketRegime | null = null
+  private candidateCount = 0
+
+  constructor(options: Partial<RegimeHysteresisOptions> = {}) {
+    this.options = { ...DEFAULT_HYSTERESIS_OPTIONS, ...options }
+  }
+
+  /**
+   * Feed a new reading; returns true when the regime changed
+   */
+  public update(probabilities: RegimeProbabilities): boolean {
+    const { enterProbability, exitProbability, confirmations } = this.options
+    const best = mostLikelyRegime(probabilities)
+
+    // Nothing to hold on to yet
+    if (this.regime === "UNKNOWN") {
+      if (best.regime === "UNKNOWN" || best.probability < enterProbability) {
+        return false
+      }
+      return this.switchTo(best.regime)
+    }
+
+    const isClearlyBetter =
+      best.regime !== this.regime &&
+      best.probability >= enterProbability &&
+      probabilities[this.regime] <= exitProbability
+
+    if (!isClearlyBetter) {
+      this.candidate = null
+      this.candidateCount = 0
+      return false
+    }
+
+    this.candidateCount = best.regime === this.candidate ? this.candidateCount + 1 : 1
+    this.candidate = best.regime
+    return this.candidateCount >= confirmations ? this.switchTo(best.regime) : false
+  }
+
+  /**
+   * Regime currently held
+   */
+  public getRegime(): MarketRegime {
+    return this.regime
+  }
+
+  /**
+   * Forget the held regime
+   */
+  public reset(): void {
+    this.regime = "UNKNOWN"
+    this.candidate = null
+    this.candidateCount = 0
+  }
+
+  // Hold a new regime and drop any pending candidate
+  private switchTo(regime: MarketRegime): boolean {
+    this.regime = regime
+    this.candidate = null
+    this.candidateCount = 0
+    return true
+  }
+}
+
+function cloneParameters(parameters: RegimeModelParameters): RegimeModelParameters {
+  return JSON.parse(JSON.stringify(parameters))
+}
+
+// One state per regime placed at feature quantiles: trends at the return extremes with typical volatility,
+// ranging at the median return with low volatility and volatile at high volatility
+function seedParameters(observations: number[][], featureWindow: number): RegimeModelParameters {
+  const returns = observations.map((features) => features[0]).sort((a, b) => a - b)
+  const volatility = observations.map((features) => features[1]).sort((a, b) => a - b)
+  const quantile = (values: number[], q: number) => values[Math.min(values.length - 1, Math.floor(q * values.length))]
+  const variance = [0, 1].map((feature) => Math.max(MIN_VARIANCE, featureVariance(observations, feature)))
+
+  const seeds: Record<string, number[]> = {
+    TRENDING_UP: [quantile(returns, 0.85), quantile(volatility, 0.5)],
+    TRENDING_DOWN: [quantile(returns, 0.15), quantile(volatility, 0.5)],
+    RANGING: [quantile(returns, 0.5), quantile(volatility, 0.25)],
+    VOLATILE: [quantile(returns, 0.5), quantile(volatility, 0.9)],
+  }
+  const stateCount = MODEL_REGIMES.length
+
+  return {
+    featureWindow,
+    initial: MODEL_REGIMES.map(() => 1 / stateCount),
+    transition: MODEL_REGIMES.map((_, i) =>
+      MODEL_REGIMES.map((__, j) => (i === j ? 0.9 : 0.1 / (stateCount - 1))),
+    ),
+    states: MODEL_REGIMES.map((regime) => ({ regime, mean: seeds[regime], variance: [...variance] })),
+    logLikelihood: -Infinity,
+    trainedOn: 0,
+  }
+}
+
+function featureVariance(observations: number[][], feature: number): number {
+  const mean = observations.reduce((sum, features) => sum + features[feature], 0) / observations.length
+  return observations.reduce((sum, features) => sum + (features[feature] - mean) ** 2, 0) / observations.length
+}
+
+// States are relabelled after fitting: the most volatile state is VOLATILE and the rest are ordered by mean return
+function labelStates(parameters: RegimeModelParameters): RegimeModelParameters {
+  const order = parameters.states.map((_, i) => i)
+  const volatile = order.reduce((best, i) =>
+    parameters.states[i].mean[1] > parameters.states[best].mean[1] ? i : best,
+  )
+  const byReturn = order
+    .filter((i) => i !== volatile)
+    .sort((a, b) => parameters.states[a].mean[0] - parameters.states[b].mean[0])
+
+  const labels = new Map<number, MarketRegime>([
+    [volatile, "VOLATILE"],
+    [byReturn[0], "TRENDING_DOWN"],
+    [byReturn[byReturn.length - 1], "TRENDING_UP"],
+  ])
+  byReturn.slice(1, -1).forEach((i) => labels.set(i, "RANGING"))
+
+  return {
+    ...parameters,
+    states: parameters.states.map((state, i) => ({ ...state, regime: labels.get(i) as MarketRegime })),
+  }
+}
+
+// Log density of each state for one observation
+function logEmissions(parameters: RegimeModelParameters, observation: number[]): number[] {
+  return parameters.states.map((state) =>
+    observation.reduce((sum, value, feature) => {
+      const variance = state.variance[feature]
+      return sum - 0.5 * (Math.log(2 * Math.PI * variance) + (value - state.mean[feature]) ** 2 / variance)
+    }, 0),
+  )
+}
+
+// Scaled emission densities; the scale is returned as a log offset so long series do not underflow
+function scaledEmissions(
+  parameters: RegimeModelParameters,
+  observation: number[],
+): { values: number[]; offset: number } {
+  const logs = logEmissions(parameters, observation)
+  const offset = Math.max(...logs)
+  return { values: logs.map((value) => Math.exp(value - offset)), offset }
+}
+
+// Forward pass with per-step normalisation; alpha holds the filtered state probabilities
+function forward(
+  parameters: RegimeModelParameters,
+  observations: number[][],
+): { alpha: number[][]; scales: number[]; emissions: number[][]; logLikelihood: number } {
+  const alpha: number[][] = []
+  const scales: number[] = []
+  const emissions: number[][] = []
+  let logLikelihood = 0
+
+  observations.forEach((observation, t) => {
+    const { values, offset } = scaledEmissions(parameters, observation)
+    const next = values.map((emission, j) => {
+      const prior =
+        t === 0
+          ? parameters.initial[j]
+          : alpha[t - 1].reduce((sum, probability, i) => sum + probability * parameters.transition[i][j], 0)
+      return prior * emission
+    })
+
+    const scale = next.reduce((sum, value) => sum + value, 0) || Number.MIN_VALUE
+    alpha.push(next.map((value) => value / scale))
+    scales.push(scale)
+    emissions.push(values)
+    logLikelihood += Math.log(scale) + offset
+  })
+
+  return { alpha, scales, emissions, logLikelihood }
+}
+
+// One expectation-maximisation step
+function baumWelchStep(
+  parameters: RegimeModelParameters,
+  observations: number[][],
+): { parameters: RegimeModelParameters; logLikelihood: number } {
+  const stateCount = parameters.states.length
+  const length = observations.length
+  const { alpha, scales, emissions, logLikelihood } = forward(parameters, observations)
+
+  // Backward pass with the forward scales
+  const beta: number[][] = new Array(length)
+  beta[length - 1] = new Array(stateCount).fill(1)
+  for (let t = length - 2; t >= 0; t--) {
+    beta[t] = parameters.transition.map((row) =>
+      row.reduce((sum, probability, j) => sum + probability * emissions[t + 1][j] * beta[t + 1][j], 0) / scales[t + 1],
+    )
+  }
+
+  const gamma = alpha.map((row, t) => {
+    const weights = row.map((probability, i) => probability * beta[t][i])
+    const total = weights.reduce((sum, value) => sum + value, 0) || 1
+    return weights.map((value) => value / total)
+  })
+
+  const transitionCounts = parameters.transition.map((row) => row.map(() => 0))
+  for (let t = 0; t < length - 1; t++) {
+    for (let i = 0; i < stateCount; i++) {
+      for (let j = 0; j < stateCount; j++) {
+        transitionCounts[i][j] +=
+          (alpha[t][i] * parameters.transition[i][j] * emissions[t + 1][j] * beta[t + 1][j]) / scales[t + 1]
+      }
+    }
+  }
+
+  const states = parameters.states.map((state, i) => {
+    const weight = gamma.reduce((sum, row) => sum + row[i], 0)
+    if (weight <= 0) {
+      return state
+    }
+
+    const mean = state.mean.map(
+      (_, feature) => gamma.reduce((sum, row, t) => sum + row[i] * observations[t][feature], 0) / weight,
+    )
+    const variance = state.variance.map((_, feature) =>
+      Math.max(
+        MIN_VARIANCE,
+        gamma.reduce((sum, row, t) => sum + row[i] * (observations[t][feature] - mean[feature]) ** 2, 0) / weight,
+      ),
+    )
+    return { ...state, mean, variance }
+  })
+
+  const transition = transitionCounts.map((row, i) => {
+    const total = row.reduce((sum, value) => sum + value, 0)
+    return total > 0 ? row.map((value) => value / total) : parameters.transition[i]
+  })
+
+  return {
+    parameters: { ...parameters, initial: gamma[0], transition, states },
+    logLikelihood,
+  }
+}
@@ -0,0 +1,798 @@
+/**
+ * Binance Futures Exchange Simulator
+ * Local stand-in for the USDⓈ-M futures REST API and market streams, backed by the simulated matching engine.
+ * Point BINANCE_API_BASE_URL and BINANCE_WS_BASE_URL at it to run the trading stack with no network.
+ * The account's user data stream is served on /ws/<listenKey> once a listen key is created.
+ */
+import http from "http"
+import { randomBytes } from "crypto"
+import { createSignature } from "../../binance/binance-utils"
+import { MatchingEngine, exchangeRejection } from "./matching-engine"
+import { acceptWebSocket } from "./websocket-server"
+import type { IncomingMessage, Server, ServerResponse } from "http"
+import type { AddressInfo } from "net"
+import type { Kline } from "../../types/market-types"
+import type {
+  MatchingEngineConfig,
+  SimulatedFillEvent,
+  SimulatedOrder,
+  SimulatedPosition,
+  SimulatedTrade,
+} from "./matching-engine"
+import type { SimulatorSocket } from "./websocket-server"
+
+export interface ExchangeSimulatorConfig extends MatchingEngineConfig {
+  host?: string
+  port?: number // 0 picks a free port
+  apiKey?: string // With apiSecret set, signed endpoints check the API key header and HMAC signature
+  apiSecret?: string
+}
+
+type RouteHandler = (params: Record<string, string>) => unknown
+
+interface StreamSubscription {
+  streams: Set<string>
+  combined: boolean // /stream connections wrap payloads as { stream, data }
+}
+
+const SIGNED_ENDPOINTS = new Set([
+  "/order",
+  "/openOrders",
+  "/allOpenOrders",
+  "/positionRisk",
+  "/account",
+  "/balance",
+  "/leverage",
+  "/marginType",
+  "/positionSide/dual",
+  "/commissionRate",
+])
+
+const str = (value: number) => value.toString()
+
+export class BinanceFuturesSimulator {
+  public readonly engine: MatchingEngine
+  private config: ExchangeSimulatorConfig
+  private server: Server | null = null
+  private subscriptions: Map<SimulatorSocket, StreamSubscription> = new Map()
+  private previousBooks: Map<string, { updateId: number; bids: Map<number, number>; asks: Map<number, number> }> =
+    new Map()
+  private routes: Record<string, RouteHandler>
+  private listenKey: string | null = null
+  private userTradeId = 0
+
+  constructor(config: ExchangeSimulatorConfig = {}) {
+    this.config = config
+    this.engine = new MatchingEngine(config)
+    this.routes = this.createRoutes()
+
+    this.engine.on("trade", (trade: SimulatedTrade) => this.publishTrade(trade))
+    this.engine.on("book", (symbol: string) => this.publishBook(symbol))
+    this.engine.on("kline", (symbol: string, interval: string, kline: Kline, isClosed: boolean) =>
+      this.publishKline(symbol, interval, kline, isClosed),
+    )
+    this.engine.on("order", (order: SimulatedOrder, fill: SimulatedFillEvent | null) =>
+      this.publishOrderUpdate(order, fill),
+    )
+    this.engine.on("account", (symbol: string) => this.publishAccountUpdate(symbol))
+  }
+
+  /**
+   * Start listening; resolves with the URLs to use as BINANCE_API_BASE_URL and BINANCE_WS_BASE_URL
+   */
+  public start(): Promise<{ restUrl: string; wsUrl: string }> {
+    return new Promise((resolve, reject) => {
+      const server = http.createServer((request, response) => this.handleRequest(request, response))
+
+      server.on("upgrade", (request, socket) => {
+        const connection = acceptWebSocket(request, socket)
+        if (connection) {
+          this.handleConnection(connection)
+        }
+      })
+
+      server.once("error", reject)
+      server.listen(this.config.port ?? 0, this.config.host ?? "127.0.0.1", () => {
+        this.server = server
+        resolve({ restUrl: this.getRestUrl(), wsUrl: this.getWsUrl() })
+      })
+    })
+  }
+
+  /**
+   * Close all stream connections and stop the server
+   */
+  public stop(): Promise<void> {
+    this.subscriptions.forEach((_, socket) => socket.close())
+    this.subscriptions.clear()
+
+    const server = this.server
+    this.server = null
+
+    return new Promise((resolve) => (server ? server.close(() => resolve()) : resolve()))
+  }
+
+  /**
+   * Base URL of the REST API
+   */
+  public getRestUrl(): string {
+    return `http://${this.getAddress()}`
+  }
+
+  /**
+   * Base URL of the market streams
+   */
+  public getWsUrl(): string {
+    return `ws://${this.getAddress()}`
+  }
+
+  /**
+   * Print a market trade, which drives candles, streams and order triggers
+   */
+  public trade(symbol: string, price: number, quantity = 1): SimulatedTrade {
+    return this.engine.executeTrade(symbol, price, quantity)
+  }
+
+  /**
+   * Expire the listen key, as Binance does 60 minutes after the last keepalive
+   */
+  public expireListenKey(): void {
+    const listenKey = this.listenKey
+    if (!listenKey) return
+
+    this.publish(listenKey, { e: "listenKeyExpired", E: this.engine.getTime(), listenKey })
+    this.listenKey = null
+  }
+
+  private getAddress(): string {
+    const address = this.server?.address() as AddressInfo | null
+    if (!address) {
+      throw new Error("Exchange simulator is not running")
+    }
+    return `${address.address}:${address.port}`
+  }
+
+  private createRoutes(): Record<string, RouteHandler> {
+    const engine = this.engine
+
+    return {
+      "GET /ping": () => ({}),
+      "GET /time": () => ({ serverTime: engine.getTime() }),
+      "GET /exchangeInfo": () => this.formatExchangeInfo(),
+      "GET /depth": (params) => {
+        const book = engine.getOrderBook(params.symbol, Number.parseInt(params.limit || "500"))
+        return {
+          lastUpdateId: book.lastUpdateId,
+          E: engine.getTime(),
+          T: engine.getTime(),
+          bids: book.bids.map(([price, quantity]) => [str(price), str(quantity)]),
+          asks: book.asks.map(([price, quantity]) => [str(price), str(quantity)]),
+        }
+      },
+      "GET /klines": (params) =>
+        engine
+          .getKlines(
+            params.symbol,
+            params.interval,
+            Math.min(Number.parseInt(params.limit || "500"), 1500),
+            params.startTime ? Number.parseInt(params.startTime) : undefined,
+            params.endTime ? Number.parseInt(params.endTime) : undefined,
+          )
+          .map((kline) => this.formatKlineRow(kline)),
+      "GET /trades": (params) =>
+        engine.getRecentTrades(params.symbol, Number.parseInt(params.limit || "500")).map((trade) => ({
+          id: trade.id,
+          price: str(trade.price),
+          qty: str(trade.quantity),
+          quoteQty: str(trade.price * trade.quantity),
+          time: trade.time,
+          isBuyerMaker: trade.isBuyerMaker,
+        })),
+      "GET /ticker/price": (params) => ({
+        symbol: params.symbol,
+        price: str(engine.getLastPrice(params.symbol)),
+        time: engine.getTime(),
+      }),
+      "GET /ticker/24hr": (params) => this.formatTicker(params.symbol),
+      "POST /order": (params) => this.formatOrder(engine.placeOrder(params)),
+      "GET /order": (params) => this.formatOrder(engine.getOrder(params.symbol, ...this.orderIds(params))),
+      "DELETE /order": (params) => this.formatOrder(engine.cancelOrder(params.symbol, ...this.orderIds(params))),
+      "GET /openOrders": (params) => engine.getOpenOrders(params.symbol).map((order) => this.formatOrder(order)),
+      "DELETE /allOpenOrders": (params) => {
+        engine.cancelAllOrders(params.symbol)
+        return { code: 200, msg: "The operation of cancel all open order is done." }
+      },
+      "GET /positionRisk": (params) =>
+        engine
+          .getPositions()
+          .filter((position) => !params.symbol || position.symbol === params.symbol)
+          .map((position) => this.formatPosition(position)),
+      "GET /account": () => this.formatAccount(),
+      "GET /balance": () => [this.formatAsset()],
+      "POST /leverage": (params) => {
+        const position = engine.setLeverage(params.symbol, Number.parseInt(params.leverage))
+        return { symbol: position.symbol, leverage: position.leverage, maxNotionalValue: "1000000" }
+      },
+      "POST /marginType": (params) => {
+        engine.setMarginType(params.symbol, params.marginType === "ISOLATED" ? "ISOLATED" : "CROSSED")
+        return { code: 200, msg: "success" }
+      },
+      "GET /positionSide/dual": () => ({ dualSidePosition: engine.isHedgeMode() }),
+      "POST /positionSide/dual": (params) => {
+        engine.setHedgeMode(params.dualSidePosition === "true")
+        return { code: 200, msg: "success" }
+      },
+      "POST /listenKey": () => {
+        this.listenKey = this.listenKey || randomBytes(32).toString("hex")
+        return { listenKey: this.listenKey }
+      },
+      "PUT /listenKey": () => {
+        if (!this.listenKey) {
+          throw exchangeRejection(-1125, "This listenKey does not exist.")
+        }
+        return { listenKey: this.listenKey }
+      },
+      "DELETE /listenKey": () => {
+        this.listenKey = null
+        return {}
+      },
+      "GET /commissionRate": (params) => ({
+        symbol: params.symbol,
+        makerCommissionRate: str(engine.getFeeRates().makerFeeRate),
+        takerCommissionRate: str(engine.getFeeRates().takerFeeRate),
+      }),
+      // Test control: print a trade from another process, e.g. a CI script driving the market
+      "POST /simulator/trade": (params) =>
+        this.trade(params.symbol, Number.parseFloat(params.price), Number.parseFloat(params.quantity || "1")),
+    }
+  }
+
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url || "/", "http://localhost")
+    const match = url.pathname.match(/^\/fapi\/v\d(\/.*)$/)
+    const endpoint = match ? match[1] : url.pathname
+    const route = this.routes[`${request.method} ${endpoint}`]
+
+    try {
+      if (!route) {
+        this.sendJson(response, 404, { code: -1000, msg: `Unknown endpoint ${request.method} ${url.pathname}` })
+        return
+      }
+
+      const body = await this.readBody(request)
+      const params: Record<string, string> = {
+        ...Object.fromEntries(url.searchParams),
+        ...Object.fromEntries(new URLSearchParams(body)),
+      }
+
+      if (SIGNED_ENDPOINTS.has(endpoint)) {
+        this.verifySignature(request, url, body, params)
+      } else if (endpoint === "/listenKey") {
+        this.verifyApiKey(request)
+      }
+
+      this.sendJson(response, 200, route(params))
+    } catch (error) {
+      const context = (error as { context?: { binanceCode?: number; msg?: string } }).context
+
+      if (context?.binanceCode !== undefined) {
+        const status = context.binanceCode === -2015 ? 401 : 400
+        this.sendJson(response, status, { code: context.binanceCode, msg: context.msg })
+      } else {
+        this.sendJson(response, 500, { code: -1000, msg: error instanceof Error ? error.message : "Internal error" })
+      }
+    }
+  }
+
+  private verifySignature(request: IncomingMessage, url: URL, body: string, params: Record<string, string>): void {
+    if (!params.timestamp) {
+      throw exchangeRejection(-1102, "Mandatory parameter 'timestamp' was not sent, was empty/null, or malformed.")
+    }
+
+    if (!this.config.apiKey || !this.config.apiSecret) {
+      return
+    }
+
+    this.verifyApiKey(request)
+
+    // The signature covers the query string followed by the body, minus the signature itself
+    const payload = `${url.search.slice(1)}${body}`.replace(/&?signature=[0-9a-f]+/, "")
+    if (params.signature !== createSignature(payload, this.config.apiSecret)) {
+      throw exchangeRejection(-1022, "Signature for this request is not valid.")
+    }
+  }
+
+  private verifyApiKey(request: IncomingMessage): void {
+    if (this.config.apiKey && request.headers["x-mbx-apikey"] !== this.config.apiKey) {
+      throw exchangeRejection(-2015, "Invalid API-key, IP, or permissions for action.")
+    }
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      let body = ""
+      request.on("data", (chunk) => (body += chunk))
+      request.on("end", () => resolve(body))
+      request.on("error", reject)
+    })
+  }
+
+  private sendJson(response: ServerResponse, status: number, payload: unknown): void {
+    response.writeHead(status, { "Content-Type": "application/json" })
+    response.end(JSON.stringify(payload))
+  }
+
+  private orderIds(params: Record<string, string>): [number | undefined, string | undefined] {
+    if (!params.orderId && !params.origClientOrderId) {
+      throw exchangeRejection(-1102, "Either orderId or origClientOrderId must be sent.")
+    }
+    return [params.orderId ? Number.parseInt(params.orderId) : undefined, params.origClientOrderId]
+  }
+
+  private handleConnection(socket: SimulatorSocket): void {
+    const { pathname, searchParams } = socket.url
+    const subscription: StreamSubscription = { streams: new Set(), combined: pathname.startsWith("/stream") }
+
+    // Raw streams come from /ws/<stream>, combined streams from /stream?streams=a/b
+    const initialStreams = subscription.combined
+      ? (searchParams.get("streams") || "").split("/")
+      : pathname.replace(/^\/ws\/?/, "").split("/")
+    initialStreams.filter(Boolean).forEach((stream) => this.subscribe(subscription, stream))
+
+    this.subscriptions.set(socket, subscription)
+    socket.on("close", () => this.subscriptions.delete(socket))
+    socket.on("message", (message: string) => this.handleStreamMessage(socket, subscription, message))
+  }
+
+  private handleStreamMessage(socket: SimulatorSocket, subscription: StreamSubscription, message: string): void {
+    let request: { method?: string; params?: string[]; id?: number }
+    try {
+      request = JSON.parse(message)
+    } catch {
+      return
+    }
+
+    // Anything other than the Binance subscription methods (e.g. client pings) is ignored
+    if (request.method === "SUBSCRIBE") {
+      request.params?.forEach((stream) => this.subscribe(subscription, stream))
+      socket.send(JSON.stringify({ result: null, id: request.id }))
+    } else if (request.method === "UNSUBSCRIBE") {
+      request.params?.forEach((stream) => subscription.streams.delete(stream))
+      socket.send(JSON.stringify({ result: null, id: request.id }))
+    } else if (request.method === "LIST_SUBSCRIPTIONS") {
+      socket.send(JSON.stringify({ result: Array.from(subscription.streams), id: request.id }))
+    }
+  }
+
+  private subscribe(subscription: StreamSubscription, stream: string): void {
+    subscription.streams.add(stream)
+
+    // Kline streams need a candle series for their interval before the next trade arrives
+    const kline = stream.match(/^(\w+)@kline_(\w+)$/)
+    if (kline) {
+      this.engine.getKlines(kline[1].toUpperCase(), kline[2], 1)
+    }
+  }
+
+  private publish(stream: string, data: unknown): void {
+    this.subscriptions.forEach((subscription, socket) => {
+      if (subscription.streams.has(stream)) {
+        socket.send(JSON.stringify(subscription.combined ? { stream, data } : data))
+      }
+    })
+  }
+
+  private isSubscribed(prefix: string): boolean {
+    return Array.from(this.subscriptions.values()).some((subscription) =>
+      Array.from(subscription.streams).some((stream) => stream.startsWith(prefix)),
+    )
+  }
+
+  private publishTrade(trade: SimulatedTrade): void {
+    const symbol = trade.symbol.toLowerCase()
+    const time = this.engine.getTime()
+
+    this.publish(`${symbol}@aggTrade`, {
+      e: "aggTrade",
+      E: time,
+      s: trade.symbol,
+      a: trade.id,
+      p: str(trade.price),
+      q: str(trade.quantity),
+      f: trade.id,
+      l: trade.id,
+      T: trade.time,
+      m: trade.isBuyerMaker,
+    })
+    this.publish(`${symbol}@trade`, {
+      e: "trade",
+      E: time,
+      T: trade.time,
+      s: trade.symbol,
+      t: trade.id,
+      p: str(trade.price),
+      q: str(trade.quantity),
+      X: "MARKET",
+      m: trade.isBuyerMaker,
+    })
+
+    const ticker = { e: "24hrTicker", E: time, ...this.formatTicker(trade.symbol) }
+    this.publish(`${symbol}@ticker`, ticker)
+
+    const markPrice = {
+      e: "markPriceUpdate",
+      E: time,
+      s: trade.symbol,
+      p: str(trade.price),
+      i: str(trade.price),
+      P: str(trade.price),
+      r: "0.00010000",
+      T: Math.ceil(time / 28800000) * 28800000,
+    }
+    this.publish(`${symbol}@markPrice`, markPrice)
+    this.publish(`${symbol}@markPrice@1s`, markPrice)
+  }
+
+  private publishBook(symbol: string): void {
+    const stream = symbol.toLowerCase()
+    if (!this.isSubscribed(`${stream}@depth`) && !this.isSubscribed(`${stream}@bookTicker`)) {
+      this.previousBooks.delete(symbol)
+      return
+    }
+
+    const time = this.engine.getTime()
+    const book = this.engine.getOrderBook(symbol)
+    const [bestBid, bestAsk] = [book.bids[0], book.asks[0]]
+
+    this.publish(`${stream}@bookTicker`, {
+      e: "bookTicker",
+      u: book.lastUpdateId,
+      E: time,
+      T: time,
+      s: symbol,
+      b: str(bestBid[0]),
+      B: str(bestBid[1]),
+      a: str(bestAsk[0]),
+      A: str(bestAsk[1]),
+    })
+
+    // Diff streams send changed levels with zero quantity for levels that left the book
+    const previous = this.previousBooks.get(symbol)
+    const bids = new Map(book.bids)
+    const asks = new Map(book.asks)
+    const diff = (current: Map<number, number>, before?: Map<number, number>) => {
+      const changes: [string, string][] = []
+      current.forEach((quantity, price) => {
+        if (before?.get(price) !== quantity) changes.push([str(price), str(quantity)])
+      })
+      before?.forEach((_, price) => {
+        if (!current.has(price)) changes.push([str(price), "0"])
+      })
+      return changes
+    }
+
+    const previousUpdateId = previous?.updateId ?? book.lastUpdateId - 1
+    const depthUpdate = {
+      e: "depthUpdate",
+      E: time,
+      T: time,
+      s: symbol,
+      U: previousUpdateId + 1,
+      u: book.lastUpdateId,
+      pu: previousUpdateId,
+      b: diff(bids, previous?.bids),
+      a: diff(asks, previous?.asks),
+    }
+    this.previousBooks.set(symbol, { updateId: book.lastUpdateId, bids, asks })
+
+    for (const suffix of ["", "@100ms", "@250ms", "@500ms"]) {
+      this.publish(`${stream}@depth${suffix}`, depthUpdate)
+
+      for (const levels of [5, 10, 20]) {
+        this.publish(`${stream}@depth${levels}${suffix}`, {
+          ...depthUpdate,
+          b: book.bids.slice(0, levels).map(([price, quantity]) => [str(price), str(quantity)]),
+          a: book.asks.slice(0, levels).map(([price, quantity]) => [str(price), str(quantity)]),
+        })
+      }
+    }
+  }
+
+  private publishKline(symbol: string, interval: string, kline: Kline, isClosed: boolean): void {
+    this.publish(`${symbol.toLowerCase()}@kline_${interval}`, {
+      e: "kline",
+      E: this.engine.getTime(),
+      s: symbol,
+      k: {
+        t: kline.openTime,
+        T: kline.closeTime,
+        s: symbol,
+        i: interval,
+        f: 0,
+        L: 0,
+        o: str(kline.open),
+        c: str(kline.close),
+        h: str(kline.high),
+        l: str(kline.low),
+        v: str(kline.volume),
+        n: kline.trades,
+        x: isClosed,
+        q: str(kline.quoteVolume),
+        V: str(kline.takerBuyBaseAssetVolume),
+        Q: str(kline.takerBuyQuoteAssetVolume),
+        B: "0",
+      },
+    })
+  }
+
+  private publishOrderUpdate(order: SimulatedOrder, fill: SimulatedFillEvent | null): void {
+    if (!this.listenKey) return
+
+    const time = this.engine.getTime()
+    // Without a fill the update is a new, canceled or expired order, whose execution type matches its status
+    const executionType = fill ? "TRADE" : order.status
+
+    this.publish(this.listenKey, {
+      e: "ORDER_TRADE_UPDATE",
+      E: time,
+      T: time,
+      o: {
+        s: order.symbol,
+        c: order.clientOrderId,
+        S: order.side,
+        o: order.type,
+        f: order.timeInForce,
+        q: str(order.quantity),
+        p: str(order.price),
+        ap: str(order.executedQty > 0 ? order.cumQuote / order.executedQty : 0),
+        sp: str(order.stopPrice),
+        x: executionType,
+        X: order.status,
+        i: order.orderId,
+        l: str(fill ? fill.quantity : 0),
+        z: str(order.executedQty),
+        L: str(fill ? fill.price : 0),
+        N: fill ? "USDT" : undefined,
+        n: str(fill ? fill.fee : 0),
+        T: order.updateTime,
+        t: fill ? ++this.userTradeId : 0,
+        b: "0",
+        a: "0",
+        m: fill?.liquidity === "MAKER",
+        R: order.reduceOnly,
+        wt: "CONTRACT_PRICE",
+        ot: order.type,
+        ps: order.positionSide,
+        cp: order.closePosition,
+        rp: str(fill ? fill.realizedPnl : 0),
+      },
+    })
+  }
+
+  private publishAccountUpdate(symbol: string): void {
+    if (!this.listenKey) return
+
+    const time = this.engine.getTime()
+    const balances = this.engine.getBalances()
+
+    this.publish(this.listenKey, {
+      e: "ACCOUNT_UPDATE",
+      E: time,
+      T: time,
+      a: {
+        m: "ORDER",
+        B: [{ a: "USDT", wb: str(balances.walletBalance), cw: str(balances.walletBalance), bc: "0" }],
+        P: this.engine.getSymbolPositions(symbol).map((position) => ({
+          s: symbol,
+          pa: str(position.amount),
+          ep: str(position.entryPrice),
+          bep: str(position.entryPrice),
+          cr: "0",
+          up: str(this.engine.getUnrealizedPnl(symbol, position.positionSide)),
+          mt: position.marginType === "ISOLATED" ? "isolated" : "cross",
+          iw: "0",
+          ps: position.positionSide,
+        })),
+      },
+    })
+  }
+
+  private formatKlineRow(kline: Kline): (number | string)[] {
+    return [
+      kline.openTime,
+      str(kline.open),
+      str(kline.high),
+      str(kline.low),
+      str(kline.close),
+      str(kline.volume),
+      kline.closeTime,
+      str(kline.quoteVolume),
+      kline.trades,
+      str(kline.takerBuyBaseAssetVolume),
+      str(kline.takerBuyQuoteAssetVolume),
+      "0",
+    ]
+  }
+
+  private formatTicker(symbol: string) {
+    const ticker = this.engine.getTicker(symbol)
+    const change = ticker.lastPrice - ticker.openPrice
+
+    return {
+      symbol,
+      priceChange: str(change),
+      priceChangePercent: ((change / ticker.openPrice) * 100).toFixed(3),
+      weightedAvgPrice: str(ticker.volume > 0 ? ticker.quoteVolume / ticker.volume : ticker.lastPrice),
+      lastPrice: str(ticker.lastPrice),
+      openPrice: str(ticker.openPrice),
+      highPrice: str(ticker.highPrice),
+      lowPrice: str(ticker.lowPrice),
+      volume: str(ticker.volume),
+      quoteVolume: str(ticker.quoteVolume),
+      openTime: this.engine.getTime() - 86400000,
+      closeTime: this.engine.getTime(),
+      count: ticker.count,
+    }
+  }
+
+  private formatOrder(order: SimulatedOrder) {
+    const avgPrice = order.executedQty > 0 ? order.cumQuote / order.executedQty : 0
+
+    return {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      status: order.status,
+      clientOrderId: order.clientOrderId,
+      price: str(order.price),
+      avgPrice: str(avgPrice),
+      origQty: str(order.quantity),
+      executedQty: str(order.executedQty),
+      cumQty: str(order.executedQty),
+      cumQuote: str(order.cumQuote),
+      timeInForce: order.timeInForce,
+      type: order.type,
+      origType: order.type,
+      reduceOnly: order.reduceOnly,
+      closePosition: order.closePosition,
+      side: order.side,
+      positionSide: order.positionSide,
+      stopPrice: str(order.stopPrice),
+      activatePrice: order.activationPrice !== null ? str(order.activationPrice) : undefined,
+      priceRate: order.callbackRate !== null ? str(order.callbackRate) : undefined,
+      workingType: "CONTRACT_PRICE",
+      priceProtect: false,
+      time: order.time,
+      updateTime: order.updateTime,
+    }
+  }
+
+  private formatPosition(position: SimulatedPosition) {
+    const markPrice = this.engine.getLastPrice(position.symbol)
+    const notional = position.amount * markPrice
+
+    // Rough liquidation estimate: the entry moved against the position by the initial margin, less 0.4% maintenance
+    const liquidationPrice =
+      position.amount === 0
+        ? 0
+        : position.entryPrice * (1 - Math.sign(position.amount) * (1 / position.leverage - 0.004))
+
+    return {
+      symbol: position.symbol,
+      positionAmt: str(position.amount),
+      entryPrice: str(position.entryPrice),
+      markPrice: str(markPrice),
+      unRealizedProfit: str(this.engine.getUnrealizedPnl(position.symbol, position.positionSide)),
+      liquidationPrice: str(Math.max(0, liquidationPrice)),
+      leverage: str(position.leverage),
+      maxNotionalValue: "1000000",
+      marginType: position.marginType === "ISOLATED" ? "isolated" : "cross",
+      isolatedMargin: "0",
+      isAutoAddMargin: "false",
+      positionSide: position.positionSide,
+      notional: str(notional),
+      updateTime: position.updateTime,
+    }
+  }
+
+  private formatAsset() {
+    const balances = this.engine.getBalances()
+
+    return {
+      asset: "USDT",
+      walletBalance: str(balances.walletBalance),
+      unrealizedProfit: str(balances.unrealizedPnl),
+      marginBalance: str(balances.marginBalance),
+      positionInitialMargin: str(balances.positionMargin),
+      availableBalance: str(balances.availableBalance),
+      maxWithdrawAmount: str(Math.max(0, balances.availableBalance)),
+      updateTime: this.engine.getTime(),
+    }
+  }
+
+  private formatAccount() {
+    const balances = this.engine.getBalances()
+    const { makerFeeRate, takerFeeRate } = this.engine.getFeeRates()
+
+    return {
+      feeTier: 0,
+      canTrade: true,
+      canDeposit: true,
+      canWithdraw: true,
+      updateTime: this.engine.getTime(),
+      totalWalletBalance: str(balances.walletBalance),
+      totalUnrealizedProfit: str(balances.unrealizedPnl),
+      totalMarginBalance: str(balances.marginBalance),
+      totalPositionInitialMargin: str(balances.positionMargin),
+      availableBalance: str(balances.availableBalance),
+      maxWithdrawAmount: str(Math.max(0, balances.availableBalance)),
+      assets: [this.formatAsset()],
+      positions: this.engine.getPositions().map((position) => this.formatPosition(position)),
+
+      // AccountInfo in this codebase reads spot-style fields; free + locked adds up to the margin balance
+      makerCommission: makerFeeRate * 10000,
+      takerCommission: takerFeeRate * 10000,
+      buyerCommission: 0,
+      sellerCommission: 0,
+      accountType: "USDT_FUTURE",
+      permissions: ["FUTURES"],
+      balances: [
+        { asset: "USDT", free: str(balances.availableBalance), locked: str(balances.positionMargin) },
+      ],
+    }
+  }
+
+  private formatExchangeInfo() {
+    return {
+      timezone: "UTC",
+      serverTime: this.engine.getTime(),
+      rateLimits: [
+        { rateLimitType: "REQUEST_WEIGHT", interval: "MINUTE", intervalNum: 1, limit: 2400 },
+        { rateLimitType: "ORDERS", interval: "MINUTE", intervalNum: 1, limit: 1200 },
+        { rateLimitType: "ORDERS", interval: "SECOND", intervalNum: 10, limit: 300 },
+      ],
+      exchangeFilters: [],
+      symbols: this.engine.getSymbols().map(({ symbol, tickSize, stepSize }) => {
+        const quoteAsset = "USDT"
+        const pricePrecision = (tickSize.toString().split(".")[1] || "").length
+        const quantityPrecision = (stepSize.toString().split(".")[1] || "").length
+
+        return {
+          symbol,
+          pair: symbol,
+          contractType: "PERPETUAL",
+          status: "TRADING",
+          baseAsset: symbol.replace(quoteAsset, ""),
+          quoteAsset,
+          marginAsset: quoteAsset,
+          pricePrecision,
+          quantityPrecision,
+          baseAssetPrecision: 8,
+          quotePrecision: 8,
+          quoteAssetPrecision: 8,
+          orderTypes: [
+            "LIMIT",
+            "MARKET",
+            "STOP",
+            "STOP_MARKET",
+            "TAKE_PROFIT",
+            "TAKE_PROFIT_MARKET",
+            "TRAILING_STOP_MARKET",
+          ],
+          timeInForce: ["GTC", "IOC", "FOK", "GTX"],
+          icebergAllowed: false,
+          ocoAllowed: false,
+          isSpotTradingAllowed: false,
+          isMarginTradingAllowed: false,
+          filters: [
+            { filterType: "PRICE_FILTER", minPrice: str(tickSize), maxPrice: "1000000", tickSize: str(tickSize) },
+            { filterType: "LOT_SIZE", minQty: str(stepSize), maxQty: "1000", stepSize: str(stepSize) },
+            { filterType: "MARKET_LOT_SIZE", minQty: str(stepSize), maxQty: "120", stepSize: str(stepSize) },
+            { filterType: "MAX_NUM_ORDERS", limit: 200 },
+            { filterType: "MIN_NOTIONAL", notional: "5" },
+            { filterType: "PERCENT_PRICE", multiplierUp: "1.05", multiplierDown: "0.95", multiplierDecimal: "4" },
+          ],
+        }
+      }),
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Exchange Simulator
+ * Local Binance Futures stand-in for end-to-end tests
+ */
+export { BinanceFuturesSimulator } from "./exchange-simulator"
+export type { ExchangeSimulatorConfig } from "./exchange-simulator"
+export { MatchingEngine, INTERVAL_MS, exchangeRejection } from "./matching-engine"
+export type {
+  MatchingEngineConfig,
+  SimulatedFillEvent,
+  SimulatedOrder,
+  SimulatedOrderBook,
+  SimulatedOrderStatus,
+  SimulatedPosition,
+  SimulatedPositionSide,
+  SimulatedSymbolConfig,
+  SimulatedTrade,
+} from "./matching-engine"
+export { SimulatorSocket, acceptWebSocket } from "./websocket-server"
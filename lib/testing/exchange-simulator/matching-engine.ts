@@ -0,0 +1,989 @@
+/**
+ * Simulated Matching Engine
+ * Order matching, conditional order triggers and one-way or hedge mode position accounting behind the exchange
+ * simulator
+ */
+import { EventEmitter } from "events"
+import { ApiError } from "../../error-handling"
+import type { Kline } from "../../types/market-types"
+import type { OrderSide, OrderType } from "../../types/binance-types"
+
+export interface SimulatedSymbolConfig {
+  symbol: string
+  price: number
+  tickSize?: number
+  stepSize?: number
+  levelQuantity?: number // Quantity resting on the best synthetic book level; deeper levels hold more
+}
+
+export interface MatchingEngineConfig {
+  symbols?: SimulatedSymbolConfig[]
+  initialBalance?: number // USDT wallet balance
+  makerFeeRate?: number
+  takerFeeRate?: number
+  defaultLeverage?: number
+  bookLevels?: number // Synthetic levels per book side
+  historyLength?: number // Candles generated per interval on the first klines request
+  hedgeMode?: boolean // Start with separate LONG and SHORT positions per symbol instead of one-way positions
+  now?: () => number
+}
+
+export type SimulatedPositionSide = "BOTH" | "LONG" | "SHORT"
+
+export type SimulatedOrderStatus = "NEW" | "PARTIALLY_FILLED" | "FILLED" | "CANCELED" | "EXPIRED"
+
+export interface SimulatedOrder {
+  orderId: number
+  clientOrderId: string
+  symbol: string
+  side: OrderSide
+  type: OrderType
+  timeInForce: string
+  price: number
+  stopPrice: number
+  activationPrice: number | null
+  callbackRate: number | null // Percent, as sent to TRAILING_STOP_MARKET
+  quantity: number
+  executedQty: number
+  cumQuote: number
+  reduceOnly: boolean
+  closePosition: boolean
+  positionSide: SimulatedPositionSide
+  status: SimulatedOrderStatus
+  triggered: boolean
+  trailingExtreme: number | null
+  time: number
+  updateTime: number
+}
+
+export interface SimulatedPosition {
+  symbol: string
+  positionSide: SimulatedPositionSide
+  amount: number // Signed size; negative for shorts, so a SHORT leg is never positive
+  entryPrice: number
+  leverage: number
+  marginType: "ISOLATED" | "CROSSED"
+  updateTime: number
+}
+
+export interface SimulatedTrade {
+  id: number
+  symbol: string
+  price: number
+  quantity: number
+  time: number
+  isBuyerMaker: boolean
+}
+
+export interface SimulatedFillEvent {
+  order: SimulatedOrder
+  price: number
+  quantity: number
+  fee: number
+  realizedPnl: number
+  liquidity: "MAKER" | "TAKER"
+}
+
+export interface SimulatedOrderBook {
+  lastUpdateId: number
+  bids: [number, number][]
+  asks: [number, number][]
+}
+
+interface SymbolMarket {
+  config: Required<SimulatedSymbolConfig>
+  lastPrice: number
+  updateId: number
+  trades: SimulatedTrade[]
+  klines: Map<string, Kline[]>
+  openPrice: number
+  highPrice: number
+  lowPrice: number
+  volume: number
+  quoteVolume: number
+}
+
+export const INTERVAL_MS: Record<string, number> = {
+  "1m": 60000,
+  "3m": 180000,
+  "5m": 300000,
+  "15m": 900000,
+  "30m": 1800000,
+  "1h": 3600000,
+  "2h": 7200000,
+  "4h": 14400000,
+  "6h": 21600000,
+  "8h": 28800000,
+  "12h": 43200000,
+  "1d": 86400000,
+  "3d": 259200000,
+  "1w": 604800000,
+  "1M": 2592000000,
+}
+
+const SUPPORTED_ORDER_TYPES: OrderType[] = [
+  "LIMIT",
+  "MARKET",
+  "STOP",
+  "STOP_MARKET",
+  "TAKE_PROFIT",
+  "TAKE_PROFIT_MARKET",
+  "TRAILING_STOP_MARKET",
+]
+
+const CONDITIONAL_ORDER_TYPES: OrderType[] = [
+  "STOP",
+  "STOP_MARKET",
+  "TAKE_PROFIT",
+  "TAKE_PROFIT_MARKET",
+  "TRAILING_STOP_MARKET",
+]
+
+/**
+ * Build an exchange rejection in the format BinanceApiClient produces for real API errors
+ */
+export function exchangeRejection(binanceCode: number, msg: string): ApiError {
+  return new ApiError(`Binance API error: ${msg}`, {
+    code: `BINANCE_ERROR_${binanceCode}`,
+    context: { binanceCode, msg },
+  })
+}
+
+function decimalsOf(step: number): number {
+  const text = step.toString()
+  return text.includes(".") ? text.split(".")[1].length : 0
+}
+
+export class MatchingEngine extends EventEmitter {
+  private markets: Map<string, SymbolMarket> = new Map()
+  private orders: Map<number, SimulatedOrder> = new Map()
+  private positions: Map<string, SimulatedPosition> = new Map() // Keyed by symbol and position side
+  private hedgeMode: boolean
+  private walletBalance: number
+  private makerFeeRate: number
+  private takerFeeRate: number
+  private defaultLeverage: number
+  private bookLevels: number
+  private historyLength: number
+  private nextOrderId = 1
+  private nextTradeId = 1
+  private now: () => number
+
+  constructor(config: MatchingEngineConfig = {}) {
+    super()
+    this.walletBalance = config.initialBalance ?? 10000
+    this.makerFeeRate = config.makerFeeRate ?? 0.0002
+    this.takerFeeRate = config.takerFeeRate ?? 0.0004
+    this.defaultLeverage = config.defaultLeverage ?? 20
+    this.bookLevels = config.bookLevels ?? 20
+    this.historyLength = config.historyLength ?? 500
+    this.hedgeMode = config.hedgeMode ?? false
+    this.now = config.now ?? (() => Date.now())
+
+    const symbols = config.symbols ?? [
+      { symbol: "BTCUSDT", price: 50000, tickSize: 0.1, stepSize: 0.001, levelQuantity: 2 },
+      { symbol: "ETHUSDT", price: 3000, tickSize: 0.01, stepSize: 0.001, levelQuantity: 20 },
+    ]
+    symbols.forEach((symbolConfig) => this.addSymbol(symbolConfig))
+  }
+
+  /**
+   * List a symbol on the simulated exchange
+   */
+  public addSymbol(symbolConfig: SimulatedSymbolConfig): void {
+    const config: Required<SimulatedSymbolConfig> = {
+      tickSize: 0.01,
+      stepSize: 0.001,
+      levelQuantity: 10,
+      ...symbolConfig,
+    }
+
+    this.markets.set(config.symbol, {
+      config,
+      lastPrice: config.price,
+      updateId: 1,
+      trades: [],
+      klines: new Map(),
+      openPrice: config.price,
+      highPrice: config.price,
+      lowPrice: config.price,
+      volume: 0,
+      quoteVolume: 0,
+    })
+  }
+
+  /**
+   * Listed symbols with their filters
+   */
+  public getSymbols(): Required<SimulatedSymbolConfig>[] {
+    return Array.from(this.markets.values()).map((market) => ({ ...market.config }))
+  }
+
+  /**
+   * Current simulated time
+   */
+  public getTime(): number {
+    return this.now()
+  }
+
+  /**
+   * Last traded price of a symbol
+   */
+  public getLastPrice(symbol: string): number {
+    return this.getMarket(symbol).lastPrice
+  }
+
+  /**
+   * Print a market trade: moves the price, updates candles and triggers or fills resting orders
+   */
+  public executeTrade(symbol: string, price: number, quantity = 1): SimulatedTrade {
+    const market = this.getMarket(symbol)
+    const time = this.now()
+    const tradePrice = this.roundPrice(market, price)
+
+    const trade: SimulatedTrade = {
+      id: this.nextTradeId++,
+      symbol,
+      price: tradePrice,
+      quantity,
+      time,
+      isBuyerMaker: tradePrice < market.lastPrice,
+    }
+
+    market.trades.push(trade)
+    if (market.trades.length > 1000) {
+      market.trades.shift()
+    }
+
+    market.lastPrice = tradePrice
+    market.updateId++
+    market.highPrice = Math.max(market.highPrice, tradePrice)
+    market.lowPrice = Math.min(market.lowPrice, tradePrice)
+    market.volume += quantity
+    market.quoteVolume += quantity * tradePrice
+
+    this.updateKlines(market, trade)
+    this.emit("trade", trade)
+    this.emit("book", symbol)
+
+    this.processOpenOrders(market)
+    return trade
+  }
+
+  /**
+   * Synthetic order book around the last price; deeper levels hold more quantity
+   */
+  public getOrderBook(symbol: string, limit = this.bookLevels): SimulatedOrderBook {
+    const market = this.getMarket(symbol)
+    const { tickSize, levelQuantity } = market.config
+    const levels = Math.min(limit, this.bookLevels)
+    const bids: [number, number][] = []
+    const asks: [number, number][] = []
+
+    for (let i = 0; i < levels; i++) {
+      const quantity = this.roundQuantity(market, levelQuantity * (1 + i * 0.5))
+      bids.push([this.roundPrice(market, market.lastPrice - tickSize * (i + 1)), quantity])
+      asks.push([this.roundPrice(market, market.lastPrice + tickSize * (i + 1)), quantity])
+    }
+
+    return { lastUpdateId: market.updateId, bids, asks }
+  }
+
+  /**
+   * Recent trades, oldest first
+   */
+  public getRecentTrades(symbol: string, limit = 500): SimulatedTrade[] {
+    return this.getMarket(symbol).trades.slice(-limit)
+  }
+
+  /**
+   * 24 hour rolling statistics since the simulator started
+   */
+  public getTicker(symbol: string) {
+    const market = this.getMarket(symbol)
+    return {
+      symbol,
+      lastPrice: market.lastPrice,
+      openPrice: market.openPrice,
+      highPrice: market.highPrice,
+      lowPrice: market.lowPrice,
+      volume: market.volume,
+      quoteVolume: market.quoteVolume,
+      count: market.trades.length,
+    }
+  }
+
+  /**
+   * Candles for an interval, generating a history on first use so strategies have data to warm up on
+   */
+  public getKlines(symbol: string, interval: string, limit = 500, startTime?: number, endTime?: number): Kline[] {
+    const market = this.getMarket(symbol)
+    const klines = this.getKlineSeries(market, interval).filter(
+      (kline) =>
+        (startTime === undefined || kline.openTime >= startTime) &&
+        (endTime === undefined || kline.openTime <= endTime),
+    )
+
+    return startTime !== undefined ? klines.slice(0, limit) : klines.slice(-limit)
+  }
+
+  /**
+   * Replace the candle history of an interval, e.g. with recorded market data
+   */
+  public seedKlines(symbol: string, interval: string, klines: Kline[]): void {
+    const market = this.getMarket(symbol)
+    market.klines.set(interval, klines.map((kline) => ({ ...kline })))
+
+    if (klines.length > 0) {
+      market.lastPrice = klines[klines.length - 1].close
+    }
+  }
+
+  /**
+   * Intervals that have candle series
+   */
+  public getKlineIntervals(symbol: string): string[] {
+    return Array.from(this.getMarket(symbol).klines.keys())
+  }
+
+  /**
+   * Place an order from raw request parameters, as received by POST /order
+   */
+  public placeOrder(params: Record<string, string>): SimulatedOrder {
+    const market = this.getMarket(params.symbol)
+    const side = params.side as OrderSide
+    const type = params.type as OrderType
+
+    if (side !== "BUY" && side !== "SELL") {
+      throw exchangeRejection(-1117, "Invalid side.")
+    }
+    if (!SUPPORTED_ORDER_TYPES.includes(type)) {
+      throw exchangeRejection(-1116, "Invalid orderType.")
+    }
+
+    const positionSide = (params.positionSide || "BOTH") as SimulatedPositionSide
+    if (this.hedgeMode ? positionSide !== "LONG" && positionSide !== "SHORT" : positionSide !== "BOTH") {
+      throw exchangeRejection(-4061, "Order's position side does not match user's setting.")
+    }
+    // Hedge mode legs are reduced by trading against their side, so the flag is refused
+    if (this.hedgeMode && params.reduceOnly === "true") {
+      throw exchangeRejection(-1106, "Parameter 'reduceonly' sent when not required.")
+    }
+
+    const closePosition = params.closePosition === "true"
+    const quantity = closePosition ? 0 : this.parseRequired(params, "quantity")
+    const hasLimitPrice = type === "LIMIT" || type === "STOP" || type === "TAKE_PROFIT"
+    const price = hasLimitPrice ? this.parseRequired(params, "price") : 0
+    const isConditional = CONDITIONAL_ORDER_TYPES.includes(type)
+    const stopPrice = isConditional && type !== "TRAILING_STOP_MARKET" ? this.parseRequired(params, "stopPrice") : 0
+    const callbackRate = type === "TRAILING_STOP_MARKET" ? this.parseRequired(params, "callbackRate") : null
+
+    if (!closePosition) this.checkStep(market, quantity)
+    if (price) this.checkTick(market, price)
+    if (stopPrice) this.checkTick(market, stopPrice)
+
+    if (callbackRate !== null && (callbackRate < 0.1 || callbackRate > 5)) {
+      throw exchangeRejection(-2007, "Invalid callBack rate.")
+    }
+
+    const time = this.now()
+    const order: SimulatedOrder = {
+      orderId: this.nextOrderId++,
+      clientOrderId: params.newClientOrderId || `sim_${time}_${this.nextOrderId}`,
+      symbol: market.config.symbol,
+      side,
+      type,
+      timeInForce: params.timeInForce || "GTC",
+      price,
+      stopPrice,
+      activationPrice: params.activationPrice ? Number.parseFloat(params.activationPrice) : null,
+      callbackRate,
+      quantity,
+      executedQty: 0,
+      cumQuote: 0,
+      reduceOnly: params.reduceOnly === "true" || closePosition,
+      closePosition,
+      positionSide,
+      status: "NEW",
+      triggered: false,
+      trailingExtreme: null,
+      time,
+      updateTime: time,
+    }
+
+    if (isConditional) {
+      if (type !== "TRAILING_STOP_MARKET" && this.isStopTriggered(order, market.lastPrice)) {
+        throw exchangeRejection(-2021, "Order would immediately trigger.")
+      }
+
+      this.updateTrailingStop(order, market.lastPrice)
+      this.orders.set(order.orderId, order)
+      this.emit("order", order, null)
+      return order
+    }
+
+    if (this.isReducing(order) && this.getReducibleQuantity(order) <= 0) {
+      throw exchangeRejection(-2022, "ReduceOnly Order is rejected.")
+    }
+
+    if (!this.isReducing(order)) {
+      this.checkMargin(market, order)
+    }
+
+    this.orders.set(order.orderId, order)
+    this.emit("order", order, null)
+
+    if (type === "MARKET") {
+      this.executeMarket(market, order)
+    } else {
+      this.executeLimit(market, order)
+    }
+
+    return order
+  }
+
+  /**
+   * Cancel an open order by id or client order id
+   */
+  public cancelOrder(symbol: string, orderId?: number, clientOrderId?: string): SimulatedOrder {
+    const order = this.findOrder(symbol, orderId, clientOrderId)
+
+    if (!order || (order.status !== "NEW" && order.status !== "PARTIALLY_FILLED")) {
+      throw exchangeRejection(-2011, "Unknown order sent.")
+    }
+
+    this.finishOrder(order, "CANCELED")
+    return order
+  }
+
+  /**
+   * Cancel every open order of a symbol
+   */
+  public cancelAllOrders(symbol: string): SimulatedOrder[] {
+    return this.getOpenOrders(symbol).map((order) => {
+      this.finishOrder(order, "CANCELED")
+      return order
+    })
+  }
+
+  /**
+   * Query an order by id or client order id
+   */
+  public getOrder(symbol: string, orderId?: number, clientOrderId?: string): SimulatedOrder {
+    const order = this.findOrder(symbol, orderId, clientOrderId)
+
+    if (!order) {
+      throw exchangeRejection(-2013, "Order does not exist.")
+    }
+
+    return order
+  }
+
+  /**
+   * Orders that are still working
+   */
+  public getOpenOrders(symbol?: string): SimulatedOrder[] {
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        (!symbol || order.symbol === symbol) && (order.status === "NEW" || order.status === "PARTIALLY_FILLED"),
+    )
+  }
+
+  /**
+   * Position of a symbol on one side; flat positions are returned with a zero amount
+   */
+  public getPosition(symbol: string, positionSide: SimulatedPositionSide = "BOTH"): SimulatedPosition {
+    this.getMarket(symbol)
+
+    const key = `${symbol}:${positionSide}`
+    let position = this.positions.get(key)
+    if (!position) {
+      // Leverage and margin type are per symbol, so a new side starts with the symbol's settings
+      const sibling = Array.from(this.positions.values()).find((other) => other.symbol === symbol)
+      position = {
+        symbol,
+        positionSide,
+        amount: 0,
+        entryPrice: 0,
+        leverage: sibling?.leverage ?? this.defaultLeverage,
+        marginType: sibling?.marginType ?? "CROSSED",
+        updateTime: 0,
+      }
+      this.positions.set(key, position)
+    }
+
+    return position
+  }
+
+  /**
+   * Positions of a symbol in the current mode: LONG and SHORT in hedge mode, otherwise BOTH
+   */
+  public getSymbolPositions(symbol: string): SimulatedPosition[] {
+    const sides: SimulatedPositionSide[] = this.hedgeMode ? ["LONG", "SHORT"] : ["BOTH"]
+    return sides.map((positionSide) => this.getPosition(symbol, positionSide))
+  }
+
+  /**
+   * Positions for all listed symbols
+   */
+  public getPositions(): SimulatedPosition[] {
+    return Array.from(this.markets.keys()).flatMap((symbol) => this.getSymbolPositions(symbol))
+  }
+
+  /**
+   * Unrealized PnL of a position at the last price
+   */
+  public getUnrealizedPnl(symbol: string, positionSide: SimulatedPositionSide = "BOTH"): number {
+    const position = this.getPosition(symbol, positionSide)
+    return position.amount === 0 ? 0 : (this.getLastPrice(symbol) - position.entryPrice) * position.amount
+  }
+
+  /**
+   * Whether the account holds separate LONG and SHORT positions per symbol
+   */
+  public isHedgeMode(): boolean {
+    return this.hedgeMode
+  }
+
+  /**
+   * Switch between hedge mode and one-way mode; only allowed with no position and no open order on any symbol
+   */
+  public setHedgeMode(enabled: boolean): void {
+    if (this.hedgeMode === enabled) {
+      throw exchangeRejection(-4059, "No need to change position side.")
+    }
+    if (Array.from(this.positions.values()).some((position) => position.amount !== 0)) {
+      throw exchangeRejection(-4068, "Position side cannot be changed if there exists position.")
+    }
+    if (this.getOpenOrders().length > 0) {
+      throw exchangeRejection(-4067, "Position side cannot be changed if there exists open orders.")
+    }
+
+    this.hedgeMode = enabled
+  }
+
+  /**
+   * Change leverage for a symbol
+   */
+  public setLeverage(symbol: string, leverage: number): SimulatedPosition {
+    if (!Number.isInteger(leverage) || leverage < 1 || leverage > 125) {
+      throw exchangeRejection(-4028, `Leverage ${leverage} is not valid`)
+    }
+
+    const positions = this.getSymbolPositions(symbol)
+    positions.forEach((position) => (position.leverage = leverage))
+    return positions[0]
+  }
+
+  /**
+   * Change margin type for a symbol; only allowed while flat
+   */
+  public setMarginType(symbol: string, marginType: "ISOLATED" | "CROSSED"): void {
+    const positions = this.getSymbolPositions(symbol)
+
+    if (positions[0].marginType === marginType) {
+      throw exchangeRejection(-4046, "No need to change margin type.")
+    }
+    if (positions.some((position) => position.amount !== 0) || this.getOpenOrders(symbol).length > 0) {
+      throw exchangeRejection(-4048, "Margin type cannot be changed if there exists position.")
+    }
+
+    positions.forEach((position) => (position.marginType = marginType))
+  }
+
+  /**
+   * Wallet, margin and available balances in USDT
+   */
+  public getBalances() {
+    const positions = this.getPositions()
+    const unrealizedPnl = positions.reduce(
+      (sum, position) => sum + this.getUnrealizedPnl(position.symbol, position.positionSide),
+      0,
+    )
+    const positionMargin = positions.reduce(
+      (sum, position) => sum + (Math.abs(position.amount) * position.entryPrice) / position.leverage,
+      0,
+    )
+
+    return {
+      walletBalance: this.walletBalance,
+      unrealizedPnl,
+      marginBalance: this.walletBalance + unrealizedPnl,
+      positionMargin,
+      availableBalance: this.walletBalance + unrealizedPnl - positionMargin,
+    }
+  }
+
+  /**
+   * Fee rates charged on fills
+   */
+  public getFeeRates(): { makerFeeRate: number; takerFeeRate: number } {
+    return { makerFeeRate: this.makerFeeRate, takerFeeRate: this.takerFeeRate }
+  }
+
+  private getMarket(symbol: string): SymbolMarket {
+    const market = this.markets.get(symbol)
+    if (!market) {
+      throw exchangeRejection(-1121, "Invalid symbol.")
+    }
+    return market
+  }
+
+  private parseRequired(params: Record<string, string>, name: string): number {
+    const value = Number.parseFloat(params[name])
+
+    if (!Number.isFinite(value) || value <= 0) {
+      throw exchangeRejection(-1102, `Mandatory parameter '${name}' was not sent, was empty/null, or malformed.`)
+    }
+
+    return value
+  }
+
+  private checkStep(market: SymbolMarket, quantity: number): void {
+    const steps = quantity / market.config.stepSize
+    if (Math.abs(steps - Math.round(steps)) > 1e-8) {
+      throw exchangeRejection(-1111, "Precision is over the maximum defined for this asset.")
+    }
+  }
+
+  private checkTick(market: SymbolMarket, price: number): void {
+    const ticks = price / market.config.tickSize
+    if (Math.abs(ticks - Math.round(ticks)) > 1e-8) {
+      throw exchangeRejection(-4014, "Price not increased by tick size.")
+    }
+  }
+
+  private roundPrice(market: SymbolMarket, price: number): number {
+    return Number(price.toFixed(decimalsOf(market.config.tickSize)))
+  }
+
+  private roundQuantity(market: SymbolMarket, quantity: number): number {
+    return Number(quantity.toFixed(decimalsOf(market.config.stepSize)))
+  }
+
+  private checkMargin(market: SymbolMarket, order: SimulatedOrder): void {
+    const position = this.getPosition(order.symbol, order.positionSide)
+    const reference = order.price || market.lastPrice
+    const direction = order.side === "BUY" ? 1 : -1
+
+    // Only the part of the order that grows the position needs new margin
+    const reducing = position.amount * direction < 0 ? Math.min(Math.abs(position.amount), order.quantity) : 0
+    const requiredMargin = ((order.quantity - reducing) * reference) / position.leverage
+
+    if (requiredMargin > this.getBalances().availableBalance) {
+      throw exchangeRejection(-2019, "Margin is insufficient.")
+    }
+  }
+
+  private findOrder(symbol: string, orderId?: number, clientOrderId?: string): SimulatedOrder | undefined {
+    if (orderId !== undefined) {
+      const order = this.orders.get(orderId)
+      return order?.symbol === symbol ? order : undefined
+    }
+
+    return Array.from(this.orders.values()).find(
+      (order) => order.symbol === symbol && order.clientOrderId === clientOrderId,
+    )
+  }
+
+  private getRemainingQuantity(order: SimulatedOrder): number {
+    const position = this.getPosition(order.symbol, order.positionSide)
+    return order.closePosition ? Math.abs(position.amount) : order.quantity - order.executedQty
+  }
+
+  // Reduce-only orders and orders against a hedge leg's side, e.g. a SELL on the LONG leg
+  private isReducing(order: SimulatedOrder): boolean {
+    return (
+      order.reduceOnly ||
+      (order.positionSide === "LONG" && order.side === "SELL") ||
+      (order.positionSide === "SHORT" && order.side === "BUY")
+    )
+  }
+
+  // Reducing orders may only shrink the position, never flip it
+  private getReducibleQuantity(order: SimulatedOrder): number {
+    const position = this.getPosition(order.symbol, order.positionSide)
+    const reduces = order.side === "BUY" ? position.amount < 0 : position.amount > 0
+    return reduces ? Math.min(Math.abs(position.amount), this.getRemainingQuantity(order)) : 0
+  }
+
+  private executeMarket(market: SymbolMarket, order: SimulatedOrder): void {
+    let remaining = this.isReducing(order) ? this.getReducibleQuantity(order) : this.getRemainingQuantity(order)
+
+    if (remaining <= 0) {
+      this.finishOrder(order, "EXPIRED")
+      return
+    }
+
+    const book = this.getOrderBook(market.config.symbol)
+    const levels = order.side === "BUY" ? book.asks : book.bids
+
+    for (const [price, quantity] of levels) {
+      if (remaining <= 0) break
+      const fillQuantity = this.roundQuantity(market, Math.min(remaining, quantity))
+      this.applyFill(order, price, fillQuantity, "TAKER")
+      remaining = this.roundQuantity(market, remaining - fillQuantity)
+    }
+
+    // Liquidity beyond the synthetic depth is assumed to sit at the last level
+    if (remaining > 0) {
+      this.applyFill(order, levels[levels.length - 1][0], remaining, "TAKER")
+    }
+  }
+
+  private executeLimit(market: SymbolMarket, order: SimulatedOrder): void {
+    const book = this.getOrderBook(market.config.symbol)
+    const levels = order.side === "BUY" ? book.asks : book.bids
+    const crosses = (price: number) => (order.side === "BUY" ? price <= order.price : price >= order.price)
+    const crossing = levels.filter(([price]) => crosses(price))
+
+    if (crossing.length > 0 && order.timeInForce === "GTX") {
+      // Post-only orders that would take liquidity are expired instead of filled
+      this.finishOrder(order, "EXPIRED")
+      return
+    }
+
+    const available = crossing.reduce((sum, [, quantity]) => sum + quantity, 0)
+    if (order.timeInForce === "FOK" && available < order.quantity) {
+      this.finishOrder(order, "EXPIRED")
+      return
+    }
+
+    let remaining = this.isReducing(order) ? this.getReducibleQuantity(order) : this.getRemainingQuantity(order)
+    for (const [price, quantity] of crossing) {
+      if (remaining <= 0) break
+      const fillQuantity = this.roundQuantity(market, Math.min(remaining, quantity))
+      this.applyFill(order, price, fillQuantity, "TAKER")
+      remaining = this.roundQuantity(market, remaining - fillQuantity)
+    }
+
+    if (remaining > 0 && order.timeInForce === "IOC") {
+      this.finishOrder(order, "EXPIRED")
+    }
+  }
+
+  private processOpenOrders(market: SymbolMarket): void {
+    const price = market.lastPrice
+
+    for (const order of this.getOpenOrders(market.config.symbol)) {
+      if (CONDITIONAL_ORDER_TYPES.includes(order.type) && !order.triggered) {
+        this.updateTrailingStop(order, price)
+
+        if (!this.isStopTriggered(order, price)) continue
+
+        order.triggered = true
+        order.updateTime = this.now()
+
+        if (order.type === "STOP" || order.type === "TAKE_PROFIT") {
+          this.executeLimit(market, order)
+        } else {
+          this.executeMarket(market, order)
+        }
+        continue
+      }
+
+      // Resting limit orders fill as maker once the market trades at their price
+      const reached = order.side === "BUY" ? price <= order.price : price >= order.price
+      if (reached) {
+        const quantity = this.isReducing(order) ? this.getReducibleQuantity(order) : this.getRemainingQuantity(order)
+
+        if (quantity > 0) {
+          this.applyFill(order, order.price, quantity, "MAKER")
+        } else {
+          this.finishOrder(order, "EXPIRED")
+        }
+      }
+    }
+  }
+
+  private isStopTriggered(order: SimulatedOrder, price: number): boolean {
+    switch (order.type) {
+      case "STOP":
+      case "STOP_MARKET":
+        return order.side === "BUY" ? price >= order.stopPrice : price <= order.stopPrice
+      case "TAKE_PROFIT":
+      case "TAKE_PROFIT_MARKET":
+        return order.side === "BUY" ? price <= order.stopPrice : price >= order.stopPrice
+      case "TRAILING_STOP_MARKET": {
+        if (order.trailingExtreme === null || order.callbackRate === null) return false
+        const callback = order.callbackRate / 100
+        return order.side === "SELL"
+          ? price <= order.trailingExtreme * (1 - callback)
+          : price >= order.trailingExtreme * (1 + callback)
+      }
+      default:
+        return false
+    }
+  }
+
+  // A sell trailing stop follows the highest price after activation, a buy trailing stop the lowest
+  private updateTrailingStop(order: SimulatedOrder, price: number): void {
+    if (order.type !== "TRAILING_STOP_MARKET") return
+
+    if (order.trailingExtreme === null) {
+      const activated =
+        order.activationPrice === null ||
+        (order.side === "SELL" ? price >= order.activationPrice : price <= order.activationPrice)
+      if (activated) {
+        order.trailingExtreme = price
+      }
+      return
+    }
+
+    order.trailingExtreme =
+      order.side === "SELL" ? Math.max(order.trailingExtreme, price) : Math.min(order.trailingExtreme, price)
+  }
+
+  private applyFill(order: SimulatedOrder, price: number, quantity: number, liquidity: "MAKER" | "TAKER"): void {
+    const position = this.getPosition(order.symbol, order.positionSide)
+    const signedQuantity = order.side === "BUY" ? quantity : -quantity
+    const fee = price * quantity * (liquidity === "MAKER" ? this.makerFeeRate : this.takerFeeRate)
+    let realizedPnl = 0
+
+    if (position.amount === 0 || Math.sign(position.amount) === Math.sign(signedQuantity)) {
+      // Opening or adding: average the entry price
+      const amount = position.amount + signedQuantity
+      position.entryPrice = (position.entryPrice * Math.abs(position.amount) + price * quantity) / Math.abs(amount)
+      position.amount = amount
+    } else {
+      // Reducing, closing or flipping: realize PnL on the closed part
+      const closing = Math.min(Math.abs(position.amount), quantity)
+      realizedPnl = (price - position.entryPrice) * closing * Math.sign(position.amount)
+      const amount = position.amount + signedQuantity
+
+      if (Math.abs(amount) < 1e-12) {
+        position.amount = 0
+        position.entryPrice = 0
+      } else {
+        if (Math.sign(amount) !== Math.sign(position.amount)) {
+          position.entryPrice = price
+        }
+        position.amount = amount
+      }
+    }
+
+    position.updateTime = this.now()
+    this.walletBalance += realizedPnl - fee
+
+    order.executedQty += quantity
+    order.cumQuote += price * quantity
+    order.updateTime = this.now()
+
+    const filled = order.closePosition || order.executedQty >= order.quantity - 1e-12
+    order.status = filled ? "FILLED" : "PARTIALLY_FILLED"
+
+    this.emit("order", order, { order, price, quantity, fee, realizedPnl, liquidity } as SimulatedFillEvent)
+    this.emit("account", order.symbol)
+  }
+
+  private finishOrder(order: SimulatedOrder, status: "CANCELED" | "EXPIRED"): void {
+    order.status = status
+    order.updateTime = this.now()
+    this.emit("order", order, null)
+  }
+
+  private getKlineSeries(market: SymbolMarket, interval: string): Kline[] {
+    const intervalMs = INTERVAL_MS[interval]
+    if (!intervalMs) {
+      throw exchangeRejection(-1120, "Invalid interval.")
+    }
+
+    let klines = market.klines.get(interval)
+    if (!klines) {
+      klines = this.generateHistory(market, intervalMs)
+      market.klines.set(interval, klines)
+    }
+
+    this.rollKlines(klines, intervalMs)
+    return klines
+  }
+
+  // A gentle deterministic wave ending at the current price, so indicators have something to work with
+  private generateHistory(market: SymbolMarket, intervalMs: number): Kline[] {
+    const currentOpen = Math.floor(this.now() / intervalMs) * intervalMs
+    const klines: Kline[] = []
+
+    for (let i = this.historyLength - 1; i >= 0; i--) {
+      const wave = (offset: number) => market.lastPrice * (1 + 0.004 * Math.sin((i + offset) / 6))
+      const open = this.roundPrice(market, i === 0 ? market.lastPrice : wave(1))
+      const close = this.roundPrice(market, i === 0 ? market.lastPrice : wave(0))
+      const volume = market.config.levelQuantity * 5
+
+      klines.push({
+        openTime: currentOpen - i * intervalMs,
+        open,
+        high: this.roundPrice(market, Math.max(open, close) * 1.001),
+        low: this.roundPrice(market, Math.min(open, close) * 0.999),
+        close,
+        volume,
+        closeTime: currentOpen - i * intervalMs + intervalMs - 1,
+        quoteVolume: volume * close,
+        trades: 50,
+        takerBuyBaseAssetVolume: volume / 2,
+        takerBuyQuoteAssetVolume: (volume / 2) * close,
+      })
+    }
+
+    return klines
+  }
+
+  // Open empty candles up to the current time
+  private rollKlines(klines: Kline[], intervalMs: number): void {
+    const currentOpen = Math.floor(this.now() / intervalMs) * intervalMs
+    let last = klines[klines.length - 1]
+
+    while (last && last.openTime < currentOpen) {
+      const openTime = last.openTime + intervalMs
+      last = {
+        openTime,
+        open: last.close,
+        high: last.close,
+        low: last.close,
+        close: last.close,
+        volume: 0,
+        closeTime: openTime + intervalMs - 1,
+        quoteVolume: 0,
+        trades: 0,
+        takerBuyBaseAssetVolume: 0,
+        takerBuyQuoteAssetVolume: 0,
+      }
+      klines.push(last)
+    }
+
+    if (klines.length > this.historyLength * 2) {
+      klines.splice(0, klines.length - this.historyLength)
+    }
+  }
+
+  private updateKlines(market: SymbolMarket, trade: SimulatedTrade): void {
+    for (const [interval, klines] of market.klines) {
+      const previous = klines[klines.length - 1]
+      this.rollKlines(klines, INTERVAL_MS[interval])
+
+      const current = klines[klines.length - 1]
+      if (current !== previous) {
+        this.emit("kline", market.config.symbol, interval, previous, true)
+      }
+
+      if (current.trades === 0) {
+        current.open = trade.price
+        current.high = trade.price
+        current.low = trade.price
+      } else {
+        current.high = Math.max(current.high, trade.price)
+        current.low = Math.min(current.low, trade.price)
+      }
+
+      current.close = trade.price
+      current.volume += trade.quantity
+      current.quoteVolume += trade.quantity * trade.price
+      current.trades += 1
+      if (!trade.isBuyerMaker) {
+        current.takerBuyBaseAssetVolume += trade.quantity
+        current.takerBuyQuoteAssetVolume += trade.quantity * trade.price
+      }
+
+      this.emit("kline", market.config.symbol, interval, current, false)
+    }
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * Simulator WebSocket Server
+ * Minimal RFC 6455 server on top of Node's HTTP upgrade event, enough for the Binance stream protocol
+ */
+import { EventEmitter } from "events"
+import crypto from "crypto"
+import type { IncomingMessage } from "http"
+import type { Duplex } from "stream"
+
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11"
+
+const OPCODE_TEXT = 0x1
+const OPCODE_CLOSE = 0x8
+const OPCODE_PING = 0x9
+const OPCODE_PONG = 0xa
+
+/**
+ * Server side of one WebSocket connection; emits "message" with each text frame and "close"
+ */
+export class SimulatorSocket extends EventEmitter {
+  public readonly url: URL
+  private socket: Duplex
+  private buffer: Buffer = Buffer.alloc(0)
+  private isOpen = true
+
+  constructor(socket: Duplex, url: URL) {
+    super()
+    this.socket = socket
+    this.url = url
+
+    socket.on("data", (chunk: Buffer) => this.receive(chunk))
+    socket.on("close", () => this.handleClose())
+    socket.on("error", () => this.handleClose())
+  }
+
+  /**
+   * Send a text frame
+   */
+  public send(data: string): void {
+    if (!this.isOpen) return
+    this.socket.write(this.encodeFrame(OPCODE_TEXT, Buffer.from(data)))
+  }
+
+  /**
+   * Send a close frame and end the connection
+   */
+  public close(code = 1000): void {
+    if (!this.isOpen) return
+
+    const payload = Buffer.alloc(2)
+    payload.writeUInt16BE(code)
+    this.socket.write(this.encodeFrame(OPCODE_CLOSE, payload))
+    this.socket.end()
+    this.handleClose()
+  }
+
+  /**
+   * Whether the connection is still open
+   */
+  public isConnected(): boolean {
+    return this.isOpen
+  }
+
+  private receive(chunk: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+
+    // Frames can span chunks, so only consume complete ones
+    while (this.buffer.length >= 2) {
+      const opcode = this.buffer[0] & 0x0f
+      const masked = (this.buffer[1] & 0x80) !== 0
+      let length = this.buffer[1] & 0x7f
+      let offset = 2
+
+      if (length === 126) {
+        if (this.buffer.length < 4) return
+        length = this.buffer.readUInt16BE(2)
+        offset = 4
+      } else if (length === 127) {
+        if (this.buffer.length < 10) return
+        length = Number(this.buffer.readBigUInt64BE(2))
+        offset = 10
+      }
+
+      const maskOffset = offset
+      if (masked) offset += 4
+      if (this.buffer.length < offset + length) return
+
+      const payload = Buffer.from(this.buffer.subarray(offset, offset + length))
+      if (masked) {
+        for (let i = 0; i < payload.length; i++) {
+          payload[i] ^= this.buffer[maskOffset + (i % 4)]
+        }
+      }
+      this.buffer = this.buffer.subarray(offset + length)
+
+      if (opcode === OPCODE_TEXT) {
+        this.emit("message", payload.toString("utf-8"))
+      } else if (opcode === OPCODE_PING) {
+        this.socket.write(this.encodeFrame(OPCODE_PONG, payload))
+      } else if (opcode === OPCODE_CLOSE) {
+        this.close()
+      }
+    }
+  }
+
+  private encodeFrame(opcode: number, payload: Buffer): Buffer {
+    let header: Buffer
+
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length])
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4)
+      header[0] = 0x80 | opcode
+      header[1] = 126
+      header.writeUInt16BE(payload.length, 2)
+    } else {
+      header = Buffer.alloc(10)
+      header[0] = 0x80 | opcode
+      header[1] = 127
+      header.writeBigUInt64BE(BigInt(payload.length), 2)
+    }
+
+    return Buffer.concat([header, payload])
+  }
+
+  private handleClose(): void {
+    if (!this.isOpen) return
+    this.isOpen = false
+    this.emit("close")
+  }
+}
+
+/**
+ * Complete the WebSocket handshake for an HTTP upgrade request
+ */
+export function acceptWebSocket(request: IncomingMessage, socket: Duplex): SimulatorSocket | null {
+  const key = request.headers["sec-websocket-key"]
+
+  if (typeof key !== "string" || request.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n")
+    return null
+  }
+
+  const accept = crypto
+    .createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64")
+
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  )
+
+  return new SimulatorSocket(socket, new URL(request.url || "/", "ws://localhost"))
+}
@@ -0,0 +1,465 @@
+/**
+ * Backtest Engine
+ * Replays historical klines through the strategy and the TradingService entry/exit rules
+ */
+import { createStrategy } from "./strategies"
+import { PerformanceAnalytics } from "./performance-analytics"
+import { errorHandler, ValidationError } from "../error-handling"
+import type { Kline } from "../types/market-types"
+import type { StrategySignal } from "./strategies/strategy"
+import type { BaseStrategyParameters, Strategy, StrategyParameterUpdate } from "./strategies"
+import type { EquityPoint, PerformanceSummary, Trade } from "./performance-analytics"
+
+export interface BacktestConfig {
+  symbol: string
+  timeframe: string
+  strategyType?: string // Name of a registered strategy, defaults to "SCALPING"
+  strategyParameters?: StrategyParameterUpdate
+  initialBalance?: number
+  maxLeverage?: number
+  hourlyTradeLimit?: number
+  feeRate?: number // Fee charged on entry and exit notional (0.0004 = 0.04%)
+  slippagePercent?: number // Adverse price move applied to every fill (0.0001 = 0.01%)
+  higherTimeframeEma?: number
+  warmupCandles?: number // Leading candles that only feed the indicators; no trades are taken on them
+}
+
+export type BacktestExitReason = "TAKE_PROFIT" | "STOP_LOSS" | "MAX_HOLDING_TIME" | "SIGNAL" | "END_OF_DATA"
+
+export interface BacktestResult {
+  symbol: string
+  timeframe: string
+  parameters: BaseStrategyParameters
+  startTime: number
+  endTime: number
+  candles: number
+  initialBalance: number
+  finalBalance: number
+  actionableSignals: number
+  skippedSignals: number
+  summary: PerformanceSummary
+  equityCurve: EquityPoint[]
+  trades: Trade[]
+}
+
+interface SimulatedPosition {
+  tradeId: string
+  type: "LONG" | "SHORT"
+  entryPrice: number
+  entryTime: number
+  quantity: number
+  stopLoss: number
+  takeProfit: number
+  entryFee: number
+}
+
+/**
+ * BacktestEngine simulates a TradingService run over a fixed kline series.
+ * It never touches the live market data or Binance services; every trade is
+ * recorded into its own PerformanceAnalytics instance driven by candle time.
+ *
+ * @example
+ * ```typescript
+ * const klines = await loadKlinesFromFile("./data/BTCUSDT-5m.json")
+ * const result = new BacktestEngine({ symbol: "BTCUSDT", timeframe: "5m" }).run(klines)
+ * console.log(result.summary.netProfit, result.equityCurve.length)
+ * ```
+ */
+export class BacktestEngine {
+  private config: Required<Omit<BacktestConfig, "strategyParameters" | "higherTimeframeEma">> &
+    Pick<BacktestConfig, "strategyParameters" | "higherTimeframeEma">
+  private strategy: Strategy
+  private analytics: PerformanceAnalytics
+  private currentTime = 0
+  private balance = 0
+  private position: SimulatedPosition | null = null
+  private lastTradeTime = 0
+  private tradeCount = 0
+
+  constructor(config: BacktestConfig) {
+    this.config = {
+      strategyType: "SCALPING",
+      initialBalance: 10000,
+      maxLeverage: 5,
+      feeRate: 0.0004,
+      slippagePercent: 0,
+      warmupCandles: 0,
+      ...config,
+      hourlyTradeLimit: config.hourlyTradeLimit ?? 6,
+    }
+
+    this.strategy = createStrategy(this.config.strategyType, {
+      symbol: this.config.symbol,
+      interval: this.config.timeframe,
+      ...this.config.strategyParameters,
+    })
+
+    this.analytics = new PerformanceAnalytics(() => this.currentTime)
+  }
+
+  /**
+   * Get the strategy parameters used for this run
+   */
+  public getParameters(): BaseStrategyParameters {
+    return this.strategy.getParameters()
+  }
+
+  /**
+   * Load klines from a local file and run the backtest
+   */
+  public async runFromFile(filePath: string): Promise<BacktestResult> {
+    const klines = await loadKlinesFromFile(filePath)
+    return this.run(klines)
+  }
+
+  /**
+   * Load klines from the local history store, downloading missing candles first, and run the backtest (server only)
+   */
+  public async runFromHistory(startTime: number, endTime: number = Date.now()): Promise<BacktestResult> {
+    const { getHistoricalKlines } = await import("../market/history")
+    const klines = await getHistoricalKlines(this.config.symbol, this.config.timeframe, startTime, endTime)
+    return this.run(klines)
+  }
+
+  /**
+   * Run the backtest over a kline series (oldest first)
+   */
+  public run(klines: Kline[]): BacktestResult {
+    if (!Array.isArray(klines) || klines.length === 0) {
+      throw new ValidationError("Backtest requires a non-empty kline series", {
+        context: { symbol: this.config.symbol, timeframe: this.config.timeframe },
+      })
+    }
+
+    const series = [...klines].sort((a, b) => a.openTime - b.openTime)
+    const warmup = Math.max(0, this.config.warmupCandles)
+
+    if (warmup >= series.length) {
+      throw new ValidationError("Backtest warmup leaves no candles to trade", {
+        context: { candles: series.length, warmupCandles: warmup },
+      })
+    }
+
+    this.reset(series[warmup].openTime)
+
+    // Indicators are causal, so one pass over the full series yields the same
+    // signal for each candle as the live service would see at that candle's close
+    const signalsByTime = new Map<number, StrategySignal>()
+    for (const signal of this.strategy.calculateSignals(series, this.config.higherTimeframeEma)) {
+      signalsByTime.set(signal.timestamp, signal)
+    }
+
+    let actionableSignals = 0
+    let skippedSignals = 0
+
+    for (const kline of series.slice(warmup)) {
+      this.currentTime = kline.closeTime
+
+      // Resting stop loss / take profit orders fill inside the candle
+      if (this.position) {
+        this.checkProtectiveOrders(kline)
+      }
+
+      const signal = signalsByTime.get(kline.openTime)
+      if (signal && signal.action !== "NONE") {
+        actionableSignals++
+        if (!this.handleSignal(signal, kline)) {
+          skippedSignals++
+        }
+      }
+
+      // Max holding time is enforced at candle close
+      if (this.position) {
+        const holdingTimeMinutes = (kline.closeTime - this.position.entryTime) / (1000 * 60)
+        if (holdingTimeMinutes >= this.strategy.getParameters().maxHoldingTimeMinutes) {
+          this.closePosition(kline.close, "MAX_HOLDING_TIME")
+        }
+      }
+    }
+
+    const lastKline = series[series.length - 1]
+    if (this.position) {
+      this.closePosition(lastKline.close, "END_OF_DATA")
+    }
+
+    return {
+      symbol: this.config.symbol,
+      timeframe: this.config.timeframe,
+      parameters: this.strategy.getParameters(),
+      startTime: series[warmup].openTime,
+      endTime: lastKline.closeTime,
+      candles: series.length - warmup,
+      initialBalance: this.config.initialBalance,
+      finalBalance: this.balance,
+      actionableSignals,
+      skippedSignals,
+      summary: this.analytics.getPerformanceSummary(),
+      equityCurve: this.analytics.getEquityCurve(),
+      trades: this.analytics.getAllTrades(),
+    }
+  }
+
+  /**
+   * Reset simulation state before a run
+   */
+  private reset(startTime: number): void {
+    this.currentTime = startTime
+    this.balance = this.config.initialBalance
+    this.position = null
+    this.lastTradeTime = 0
+    this.tradeCount = 0
+    this.strategy.reset()
+    this.analytics.clearData()
+    this.analytics.setInitialEquity(this.config.initialBalance)
+  }
+
+  /**
+   * Apply a strategy signal the way TradingService.checkForTradeExecution does.
+   * Returns false when an entry was skipped by the hourly trade limit.
+   */
+  private handleSignal(signal: StrategySignal, kline: Kline): boolean {
+    const { action, price, stopLoss, takeProfit } = signal
+
+    if ((action === "BUY" || action === "SELL") && !this.position) {
+      const now = kline.closeTime
+
+      // Check trade limits
+      if (now - this.lastTradeTime < 3600000) {
+        if (this.tradeCount >= this.config.hourlyTradeLimit) {
+          return false
+        }
+      } else {
+        this.tradeCount = 0
+        this.lastTradeTime = now
+      }
+
+      this.openPosition(action, price, stopLoss, takeProfit)
+      this.tradeCount++
+      this.lastTradeTime = now
+    } else if (action === "CLOSE_LONG" && this.position?.type === "LONG") {
+      this.closePosition(price, "SIGNAL")
+    } else if (action === "CLOSE_SHORT" && this.position?.type === "SHORT") {
+      this.closePosition(price, "SIGNAL")
+    }
+
+    return true
+  }
+
+  /**
+   * Fill stop loss or take profit orders touched by the candle's range.
+   * When both are touched in the same candle the stop is assumed to fill first.
+   */
+  private checkProtectiveOrders(kline: Kline): void {
+    if (!this.position) return
+
+    const { type, stopLoss, takeProfit } = this.position
+
+    if (type === "LONG") {
+      if (kline.low <= stopLoss) {
+        this.closePosition(Math.min(kline.open, stopLoss), "STOP_LOSS")
+      } else if (kline.high >= takeProfit) {
+        this.closePosition(Math.max(kline.open, takeProfit), "TAKE_PROFIT")
+      }
+    } else {
+      if (kline.high >= stopLoss) {
+        this.closePosition(Math.max(kline.open, stopLoss), "STOP_LOSS")
+      } else if (kline.low <= takeProfit) {
+        this.closePosition(Math.min(kline.open, takeProfit), "TAKE_PROFIT")
+      }
+    }
+  }
+
+  /**
+   * Open a simulated position at the signal price
+   */
+  private openPosition(
+    side: "BUY" | "SELL",
+    price: number,
+    stopLoss: number | null,
+    takeProfit: number | null,
+  ): void {
+    const entryPrice = this.applySlippage(price, side)
+    const quantity = this.calculatePositionSize(entryPrice)
+    const entryFee = entryPrice * quantity * this.config.feeRate
+    const type = side === "BUY" ? "LONG" : "SHORT"
+
+    // Same fallbacks as TradingService when the signal carries no levels
+    const stopLevel = stopLoss || (side === "BUY" ? price * 0.99 : price * 1.01)
+    const takeProfitLevel = takeProfit || (side === "BUY" ? price * 1.02 : price * 0.98)
+
+    const tradeId = this.analytics.recordTrade({
+      symbol: this.config.symbol,
+      side,
+      entryPrice,
+      exitPrice: null,
+      quantity,
+      entryTime: this.currentTime,
+      exitTime: null,
+      pnl: null,
+      pnlPercent: null,
+      fees: entryFee,
+      stopLoss: stopLevel,
+      takeProfit: takeProfitLevel,
+      strategy: this.config.strategyType,
+      timeframe: this.config.timeframe,
+      notes: "Backtest",
+      tags: ["BACKTEST"],
+    })
+
+    this.position = {
+      tradeId,
+      type,
+      entryPrice,
+      entryTime: this.currentTime,
+      quantity,
+      stopLoss: stopLevel,
+      takeProfit: takeProfitLevel,
+      entryFee,
+    }
+  }
+
+  /**
+   * Close the simulated position and record the result
+   */
+  private closePosition(price: number, reason: BacktestExitReason): void {
+    if (!this.position) return
+
+    const { tradeId, type, entryPrice, quantity, entryFee } = this.position
+    const exitSide = type === "LONG" ? "SELL" : "BUY"
+    const exitPrice = this.applySlippage(price, exitSide)
+    const exitFee = exitPrice * quantity * this.config.feeRate
+    const fees = entryFee + exitFee
+
+    const grossPnl = type === "LONG" ? (exitPrice - entryPrice) * quantity : (entryPrice - exitPrice) * quantity
+    const pnl = grossPnl - fees
+    const pnlPercent = pnl / (entryPrice * quantity)
+
+    this.balance += pnl
+
+    const trade = this.analytics.getTrade(tradeId)
+    this.analytics.updateTrade(tradeId, {
+      exitPrice,
+      exitTime: this.currentTime,
+      pnl,
+      pnlPercent,
+      fees,
+      notes: `Backtest exit: ${reason}`,
+      tags: [...(trade?.tags || []), reason],
+    })
+
+    this.position = null
+  }
+
+  /**
+   * Move a fill price against the order side
+   */
+  private applySlippage(price: number, side: "BUY" | "SELL"): number {
+    return side === "BUY" ? price * (1 + this.config.slippagePercent) : price * (1 - this.config.slippagePercent)
+  }
+
+  /**
+   * Basic position sizing, matching TradingService without live risk management
+   */
+  private calculatePositionSize(currentPrice: number): number {
+    const riskPercentage = 0.02 // 2% risk per trade
+    const riskAmount = this.balance * riskPercentage
+    const stopLossPercent = 0.01 // 1% stop loss
+    const stopLossDistance = currentPrice * stopLossPercent
+
+    // Apply leverage
+    const leveragedPositionSize = (riskAmount / stopLossDistance) * this.config.maxLeverage
+
+    // Ensure position size is reasonable (not too large)
+    const maxPositionSize = (this.balance * 0.2 * this.config.maxLeverage) / currentPrice
+
+    return Math.max(0, Math.min(leveragedPositionSize, maxPositionSize))
+  }
+}
+
+/**
+ * Standalone function to run a backtest over a kline series
+ */
+export function runBacktest(klines: Kline[], config: BacktestConfig): BacktestResult {
+  return new BacktestEngine(config).run(klines)
+}
+
+/**
+ * Load klines from a local JSON or CSV file (server only).
+ * JSON may be an array of Kline objects or the raw /klines array format;
+ * CSV follows the Binance public data dump column order.
+ */
+export async function loadKlinesFromFile(filePath: string): Promise<Kline[]> {
+  try {
+    const { readFile } = await import("fs/promises")
+    const content = await readFile(filePath, "utf-8")
+
+    const rows: unknown[] = filePath.toLowerCase().endsWith(".csv")
+      ? content
+          .split(/\r?\n/)
+          .map((line) => line.trim())
+          .filter((line) => line.length > 0 && /^\d/.test(line)) // Skip header row
+          .map((line) => line.split(","))
+      : JSON.parse(content)
+
+    if (!Array.isArray(rows)) {
+      throw new ValidationError(`Kline file ${filePath} does not contain an array`)
+    }
+
+    const klines = rows.map(parseKlineRow).filter((kline): kline is Kline => kline !== null)
+
+    // Sort and drop duplicate candles
+    klines.sort((a, b) => a.openTime - b.openTime)
+    return klines.filter((kline, index) => index === 0 || kline.openTime !== klines[index - 1].openTime)
+  } catch (error) {
+    errorHandler.handleError(error, {
+      context: { action: "loadKlinesFromFile", filePath },
+      severity: "medium",
+    })
+    throw error
+  }
+}
+
+/**
+ * Parse one kline row from array or object form
+ */
+function parseKlineRow(row: unknown): Kline | null {
+  const toNumber = (value: unknown): number => (typeof value === "number" ? value : Number.parseFloat(String(value)))
+
+  let kline: Kline
+
+  if (Array.isArray(row)) {
+    kline = {
+      openTime: toNumber(row[0]),
+      open: toNumber(row[1]),
+      high: toNumber(row[2]),
+      low: toNumber(row[3]),
+      close: toNumber(row[4]),
+      volume: toNumber(row[5]),
+      closeTime: toNumber(row[6]),
+      quoteVolume: toNumber(row[7] ?? 0),
+      trades: toNumber(row[8] ?? 0),
+      takerBuyBaseAssetVolume: toNumber(row[9] ?? 0),
+      takerBuyQuoteAssetVolume: toNumber(row[10] ?? 0),
+    }
+  } else if (row && typeof row === "object") {
+    const k = row as Record<string, unknown>
+    kline = {
+      openTime: toNumber(k.openTime),
+      open: toNumber(k.open),
+      high: toNumber(k.high),
+      low: toNumber(k.low),
+      close: toNumber(k.close),
+      volume: toNumber(k.volume),
+      closeTime: toNumber(k.closeTime),
+      quoteVolume: toNumber(k.quoteVolume ?? 0),
+      trades: toNumber(k.trades ?? 0),
+      takerBuyBaseAssetVolume: toNumber(k.takerBuyBaseAssetVolume ?? 0),
+      takerBuyQuoteAssetVolume: toNumber(k.takerBuyQuoteAssetVolume ?? 0),
+    }
+  } else {
+    return null
+  }
+
+  const required = [kline.openTime, kline.open, kline.high, kline.low, kline.close, kline.closeTime]
+  return required.every((value) => Number.isFinite(value)) ? kline : null
+}
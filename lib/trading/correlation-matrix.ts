@@ -0,0 +1,105 @@
+/**
+ * Correlation Matrix
+ * Rolling return correlations between symbols and sector tags derived from them
+ */
+import type { Kline } from "../types/market-types"
+
+export interface CorrelationMatrix {
+  symbols: string[]
+  values: number[][] // values[i][j] is the correlation of symbols[i] and symbols[j]; NaN without enough data
+  interval: string
+  window: number // returns per pair the correlations were computed over
+  updatedAt: number
+}
+
+/**
+ * Pearson correlation of two equally long series; NaN with fewer than 2 values or a flat series
+ */
+export function calculateCorrelation(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length)
+  if (length < 2) {
+    return Number.NaN
+  }
+
+  const meanA = a.slice(0, length).reduce((sum, value) => sum + value, 0) / length
+  const meanB = b.slice(0, length).reduce((sum, value) => sum + value, 0) / length
+  let covariance = 0
+  let varianceA = 0
+  let varianceB = 0
+
+  for (let i = 0; i < length; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB)
+    varianceA += (a[i] - meanA) ** 2
+    varianceB += (b[i] - meanB) ** 2
+  }
+
+  if (varianceA === 0 || varianceB === 0) {
+    return Number.NaN
+  }
+  return Math.max(-1, Math.min(1, covariance / Math.sqrt(varianceA * varianceB)))
+}
+
+/**
+ * Correlations of log returns over the last window candles each pair has in common
+ */
+export function calculateCorrelationMatrix(
+  klinesBySymbol: Record<string, Kline[]>,
+  window: number,
+  interval: string,
+  updatedAt: number = Date.now(),
+): CorrelationMatrix {
+  const symbols = Object.keys(klinesBySymbol)
+  const closes = symbols.map((symbol) => toCloseMap(klinesBySymbol[symbol]))
+  const values = symbols.map((_, i) => symbols.map((__, j) => (i === j ? 1 : Number.NaN)))
+
+  for (let i = 0; i < symbols.length; i++) {
+    for (let j = i + 1; j < symbols.length; j++) {
+      const [returnsA, returnsB] = alignedReturns(closes[i], closes[j])
+      const correlation = calculateCorrelation(returnsA.slice(-window), returnsB.slice(-window))
+      values[i][j] = correlation
+      values[j][i] = correlation
+    }
+  }
+
+  return { symbols, values, interval, window, updatedAt }
+}
+
+/**
+ * Group symbols whose returns are correlated at or above the threshold, directly or through other symbols.
+ * Each group is tagged AUTO_<first symbol of the group in matrix order>.
+ */
+export function deriveSectorTags(matrix: CorrelationMatrix, threshold: number): Record<string, string> {
+  const parents = matrix.symbols.map((_, i) => i)
+  const find = (i: number): number => (parents[i] === i ? i : (parents[i] = find(parents[i])))
+
+  matrix.values.forEach((row, i) =>
+    row.forEach((correlation, j) => {
+      if (j > i && correlation >= threshold) {
+        const [rootA, rootB] = [find(i), find(j)]
+        parents[Math.max(rootA, rootB)] = Math.min(rootA, rootB)
+      }
+    }),
+  )
+
+  return Object.fromEntries(matrix.symbols.map((symbol, i) => [symbol, `AUTO_${matrix.symbols[find(i)]}`]))
+}
+
+// Close price per candle open time
+function toCloseMap(klines: Kline[]): Map<number, number> {
+  return new Map(klines.map((k) => [Number(k.openTime), Number(k.close)]))
+}
+
+// Log returns between consecutive candles both series have, so a gap in either series never misaligns them
+function alignedReturns(closesA: Map<number, number>, closesB: Map<number, number>): [number[], number[]] {
+  const times = Array.from(closesA.keys())
+    .filter((time) => closesB.has(time))
+    .sort((a, b) => a - b)
+  const returnsA: number[] = []
+  const returnsB: number[] = []
+
+  for (let i = 1; i < times.length; i++) {
+    returnsA.push(Math.log(closesA.get(times[i])! / closesA.get(times[i - 1])!))
+    returnsB.push(Math.log(closesB.get(times[i])! / closesB.get(times[i - 1])!))
+  }
+  return [returnsA, returnsB]
+}
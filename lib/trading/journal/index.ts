@@ -0,0 +1,44 @@
+/**
+ * Trade Journal
+ * Picks the journal storage for the current runtime and attaches it to the live PerformanceAnalytics tracker
+ */
+import { env, isTest } from "../../env"
+import { performanceAnalytics } from "../performance-analytics"
+import { IndexedDbJournalStorage } from "./indexeddb-journal-storage"
+import { JsonlJournalStorage } from "./jsonl-journal-storage"
+import type { TradeJournalStorage } from "./trade-journal-storage"
+
+export * from "./trade-journal-storage"
+export { IndexedDbJournalStorage } from "./indexeddb-journal-storage"
+export { JsonlJournalStorage } from "./jsonl-journal-storage"
+export type { JsonlJournalStorageOptions } from "./jsonl-journal-storage"
+
+let initialization: Promise<boolean> | null = null
+
+/**
+ * IndexedDB in the browser, a JSONL file on the server; null when persistence is disabled
+ */
+export function createDefaultJournalStorage(): TradeJournalStorage | null {
+  if (typeof indexedDB !== "undefined") {
+    return new IndexedDbJournalStorage()
+  }
+
+  // Test runs must never touch the real journal file
+  if (isTest() || !env.TRADE_JOURNAL_PATH) {
+    return null
+  }
+
+  return new JsonlJournalStorage(env.TRADE_JOURNAL_PATH)
+}
+
+/**
+ * Attach the default storage to the live tracker and reload the saved journal; safe to call repeatedly
+ */
+export function initializeTradeJournal(): Promise<boolean> {
+  if (!initialization) {
+    const storage = createDefaultJournalStorage()
+    initialization = storage ? performanceAnalytics.attachStorage(storage) : Promise.resolve(false)
+  }
+
+  return initialization
+}
@@ -0,0 +1,127 @@
+/**
+ * IndexedDB Journal Storage
+ * Browser-side trade journal with one object store each for trades, equity points and state
+ */
+import type { EquityPoint, Trade } from "../performance-analytics"
+import type { TradeJournalData, TradeJournalState, TradeJournalStorage } from "./trade-journal-storage"
+
+const TRADES_STORE = "trades"
+const EQUITY_STORE = "equity"
+const META_STORE = "meta"
+const STATE_KEY = "state"
+
+export class IndexedDbJournalStorage implements TradeJournalStorage {
+  private databaseName: string
+  private database: Promise<IDBDatabase> | null = null
+
+  constructor(databaseName = "trade-journal") {
+    this.databaseName = databaseName
+  }
+
+  /**
+   * Read all stores in a single transaction
+   */
+  public async load(): Promise<TradeJournalData | null> {
+    const db = await this.open()
+    const transaction = db.transaction([TRADES_STORE, EQUITY_STORE, META_STORE], "readonly")
+
+    const [trades, equityCurve, state] = await Promise.all([
+      this.request<Trade[]>(transaction.objectStore(TRADES_STORE).getAll()),
+      this.request<EquityPoint[]>(transaction.objectStore(EQUITY_STORE).getAll()),
+      this.request<TradeJournalState | undefined>(transaction.objectStore(META_STORE).get(STATE_KEY)),
+    ])
+
+    if (!state) {
+      return null
+    }
+
+    return { trades, equityCurve, state }
+  }
+
+  /**
+   * Insert or replace a trade by id
+   */
+  public async saveTrade(trade: Trade): Promise<void> {
+    await this.write([TRADES_STORE], (transaction) => {
+      transaction.objectStore(TRADES_STORE).put(trade)
+    })
+  }
+
+  /**
+   * Append a point to the equity store
+   */
+  public async appendEquityPoint(point: EquityPoint): Promise<void> {
+    await this.write([EQUITY_STORE], (transaction) => {
+      transaction.objectStore(EQUITY_STORE).add(point)
+    })
+  }
+
+  /**
+   * Save equity bookkeeping
+   */
+  public async saveState(state: TradeJournalState): Promise<void> {
+    await this.write([META_STORE], (transaction) => {
+      transaction.objectStore(META_STORE).put(state, STATE_KEY)
+    })
+  }
+
+  /**
+   * Clear every store and write the snapshot in one transaction
+   */
+  public async replaceAll(data: TradeJournalData): Promise<void> {
+    await this.write([TRADES_STORE, EQUITY_STORE, META_STORE], (transaction) => {
+      const trades = transaction.objectStore(TRADES_STORE)
+      const equity = transaction.objectStore(EQUITY_STORE)
+      const meta = transaction.objectStore(META_STORE)
+
+      trades.clear()
+      equity.clear()
+      data.trades.forEach((trade) => trades.put(trade))
+      data.equityCurve.forEach((point) => equity.add(point))
+      meta.put(data.state, STATE_KEY)
+    })
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1)
+
+        request.onupgradeneeded = () => {
+          const db = request.result
+          db.createObjectStore(TRADES_STORE, { keyPath: "id" })
+          db.createObjectStore(EQUITY_STORE, { autoIncrement: true })
+          db.createObjectStore(META_STORE)
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+
+      // Allow a later call to retry if opening failed (e.g. private browsing)
+      this.database.catch(() => {
+        this.database = null
+      })
+    }
+
+    return this.database
+  }
+
+  private async write(stores: string[], apply: (transaction: IDBTransaction) => void): Promise<void> {
+    const db = await this.open()
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(stores, "readwrite")
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+      apply(transaction)
+    })
+  }
+
+  private request<T>(request: IDBRequest): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result as T)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
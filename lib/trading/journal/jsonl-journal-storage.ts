@@ -0,0 +1,152 @@
+/**
+ * JSONL Journal Storage
+ * Server-side trade journal kept as an append-only JSON Lines file
+ */
+import type { EquityPoint, Trade } from "../performance-analytics"
+import type { TradeJournalData, TradeJournalState, TradeJournalStorage } from "./trade-journal-storage"
+
+type JournalRecord =
+  | { type: "trade"; trade: Trade }
+  | { type: "equity"; point: EquityPoint }
+  | { type: "state"; state: TradeJournalState }
+
+export interface JsonlJournalStorageOptions {
+  compactRatio?: number // Rewrite the file on load once it holds this many records per live record
+}
+
+export class JsonlJournalStorage implements TradeJournalStorage {
+  private filePath: string
+  private compactRatio: number
+  private writeQueue: Promise<void> = Promise.resolve()
+
+  constructor(filePath: string, options: JsonlJournalStorageOptions = {}) {
+    this.filePath = filePath
+    this.compactRatio = options.compactRatio ?? 3
+  }
+
+  /**
+   * Replay the file; later records for the same trade id replace earlier ones
+   */
+  public async load(): Promise<TradeJournalData | null> {
+    await this.writeQueue
+
+    const { readFile } = await import("fs/promises")
+
+    let content: string
+    try {
+      content = await readFile(this.filePath, "utf-8")
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null
+      }
+      throw error
+    }
+
+    const trades = new Map<string, Trade>()
+    const equityCurve: EquityPoint[] = []
+    let state: TradeJournalState | null = null
+    let recordCount = 0
+
+    for (const line of content.split("\n")) {
+      if (!line.trim()) {
+        continue
+      }
+
+      let record: JournalRecord
+      try {
+        record = JSON.parse(line)
+      } catch {
+        // A crash mid-append leaves a truncated last line; everything before it is still valid
+        continue
+      }
+
+      recordCount++
+      if (record.type === "trade") {
+        trades.set(record.trade.id, record.trade)
+      } else if (record.type === "equity") {
+        equityCurve.push(record.point)
+      } else if (record.type === "state") {
+        state = record.state
+      }
+    }
+
+    if (!state) {
+      return null
+    }
+
+    const data: TradeJournalData = { trades: Array.from(trades.values()), equityCurve, state }
+
+    if (recordCount > this.compactRatio * (data.trades.length + equityCurve.length + 1)) {
+      await this.replaceAll(data)
+    }
+
+    return data
+  }
+
+  /**
+   * Append a trade record
+   */
+  public saveTrade(trade: Trade): Promise<void> {
+    return this.append([{ type: "trade", trade }])
+  }
+
+  /**
+   * Append an equity point record
+   */
+  public appendEquityPoint(point: EquityPoint): Promise<void> {
+    return this.append([{ type: "equity", point }])
+  }
+
+  /**
+   * Append a state record
+   */
+  public saveState(state: TradeJournalState): Promise<void> {
+    return this.append([{ type: "state", state }])
+  }
+
+  /**
+   * Rewrite the file with one record per trade and equity point
+   */
+  public replaceAll(data: TradeJournalData): Promise<void> {
+    const records: JournalRecord[] = [
+      { type: "state", state: data.state },
+      ...data.trades.map((trade): JournalRecord => ({ type: "trade", trade })),
+      ...data.equityCurve.map((point): JournalRecord => ({ type: "equity", point })),
+    ]
+
+    return this.enqueue(async () => {
+      const { writeFile, rename } = await import("fs/promises")
+      await this.ensureDirectory()
+
+      // Write to a temporary file first so a crash never leaves a half-written journal
+      const tempPath = `${this.filePath}.tmp`
+      await writeFile(tempPath, this.serialize(records), "utf-8")
+      await rename(tempPath, this.filePath)
+    })
+  }
+
+  private append(records: JournalRecord[]): Promise<void> {
+    return this.enqueue(async () => {
+      const { appendFile } = await import("fs/promises")
+      await this.ensureDirectory()
+      await appendFile(this.filePath, this.serialize(records), "utf-8")
+    })
+  }
+
+  // Writes run one at a time in call order so appends never interleave with a rewrite
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task)
+    this.writeQueue = result.catch(() => undefined)
+    return result
+  }
+
+  private async ensureDirectory(): Promise<void> {
+    const { mkdir } = await import("fs/promises")
+    const { dirname } = await import("path")
+    await mkdir(dirname(this.filePath), { recursive: true })
+  }
+
+  private serialize(records: JournalRecord[]): string {
+    return records.map((record) => JSON.stringify(record)).join("\n") + "\n"
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Trade Journal Storage
+ * Persistence contract used by PerformanceAnalytics to keep trades and the equity curve across restarts
+ */
+import type { EquityPoint, Trade } from "../performance-analytics"
+
+export interface TradeJournalState {
+  initialEquity: number
+  currentEquity: number
+  highWaterMark: number
+  startDate: number
+}
+
+export interface TradeJournalData {
+  trades: Trade[]
+  equityCurve: EquityPoint[]
+  state: TradeJournalState
+}
+
+export interface TradeJournalStorage {
+  /**
+   * Load the stored journal; resolves to null when nothing has been saved yet
+   */
+  load(): Promise<TradeJournalData | null>
+
+  /**
+   * Insert or replace a trade by id
+   */
+  saveTrade(trade: Trade): Promise<void>
+
+  /**
+   * Append a point to the equity curve
+   */
+  appendEquityPoint(point: EquityPoint): Promise<void>
+
+  /**
+   * Save equity bookkeeping
+   */
+  saveState(state: TradeJournalState): Promise<void>
+
+  /**
+   * Replace everything stored with a full snapshot
+   */
+  replaceAll(data: TradeJournalData): Promise<void>
+}
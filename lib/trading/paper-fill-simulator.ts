@@ -0,0 +1,322 @@
+/**
+ * Paper Fill Simulator
+ * Fills paper orders against the live order book with exchange fees, depth-based slippage,
+ * partial limit fills and simulated latency
+ */
+import { enhancedMarketDataService } from "../market/enhanced-market-data-service"
+import { binanceAccountManager } from "../binance/binance-account-manager"
+import { errorHandler } from "../error-handling"
+import type { Kline, OrderBook, OrderBookEntry } from "../types/market-types"
+
+export type FillLiquidity = "MAKER" | "TAKER"
+
+export interface FillModelConfig {
+  makerFeeRate: number // Fee on passive fills (0.0002 = 0.02%)
+  takerFeeRate: number // Fee on aggressive fills (0.0004 = 0.04%)
+  useExchangeFees: boolean // Replace the default rates with the account's commission rate when available
+  useOrderBook: boolean // Walk the order book for slippage; otherwise apply fallbackSlippagePercent
+  orderBookDepth: number // Levels fetched per side
+  fallbackSlippagePercent: number // Adverse move when no order book is available (0.0002 = 0.02%)
+  latencyMs: number // Base delay between order submission and fill
+  latencyJitterMs: number // Random extra delay added to latencyMs
+  limitParticipationRate: number // Share of a candle's volume a resting limit order can capture (0.1 = 10%)
+}
+
+export interface FillLevel {
+  price: number
+  quantity: number
+}
+
+export interface SimulatedFill {
+  side: "BUY" | "SELL"
+  liquidity: FillLiquidity
+  requestedQuantity: number
+  filledQuantity: number
+  averagePrice: number
+  referencePrice: number
+  slippage: number // Adverse move of averagePrice from referencePrice as a fraction
+  fee: number
+  feeRate: number
+  latencyMs: number
+  levels: FillLevel[]
+  timestamp: number
+}
+
+export interface SimulatedLimitOrder {
+  id: string
+  symbol: string
+  side: "BUY" | "SELL"
+  limitPrice: number
+  quantity: number
+  filledQuantity: number
+  averagePrice: number
+  fees: number
+  status: "NEW" | "PARTIALLY_FILLED" | "FILLED" | "CANCELED"
+  fills: SimulatedFill[]
+}
+
+/**
+ * Consume book levels in order until the quantity is filled or a level is beyond the limit price
+ */
+export function walkOrderBook(
+  levels: OrderBookEntry[],
+  quantity: number,
+  limit?: { side: "BUY" | "SELL"; price: number },
+): { fills: FillLevel[]; remaining: number } {
+  const fills: FillLevel[] = []
+  let remaining = quantity
+
+  for (const level of levels) {
+    if (remaining <= 0) break
+
+    if (limit && (limit.side === "BUY" ? level.price > limit.price : level.price < limit.price)) {
+      break
+    }
+
+    const take = Math.min(remaining, level.quantity)
+    fills.push({ price: level.price, quantity: take })
+    remaining -= take
+  }
+
+  return { fills, remaining: Math.max(0, remaining) }
+}
+
+function averageFillPrice(levels: FillLevel[]): number {
+  const quantity = levels.reduce((sum, level) => sum + level.quantity, 0)
+  return quantity > 0 ? levels.reduce((sum, level) => sum + level.price * level.quantity, 0) / quantity : 0
+}
+
+export class PaperFillSimulator {
+  private config: FillModelConfig
+  private exchangeFees: Map<string, { makerFeeRate: number; takerFeeRate: number }> = new Map()
+
+  constructor(config: Partial<FillModelConfig> = {}) {
+    this.config = {
+      // Binance USDⓈ-M futures base tier, the same taker rate the backtest engine defaults to
+      makerFeeRate: 0.0002,
+      takerFeeRate: 0.0004,
+      useExchangeFees: true,
+      useOrderBook: true,
+      orderBookDepth: 100,
+      fallbackSlippagePercent: 0.0002,
+      latencyMs: 50,
+      latencyJitterMs: 100,
+      limitParticipationRate: 0.1,
+      ...config,
+    }
+  }
+
+  /**
+   * Update fill model settings
+   */
+  public updateConfig(config: Partial<FillModelConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  /**
+   * Get current fill model settings
+   */
+  public getConfig(): FillModelConfig {
+    return { ...this.config }
+  }
+
+  /**
+   * Fill a market order after the simulated latency by walking the opposite side of the book
+   */
+  public async executeMarketOrder(
+    symbol: string,
+    side: "BUY" | "SELL",
+    quantity: number,
+    referencePrice: number,
+  ): Promise<SimulatedFill> {
+    const latencyMs = await this.simulateLatency()
+    const { takerFeeRate } = await this.getFeeRates(symbol)
+    const orderBook = await this.fetchOrderBook(symbol)
+    const bookSide = orderBook ? (side === "BUY" ? orderBook.asks : orderBook.bids) : []
+
+    let levels: FillLevel[]
+
+    if (bookSide.length > 0) {
+      const walk = walkOrderBook(bookSide, quantity)
+      levels = walk.fills
+
+      // Market orders always complete; assume liquidity beyond the fetched depth sits at the last level
+      if (walk.remaining > 0) {
+        levels.push({ price: bookSide[bookSide.length - 1].price, quantity: walk.remaining })
+      }
+    } else {
+      const slippage = this.config.fallbackSlippagePercent
+      levels = [{ price: side === "BUY" ? referencePrice * (1 + slippage) : referencePrice * (1 - slippage), quantity }]
+    }
+
+    return this.createFill(side, "TAKER", quantity, levels, referencePrice, takerFeeRate, latencyMs)
+  }
+
+  /**
+   * Submit a limit order: the part that crosses the book fills as taker, the rest rests as maker
+   */
+  public async executeLimitOrder(
+    symbol: string,
+    side: "BUY" | "SELL",
+    quantity: number,
+    limitPrice: number,
+  ): Promise<SimulatedLimitOrder> {
+    const latencyMs = await this.simulateLatency()
+    const { takerFeeRate } = await this.getFeeRates(symbol)
+    const orderBook = await this.fetchOrderBook(symbol)
+    const bookSide = orderBook ? (side === "BUY" ? orderBook.asks : orderBook.bids) : []
+
+    const order: SimulatedLimitOrder = {
+      id: `paper_limit_${Date.now()}_${Math.random().toString(36).substring(2, 7)}`,
+      symbol,
+      side,
+      limitPrice,
+      quantity,
+      filledQuantity: 0,
+      averagePrice: 0,
+      fees: 0,
+      status: "NEW",
+      fills: [],
+    }
+
+    const { fills } = walkOrderBook(bookSide, quantity, { side, price: limitPrice })
+    if (fills.length > 0) {
+      this.applyFill(order, this.createFill(side, "TAKER", quantity, fills, limitPrice, takerFeeRate, latencyMs))
+    }
+
+    return order
+  }
+
+  /**
+   * Fill a resting limit order from a candle that traded through its price.
+   * Touching the price is not enough since the order would still be queued behind earlier ones.
+   */
+  public async fillRestingOrder(order: SimulatedLimitOrder, kline: Kline): Promise<SimulatedFill | null> {
+    if (order.status === "FILLED" || order.status === "CANCELED") {
+      return null
+    }
+
+    const tradedThrough = order.side === "BUY" ? kline.low < order.limitPrice : kline.high > order.limitPrice
+    if (!tradedThrough) {
+      return null
+    }
+
+    const remaining = order.quantity - order.filledQuantity
+    const quantity = Math.min(remaining, kline.volume * this.config.limitParticipationRate)
+    if (quantity <= 0) {
+      return null
+    }
+
+    const { makerFeeRate } = await this.getFeeRates(order.symbol)
+    const levels = [{ price: order.limitPrice, quantity }]
+    const fill = this.createFill(order.side, "MAKER", remaining, levels, order.limitPrice, makerFeeRate, 0)
+
+    this.applyFill(order, fill)
+    return fill
+  }
+
+  /**
+   * Cancel the unfilled remainder of a limit order
+   */
+  public cancelOrder(order: SimulatedLimitOrder): void {
+    if (order.status !== "FILLED") {
+      order.status = "CANCELED"
+    }
+  }
+
+  /**
+   * Maker and taker fee rates for a symbol, from the account when available
+   */
+  public async getFeeRates(symbol: string): Promise<{ makerFeeRate: number; takerFeeRate: number }> {
+    const defaults = { makerFeeRate: this.config.makerFeeRate, takerFeeRate: this.config.takerFeeRate }
+
+    if (!this.config.useExchangeFees) {
+      return defaults
+    }
+
+    const cached = this.exchangeFees.get(symbol)
+    if (cached) {
+      return cached
+    }
+
+    let rates = defaults
+    try {
+      const [fee] = await binanceAccountManager.getTradingFee(symbol)
+      if (fee) {
+        rates = {
+          makerFeeRate: Number.parseFloat(fee.makerCommission),
+          takerFeeRate: Number.parseFloat(fee.takerCommission),
+        }
+      }
+    } catch (error) {
+      // Paper trading often runs without API keys; the default rates stand in for the account's
+      errorHandler.handleError(error, {
+        context: { action: "getPaperFeeRates", symbol },
+        severity: "low",
+      })
+    }
+
+    // Cache the defaults too so a missing key doesn't cost a request per order
+    this.exchangeFees.set(symbol, rates)
+    return rates
+  }
+
+  private async fetchOrderBook(symbol: string): Promise<OrderBook | null> {
+    if (!this.config.useOrderBook) {
+      return null
+    }
+
+    const result = await enhancedMarketDataService.getOrderBook(symbol, this.config.orderBookDepth)
+    return result.data
+  }
+
+  private async simulateLatency(): Promise<number> {
+    const latencyMs = this.config.latencyMs + Math.random() * this.config.latencyJitterMs
+
+    if (latencyMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, latencyMs))
+    }
+
+    return latencyMs
+  }
+
+  private createFill(
+    side: "BUY" | "SELL",
+    liquidity: FillLiquidity,
+    requestedQuantity: number,
+    levels: FillLevel[],
+    referencePrice: number,
+    feeRate: number,
+    latencyMs: number,
+  ): SimulatedFill {
+    const filledQuantity = levels.reduce((sum, level) => sum + level.quantity, 0)
+    const averagePrice = averageFillPrice(levels)
+    const priceMove = (averagePrice - referencePrice) / referencePrice
+
+    return {
+      side,
+      liquidity,
+      requestedQuantity,
+      filledQuantity,
+      averagePrice,
+      referencePrice,
+      slippage: side === "BUY" ? priceMove : -priceMove,
+      fee: averagePrice * filledQuantity * feeRate,
+      feeRate,
+      latencyMs,
+      levels,
+      timestamp: Date.now(),
+    }
+  }
+
+  private applyFill(order: SimulatedLimitOrder, fill: SimulatedFill): void {
+    const filledQuantity = order.filledQuantity + fill.filledQuantity
+
+    order.averagePrice =
+      (order.averagePrice * order.filledQuantity + fill.averagePrice * fill.filledQuantity) / filledQuantity
+    order.filledQuantity = filledQuantity
+    order.fees += fill.fee
+    order.fills.push(fill)
+    order.status = filledQuantity >= order.quantity ? "FILLED" : "PARTIALLY_FILLED"
+  }
+}
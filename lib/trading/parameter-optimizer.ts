@@ -0,0 +1,350 @@
+/**
+ * Parameter Optimizer
+ * Grid or random search over strategy parameters, validated with walk-forward in-sample/out-of-sample splits
+ */
+import { BacktestEngine } from "./backtest-engine"
+import { ValidationError } from "../error-handling"
+import type { Kline } from "../types/market-types"
+import type { BacktestConfig, BacktestResult } from "./backtest-engine"
+import type { PerformanceSummary } from "./performance-analytics"
+import type { StrategyParameterUpdate } from "./strategies"
+
+// Either an explicit list of values or an inclusive numeric range
+export type ParameterRange = Array<number | string> | { min: number; max: number; step: number }
+
+export type ParameterSpace = Record<string, ParameterRange>
+
+export type OptimizationMetric = {
+  [K in keyof PerformanceSummary]: PerformanceSummary[K] extends number | null ? K : never
+}[keyof PerformanceSummary]
+
+export interface OptimizationObjective {
+  metric: OptimizationMetric
+  weight: number // Use a negative weight for metrics to minimize, e.g. maxDrawdownPercent
+}
+
+export interface WalkForwardConfig {
+  windows: number
+  inSampleRatio: number // Share of each window used for fitting (0.7 = 70% in-sample)
+  anchored?: boolean // Anchored windows always start in-sample at the first candle
+}
+
+export interface OptimizerConfig {
+  backtest: Omit<BacktestConfig, "strategyParameters" | "warmupCandles">
+  parameterSpace: ParameterSpace
+  baseParameters?: StrategyParameterUpdate
+  method?: "GRID" | "RANDOM"
+  maxIterations?: number // Grid size limit, or number of random samples
+  seed?: number
+  objectives?: OptimizationObjective[]
+  walkForward?: WalkForwardConfig
+  warmupCandles?: number // Candles before each segment that only feed the indicators
+  minTrades?: number // Parameter sets with fewer in-sample trades in a window score -Infinity there
+  constraint?: (params: StrategyParameterUpdate) => boolean
+}
+
+export interface WalkForwardWindow {
+  index: number
+  inSample: { start: number; end: number; startTime: number; endTime: number }
+  outOfSample: { start: number; end: number; startTime: number; endTime: number }
+}
+
+export interface WindowEvaluation {
+  window: number
+  inSampleScore: number
+  outOfSampleScore: number
+  inSample: PerformanceSummary
+  outOfSample: PerformanceSummary
+}
+
+export interface OptimizationRow {
+  rank: number
+  parameters: StrategyParameterUpdate
+  inSampleScore: number
+  outOfSampleScore: number
+  efficiency: number | null // Out-of-sample score relative to in-sample score
+  outOfSampleTrades: number
+  outOfSampleNetProfit: number
+  windows: WindowEvaluation[]
+}
+
+export interface WalkForwardStep extends WalkForwardWindow {
+  bestParameters: StrategyParameterUpdate | null
+  inSampleScore: number
+  outOfSample: WalkForwardWindow["outOfSample"] & { summary: PerformanceSummary | null }
+}
+
+export interface OptimizationResult {
+  method: "GRID" | "RANDOM"
+  objectives: OptimizationObjective[]
+  evaluated: number
+  windows: WalkForwardWindow[]
+  walkForward: WalkForwardStep[] // Out-of-sample results of the best in-sample set for each window
+  ranking: OptimizationRow[]
+  best: OptimizationRow | null
+}
+
+const DEFAULT_OBJECTIVES: OptimizationObjective[] = [{ metric: "sharpeRatio", weight: 1 }]
+
+/**
+ * Expand a parameter range into its discrete values
+ */
+export function expandRange(range: ParameterRange): Array<number | string> {
+  if (Array.isArray(range)) {
+    return [...range]
+  }
+
+  const { min, max, step } = range
+  if (!(step > 0) || max < min) {
+    throw new ValidationError("Invalid parameter range", { context: { range } })
+  }
+
+  // Round to the step's precision so float steps don't drift (0.1 + 0.2)
+  const decimals = (String(step).split(".")[1] || "").length
+  const values: number[] = []
+  for (let value = min; value <= max + step / 1e6; value += step) {
+    values.push(Number(value.toFixed(decimals)))
+  }
+  return values
+}
+
+/**
+ * Split a series into walk-forward windows. Each window's out-of-sample segment follows its
+ * in-sample segment, and consecutive out-of-sample segments tile the end of the series.
+ */
+export function createWalkForwardWindows(klines: Kline[], config: WalkForwardConfig): WalkForwardWindow[] {
+  const { windows, inSampleRatio, anchored = false } = config
+
+  if (windows < 1 || inSampleRatio <= 0 || inSampleRatio >= 1) {
+    throw new ValidationError("Invalid walk-forward configuration", { context: { ...config } })
+  }
+
+  // total = inSampleLength + windows * outOfSampleLength, with inSample : outOfSample = ratio : (1 - ratio)
+  const outOfSampleLength = Math.floor(klines.length / (windows + inSampleRatio / (1 - inSampleRatio)))
+  const inSampleLength = klines.length - windows * outOfSampleLength
+
+  if (outOfSampleLength < 1 || inSampleLength < 1) {
+    throw new ValidationError("Not enough klines for the requested walk-forward windows", {
+      context: { candles: klines.length, windows },
+    })
+  }
+
+  const segment = (start: number, end: number) => ({
+    start,
+    end,
+    startTime: klines[start].openTime,
+    endTime: klines[end - 1].closeTime,
+  })
+
+  return Array.from({ length: windows }, (_, index) => {
+    const outOfSampleStart = inSampleLength + index * outOfSampleLength
+    const inSampleStart = anchored ? 0 : index * outOfSampleLength
+    return {
+      index,
+      inSample: segment(inSampleStart, outOfSampleStart),
+      outOfSample: segment(outOfSampleStart, outOfSampleStart + outOfSampleLength),
+    }
+  })
+}
+
+/**
+ * Score a performance summary as the weighted sum of the chosen metrics
+ */
+export function scoreSummary(summary: PerformanceSummary, objectives: OptimizationObjective[]): number {
+  return objectives.reduce((score, { metric, weight }) => {
+    const value = summary[metric]
+    // Profit factor is Infinity with no losing trades; cap it so one lucky set can't dominate
+    const bounded = typeof value === "number" && Number.isFinite(value) ? value : value === Infinity ? 10 : 0
+    return score + bounded * weight
+  }, 0)
+}
+
+/**
+ * Seeded pseudo-random generator (mulberry32) so random searches are reproducible
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export class ParameterOptimizer {
+  private config: OptimizerConfig
+
+  constructor(config: OptimizerConfig) {
+    this.config = config
+  }
+
+  /**
+   * Build the parameter sets to evaluate
+   */
+  public generateCandidates(): StrategyParameterUpdate[] {
+    const { parameterSpace, method = "GRID", maxIterations = method === "GRID" ? 1000 : 50, constraint } = this.config
+    const keys = Object.keys(parameterSpace)
+    const values = keys.map((key) => expandRange(parameterSpace[key]))
+    const isAllowed = (params: StrategyParameterUpdate) => !constraint || constraint(params)
+
+    if (keys.length === 0) {
+      return [{}]
+    }
+
+    if (method === "GRID") {
+      const size = values.reduce((total, list) => total * list.length, 1)
+      if (size > maxIterations) {
+        throw new ValidationError(`Grid has ${size} combinations, more than the limit of ${maxIterations}`, {
+          context: { size, maxIterations },
+        })
+      }
+
+      let combinations: StrategyParameterUpdate[] = [{}]
+      keys.forEach((key, i) => {
+        combinations = combinations.flatMap((combination) => values[i].map((value) => ({ ...combination, [key]: value })))
+      })
+      return combinations.filter(isAllowed)
+    }
+
+    // Random search samples distinct combinations; give up after enough repeats on small spaces
+    const random = createRandom(this.config.seed ?? 42)
+    const seen = new Set<string>()
+    const candidates: StrategyParameterUpdate[] = []
+    let attempts = 0
+
+    while (candidates.length < maxIterations && attempts < maxIterations * 20) {
+      attempts++
+      const params: StrategyParameterUpdate = {}
+      keys.forEach((key, i) => {
+        params[key] = values[i][Math.floor(random() * values[i].length)]
+      })
+
+      const id = JSON.stringify(params)
+      if (seen.has(id) || !isAllowed(params)) continue
+
+      seen.add(id)
+      candidates.push(params)
+    }
+
+    return candidates
+  }
+
+  /**
+   * Run the search over a kline series (oldest first)
+   */
+  public optimize(klines: Kline[]): OptimizationResult {
+    const series = [...klines].sort((a, b) => a.openTime - b.openTime)
+    const { method = "GRID", objectives = DEFAULT_OBJECTIVES, minTrades = 5 } = this.config
+    const windows = createWalkForwardWindows(series, this.config.walkForward ?? { windows: 3, inSampleRatio: 0.7 })
+    const candidates = this.generateCandidates()
+
+    const evaluations = candidates.map((parameters) => ({
+      parameters,
+      windows: windows.map((window) => {
+        const inSample = this.backtest(series, window.inSample.start, window.inSample.end, parameters).summary
+        const outOfSample = this.backtest(series, window.outOfSample.start, window.outOfSample.end, parameters).summary
+        return {
+          window: window.index,
+          inSampleScore: inSample.totalTrades >= minTrades ? scoreSummary(inSample, objectives) : -Infinity,
+          outOfSampleScore: scoreSummary(outOfSample, objectives),
+          inSample,
+          outOfSample,
+        }
+      }),
+    }))
+
+    // Walk-forward: the set picked on each in-sample segment is judged only on the segment that follows
+    const walkForward: WalkForwardStep[] = windows.map((window) => {
+      let best: (typeof evaluations)[number] | null = null
+      let bestScore = -Infinity
+      for (const evaluation of evaluations) {
+        const score = evaluation.windows[window.index].inSampleScore
+        if (score > bestScore) {
+          best = evaluation
+          bestScore = score
+        }
+      }
+
+      return {
+        ...window,
+        bestParameters: best ? best.parameters : null,
+        inSampleScore: bestScore,
+        outOfSample: {
+          ...window.outOfSample,
+          summary: best ? best.windows[window.index].outOfSample : null,
+        },
+      }
+    })
+
+    // Rank by out-of-sample score, which rewards sets that hold up on unseen data
+    const ranking = evaluations
+      .map((evaluation) => {
+        const inSampleScore = average(evaluation.windows.map((w) => w.inSampleScore))
+        const outOfSampleScore = average(evaluation.windows.map((w) => w.outOfSampleScore))
+        return {
+          rank: 0,
+          parameters: evaluation.parameters,
+          inSampleScore,
+          outOfSampleScore,
+          efficiency: Number.isFinite(inSampleScore) && inSampleScore > 0 ? outOfSampleScore / inSampleScore : null,
+          outOfSampleTrades: evaluation.windows.reduce((sum, w) => sum + w.outOfSample.totalTrades, 0),
+          outOfSampleNetProfit: evaluation.windows.reduce((sum, w) => sum + w.outOfSample.netProfit, 0),
+          windows: evaluation.windows,
+        }
+      })
+      .filter((row) => Number.isFinite(row.inSampleScore))
+      .sort((a, b) => b.outOfSampleScore - a.outOfSampleScore || b.inSampleScore - a.inSampleScore)
+      .map((row, index) => ({ ...row, rank: index + 1 }))
+
+    return {
+      method,
+      objectives,
+      evaluated: candidates.length,
+      windows,
+      walkForward,
+      ranking,
+      best: ranking[0] || null,
+    }
+  }
+
+  /**
+   * Backtest one parameter set on series[start, end), using earlier candles as indicator warmup
+   */
+  private backtest(series: Kline[], start: number, end: number, parameters: StrategyParameterUpdate): BacktestResult {
+    const warmup = Math.min(start, this.config.warmupCandles ?? 100)
+    const engine = new BacktestEngine({
+      ...this.config.backtest,
+      strategyParameters: { ...this.config.baseParameters, ...parameters },
+      warmupCandles: warmup,
+    })
+    return engine.run(series.slice(start - warmup, end))
+  }
+}
+
+/**
+ * Format the ranking as a plain-text table
+ */
+export function formatOptimizationTable(result: OptimizationResult, limit = 20): string {
+  const keys = Array.from(new Set(result.ranking.flatMap((row) => Object.keys(row.parameters))))
+  const header = ["#", ...keys, "IS score", "OOS score", "Efficiency", "OOS trades", "OOS net"]
+  const rows = result.ranking.slice(0, limit).map((row) => [
+    String(row.rank),
+    ...keys.map((key) => String(row.parameters[key] ?? "")),
+    row.inSampleScore.toFixed(3),
+    row.outOfSampleScore.toFixed(3),
+    row.efficiency === null ? "-" : row.efficiency.toFixed(2),
+    String(row.outOfSampleTrades),
+    row.outOfSampleNetProfit.toFixed(2),
+  ])
+
+  const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)))
+  const formatLine = (cells: string[]) => cells.map((cell, i) => cell.padEnd(widths[i])).join(" | ")
+
+  return [formatLine(header), widths.map((width) => "-".repeat(width)).join("-|-"), ...rows.map(formatLine)].join("\n")
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
@@ -3,6 +3,8 @@
  * Tracks and analyzes trading performance metrics
  */
 import { errorHandler } from "../error-handling"
+import type { TradeJournalData, TradeJournalState, TradeJournalStorage } from "./journal/trade-journal-storage"
+import type { PositionSide } from "../types/binance-types"
 
 export interface Trade {
   id: string
@@ -18,6 +20,7 @@ export interface Trade {
   fees: number
   stopLoss: number | null
   takeProfit: number | null
+  positionSide?: PositionSide // LONG or SHORT for a hedge mode leg, BOTH in one-way mode
   strategy: string
   timeframe: string
   notes: string
@@ -73,6 +76,18 @@ export interface PerformanceBySymbol {
   netProfit: number
 }
 
+export interface PerformanceByLeg {
+  symbol: string
+  leg: "LONG" | "SHORT"
+  hedged: boolean // Whether any of the trades was a hedge mode leg, open alongside the opposite one
+  trades: number
+  openTrades: number
+  winRate: number
+  profitFactor: number
+  netProfit: number
+  fees: number
+}
+
 export interface PerformanceByStrategy {
   strategy: string
   trades: number
@@ -81,6 +96,11 @@ export interface PerformanceByStrategy {
   netProfit: number
 }
 
+// Position leg a trade opened: longs buy, shorts sell
+function getTradeLeg(trade: Trade): "LONG" | "SHORT" {
+  return trade.side === "BUY" ? "LONG" : "SHORT"
+}
+
 export class PerformanceAnalytics {
   private static instance: PerformanceAnalytics
   private trades: Trade[] = []
@@ -88,12 +108,22 @@ export class PerformanceAnalytics {
   private initialEquity = 10000
   private currentEquity = 10000
   private highWaterMark = 10000
-  private startDate: number = Date.now()
+  private startDate: number
+  private clock: () => number
+  private storage: TradeJournalStorage | null = null
+  private pendingWrites: Promise<void> = Promise.resolve()
+
+  /**
+   * Use getInstance() for the live tracker. Separate instances (e.g. for backtests)
+   * can pass a clock so that timestamps and per-day metrics follow simulated time.
+   */
+  constructor(clock: () => number = () => Date.now()) {
+    this.clock = clock
+    this.startDate = this.clock()
 
-  private constructor() {
     // Initialize with a starting point in the equity curve
     this.equityCurve.push({
-      timestamp: Date.now(),
+      timestamp: this.clock(),
       equity: this.initialEquity,
       drawdown: 0,
       drawdownPercent: 0,
@@ -114,17 +144,67 @@ export class PerformanceAnalytics {
     this.initialEquity = equity
     this.currentEquity = equity
     this.highWaterMark = equity
-    this.startDate = Date.now()
+    this.startDate = this.clock()
 
     // Reset equity curve
     this.equityCurve = [
       {
-        timestamp: Date.now(),
+        timestamp: this.clock(),
         equity,
         drawdown: 0,
         drawdownPercent: 0,
       },
     ]
+
+    this.persistSnapshot()
+  }
+
+  /**
+   * Attach journal storage; with reload, the stored journal replaces the in-memory state
+   */
+  public async attachStorage(storage: TradeJournalStorage, options: { reload?: boolean } = {}): Promise<boolean> {
+    const { reload = true } = options
+
+    try {
+      const data = reload ? await storage.load() : null
+      this.storage = storage
+
+      if (data) {
+        this.trades = data.trades
+        this.equityCurve = data.equityCurve
+        this.initialEquity = data.state.initialEquity
+        this.currentEquity = data.state.currentEquity
+        this.highWaterMark = data.state.highWaterMark
+        this.startDate = data.state.startDate
+      } else {
+        // Nothing stored yet, so seed the journal with what is already in memory
+        this.persistSnapshot()
+      }
+
+      return true
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: { action: "attachJournalStorage" },
+        severity: "medium",
+      })
+
+      return false
+    }
+  }
+
+  /**
+   * Stop persisting changes; resolves once pending writes have finished
+   */
+  public async detachStorage(): Promise<void> {
+    this.storage = null
+    await this.pendingWrites
+  }
+
+  /**
+   * Wait for all pending journal writes
+   */
+  public flush(): Promise<void> {
+    return this.pendingWrites
   }
 
   /**
@@ -145,10 +225,13 @@ export class PerformanceAnalytics {
       this.trades.push(fullTrade)
 
       // Update equity if the trade is closed
-      if (fullTrade.exitPrice !== null && fullTrade.pnl !== null) {
-        this.updateEquity(fullTrade.exitTime || Date.now(), fullTrade.pnl)
+      const closed = fullTrade.exitPrice !== null && fullTrade.pnl !== null
+      if (closed) {
+        this.updateEquity(fullTrade.exitTime || this.clock(), fullTrade.pnl as number)
       }
 
+      this.persistTrade(fullTrade, closed)
+
       return id
     } catch (error) {
       errorHandler.handleError(error, {
@@ -175,13 +258,16 @@ export class PerformanceAnalytics {
       const updatedTrade = { ...oldTrade, ...updates }
 
       // If the trade was previously open and is now closed, update equity
-      if (oldTrade.exitPrice === null && updatedTrade.exitPrice !== null && updatedTrade.pnl !== null) {
-        this.updateEquity(updatedTrade.exitTime || Date.now(), updatedTrade.pnl)
+      const closed = oldTrade.exitPrice === null && updatedTrade.exitPrice !== null && updatedTrade.pnl !== null
+      if (closed) {
+        this.updateEquity(updatedTrade.exitTime || this.clock(), updatedTrade.pnl as number)
       }
 
       // Update the trade
       this.trades[index] = updatedTrade
 
+      this.persistTrade(updatedTrade, closed)
+
       return true
     } catch (error) {
       errorHandler.handleError(error, {
@@ -341,7 +427,7 @@ export class PerformanceAnalytics {
       }
 
       // Calculate trades per day and profit per day
-      const tradingDays = Math.max(1, (Date.now() - this.startDate) / (1000 * 60 * 60 * 24))
+      const tradingDays = Math.max(1, (this.clock() - this.startDate) / (1000 * 60 * 60 * 24))
       const tradesPerDay = totalTrades / tradingDays
       const profitPerDay = netProfit / tradingDays
 
@@ -553,6 +639,41 @@ export class PerformanceAnalytics {
     })
   }
 
+  /**
+   * Get performance breakdown by symbol and position leg, so hedge mode longs and shorts are measured separately
+   */
+  public getPerformanceByLeg(): PerformanceByLeg[] {
+    const legs = new Map<string, Trade[]>()
+    this.trades.forEach((trade) => {
+      const key = `${trade.symbol}:${getTradeLeg(trade)}`
+      legs.set(key, [...(legs.get(key) || []), trade])
+    })
+
+    return Array.from(legs.values()).map((legTrades) => {
+      const closedTrades = legTrades.filter((t) => t.exitPrice !== null)
+      const totalTrades = closedTrades.length
+      const winningTrades = closedTrades.filter((t) => (t.pnl || 0) > 0).length
+      const winRate = totalTrades > 0 ? winningTrades / totalTrades : 0
+
+      const grossProfit = closedTrades.reduce((sum, trade) => sum + Math.max(0, trade.pnl || 0), 0)
+      const grossLoss = Math.abs(closedTrades.reduce((sum, trade) => sum + Math.min(0, trade.pnl || 0), 0))
+      const netProfit = grossProfit - grossLoss
+      const profitFactor = grossLoss > 0 ? grossProfit / grossLoss : grossProfit > 0 ? Number.POSITIVE_INFINITY : 0
+
+      return {
+        symbol: legTrades[0].symbol,
+        leg: getTradeLeg(legTrades[0]),
+        hedged: legTrades.some((t) => t.positionSide === "LONG" || t.positionSide === "SHORT"),
+        trades: totalTrades,
+        openTrades: legTrades.length - totalTrades,
+        winRate,
+        profitFactor,
+        netProfit,
+        fees: closedTrades.reduce((sum, trade) => sum + trade.fees, 0),
+      }
+    })
+  }
+
   /**
    * Get performance breakdown by strategy
    */
@@ -628,6 +749,8 @@ export class PerformanceAnalytics {
       this.highWaterMark = data.highWaterMark
       this.startDate = data.startDate
 
+      this.persistSnapshot()
+
       return true
     } catch (error) {
       errorHandler.handleError(error, {
@@ -646,7 +769,7 @@ export class PerformanceAnalytics {
     this.trades = []
     this.equityCurve = [
       {
-        timestamp: Date.now(),
+        timestamp: this.clock(),
         equity: this.initialEquity,
         drawdown: 0,
         drawdownPercent: 0,
@@ -654,7 +777,67 @@ export class PerformanceAnalytics {
     ]
     this.currentEquity = this.initialEquity
     this.highWaterMark = this.initialEquity
-    this.startDate = Date.now()
+    this.startDate = this.clock()
+
+    this.persistSnapshot()
+  }
+
+  /**
+   * Save a trade and, when it moved equity, the new equity point and state
+   */
+  private persistTrade(trade: Trade, equityChanged: boolean): void {
+    const point = this.equityCurve[this.equityCurve.length - 1]
+    const state = this.getJournalState()
+
+    this.persist("saveTrade", async (storage) => {
+      await storage.saveTrade(trade)
+      if (equityChanged) {
+        await storage.appendEquityPoint(point)
+        await storage.saveState(state)
+      }
+    })
+  }
+
+  /**
+   * Replace the stored journal with the current state
+   */
+  private persistSnapshot(): void {
+    const data = this.getJournalData()
+    this.persist("replaceAll", (storage) => storage.replaceAll(data))
+  }
+
+  // Writes are chained so the journal sees changes in the order they happened
+  private persist(operation: string, write: (storage: TradeJournalStorage) => Promise<void>): void {
+    const storage = this.storage
+    if (!storage) {
+      return
+    }
+
+    this.pendingWrites = this.pendingWrites
+      .then(() => write(storage))
+      .catch((error) => {
+        errorHandler.handleError(error, {
+          context: { action: "persistTradeJournal", operation },
+          severity: "medium",
+        })
+      })
+  }
+
+  private getJournalState(): TradeJournalState {
+    return {
+      initialEquity: this.initialEquity,
+      currentEquity: this.currentEquity,
+      highWaterMark: this.highWaterMark,
+      startDate: this.startDate,
+    }
+  }
+
+  private getJournalData(): TradeJournalData {
+    return {
+      trades: [...this.trades],
+      equityCurve: [...this.equityCurve],
+      state: this.getJournalState(),
+    }
   }
 }
 
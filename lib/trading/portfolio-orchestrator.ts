@@ -0,0 +1,238 @@
+/**
+ * Portfolio Orchestrator
+ * Runs one TradingService per symbol against the shared RiskManager portfolio limits
+ */
+import { TradingService } from "./trading-service"
+import { riskManager } from "./risk-manager"
+import { errorHandler, ValidationError } from "../error-handling"
+import type { TradingServiceConfig, TradingServiceState } from "./trading-service"
+import type { CorrelationSettings, PortfolioPosition, PortfolioStats, RiskParameters } from "./risk-manager"
+import type { CorrelationMatrix } from "./correlation-matrix"
+
+// Risk management is always on for portfolio services; it is how entries reach the portfolio checks
+export type PortfolioServiceDefaults = Partial<Omit<TradingServiceConfig, "symbol" | "enableRiskManagement">>
+
+export interface PortfolioSymbolConfig extends PortfolioServiceDefaults {
+  symbol: string
+  sector?: string
+}
+
+export interface PortfolioCorrelation {
+  symbols: [string, string]
+  correlation: number
+}
+
+export interface PortfolioOrchestratorConfig {
+  symbols: PortfolioSymbolConfig[]
+  defaults?: PortfolioServiceDefaults
+  // Total paper equity, split evenly across the configured symbols without their own balance; symbols added later
+  // get the same share
+  accountBalance?: number
+  correlations?: PortfolioCorrelation[] // Fixed correlations; replaced by computed ones once they are available
+  correlationSettings?: Partial<CorrelationSettings>
+  riskParameters?: Partial<RiskParameters>
+}
+
+export interface PortfolioState {
+  isActive: boolean
+  symbols: string[]
+  services: TradingServiceState[]
+  openPositions: PortfolioPosition[]
+  sectorExposures: Record<string, number>
+  correlations: CorrelationMatrix | null
+  portfolioStats: PortfolioStats
+  maxOpenPositions: number
+  totalBalance: number
+  totalPnl: number
+  winCount: number
+  lossCount: number
+  winRate: number
+}
+
+export class PortfolioOrchestrator {
+  private services: Map<string, TradingService> = new Map()
+  private defaults: PortfolioServiceDefaults
+  private defaultAllocation: number
+  private isActive = false
+
+  constructor(config: PortfolioOrchestratorConfig) {
+    this.defaults = config.defaults || {}
+    const unallocated = config.symbols.filter((symbolConfig) => symbolConfig.accountBalance === undefined)
+    this.defaultAllocation = (config.accountBalance || 10000) / Math.max(1, unallocated.length)
+
+    if (config.riskParameters) {
+      riskManager.updateParameters(config.riskParameters)
+    }
+
+    if (config.correlationSettings) {
+      riskManager.updateCorrelationSettings(config.correlationSettings)
+    }
+
+    config.correlations?.forEach(({ symbols: [symbolA, symbolB], correlation }) => {
+      riskManager.setCorrelation(symbolA, symbolB, correlation)
+    })
+
+    config.symbols.forEach((symbolConfig) => this.addSymbol(symbolConfig))
+  }
+
+  /**
+   * Add a symbol to the portfolio and create its trading service
+   */
+  public addSymbol(symbolConfig: PortfolioSymbolConfig): TradingService {
+    const { symbol, sector, ...overrides } = symbolConfig
+
+    if (this.services.has(symbol)) {
+      throw new ValidationError(`Symbol ${symbol} is already part of the portfolio`, {
+        context: { symbol },
+      })
+    }
+
+    if (sector) {
+      riskManager.setSymbolSector(symbol, sector)
+    }
+
+    const service = new TradingService({
+      timeframe: "5m",
+      strategyType: "SCALPING",
+      ...this.defaults,
+      ...overrides,
+      symbol,
+      accountBalance: overrides.accountBalance ?? this.defaults.accountBalance ?? this.defaultAllocation,
+      enableRiskManagement: true,
+    })
+
+    this.services.set(symbol, service)
+    return service
+  }
+
+  /**
+   * Stop and remove a symbol from the portfolio
+   */
+  public removeSymbol(symbol: string): boolean {
+    const service = this.services.get(symbol)
+    if (!service) {
+      return false
+    }
+
+    if (service.getState().activePosition) {
+      throw new ValidationError(`Cannot remove ${symbol} while it has an open position`, {
+        context: { symbol },
+      })
+    }
+
+    service.stop()
+    this.services.delete(symbol)
+
+    if (this.isActive) {
+      riskManager.startCorrelationUpdates(this.getSymbols())
+    }
+    return true
+  }
+
+  /**
+   * Get the trading service for a symbol
+   */
+  public getService(symbol: string): TradingService | undefined {
+    return this.services.get(symbol)
+  }
+
+  /**
+   * Get all symbols in the portfolio
+   */
+  public getSymbols(): string[] {
+    return Array.from(this.services.keys())
+  }
+
+  /**
+   * Update correlations used by the portfolio entry checks
+   */
+  public updateCorrelations(correlations: PortfolioCorrelation[]): void {
+    correlations.forEach(({ symbols: [symbolA, symbolB], correlation }) => {
+      riskManager.setCorrelation(symbolA, symbolB, correlation)
+    })
+  }
+
+  /**
+   * Start every trading service; returns the start result per symbol
+   */
+  public async start(): Promise<Record<string, boolean>> {
+    await this.refreshEquity()
+
+    const results: Record<string, boolean> = {}
+
+    // Start sequentially so the initial kline requests don't burst the rate limiter
+    for (const [symbol, service] of this.services) {
+      results[symbol] = await service.start()
+    }
+
+    this.isActive = Object.values(results).some(Boolean)
+
+    // Keep correlations between the portfolio symbols current while trading
+    if (this.isActive) {
+      riskManager.startCorrelationUpdates(this.getSymbols())
+    }
+    return results
+  }
+
+  /**
+   * Stop every trading service
+   */
+  public stop(): void {
+    this.services.forEach((service) => service.stop())
+    riskManager.stopCorrelationUpdates()
+    this.isActive = false
+  }
+
+  /**
+   * Get aggregated portfolio state for the dashboard
+   */
+  public getState(): PortfolioState {
+    const services = Array.from(this.services.values()).map((service) => service.getState())
+    const winCount = services.reduce((sum, state) => sum + state.pnl.winCount, 0)
+    const lossCount = services.reduce((sum, state) => sum + state.pnl.lossCount, 0)
+
+    return {
+      isActive: this.isActive,
+      symbols: this.getSymbols(),
+      services,
+      openPositions: riskManager.getOpenPositions(),
+      sectorExposures: riskManager.getSectorExposures(),
+      correlations: riskManager.getCorrelationMatrix(),
+      portfolioStats: riskManager.getPortfolioStats(),
+      maxOpenPositions: riskManager.getParameters().maxOpenPositions,
+      totalBalance: this.getTotalBalance(services),
+      totalPnl: services.reduce((sum, state) => sum + state.pnl.totalPnl, 0),
+      winCount,
+      lossCount,
+      winRate: winCount + lossCount > 0 ? winCount / (winCount + lossCount) : 0,
+    }
+  }
+
+  /**
+   * Set portfolio equity from the paper balances in paper mode, or the exchange account otherwise.
+   * Paper balances change as positions close, so call this to bring the risk manager's equity up to date.
+   */
+  public async refreshEquity(): Promise<void> {
+    try {
+      if (this.isPaperTrading()) {
+        const services = Array.from(this.services.values()).map((service) => service.getState())
+        riskManager.setTotalEquity(this.getTotalBalance(services))
+      } else {
+        await riskManager.updatePortfolioStats()
+      }
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: { action: "refreshPortfolioEquity", symbols: this.getSymbols() },
+        severity: "medium",
+      })
+    }
+  }
+
+  private isPaperTrading(): boolean {
+    return Array.from(this.services.values()).every((service) => service.getState().isPaperTrading)
+  }
+
+  private getTotalBalance(services: TradingServiceState[]): number {
+    return services.reduce((sum, state) => sum + state.accountBalance, 0)
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Position Reconciler
+ * Compares the locally tracked position with the position and open exit orders on the exchange
+ */
+import { parseBracketClientOrderId } from "../binance/bracket-order-manager"
+import type { OrderStatus, PositionRisk, PositionSide } from "../types/binance-types"
+
+export type PositionMismatchType =
+  | "UNTRACKED_POSITION" // Open on the exchange, unknown locally
+  | "POSITION_CLOSED" // Tracked locally, flat on the exchange
+  | "DIRECTION"
+  | "QUANTITY"
+  | "ENTRY_PRICE"
+  | "STOP_LOSS"
+  | "TAKE_PROFIT"
+  | "MISSING_STOP_LOSS"
+  | "MISSING_TAKE_PROFIT"
+
+export interface PositionMismatch {
+  type: PositionMismatchType
+  message: string
+}
+
+export interface LocalPositionSnapshot {
+  type: "LONG" | "SHORT"
+  quantity: number
+  entryPrice: number
+  stopLoss: number
+  takeProfit: number
+}
+
+export interface ExchangeExitOrder {
+  orderId: number
+  clientOrderId: string
+  price: number // Trigger price
+  quantity: number
+  bracketId: string | null
+}
+
+export interface ExchangePosition {
+  type: "LONG" | "SHORT"
+  quantity: number
+  entryPrice: number
+  markPrice: number
+  positionSide: PositionSide
+  stopLoss: ExchangeExitOrder | null
+  takeProfit: ExchangeExitOrder | null
+  exitOrders: ExchangeExitOrder[] // Every open order that would close part of the position
+}
+
+export interface PositionReconciliation {
+  symbol: string
+  position: ExchangePosition | null // null when the exchange has no position
+  mismatches: PositionMismatch[]
+  checkedAt: number
+}
+
+const STOP_ORDER_TYPES = ["STOP", "STOP_MARKET", "TRAILING_STOP_MARKET"]
+const TAKE_PROFIT_ORDER_TYPES = ["TAKE_PROFIT", "TAKE_PROFIT_MARKET"]
+
+// Relative differences below these count as equal; prices allow for tick rounding and average fills
+const QUANTITY_TOLERANCE = 1e-6
+const PRICE_TOLERANCE = 1e-4
+
+/**
+ * Read the position of a symbol and its stop loss and take profit from the exchange, and list where the local
+ * position differs from it
+ */
+export function reconcilePosition(
+  symbol: string,
+  local: LocalPositionSnapshot | null,
+  positions: PositionRisk[],
+  openOrders: OrderStatus[],
+  checkedAt: number = Date.now(),
+): PositionReconciliation {
+  const position = readExchangePosition(symbol, positions, openOrders)
+  const mismatches: PositionMismatch[] = []
+
+  if (!position) {
+    if (local) {
+      mismatches.push({
+        type: "POSITION_CLOSED",
+        message: `Local ${local.type} position of ${local.quantity} ${symbol} is closed on the exchange`,
+      })
+    }
+    return { symbol, position, mismatches, checkedAt }
+  }
+
+  if (!local) {
+    mismatches.push({
+      type: "UNTRACKED_POSITION",
+      message: `Exchange holds an untracked ${position.type} position of ${position.quantity} ${symbol}`,
+    })
+  } else if (local.type !== position.type) {
+    mismatches.push({
+      type: "DIRECTION",
+      message: `Local position is ${local.type} but the exchange position is ${position.type}`,
+    })
+  } else {
+    if (differs(local.quantity, position.quantity, QUANTITY_TOLERANCE)) {
+      mismatches.push({
+        type: "QUANTITY",
+        message: `Local quantity ${local.quantity} differs from exchange quantity ${position.quantity}`,
+      })
+    }
+    if (differs(local.entryPrice, position.entryPrice, PRICE_TOLERANCE)) {
+      mismatches.push({
+        type: "ENTRY_PRICE",
+        message: `Local entry price ${local.entryPrice} differs from exchange entry price ${position.entryPrice}`,
+      })
+    }
+    if (position.stopLoss && differs(local.stopLoss, position.stopLoss.price, PRICE_TOLERANCE)) {
+      mismatches.push({
+        type: "STOP_LOSS",
+        message: `Local stop loss ${local.stopLoss} differs from the exchange stop at ${position.stopLoss.price}`,
+      })
+    }
+    if (position.takeProfit && differs(local.takeProfit, position.takeProfit.price, PRICE_TOLERANCE)) {
+      mismatches.push({
+        type: "TAKE_PROFIT",
+        message: `Local take profit ${local.takeProfit} differs from the exchange one at ${position.takeProfit.price}`,
+      })
+    }
+  }
+
+  if (!position.stopLoss) {
+    mismatches.push({ type: "MISSING_STOP_LOSS", message: `No stop loss order protects the ${symbol} position` })
+  }
+  if (!position.takeProfit) {
+    mismatches.push({ type: "MISSING_TAKE_PROFIT", message: `No take profit order for the ${symbol} position` })
+  }
+
+  return { symbol, position, mismatches, checkedAt }
+}
+
+// The open position of a symbol with the exit orders that belong to it; null when flat
+function readExchangePosition(
+  symbol: string,
+  positions: PositionRisk[],
+  openOrders: OrderStatus[],
+): ExchangePosition | null {
+  const risk = positions.find((p) => p.symbol === symbol && Number.parseFloat(p.positionAmt) !== 0)
+  if (!risk) {
+    return null
+  }
+
+  const amount = Number.parseFloat(risk.positionAmt)
+  const type = amount > 0 ? "LONG" : "SHORT"
+  const positionSide = risk.positionSide ?? "BOTH"
+  const exitOrders = openOrders.filter(
+    (order) =>
+      order.symbol === symbol &&
+      order.side === (type === "LONG" ? "SELL" : "BUY") &&
+      (order.positionSide ?? "BOTH") === positionSide &&
+      [...STOP_ORDER_TYPES, ...TAKE_PROFIT_ORDER_TYPES].includes(order.type),
+  )
+
+  return {
+    type,
+    quantity: Math.abs(amount),
+    entryPrice: Number.parseFloat(risk.entryPrice),
+    markPrice: Number.parseFloat(risk.markPrice),
+    positionSide,
+    stopLoss: pickExitOrder(exitOrders.filter((order) => STOP_ORDER_TYPES.includes(order.type))),
+    takeProfit: pickExitOrder(exitOrders.filter((order) => TAKE_PROFIT_ORDER_TYPES.includes(order.type))),
+    exitOrders: exitOrders.map(toExitOrder),
+  }
+}
+
+// Of several orders for the same exit, the latest bracket revision wins, then the most recently updated order
+function pickExitOrder(orders: OrderStatus[]): ExchangeExitOrder | null {
+  const revision = (order: OrderStatus) => parseBracketClientOrderId(order.clientOrderId)?.revision ?? 0
+  const [latest] = [...orders].sort((a, b) => revision(b) - revision(a) || b.updateTime - a.updateTime)
+  return latest ? toExitOrder(latest) : null
+}
+
+function toExitOrder(order: OrderStatus): ExchangeExitOrder {
+  return {
+    orderId: order.orderId,
+    clientOrderId: order.clientOrderId,
+    price: Number(order.stopPrice) || Number(order.price),
+    quantity: Number.parseFloat(order.origQty) - Number.parseFloat(order.executedQty),
+    bracketId: parseBracketClientOrderId(order.clientOrderId)?.bracketId ?? null,
+  }
+}
+
+function differs(a: number, b: number, tolerance: number): boolean {
+  return Math.abs(a - b) > Math.max(Math.abs(a), Math.abs(b)) * tolerance
+}
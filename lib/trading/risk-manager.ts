@@ -3,9 +3,15 @@
  * Provides comprehensive risk management for trading strategies
  */
 import { errorHandler } from "../error-handling"
+import { AppError } from "../error-handling/error-types"
 import { binanceApiService } from "../binance/binance-api-service"
-import { calculateATR } from "../utils/technical-indicators"
+import { binanceUserDataStream } from "../binance/user-data-stream"
+import { calculateATR } from "../indicators"
+import { parseTimeframe } from "../market/kline-resampler"
+import { calculateCorrelationMatrix, deriveSectorTags } from "./correlation-matrix"
+import type { CorrelationMatrix } from "./correlation-matrix"
 import type { Kline } from "../market/interfaces"
+import type { AccountUpdate, MarginCall, PositionSide, UserDataEvent } from "../types/binance-types"
 
 export interface RiskParameters {
   // Account risk parameters
@@ -70,6 +76,35 @@ export interface PortfolioStats {
   highestDailyEquity: number
 }
 
+export interface PortfolioPosition {
+  symbol: string
+  side: "LONG" | "SHORT"
+  positionSide: PositionSide // LONG or SHORT for a hedge mode leg, BOTH in one-way mode
+  notional: number // Position value in quote currency
+  sector: string
+  openedAt: number
+}
+
+export interface PortfolioEntryCheck {
+  allowed: boolean
+  reason: string | null
+  correlatedWith?: string
+  correlation?: number
+}
+
+export interface CorrelationSettings {
+  interval: string // Kline interval the returns are computed on
+  lookbackPeriods: number // Returns per correlation
+  refreshIntervalMs: number // How often tracked correlations are recomputed
+  autoSectorTags: boolean // Tag symbols without a configured sector by correlation clusters
+  sectorCorrelationThreshold: number // Correlation that puts two symbols in the same derived sector
+}
+
+// Positions are kept per symbol, and per leg in hedge mode
+function getPositionKey(symbol: string, positionSide: PositionSide = "BOTH"): string {
+  return positionSide === "BOTH" ? symbol : `${symbol}:${positionSide}`
+}
+
 export class RiskManager {
   private static instance: RiskManager
   private parameters: RiskParameters
@@ -77,8 +112,19 @@ export class RiskManager {
   private positionCorrelations: Map<string, Map<string, number>> = new Map()
   private sectorExposures: Map<string, number> = new Map()
   private symbolSectors: Map<string, string> = new Map()
+  private configuredSectors: Set<string> = new Set()
+  private correlationSettings: CorrelationSettings
+  private correlationMatrix: CorrelationMatrix | null = null
+  private correlationSymbols: string[] = []
+  private correlationTimer: ReturnType<typeof setInterval> | null = null
+  private correlationCallbacks: Set<(matrix: CorrelationMatrix) => void> = new Set()
+  private openPositions: Map<string, PortfolioPosition> = new Map()
   private dailyTrades: { symbol: string; entryTime: number; exitTime: number | null; pnl: number }[] = []
   private volatilityCache: Map<string, { atr: number; timestamp: number }> = new Map()
+  private walletBalance = 0
+  private accountPositions: Map<string, { amount: number; entryPrice: number; unrealizedPnl: number }> = new Map()
+  private portfolioStatsCallbacks: Set<(stats: PortfolioStats) => void> = new Set()
+  private unsubscribeUserData: (() => void) | null = null
 
   private constructor() {
     // Default risk parameters
@@ -117,6 +163,14 @@ export class RiskManager {
       highestDailyEquity: 0,
     }
 
+    this.correlationSettings = {
+      interval: "1h",
+      lookbackPeriods: 168, // One week of hourly returns
+      refreshIntervalMs: 60 * 60 * 1000,
+      autoSectorTags: false,
+      sectorCorrelationThreshold: 0.8,
+    }
+
     // Initialize symbol sectors (example mapping)
     this.symbolSectors.set("BTCUSDT", "CRYPTO_MAJOR")
     this.symbolSectors.set("ETHUSDT", "CRYPTO_MAJOR")
@@ -193,7 +247,6 @@ export class RiskManager {
 
       // Calculate total equity
       let totalEquity = 0
-      let allocatedEquity = 0
 
       // Sum up all balances
       accountInfo.balances.forEach((balance) => {
@@ -202,31 +255,21 @@ export class RiskManager {
         }
       })
 
-      // Count open positions
-      let openPositions = 0
+      // Keep open positions so account updates from the user data stream can be applied on top
+      this.accountPositions.clear()
       positions.forEach((position) => {
         const positionAmt = Number.parseFloat(position.positionAmt)
         if (positionAmt !== 0) {
-          openPositions++
-          const positionValue = Math.abs(positionAmt * Number.parseFloat(position.entryPrice))
-          allocatedEquity += positionValue
+          this.accountPositions.set(getPositionKey(position.symbol, position.positionSide), {
+            amount: positionAmt,
+            entryPrice: Number.parseFloat(position.entryPrice),
+            unrealizedPnl: Number.parseFloat(position.unRealizedProfit) || 0,
+          })
         }
       })
 
-      // Update portfolio stats
-      this.portfolioStats.totalEquity = totalEquity
-      this.portfolioStats.allocatedEquity = allocatedEquity
-      this.portfolioStats.availableEquity = totalEquity - allocatedEquity
-      this.portfolioStats.openPositions = openPositions
-
-      // Update highest daily equity if needed
-      if (totalEquity > this.portfolioStats.highestDailyEquity) {
-        this.portfolioStats.highestDailyEquity = totalEquity
-      }
-
-      // Calculate daily drawdown
-      const currentDrawdown = 1 - totalEquity / this.portfolioStats.highestDailyEquity
-      this.portfolioStats.dailyDrawdown = Math.max(this.portfolioStats.dailyDrawdown, currentDrawdown)
+      this.walletBalance = totalEquity - this.getUnrealizedPnl()
+      this.applyAccountState()
     } catch (error) {
       errorHandler.handleError(error, {
         context: { action: "updatePortfolioStats" },
@@ -235,6 +278,111 @@ export class RiskManager {
     }
   }
 
+  /**
+   * Keep portfolio statistics current from the user data stream instead of polling the account
+   */
+  public trackAccountUpdates(): void {
+    if (this.unsubscribeUserData) {
+      return
+    }
+
+    this.unsubscribeUserData = binanceUserDataStream.subscribe((event: UserDataEvent) => {
+      if (event.eventType === "ACCOUNT_UPDATE") {
+        this.applyAccountUpdate(event)
+      } else if (event.eventType === "MARGIN_CALL") {
+        this.handleMarginCall(event)
+      }
+    })
+  }
+
+  /**
+   * Apply a balance and position update; only the assets and positions it lists have changed
+   */
+  public applyAccountUpdate(update: AccountUpdate): void {
+    const balance = update.balances.find((item) => item.asset === "USDT")
+    if (balance) {
+      this.walletBalance = balance.walletBalance
+    }
+
+    update.positions.forEach((position) => {
+      const key = getPositionKey(position.symbol, position.positionSide)
+      if (position.positionAmount === 0) {
+        this.accountPositions.delete(key)
+      } else {
+        this.accountPositions.set(key, {
+          amount: position.positionAmount,
+          entryPrice: position.entryPrice,
+          unrealizedPnl: position.unrealizedPnl,
+        })
+      }
+    })
+
+    this.applyAccountState()
+  }
+
+  /**
+   * Register a callback for portfolio statistics changes
+   */
+  public onPortfolioStatsChange(callback: (stats: PortfolioStats) => void): () => void {
+    this.portfolioStatsCallbacks.add(callback)
+    return () => {
+      this.portfolioStatsCallbacks.delete(callback)
+    }
+  }
+
+  // Recompute equity, allocation and drawdown from the wallet balance and open positions
+  private applyAccountState(): void {
+    const totalEquity = this.walletBalance + this.getUnrealizedPnl()
+    let allocatedEquity = 0
+
+    this.accountPositions.forEach((position) => {
+      allocatedEquity += Math.abs(position.amount * position.entryPrice)
+    })
+
+    // Update portfolio stats
+    this.portfolioStats.totalEquity = totalEquity
+    this.portfolioStats.allocatedEquity = allocatedEquity
+    this.portfolioStats.availableEquity = totalEquity - allocatedEquity
+    this.portfolioStats.openPositions = this.accountPositions.size
+    this.refreshSectorExposures()
+
+    // Update highest daily equity if needed
+    if (totalEquity > this.portfolioStats.highestDailyEquity) {
+      this.portfolioStats.highestDailyEquity = totalEquity
+    }
+
+    // Calculate daily drawdown
+    const currentDrawdown = 1 - totalEquity / this.portfolioStats.highestDailyEquity
+    this.portfolioStats.dailyDrawdown = Math.max(this.portfolioStats.dailyDrawdown, currentDrawdown)
+
+    const stats = this.getPortfolioStats()
+    this.portfolioStatsCallbacks.forEach((callback) => callback(stats))
+  }
+
+  private getUnrealizedPnl(): number {
+    let unrealizedPnl = 0
+    this.accountPositions.forEach((position) => {
+      unrealizedPnl += position.unrealizedPnl
+    })
+    return unrealizedPnl
+  }
+
+  private handleMarginCall(marginCall: MarginCall): void {
+    const symbols = marginCall.positions.map((position) => position.symbol)
+
+    errorHandler.handleError(
+      new AppError(`Margin call for ${symbols.join(", ")}`, {
+        code: "MARGIN_CALL",
+        severity: "critical",
+        context: { crossWalletBalance: marginCall.crossWalletBalance, positions: marginCall.positions },
+      }),
+      {
+        context: { action: "marginCall", symbols },
+        severity: "critical",
+      },
+    )
+  }
+
   /**
    * Get current portfolio statistics
    */
@@ -345,7 +493,7 @@ export class RiskManager {
     }
 
     // Calculate new ATR
-    if (klines.length >= this.parameters.volatilityLookbackPeriod) {
+    if (klines.length > this.parameters.volatilityLookbackPeriod) {
       const highs = klines.map((k) => (typeof k.high === "number" ? k.high : Number.parseFloat(k.high as string)))
       const lows = klines.map((k) => (typeof k.low === "number" ? k.low : Number.parseFloat(k.low as string)))
       const closes = klines.map((k) => (typeof k.close === "number" ? k.close : Number.parseFloat(k.close as string)))
@@ -389,7 +537,7 @@ export class RiskManager {
    */
   private calculatePortfolioAdjustment(symbol: string): number {
     // Check number of open positions
-    if (this.portfolioStats.openPositions >= this.parameters.maxOpenPositions) {
+    if (this.getOpenPositionCount() >= this.parameters.maxOpenPositions) {
       return 0 // No more positions allowed
     }
 
@@ -412,11 +560,10 @@ export class RiskManager {
 
       symbolCorrelations.forEach((correlation, otherSymbol) => {
         // Check if we have an open position in the correlated symbol
-        // This would require tracking open positions by symbol
-        const hasOpenPosition = false // Placeholder
+        const hasOpenPosition = this.getSymbolPositions(otherSymbol).length > 0
 
-        if (hasOpenPosition && correlation > highestCorrelation) {
-          highestCorrelation = correlation
+        if (hasOpenPosition && Math.abs(correlation) > highestCorrelation) {
+          highestCorrelation = Math.abs(correlation)
         }
       })
 
@@ -466,10 +613,384 @@ export class RiskManager {
     return Math.max(0, Math.min(1, confidence))
   }
 
+  /**
+   * Set total equity directly, for paper trading where there is no exchange account to query
+   */
+  public setTotalEquity(totalEquity: number): void {
+    this.portfolioStats.totalEquity = totalEquity
+    this.portfolioStats.availableEquity = totalEquity - this.portfolioStats.allocatedEquity
+    this.portfolioStats.highestDailyEquity = Math.max(this.portfolioStats.highestDailyEquity, totalEquity)
+    this.refreshSectorExposures()
+  }
+
+  /**
+   * Assign a symbol to a sector for exposure limits
+   */
+  public setSymbolSector(symbol: string, sector: string): void {
+    this.symbolSectors.set(symbol, sector)
+    this.configuredSectors.add(symbol)
+    this.refreshSectorExposures()
+  }
+
+  /**
+   * Get the sector of a symbol
+   */
+  public getSymbolSector(symbol: string): string {
+    return this.symbolSectors.get(symbol) || "UNKNOWN"
+  }
+
+  /**
+   * Set the return correlation between two symbols (-1 to 1)
+   */
+  public setCorrelation(symbolA: string, symbolB: string, correlation: number): void {
+    if (symbolA === symbolB) return
+
+    if (!this.positionCorrelations.has(symbolA)) this.positionCorrelations.set(symbolA, new Map())
+    if (!this.positionCorrelations.has(symbolB)) this.positionCorrelations.set(symbolB, new Map())
+
+    this.positionCorrelations.get(symbolA)!.set(symbolB, correlation)
+    this.positionCorrelations.get(symbolB)!.set(symbolA, correlation)
+  }
+
+  /**
+   * Get the correlation between two symbols, or null if unknown
+   */
+  public getCorrelation(symbolA: string, symbolB: string): number | null {
+    return this.positionCorrelations.get(symbolA)?.get(symbolB) ?? null
+  }
+
+  /**
+   * Update how correlations are computed and refreshed
+   */
+  public updateCorrelationSettings(settings: Partial<CorrelationSettings>): void {
+    this.correlationSettings = { ...this.correlationSettings, ...settings }
+
+    // Restart the schedule so a new refresh interval takes effect
+    if (this.correlationTimer) {
+      this.startCorrelationUpdates(this.correlationSymbols)
+    }
+  }
+
+  /**
+   * Get correlation settings
+   */
+  public getCorrelationSettings(): CorrelationSettings {
+    return { ...this.correlationSettings }
+  }
+
+  /**
+   * Recompute correlations between the symbols from stored klines now and on every refresh interval
+   */
+  public startCorrelationUpdates(symbols: string[]): void {
+    this.stopCorrelationUpdates()
+    this.correlationSymbols = [...symbols]
+
+    if (this.correlationSymbols.length < 2) {
+      return
+    }
+
+    void this.refreshCorrelations()
+    this.correlationTimer = setInterval(() => {
+      void this.refreshCorrelations()
+    }, this.correlationSettings.refreshIntervalMs)
+  }
+
+  /**
+   * Stop recomputing correlations
+   */
+  public stopCorrelationUpdates(): void {
+    if (this.correlationTimer) {
+      clearInterval(this.correlationTimer)
+      this.correlationTimer = null
+    }
+  }
+
+  /**
+   * Load klines for the tracked symbols and recompute their correlations
+   */
+  public async refreshCorrelations(symbols: string[] = this.correlationSymbols): Promise<CorrelationMatrix | null> {
+    const { interval, lookbackPeriods } = this.correlationSettings
+
+    try {
+      const endTime = Date.now()
+      const startTime = endTime - (lookbackPeriods + 1) * parseTimeframe(interval)
+      const klinesBySymbol: Record<string, Kline[]> = {}
+
+      // Sequential requests, so downloads of missing candles don't burst the rate limiter
+      for (const symbol of symbols) {
+        klinesBySymbol[symbol] = await this.loadCorrelationKlines(symbol, interval, startTime, endTime)
+      }
+
+      return this.updateCorrelationsFromKlines(klinesBySymbol)
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: { action: "refreshCorrelations", symbols, interval },
+        severity: "low",
+      })
+      return null
+    }
+  }
+
+  /**
+   * Recompute correlations, and derived sectors when enabled, from klines per symbol
+   */
+  public updateCorrelationsFromKlines(klinesBySymbol: Record<string, Kline[]>): CorrelationMatrix {
+    const { interval, lookbackPeriods, autoSectorTags, sectorCorrelationThreshold } = this.correlationSettings
+    const matrix = calculateCorrelationMatrix(klinesBySymbol, lookbackPeriods, interval)
+
+    matrix.symbols.forEach((symbolA, i) =>
+      matrix.symbols.forEach((symbolB, j) => {
+        if (j > i && Number.isFinite(matrix.values[i][j])) {
+          this.setCorrelation(symbolA, symbolB, matrix.values[i][j])
+        }
+      }),
+    )
+
+    // Configured sectors always win over derived ones
+    if (autoSectorTags) {
+      Object.entries(deriveSectorTags(matrix, sectorCorrelationThreshold)).forEach(([symbol, sector]) => {
+        if (!this.configuredSectors.has(symbol)) {
+          this.symbolSectors.set(symbol, sector)
+        }
+      })
+      this.refreshSectorExposures()
+    }
+
+    this.correlationMatrix = matrix
+    this.correlationCallbacks.forEach((callback) => callback(matrix))
+    return matrix
+  }
+
+  /**
+   * Get the last computed correlation matrix
+   */
+  public getCorrelationMatrix(): CorrelationMatrix | null {
+    return this.correlationMatrix
+  }
+
+  /**
+   * Register a callback for recomputed correlations
+   */
+  public onCorrelationsChange(callback: (matrix: CorrelationMatrix) => void): () => void {
+    this.correlationCallbacks.add(callback)
+    return () => {
+      this.correlationCallbacks.delete(callback)
+    }
+  }
+
+  // Stored klines: read directly on the server, through the history API in the browser
+  private async loadCorrelationKlines(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number,
+  ): Promise<Kline[]> {
+    if (typeof window === "undefined") {
+      const { getHistoricalKlines } = await import("../market/history")
+      return getHistoricalKlines(symbol, interval, startTime, endTime)
+    }
+
+    const query = new URLSearchParams({ symbol, interval, startTime: String(startTime), endTime: String(endTime) })
+    const response = await fetch(`/api/klines/history?${query}`)
+    if (!response.ok) {
+      throw new AppError(`Failed to load ${symbol} klines for correlations: ${response.status}`, {
+        code: "KLINE_HISTORY_UNAVAILABLE",
+        context: { symbol, interval, status: response.status },
+      })
+    }
+    return (await response.json()).klines
+  }
+
+  /**
+   * Check whether a new position fits the portfolio limits
+   */
+  public checkPortfolioEntry(
+    symbol: string,
+    side: "LONG" | "SHORT",
+    notional: number,
+    positionSide: PositionSide = "BOTH",
+  ): PortfolioEntryCheck {
+    // Hedge mode legs on opposite sides may be open together; anything else on the symbol blocks the entry
+    const isSeparateLeg = (position: PortfolioPosition) =>
+      positionSide !== "BOTH" && position.positionSide !== "BOTH" && position.positionSide !== positionSide
+    if (this.getSymbolPositions(symbol).some((position) => !isSeparateLeg(position))) {
+      return { allowed: false, reason: `Position already open for ${symbol}` }
+    }
+
+    if (this.getOpenPositionCount() >= this.parameters.maxOpenPositions) {
+      return { allowed: false, reason: `Max open positions reached (${this.parameters.maxOpenPositions})` }
+    }
+
+    // Correlated positions only add risk when they move the same way: same side with positive
+    // correlation, or opposite sides with negative correlation
+    for (const position of this.openPositions.values()) {
+      if (position.symbol === symbol) continue
+
+      const correlation = this.getCorrelation(symbol, position.symbol)
+      if (correlation === null || Math.abs(correlation) < this.parameters.correlationThreshold) continue
+
+      const sameDirection = (position.side === side) === correlation > 0
+      if (sameDirection) {
+        return {
+          allowed: false,
+          reason: `${symbol} is correlated with open ${position.side} position in ${position.symbol}`,
+          correlatedWith: position.symbol,
+          correlation,
+        }
+      }
+    }
+
+    // Sector exposure is a share of total equity, so it can only be checked once equity is known
+    const totalEquity = this.portfolioStats.totalEquity
+    if (totalEquity > 0) {
+      const sector = this.getSymbolSector(symbol)
+      const exposure = (this.sectorExposures.get(sector) || 0) + notional / totalEquity
+      if (exposure > this.parameters.sectorExposureLimit) {
+        return {
+          allowed: false,
+          reason: `Sector ${sector} exposure would reach ${(exposure * 100).toFixed(1)}% (limit ${(this.parameters.sectorExposureLimit * 100).toFixed(1)}%)`,
+        }
+      }
+    }
+
+    return { allowed: true, reason: null }
+  }
+
+  /**
+   * Check a new position and, if allowed, register it so concurrent entries see it immediately
+   */
+  public reservePosition(
+    symbol: string,
+    side: "LONG" | "SHORT",
+    notional: number,
+    positionSide: PositionSide = "BOTH",
+  ): PortfolioEntryCheck {
+    const check = this.checkPortfolioEntry(symbol, side, notional, positionSide)
+
+    if (check.allowed) {
+      this.registerPosition(symbol, side, notional, positionSide)
+    }
+
+    return check
+  }
+
+  /**
+   * Register a position without checking the limits, e.g. one found open on the exchange at startup
+   */
+  public registerPosition(
+    symbol: string,
+    side: "LONG" | "SHORT",
+    notional: number,
+    positionSide: PositionSide = "BOTH",
+  ): void {
+    const key = getPositionKey(symbol, positionSide)
+    this.openPositions.set(key, {
+      symbol,
+      side,
+      positionSide,
+      notional,
+      sector: this.getSymbolSector(symbol),
+      openedAt: this.openPositions.get(key)?.openedAt ?? Date.now(),
+    })
+    this.refreshSectorExposures()
+  }
+
+  /**
+   * Release a registered position when it is closed or its entry failed; without a position side every leg of the
+   * symbol is released
+   */
+  public releasePosition(symbol: string, positionSide?: PositionSide): void {
+    const released = this.getSymbolPositions(symbol).filter(
+      (position) => !positionSide || position.positionSide === positionSide,
+    )
+    released.forEach((position) => this.openPositions.delete(getPositionKey(symbol, position.positionSide)))
+
+    if (released.length > 0) {
+      this.refreshSectorExposures()
+    }
+  }
+
+  /**
+   * Get positions registered with the portfolio
+   */
+  public getOpenPositions(): PortfolioPosition[] {
+    return Array.from(this.openPositions.values()).map((position) => ({ ...position }))
+  }
+
+  /**
+   * Get exposure per sector as a share of total equity
+   */
+  public getSectorExposures(): Record<string, number> {
+    return Object.fromEntries(this.sectorExposures)
+  }
+
+  // Registered positions of a symbol: one in one-way mode, up to two legs in hedge mode
+  private getSymbolPositions(symbol: string): PortfolioPosition[] {
+    return Array.from(this.openPositions.values()).filter((position) => position.symbol === symbol)
+  }
+
+  /**
+   * Count open positions from exchange stats or registered positions, whichever is higher
+   */
+  private getOpenPositionCount(): number {
+    return Math.max(this.portfolioStats.openPositions, this.openPositions.size)
+  }
+
+  /**
+   * Recalculate sector exposures from registered positions
+   */
+  private refreshSectorExposures(): void {
+    const totalEquity = this.portfolioStats.totalEquity
+    this.sectorExposures.clear()
+
+    for (const position of this.openPositions.values()) {
+      position.sector = this.getSymbolSector(position.symbol)
+      const exposure = totalEquity > 0 ? position.notional / totalEquity : 0
+      this.sectorExposures.set(position.sector, (this.sectorExposures.get(position.sector) || 0) + exposure)
+    }
+  }
+
+  /**
+   * Trailing stop for a position given the best price reached since entry.
+   * Returns null until the trail activates or when the new stop would not tighten the current one.
+   */
+  public calculateTrailingStop(
+    type: "LONG" | "SHORT",
+    entryPrice: number,
+    bestPrice: number,
+    currentStop: number,
+  ): number | null {
+    const { trailingStopEnabled, trailingStopActivationPercent, trailingStopDistance } = this.parameters
+
+    if (!trailingStopEnabled) {
+      return null
+    }
+
+    const profitPercent =
+      type === "LONG" ? (bestPrice - entryPrice) / entryPrice : (entryPrice - bestPrice) / entryPrice
+
+    if (profitPercent < trailingStopActivationPercent) {
+      return null
+    }
+
+    const trailingStop =
+      type === "LONG" ? bestPrice * (1 - trailingStopDistance) : bestPrice * (1 + trailingStopDistance)
+
+    // Stops only ever move in the position's favour
+    const tightens = type === "LONG" ? trailingStop > currentStop : trailingStop < currentStop
+    return tightens ? trailingStop : null
+  }
+
   /**
    * Record a trade for risk tracking
    */
-  public recordTrade(symbol: string, entryTime: number, exitTime: number | null, pnl: number): void {
+  public recordTrade(
+    symbol: string,
+    entryTime: number,
+    exitTime: number | null,
+    pnl: number,
+    positionSide?: PositionSide,
+  ): void {
     this.dailyTrades.push({
       symbol,
       entryTime,
@@ -480,13 +1001,9 @@ export class RiskManager {
     // Update daily PnL
     this.portfolioStats.dailyPnL += pnl
 
-    // Update sector exposure if trade is closed
+    // Closed trades free their portfolio slot and sector exposure; a hedge mode leg only frees its own
     if (exitTime) {
-      const sector = this.symbolSectors.get(symbol) || "UNKNOWN"
-      const currentExposure = this.sectorExposures.get(sector) || 0
-
-      // Reduce exposure (this is simplified, should be based on position size)
-      this.sectorExposures.set(sector, Math.max(0, currentExposure - 0.1))
+      this.releasePosition(symbol, positionSide)
     }
   }
 
@@ -0,0 +1,7 @@
+/**
+ * Trading Rules
+ * Declarative entry and exit rules evaluated against the indicator library
+ */
+export * from "./rule-series"
+export * from "./rule-parser"
+export * from "./rule-engine"
@@ -0,0 +1,190 @@
+/**
+ * Rule Engine
+ * Compiles parsed rules and evaluates them candle by candle against the indicator library
+ */
+import type { Kline } from "../../types/market-types"
+import { formatSeries, parseRule } from "./rule-parser"
+import type { RuleNode } from "./rule-parser"
+import { RULE_SERIES } from "./rule-series"
+import type { RuleSeriesData } from "./rule-series"
+
+export interface RuleSeriesReference {
+  label: string
+  name: string
+  args: number[]
+}
+
+export interface CompiledRule {
+  source: string
+  node: RuleNode
+  references: RuleSeriesReference[]
+  evaluate(context: RuleContext, index: number): boolean
+}
+
+type NumericEvaluator = (context: RuleContext, index: number) => number
+type BooleanEvaluator = (context: RuleContext, index: number) => boolean
+
+/**
+ * Kline data shared by every rule evaluated in one pass; each indicator series is calculated once and cached
+ */
+export class RuleContext {
+  public readonly length: number
+  private data: RuleSeriesData
+  private cache = new Map<string, number[]>()
+
+  constructor(klines: Kline[], higherTimeframeEma?: number) {
+    this.length = klines.length
+    this.data = {
+      open: klines.map((k) => Number(k.open)),
+      high: klines.map((k) => Number(k.high)),
+      low: klines.map((k) => Number(k.low)),
+      close: klines.map((k) => Number(k.close)),
+      volume: klines.map((k) => Number(k.volume)),
+      higherTimeframeEma,
+    }
+  }
+
+  /**
+   * Full series for a reference, calculated on first use
+   */
+  public getSeries(reference: RuleSeriesReference): number[] {
+    let series = this.cache.get(reference.label)
+    if (!series) {
+      series = RULE_SERIES[reference.name].compute(this.data, reference.args)
+      this.cache.set(reference.label, series)
+    }
+    return series
+  }
+
+  /**
+   * Value of a reference at a candle, NaN before the first candle or during warm-up
+   */
+  public getValue(reference: RuleSeriesReference, index: number): number {
+    return index >= 0 && index < this.length ? this.getSeries(reference)[index] : Number.NaN
+  }
+}
+
+/**
+ * Parse and compile a rule so it can be evaluated repeatedly
+ */
+export function compileRule(source: string): CompiledRule {
+  const node = parseRule(source)
+  const references = new Map<string, RuleSeriesReference>()
+  const evaluate = compileBoolean(node, references)
+
+  return {
+    source,
+    node,
+    references: Array.from(references.values()),
+    evaluate,
+  }
+}
+
+/**
+ * Values of the series a rule references at a candle, keyed by their labels
+ */
+export function getRuleValues(rule: CompiledRule, context: RuleContext, index: number): Record<string, number> {
+  const values: Record<string, number> = {}
+  for (const reference of rule.references) {
+    values[reference.label] = context.getValue(reference, index)
+  }
+  return values
+}
+
+function compileBoolean(node: RuleNode, references: Map<string, RuleSeriesReference>): BooleanEvaluator {
+  switch (node.type) {
+    case "not": {
+      const operand = compileBoolean(node.operand, references)
+      return (context, index) => !operand(context, index)
+    }
+    case "logical": {
+      const left = compileBoolean(node.left, references)
+      const right = compileBoolean(node.right, references)
+      return node.operator === "and"
+        ? (context, index) => left(context, index) && right(context, index)
+        : (context, index) => left(context, index) || right(context, index)
+    }
+    case "comparison": {
+      const left = compileNumeric(node.left, references)
+      const right = compileNumeric(node.right, references)
+      return compareWith(node.operator, left, right)
+    }
+    default:
+      // The parser only produces boolean roots
+      throw new Error(`Expected a condition but found ${node.type}`)
+  }
+}
+
+function compareWith(
+  operator: Extract<RuleNode, { type: "comparison" }>["operator"],
+  left: NumericEvaluator,
+  right: NumericEvaluator,
+): BooleanEvaluator {
+  switch (operator) {
+    case ">":
+      return (context, index) => left(context, index) > right(context, index)
+    case ">=":
+      return (context, index) => left(context, index) >= right(context, index)
+    case "<":
+      return (context, index) => left(context, index) < right(context, index)
+    case "<=":
+      return (context, index) => left(context, index) <= right(context, index)
+    case "==":
+      return (context, index) => left(context, index) === right(context, index)
+    case "!=":
+      // NaN during warm-up should not satisfy a rule, so both sides must be known
+      return (context, index) => {
+        const a = left(context, index)
+        const b = right(context, index)
+        return !Number.isNaN(a) && !Number.isNaN(b) && a !== b
+      }
+    case "crosses_above":
+      return (context, index) =>
+        left(context, index) > right(context, index) && left(context, index - 1) <= right(context, index - 1)
+    case "crosses_below":
+      return (context, index) =>
+        left(context, index) < right(context, index) && left(context, index - 1) >= right(context, index - 1)
+  }
+}
+
+function compileNumeric(node: RuleNode, references: Map<string, RuleSeriesReference>): NumericEvaluator {
+  switch (node.type) {
+    case "number": {
+      const value = node.value
+      return () => value
+    }
+    case "series": {
+      const label = formatSeries(node.name, node.args)
+      let reference = references.get(label)
+      if (!reference) {
+        reference = { label, name: node.name, args: node.args }
+        references.set(label, reference)
+      }
+      const resolved = reference
+      return (context, index) => context.getValue(resolved, index)
+    }
+    case "negate": {
+      const operand = compileNumeric(node.operand, references)
+      return (context, index) => -operand(context, index)
+    }
+    case "arithmetic": {
+      const left = compileNumeric(node.left, references)
+      const right = compileNumeric(node.right, references)
+      switch (node.operator) {
+        case "+":
+          return (context, index) => left(context, index) + right(context, index)
+        case "-":
+          return (context, index) => left(context, index) - right(context, index)
+        case "*":
+          return (context, index) => left(context, index) * right(context, index)
+        case "/":
+          return (context, index) => {
+            const divisor = right(context, index)
+            return divisor === 0 ? Number.NaN : left(context, index) / divisor
+          }
+      }
+    }
+    default:
+      throw new Error(`Expected a number but found ${node.type}`)
+  }
+}
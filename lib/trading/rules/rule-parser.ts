@@ -0,0 +1,359 @@
+/**
+ * Rule Parser
+ * Parses rule expressions such as `ema(9) crosses_above ema(21) and rsi(14) < 70` into a JSON-serializable tree
+ */
+import { ValidationError } from "../../error-handling"
+import { RULE_SERIES } from "./rule-series"
+
+export type ArithmeticOperator = "+" | "-" | "*" | "/"
+export type ComparisonOperator = ">" | ">=" | "<" | "<=" | "==" | "!=" | "crosses_above" | "crosses_below"
+export type LogicalOperator = "and" | "or"
+
+export type RuleNode =
+  | { type: "number"; value: number }
+  | { type: "series"; name: string; args: number[] }
+  | { type: "negate"; operand: RuleNode }
+  | { type: "not"; operand: RuleNode }
+  | { type: "arithmetic"; operator: ArithmeticOperator; left: RuleNode; right: RuleNode }
+  | { type: "comparison"; operator: ComparisonOperator; left: RuleNode; right: RuleNode }
+  | { type: "logical"; operator: LogicalOperator; left: RuleNode; right: RuleNode }
+
+type TokenType = "number" | "identifier" | "operator" | "lparen" | "rparen" | "comma" | "end"
+
+interface Token {
+  type: TokenType
+  text: string
+  position: number
+}
+
+const COMPARISON_OPERATORS: string[] = [">", ">=", "<", "<=", "==", "!=", "crosses_above", "crosses_below"]
+const SYMBOL_OPERATORS = [">=", "<=", "==", "!=", ">", "<", "+", "-", "*", "/"]
+const KEYWORDS = ["and", "or", "not", "crosses_above", "crosses_below"]
+
+/**
+ * Parse a rule into its expression tree; the rule must evaluate to true or false
+ */
+export function parseRule(source: string): RuleNode {
+  const parser = new RuleParser(source)
+  return parser.parse()
+}
+
+/**
+ * Check a rule without evaluating it, returning the error message or null when the rule is valid
+ */
+export function validateRule(source: string): string | null {
+  try {
+    parseRule(source)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Whether a node produces a boolean rather than a number
+ */
+export function isBooleanNode(node: RuleNode): boolean {
+  return node.type === "not" || node.type === "comparison" || node.type === "logical"
+}
+
+/**
+ * Canonical label of a series reference with its defaults filled in, e.g. `rsi(14)` for `rsi`
+ */
+export function formatSeries(name: string, args: number[]): string {
+  return args.length > 0 ? `${name}(${args.join(",")})` : name
+}
+
+class RuleParser {
+  private tokens: Token[]
+  private index = 0
+
+  constructor(private readonly source: string) {
+    this.tokens = this.tokenize()
+  }
+
+  public parse(): RuleNode {
+    if (this.peek().type === "end") {
+      throw this.error("Rule is empty", 0)
+    }
+
+    const node = this.parseOr()
+    const trailing = this.peek()
+    if (trailing.type !== "end") {
+      throw this.error(`Unexpected "${trailing.text}"`, trailing.position)
+    }
+    if (!isBooleanNode(node)) {
+      throw this.error("Rule must be a condition, e.g. rsi(14) < 30", 0)
+    }
+    return node
+  }
+
+  private parseOr(): RuleNode {
+    let left = this.parseAnd()
+    let token = this.peek()
+    while (this.matchKeyword("or")) {
+      const right = this.parseAnd()
+      left = {
+        type: "logical",
+        operator: "or",
+        left: this.expectBoolean(left, token),
+        right: this.expectBoolean(right, token),
+      }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseAnd(): RuleNode {
+    let left = this.parseNot()
+    let token = this.peek()
+    while (this.matchKeyword("and")) {
+      const right = this.parseNot()
+      left = {
+        type: "logical",
+        operator: "and",
+        left: this.expectBoolean(left, token),
+        right: this.expectBoolean(right, token),
+      }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseNot(): RuleNode {
+    const token = this.peek()
+    if (this.matchKeyword("not")) {
+      return { type: "not", operand: this.expectBoolean(this.parseNot(), token) }
+    }
+    return this.parseComparison()
+  }
+
+  private parseComparison(): RuleNode {
+    const left = this.parseAdditive()
+    const token = this.peek()
+    const isComparison =
+      (token.type === "operator" || token.type === "identifier") && COMPARISON_OPERATORS.includes(token.text)
+    if (!isComparison) {
+      return left
+    }
+
+    this.index++
+    const right = this.parseAdditive()
+    const next = this.peek()
+    if ((next.type === "operator" || next.type === "identifier") && COMPARISON_OPERATORS.includes(next.text)) {
+      throw this.error(`Comparisons cannot be chained; use "and" instead of "${next.text}"`, next.position)
+    }
+
+    return {
+      type: "comparison",
+      operator: token.text as ComparisonOperator,
+      left: this.expectNumber(left, token),
+      right: this.expectNumber(right, token),
+    }
+  }
+
+  private parseAdditive(): RuleNode {
+    let left = this.parseMultiplicative()
+    let token = this.peek()
+    while (token.type === "operator" && (token.text === "+" || token.text === "-")) {
+      this.index++
+      const right = this.parseMultiplicative()
+      left = {
+        type: "arithmetic",
+        operator: token.text,
+        left: this.expectNumber(left, token),
+        right: this.expectNumber(right, token),
+      }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseMultiplicative(): RuleNode {
+    let left = this.parseUnary()
+    let token = this.peek()
+    while (token.type === "operator" && (token.text === "*" || token.text === "/")) {
+      this.index++
+      const right = this.parseUnary()
+      left = {
+        type: "arithmetic",
+        operator: token.text,
+        left: this.expectNumber(left, token),
+        right: this.expectNumber(right, token),
+      }
+      token = this.peek()
+    }
+    return left
+  }
+
+  private parseUnary(): RuleNode {
+    const token = this.peek()
+    if (token.type === "operator" && token.text === "-") {
+      this.index++
+      const operand = this.expectNumber(this.parseUnary(), token)
+      return operand.type === "number" ? { type: "number", value: -operand.value } : { type: "negate", operand }
+    }
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next()
+
+    if (token.type === "number") {
+      return { type: "number", value: Number(token.text) }
+    }
+
+    if (token.type === "lparen") {
+      const node = this.parseOr()
+      this.expect("rparen", ")")
+      return node
+    }
+
+    if (token.type === "identifier" && !KEYWORDS.includes(token.text)) {
+      return this.parseSeries(token)
+    }
+
+    if (token.type === "end") {
+      throw this.error("Unexpected end of rule", token.position)
+    }
+    throw this.error(`Unexpected "${token.text}"`, token.position)
+  }
+
+  private parseSeries(token: Token): RuleNode {
+    const definition = RULE_SERIES[token.text]
+    if (!definition) {
+      throw this.error(`Unknown indicator "${token.text}"`, token.position)
+    }
+
+    const args: number[] = []
+    if (this.peek().type === "lparen") {
+      this.index++
+      if (this.peek().type !== "rparen") {
+        args.push(this.parseArgument())
+        while (this.peek().type === "comma") {
+          this.index++
+          args.push(this.parseArgument())
+        }
+      }
+      this.expect("rparen", ")")
+    }
+
+    if (args.length > definition.params.length) {
+      const expected = definition.params.length > 0 ? definition.params.join(", ") : "no arguments"
+      throw this.error(`${token.text} takes ${expected}`, token.position)
+    }
+
+    const filled = definition.defaults.map((fallback, i) => (i < args.length ? args[i] : fallback))
+    const invalid = filled.findIndex((value) => !(value > 0))
+    if (invalid !== -1) {
+      throw this.error(`${token.text} ${definition.params[invalid]} must be positive`, token.position)
+    }
+
+    return { type: "series", name: token.text, args: filled }
+  }
+
+  private parseArgument(): number {
+    const token = this.next()
+    if (token.type !== "number") {
+      throw this.error("Indicator arguments must be numbers", token.position)
+    }
+    return Number(token.text)
+  }
+
+  private expectBoolean(node: RuleNode, operator: Token): RuleNode {
+    if (!isBooleanNode(node)) {
+      throw this.error(`"${operator.text}" expects conditions, not numbers`, operator.position)
+    }
+    return node
+  }
+
+  private expectNumber(node: RuleNode, operator: Token): RuleNode {
+    if (isBooleanNode(node)) {
+      throw this.error(`"${operator.text}" expects numbers, not conditions`, operator.position)
+    }
+    return node
+  }
+
+  private expect(type: TokenType, text: string): Token {
+    const token = this.next()
+    if (token.type !== type) {
+      throw this.error(`Expected "${text}"`, token.position)
+    }
+    return token
+  }
+
+  private matchKeyword(keyword: string): boolean {
+    const token = this.peek()
+    if (token.type === "identifier" && token.text === keyword) {
+      this.index++
+      return true
+    }
+    return false
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]
+    if (token.type !== "end") {
+      this.index++
+    }
+    return token
+  }
+
+  private tokenize(): Token[] {
+    const tokens: Token[] = []
+    const source = this.source
+    let position = 0
+
+    while (position < source.length) {
+      const char = source[position]
+
+      if (/\s/.test(char)) {
+        position++
+        continue
+      }
+
+      const number = /^(\d+(\.\d*)?|\.\d+)/.exec(source.slice(position))
+      if (number) {
+        tokens.push({ type: "number", text: number[0], position })
+        position += number[0].length
+        continue
+      }
+
+      const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(position))
+      if (identifier) {
+        tokens.push({ type: "identifier", text: identifier[0].toLowerCase(), position })
+        position += identifier[0].length
+        continue
+      }
+
+      const operator = SYMBOL_OPERATORS.find((candidate) => source.startsWith(candidate, position))
+      if (operator) {
+        tokens.push({ type: "operator", text: operator, position })
+        position += operator.length
+        continue
+      }
+
+      if (char === "(" || char === ")" || char === ",") {
+        tokens.push({ type: char === "(" ? "lparen" : char === ")" ? "rparen" : "comma", text: char, position })
+        position++
+        continue
+      }
+
+      throw this.error(`Unexpected character "${char}"`, position)
+    }
+
+    tokens.push({ type: "end", text: "", position: source.length })
+    return tokens
+  }
+
+  private error(message: string, position: number): ValidationError {
+    return new ValidationError(`Invalid rule at position ${position + 1}: ${message}`, {
+      code: "INVALID_RULE",
+      context: { rule: this.source, position },
+    })
+  }
+}
@@ -0,0 +1,183 @@
+/**
+ * Rule Series
+ * Price and indicator series that rules can reference, e.g. close, ema(9) or bb_upper(20, 2)
+ */
+import {
+  calculateATR,
+  calculateBollingerBands,
+  calculateCCI,
+  calculateDMI,
+  calculateEMA,
+  calculateMACD,
+  calculateOBV,
+  calculateParabolicSAR,
+  calculateROC,
+  calculateRSI,
+  calculateSMA,
+  calculateStochastic,
+  calculateVWAP,
+  calculateWilliamsR,
+} from "../../indicators"
+
+export interface RuleSeriesData {
+  open: number[]
+  high: number[]
+  low: number[]
+  close: number[]
+  volume: number[]
+  higherTimeframeEma?: number
+}
+
+export interface RuleSeriesDefinition {
+  description: string
+  params: string[]
+  defaults: number[]
+  compute: (data: RuleSeriesData, args: number[]) => number[]
+}
+
+const price = (key: "open" | "high" | "low" | "close" | "volume", description: string): RuleSeriesDefinition => ({
+  description,
+  params: [],
+  defaults: [],
+  compute: (data) => data[key],
+})
+
+export const RULE_SERIES: Record<string, RuleSeriesDefinition> = {
+  open: price("open", "Candle open"),
+  high: price("high", "Candle high"),
+  low: price("low", "Candle low"),
+  close: price("close", "Candle close"),
+  volume: price("volume", "Candle volume"),
+  htf_ema: {
+    description: "Higher timeframe EMA, when the strategy is given one",
+    params: [],
+    defaults: [],
+    compute: (data) => data.close.map(() => data.higherTimeframeEma ?? Number.NaN),
+  },
+  sma: {
+    description: "Simple moving average of the close",
+    params: ["period"],
+    defaults: [20],
+    compute: (data, [period]) => calculateSMA(data.close, period),
+  },
+  ema: {
+    description: "Exponential moving average of the close",
+    params: ["period"],
+    defaults: [20],
+    compute: (data, [period]) => calculateEMA(data.close, period),
+  },
+  rsi: {
+    description: "Relative strength index",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateRSI(data.close, period),
+  },
+  roc: {
+    description: "Rate of change in percent",
+    params: ["period"],
+    defaults: [10],
+    compute: (data, [period]) => calculateROC(data.close, period),
+  },
+  macd: {
+    description: "MACD line",
+    params: ["fast", "slow", "signal"],
+    defaults: [12, 26, 9],
+    compute: (data, [fast, slow, signal]) => calculateMACD(data.close, fast, slow, signal).macd,
+  },
+  macd_signal: {
+    description: "MACD signal line",
+    params: ["fast", "slow", "signal"],
+    defaults: [12, 26, 9],
+    compute: (data, [fast, slow, signal]) => calculateMACD(data.close, fast, slow, signal).signal,
+  },
+  macd_hist: {
+    description: "MACD histogram",
+    params: ["fast", "slow", "signal"],
+    defaults: [12, 26, 9],
+    compute: (data, [fast, slow, signal]) => calculateMACD(data.close, fast, slow, signal).histogram,
+  },
+  vwap: {
+    description: "Rolling volume weighted average price",
+    params: ["period"],
+    defaults: [20],
+    compute: (data, [period]) => calculateVWAP(data.high, data.low, data.close, data.volume, period),
+  },
+  atr: {
+    description: "Average true range",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateATR(data.high, data.low, data.close, period),
+  },
+  bb_upper: {
+    description: "Upper Bollinger Band",
+    params: ["period", "stddev"],
+    defaults: [20, 2],
+    compute: (data, [period, stdDev]) => calculateBollingerBands(data.close, period, stdDev).upper,
+  },
+  bb_middle: {
+    description: "Middle Bollinger Band",
+    params: ["period", "stddev"],
+    defaults: [20, 2],
+    compute: (data, [period, stdDev]) => calculateBollingerBands(data.close, period, stdDev).middle,
+  },
+  bb_lower: {
+    description: "Lower Bollinger Band",
+    params: ["period", "stddev"],
+    defaults: [20, 2],
+    compute: (data, [period, stdDev]) => calculateBollingerBands(data.close, period, stdDev).lower,
+  },
+  stoch_k: {
+    description: "Stochastic %K",
+    params: ["k", "d"],
+    defaults: [14, 3],
+    compute: (data, [k, d]) => calculateStochastic(data.high, data.low, data.close, k, d).k,
+  },
+  stoch_d: {
+    description: "Stochastic %D",
+    params: ["k", "d"],
+    defaults: [14, 3],
+    compute: (data, [k, d]) => calculateStochastic(data.high, data.low, data.close, k, d).d,
+  },
+  cci: {
+    description: "Commodity channel index",
+    params: ["period"],
+    defaults: [20],
+    compute: (data, [period]) => calculateCCI(data.high, data.low, data.close, period),
+  },
+  williams_r: {
+    description: "Williams %R",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateWilliamsR(data.high, data.low, data.close, period),
+  },
+  adx: {
+    description: "Average directional index",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateDMI(data.high, data.low, data.close, period).adx,
+  },
+  plus_di: {
+    description: "Positive directional indicator",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateDMI(data.high, data.low, data.close, period).plusDI,
+  },
+  minus_di: {
+    description: "Negative directional indicator",
+    params: ["period"],
+    defaults: [14],
+    compute: (data, [period]) => calculateDMI(data.high, data.low, data.close, period).minusDI,
+  },
+  obv: {
+    description: "On-balance volume",
+    params: [],
+    defaults: [],
+    compute: (data) => calculateOBV(data.close, data.volume),
+  },
+  psar: {
+    description: "Parabolic SAR",
+    params: ["step", "max"],
+    defaults: [0.02, 0.2],
+    compute: (data, [step, max]) => calculateParabolicSAR(data.high, data.low, step, max),
+  },
+}
@@ -1,5 +1,5 @@
 import type { Kline, StrategyParameters, StrategySignal, StrategyPosition } from "../market/interfaces"
-import { calculateEMA, calculateVWAP } from "../utils/technical-indicators"
+import { calculateEMA, calculateVWAP } from "../indicators"
 import { ValidationError } from "../error-types" // Updated import path
 
 export class ScalpingStrategy {
@@ -0,0 +1,25 @@
+/**
+ * Trading Strategies
+ * Strategy interface, built-in strategies and the registry that maps strategy names to implementations
+ */
+import { strategyRegistry } from "./strategy-registry"
+import type { Strategy, StrategyParameterUpdate } from "./strategy"
+
+/**
+ * Create a registered strategy by name
+ */
+export function createStrategy(name: string, params: StrategyParameterUpdate = {}): Strategy {
+  return strategyRegistry.create(name, params)
+}
+
+export * from "./strategy"
+export { StrategyRegistry, strategyRegistry } from "./strategy-registry"
+export type { StrategyDefinition } from "./strategy-registry"
+export { ScalpingStrategy, SCALPING_PARAMETER_SCHEMA } from "./scalping-strategy"
+export { TrendFollowingStrategy, TREND_FOLLOWING_PARAMETER_SCHEMA } from "./trend-following-strategy"
+export { MeanReversionStrategy, MEAN_REVERSION_PARAMETER_SCHEMA } from "./mean-reversion-strategy"
+export { RuleStrategy, RULE_PARAMETER_SCHEMA } from "./rule-strategy"
+export type { StrategyParameters } from "./scalping-strategy"
+export type { TrendFollowingParameters } from "./trend-following-strategy"
+export type { MeanReversionParameters } from "./mean-reversion-strategy"
+export type { RuleStrategyParameters } from "./rule-strategy"
@@ -0,0 +1,311 @@
+import type { Kline } from "../../types/market-types"
+import { calculateBollingerBands, calculateStochastic, calculateWilliamsR } from "../../indicators"
+import { detectPatterns, groupPatternsByCandle, toPatternIndicators } from "../../market/pattern-detector"
+import { ValidationError } from "../../error-handling"
+import { BASE_PARAMETER_SCHEMA } from "./strategy"
+import type {
+  BaseStrategyParameters,
+  Strategy,
+  StrategyParameterSchema,
+  StrategyPosition,
+  StrategySignal,
+} from "./strategy"
+
+export interface MeanReversionParameters extends BaseStrategyParameters {
+  symbol: string
+  interval: string
+  bollingerPeriod: number
+  bollingerStdDev: number
+  stochasticKPeriod: number
+  stochasticDPeriod: number
+  stochasticOverbought: number
+  stochasticOversold: number
+  williamsRPeriod: number
+  williamsROverbought: number
+  williamsROversold: number
+  takeProfitPercent: number
+  stopLossPercent: number
+  maxHoldingTimeMinutes: number
+  maxTradesPerHour: number
+  leverageMultiplier: number
+}
+
+export const MEAN_REVERSION_PARAMETER_SCHEMA: StrategyParameterSchema = [
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "indicators"),
+  { key: "bollingerPeriod", label: "Bollinger Period", group: "indicators", control: "slider", min: 10, max: 50, step: 1 },
+  {
+    key: "bollingerStdDev",
+    label: "Bollinger Std Dev",
+    group: "indicators",
+    control: "slider",
+    min: 1,
+    max: 3.5,
+    step: 0.1,
+  },
+  {
+    key: "stochasticKPeriod",
+    label: "Stochastic %K Period",
+    group: "indicators",
+    control: "slider",
+    min: 5,
+    max: 30,
+    step: 1,
+  },
+  { key: "williamsRPeriod", label: "Williams %R Period", group: "indicators", control: "slider", min: 5, max: 30, step: 1 },
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "risk"),
+  { key: "stochasticDPeriod", label: "Stochastic %D Period", group: "advanced", control: "number", min: 1, max: 10 },
+  { key: "stochasticOverbought", label: "Stochastic Overbought", group: "advanced", control: "number", min: 60, max: 95 },
+  { key: "stochasticOversold", label: "Stochastic Oversold", group: "advanced", control: "number", min: 5, max: 40 },
+  { key: "williamsROverbought", label: "Williams %R Overbought", group: "advanced", control: "number", min: -40, max: -5 },
+  { key: "williamsROversold", label: "Williams %R Oversold", group: "advanced", control: "number", min: -95, max: -60 },
+]
+
+/**
+ * Mean reversion strategy
+ * Fades moves outside the Bollinger Bands when Stochastic and Williams %R agree
+ * the market is stretched, and exits once price returns to the middle band.
+ */
+export class MeanReversionStrategy implements Strategy<MeanReversionParameters> {
+  private parameters: MeanReversionParameters
+  private lastSignal: StrategySignal | null = null
+  private activePosition: StrategyPosition | null = null
+
+  constructor(params?: Partial<MeanReversionParameters>) {
+    // Default parameters
+    this.parameters = {
+      symbol: "BTCUSDT",
+      interval: "5m",
+      bollingerPeriod: 20,
+      bollingerStdDev: 2,
+      stochasticKPeriod: 14,
+      stochasticDPeriod: 3,
+      stochasticOverbought: 80,
+      stochasticOversold: 20,
+      williamsRPeriod: 14,
+      williamsROverbought: -20,
+      williamsROversold: -80,
+      takeProfitPercent: 0.008, // 0.8%
+      stopLossPercent: 0.005, // 0.5%
+      maxHoldingTimeMinutes: 90,
+      maxTradesPerHour: 4,
+      leverageMultiplier: 3,
+      ...params,
+    }
+  }
+
+  /**
+   * Get strategy parameters
+   */
+  public getParameters(): MeanReversionParameters {
+    return { ...this.parameters }
+  }
+
+  /**
+   * Update strategy parameters
+   */
+  public updateParameters(params: Partial<MeanReversionParameters>): void {
+    this.parameters = {
+      ...this.parameters,
+      ...params,
+    }
+  }
+
+  /**
+   * Get the parameter schema used to render strategy settings
+   */
+  public getParameterSchema(): StrategyParameterSchema {
+    return MEAN_REVERSION_PARAMETER_SCHEMA
+  }
+
+  /**
+   * Get active position
+   */
+  public getActivePosition(): StrategyPosition | null {
+    return this.activePosition ? { ...this.activePosition } : null
+  }
+
+  /**
+   * Reset strategy state
+   */
+  public reset(): void {
+    this.activePosition = null
+    this.lastSignal = null
+  }
+
+  /**
+   * Calculate position size based on account balance and risk
+   */
+  public calculatePositionSize(accountBalance: number, currentPrice: number): number {
+    const riskAmount = accountBalance * 0.02 // 2% risk per trade
+    const stopLossDistance = currentPrice * this.parameters.stopLossPercent
+    const leveragedPositionSize = (riskAmount / stopLossDistance) * this.parameters.leverageMultiplier
+    const maxPositionSize = (accountBalance * 0.2 * this.parameters.leverageMultiplier) / currentPrice
+
+    return Math.min(leveragedPositionSize, maxPositionSize)
+  }
+
+  /**
+   * Calculate strategy signals based on kline data
+   */
+  public calculateSignals(klines: Kline[], higherTimeframeEma?: number): StrategySignal[] {
+    try {
+      if (!Array.isArray(klines)) {
+        throw new ValidationError("Invalid klines data: expected array", {
+          context: { invalidData: klines },
+        })
+      }
+
+      const {
+        bollingerPeriod,
+        bollingerStdDev,
+        stochasticKPeriod,
+        stochasticDPeriod,
+        stochasticOverbought,
+        stochasticOversold,
+        williamsRPeriod,
+        williamsROverbought,
+        williamsROversold,
+        takeProfitPercent,
+        stopLossPercent,
+        maxHoldingTimeMinutes,
+      } = this.parameters
+
+      const minPeriod = Math.max(bollingerPeriod, stochasticKPeriod + stochasticDPeriod, williamsRPeriod)
+
+      if (klines.length <= minPeriod) {
+        return []
+      }
+
+      const closes = klines.map((k) => Number(k.close))
+      const highs = klines.map((k) => Number(k.high))
+      const lows = klines.map((k) => Number(k.low))
+      const timestamps = klines.map((k) => Number(k.openTime))
+
+      // Calculate indicators
+      const bands = calculateBollingerBands(closes, bollingerPeriod, bollingerStdDev)
+      const stochastic = calculateStochastic(highs, lows, closes, stochasticKPeriod, stochasticDPeriod)
+      const williamsR = calculateWilliamsR(highs, lows, closes, williamsRPeriod)
+      const patterns = groupPatternsByCandle(detectPatterns(klines), klines.length)
+
+      const signals: StrategySignal[] = []
+
+      for (let i = minPeriod; i < klines.length; i++) {
+        const currentPrice = closes[i]
+        const timestamp = timestamps[i]
+        const upper = bands.upper[i]
+        const middle = bands.middle[i]
+        const lower = bands.lower[i]
+        const k = stochastic.k[i]
+        const d = stochastic.d[i]
+        const wr = williamsR[i]
+
+        // Skip if we don't have all indicators
+        if ([upper, middle, lower, k, d, wr].some((v) => !Number.isFinite(v))) {
+          continue
+        }
+
+        let action: StrategySignal["action"] = "NONE"
+        let strength = 50
+        let reason = "No signal"
+        let stopLoss: number | null = null
+        let takeProfit: number | null = null
+
+        // Check for entry signals
+        if (!this.activePosition) {
+          // Higher timeframe filter keeps us from fading a strong trend
+          const isLongSignal =
+            lows[i] <= lower &&
+            k < stochasticOversold &&
+            k > d &&
+            wr <= williamsROversold &&
+            (!higherTimeframeEma || currentPrice > higherTimeframeEma * (1 - stopLossPercent * 2))
+
+          const isShortSignal =
+            highs[i] >= upper &&
+            k > stochasticOverbought &&
+            k < d &&
+            wr >= williamsROverbought &&
+            (!higherTimeframeEma || currentPrice < higherTimeframeEma * (1 + stopLossPercent * 2))
+
+          if (isLongSignal || isShortSignal) {
+            const type = isLongSignal ? "LONG" : "SHORT"
+            const bandWidth = upper - lower
+            const stretch = bandWidth > 0 ? Math.abs(currentPrice - middle) / (bandWidth / 2) : 1
+
+            action = isLongSignal ? "BUY" : "SELL"
+            strength = Math.min(95, Math.round(55 + stretch * 20))
+            reason = isLongSignal
+              ? "Price below lower Bollinger Band with oversold Stochastic and Williams %R"
+              : "Price above upper Bollinger Band with overbought Stochastic and Williams %R"
+            stopLoss = isLongSignal ? currentPrice * (1 - stopLossPercent) : currentPrice * (1 + stopLossPercent)
+            takeProfit = isLongSignal ? currentPrice * (1 + takeProfitPercent) : currentPrice * (1 - takeProfitPercent)
+
+            this.activePosition = {
+              type,
+              entryPrice: currentPrice,
+              entryTime: timestamp,
+              stopLoss,
+              takeProfit,
+            }
+          }
+        }
+        // Check for exit signals
+        else {
+          const { type, entryPrice, entryTime } = this.activePosition
+          const holdingTimeMinutes = (timestamp - entryTime) / (1000 * 60)
+          const profit = type === "LONG" ? (currentPrice - entryPrice) / entryPrice : (entryPrice - currentPrice) / entryPrice
+          const exitAction = type === "LONG" ? "CLOSE_LONG" : "CLOSE_SHORT"
+
+          if (profit >= takeProfitPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Take profit reached"
+          } else if (profit <= -stopLossPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Stop loss triggered"
+          } else if ((type === "LONG" && currentPrice >= middle) || (type === "SHORT" && currentPrice <= middle)) {
+            action = exitAction
+            strength = 80
+            reason = "Price reverted to the mean"
+          } else if (holdingTimeMinutes >= maxHoldingTimeMinutes) {
+            action = exitAction
+            strength = 70
+            reason = "Max holding time reached"
+          }
+
+          if (action !== "NONE") {
+            this.activePosition = null
+          }
+        }
+
+        const signal: StrategySignal = {
+          action,
+          price: currentPrice,
+          timestamp,
+          strength,
+          reason,
+          stopLoss,
+          takeProfit,
+          indicators: {
+            bollingerUpper: upper,
+            bollingerMiddle: middle,
+            bollingerLower: lower,
+            stochasticK: k,
+            stochasticD: d,
+            williamsR: wr,
+            ...toPatternIndicators(patterns[i]),
+          },
+        }
+
+        signals.push(signal)
+        this.lastSignal = signal
+      }
+
+      return signals
+    } catch (error) {
+      console.error("Error calculating mean reversion signals:", error)
+      return []
+    }
+  }
+}
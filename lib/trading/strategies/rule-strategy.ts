@@ -0,0 +1,268 @@
+import type { Kline } from "../../types/market-types"
+import { detectPatterns, groupPatternsByCandle, toPatternIndicators } from "../../market/pattern-detector"
+import { ValidationError } from "../../error-handling"
+import { compileRule, getRuleValues, RuleContext } from "../rules"
+import type { CompiledRule } from "../rules"
+import { BASE_PARAMETER_SCHEMA } from "./strategy"
+import type {
+  BaseStrategyParameters,
+  Strategy,
+  StrategyParameterSchema,
+  StrategyPosition,
+  StrategySignal,
+} from "./strategy"
+
+export interface RuleStrategyParameters extends BaseStrategyParameters {
+  symbol: string
+  interval: string
+  longEntryRule: string
+  shortEntryRule: string
+  longExitRule: string
+  shortExitRule: string
+  takeProfitPercent: number
+  stopLossPercent: number
+  maxHoldingTimeMinutes: number
+  maxTradesPerHour: number
+  leverageMultiplier: number
+}
+
+const RULE_HELP = "Leave empty to disable, e.g. ema(9) crosses_above ema(21) and rsi(14) < 70"
+
+export const RULE_PARAMETER_SCHEMA: StrategyParameterSchema = [
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "indicators"),
+  { key: "longEntryRule", label: "Long Entry Rule", group: "indicators", control: "text", description: RULE_HELP },
+  { key: "shortEntryRule", label: "Short Entry Rule", group: "indicators", control: "text", description: RULE_HELP },
+  { key: "longExitRule", label: "Long Exit Rule", group: "indicators", control: "text", description: RULE_HELP },
+  { key: "shortExitRule", label: "Short Exit Rule", group: "indicators", control: "text", description: RULE_HELP },
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "risk"),
+]
+
+type RuleKey = "longEntryRule" | "shortEntryRule" | "longExitRule" | "shortExitRule"
+
+/**
+ * Rule-driven strategy
+ * Enters and exits on user-defined rules written in the rule language, so new conditions need no code changes.
+ * Take profit, stop loss and max holding time still apply on top of the exit rules.
+ */
+export class RuleStrategy implements Strategy<RuleStrategyParameters> {
+  private parameters: RuleStrategyParameters
+  private lastSignal: StrategySignal | null = null
+  private activePosition: StrategyPosition | null = null
+  private compiledRules = new Map<string, CompiledRule>()
+
+  constructor(params?: Partial<RuleStrategyParameters>) {
+    // Default parameters reproduce a plain EMA crossover with an RSI filter
+    this.parameters = {
+      symbol: "BTCUSDT",
+      interval: "5m",
+      longEntryRule: "ema(9) crosses_above ema(21) and rsi(14) < 70",
+      shortEntryRule: "ema(9) crosses_below ema(21) and rsi(14) > 30",
+      longExitRule: "ema(9) crosses_below ema(21)",
+      shortExitRule: "ema(9) crosses_above ema(21)",
+      takeProfitPercent: 0.006, // 0.6%
+      stopLossPercent: 0.004, // 0.4%
+      maxHoldingTimeMinutes: 120,
+      maxTradesPerHour: 4,
+      leverageMultiplier: 3,
+      ...params,
+    }
+  }
+
+  /**
+   * Get strategy parameters
+   */
+  public getParameters(): RuleStrategyParameters {
+    return { ...this.parameters }
+  }
+
+  /**
+   * Update strategy parameters
+   */
+  public updateParameters(params: Partial<RuleStrategyParameters>): void {
+    this.parameters = {
+      ...this.parameters,
+      ...params,
+    }
+  }
+
+  /**
+   * Get the parameter schema used to render strategy settings
+   */
+  public getParameterSchema(): StrategyParameterSchema {
+    return RULE_PARAMETER_SCHEMA
+  }
+
+  /**
+   * Get active position
+   */
+  public getActivePosition(): StrategyPosition | null {
+    return this.activePosition ? { ...this.activePosition } : null
+  }
+
+  /**
+   * Reset strategy state
+   */
+  public reset(): void {
+    this.activePosition = null
+    this.lastSignal = null
+  }
+
+  /**
+   * Calculate position size based on account balance and risk
+   */
+  public calculatePositionSize(accountBalance: number, currentPrice: number): number {
+    const riskAmount = accountBalance * 0.02 // 2% risk per trade
+    const stopLossDistance = currentPrice * this.parameters.stopLossPercent
+    const leveragedPositionSize = (riskAmount / stopLossDistance) * this.parameters.leverageMultiplier
+    const maxPositionSize = (accountBalance * 0.2 * this.parameters.leverageMultiplier) / currentPrice
+
+    return Math.min(leveragedPositionSize, maxPositionSize)
+  }
+
+  /**
+   * Calculate strategy signals based on kline data
+   */
+  public calculateSignals(klines: Kline[], higherTimeframeEma?: number): StrategySignal[] {
+    try {
+      if (!Array.isArray(klines)) {
+        throw new ValidationError("Invalid klines data: expected array", {
+          context: { invalidData: klines },
+        })
+      }
+
+      const { takeProfitPercent, stopLossPercent, maxHoldingTimeMinutes } = this.parameters
+      const longEntry = this.getRule("longEntryRule")
+      const shortEntry = this.getRule("shortEntryRule")
+      const longExit = this.getRule("longExitRule")
+      const shortExit = this.getRule("shortExitRule")
+      const rules = [longEntry, shortEntry, longExit, shortExit].filter((rule): rule is CompiledRule => rule !== null)
+
+      if (rules.length === 0 || klines.length < 2) {
+        return []
+      }
+
+      const context = new RuleContext(klines, higherTimeframeEma)
+      const patterns = groupPatternsByCandle(detectPatterns(klines), klines.length)
+      const signals: StrategySignal[] = []
+
+      // Crosses compare against the previous candle, so evaluation starts at the second one
+      for (let i = 1; i < klines.length; i++) {
+        const currentPrice = Number(klines[i].close)
+        const timestamp = Number(klines[i].openTime)
+
+        // Skip if the rules that can fire right now don't have all their indicators yet
+        const exitRule = this.activePosition?.type === "LONG" ? longExit : shortExit
+        const activeRules = this.activePosition ? [exitRule] : [longEntry, shortEntry]
+        const isWarmingUp = activeRules.some(
+          (rule) => rule !== null && Object.values(getRuleValues(rule, context, i)).some((v) => !Number.isFinite(v)),
+        )
+        if (isWarmingUp) {
+          continue
+        }
+
+        const indicators: Record<string, number> = toPatternIndicators(patterns[i])
+        for (const rule of rules) {
+          for (const [label, value] of Object.entries(getRuleValues(rule, context, i))) {
+            if (Number.isFinite(value)) {
+              indicators[label] = value
+            }
+          }
+        }
+
+        let action: StrategySignal["action"] = "NONE"
+        let strength = 50
+        let reason = "No signal"
+        let stopLoss: number | null = null
+        let takeProfit: number | null = null
+
+        // Check for entry signals
+        if (!this.activePosition) {
+          const isLongSignal = longEntry !== null && longEntry.evaluate(context, i)
+          const isShortSignal = shortEntry !== null && shortEntry.evaluate(context, i)
+
+          // Conflicting rules cancel out rather than picking a side
+          if (isLongSignal !== isShortSignal) {
+            const rule = (isLongSignal ? longEntry : shortEntry) as CompiledRule
+
+            action = isLongSignal ? "BUY" : "SELL"
+            strength = 70
+            reason = `Entry rule matched: ${rule.source}`
+            stopLoss = isLongSignal ? currentPrice * (1 - stopLossPercent) : currentPrice * (1 + stopLossPercent)
+            takeProfit = isLongSignal ? currentPrice * (1 + takeProfitPercent) : currentPrice * (1 - takeProfitPercent)
+
+            this.activePosition = {
+              type: isLongSignal ? "LONG" : "SHORT",
+              entryPrice: currentPrice,
+              entryTime: timestamp,
+              stopLoss,
+              takeProfit,
+            }
+          }
+        }
+        // Check for exit signals
+        else {
+          const { type, entryPrice, entryTime } = this.activePosition
+          const holdingTimeMinutes = (timestamp - entryTime) / (1000 * 60)
+          const profit = type === "LONG" ? (currentPrice - entryPrice) / entryPrice : (entryPrice - currentPrice) / entryPrice
+          const exitAction = type === "LONG" ? "CLOSE_LONG" : "CLOSE_SHORT"
+
+          if (profit >= takeProfitPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Take profit reached"
+          } else if (profit <= -stopLossPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Stop loss triggered"
+          } else if (exitRule !== null && exitRule.evaluate(context, i)) {
+            action = exitAction
+            strength = 75
+            reason = `Exit rule matched: ${exitRule.source}`
+          } else if (holdingTimeMinutes >= maxHoldingTimeMinutes) {
+            action = exitAction
+            strength = 70
+            reason = "Max holding time reached"
+          }
+
+          if (action !== "NONE") {
+            this.activePosition = null
+          }
+        }
+
+        const signal: StrategySignal = {
+          action,
+          price: currentPrice,
+          timestamp,
+          strength,
+          reason,
+          stopLoss,
+          takeProfit,
+          indicators,
+        }
+
+        signals.push(signal)
+        this.lastSignal = signal
+      }
+
+      return signals
+    } catch (error) {
+      console.error("Error calculating rule signals:", error)
+      return []
+    }
+  }
+
+  // Compiled rule for a parameter, or null when the rule is empty; compiled rules are cached by their source
+  private getRule(key: RuleKey): CompiledRule | null {
+    const source = (this.parameters[key] ?? "").trim()
+    if (!source) {
+      return null
+    }
+
+    let rule = this.compiledRules.get(source)
+    if (!rule) {
+      rule = compileRule(source)
+      this.compiledRules.set(source, rule)
+    }
+    return rule
+  }
+}
@@ -1,8 +1,18 @@
-import type { Kline } from "@/lib/types/market-types"
-import { calculateEMA, calculateRSI, calculateMACD, calculateVWAP } from "@/lib/utils/technical-indicators"
+import type { Kline, MicrostructureSnapshot } from "@/lib/types/market-types"
+import { IncrementalEMA, IncrementalMACD, IncrementalRSI, IncrementalVWAP } from "@/lib/indicators"
 import { ValidationError } from "@/lib/error-handling"
-
-export interface StrategyParameters {
+import { detectPatternsAt, toPatternIndicators } from "@/lib/market/pattern-detector"
+import type { PatternMatch } from "@/lib/market/pattern-detector"
+import { BASE_PARAMETER_SCHEMA } from "./strategy"
+import type {
+  BaseStrategyParameters,
+  Strategy,
+  StrategyParameterSchema,
+  StrategyPosition,
+  StrategySignal,
+} from "./strategy"
+
+export interface StrategyParameters extends BaseStrategyParameters {
   symbol: string
   interval: string
   shortEmaPeriod: number
@@ -16,6 +26,9 @@ export interface StrategyParameters {
   macdSignalPeriod: number
   vwapPeriod: number
   vwapThreshold: number
+  minBookImbalance: number
+  minAggressorRatio: number
+  maxSpreadBps: number
   takeProfitPercent: number
   stopLossPercent: number
   maxHoldingTimeMinutes: number
@@ -23,36 +36,107 @@ export interface StrategyParameters {
   leverageMultiplier: number
 }
 
-export interface StrategyPosition {
-  type: "LONG" | "SHORT"
-  entryPrice: number
-  entryTime: number
-  stopLoss?: number
-  takeProfit?: number
+// Shared strategy types now live in ./strategy; re-exported for existing imports
+export type { StrategyPosition, StrategySignal } from "./strategy"
+
+// Indicator values for one candle
+interface IndicatorValues {
+  shortEma: number
+  longEma: number
+  rsi: number
+  macd: number
+  macdSignal: number
+  macdHistogram: number
+  vwap: number
+}
+
+// Indicators kept between calculateSignals calls, plus the strategy state from before the latest candle so that
+// candle can be evaluated again when it changes
+interface IndicatorState {
+  shortEma: IncrementalEMA
+  longEma: IncrementalEMA
+  rsi: IncrementalRSI
+  macd: IncrementalMACD
+  vwap: IncrementalVWAP
+  candles: number
+  lastOpenTime: number | null
+  current: IndicatorValues | null
+  previous: IndicatorValues | null
+  committedPosition: StrategyPosition | null
+  committedTrades: ScalpingTrade[]
 }
 
-export interface StrategySignal {
-  action: "BUY" | "SELL" | "CLOSE_LONG" | "CLOSE_SHORT" | "NONE"
+type ScalpingTrade = {
+  type: "ENTRY" | "EXIT"
+  position: "LONG" | "SHORT"
   price: number
   timestamp: number
-  strength: number
-  reason: string
-  stopLoss: number | null
-  takeProfit: number | null
-  indicators: Record<string, number | string | boolean>
+  profit?: number
 }
 
-export class ScalpingStrategy {
+export const SCALPING_PARAMETER_SCHEMA: StrategyParameterSchema = [
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "indicators"),
+  { key: "shortEmaPeriod", label: "Short EMA Period", group: "indicators", control: "slider", min: 5, max: 50, step: 1 },
+  { key: "longEmaPeriod", label: "Long EMA Period", group: "indicators", control: "slider", min: 10, max: 200, step: 1 },
+  { key: "rsiPeriod", label: "RSI Period", group: "indicators", control: "slider", min: 7, max: 21, step: 1 },
+  { key: "rsiOverbought", label: "RSI Overbought", group: "indicators", control: "slider", min: 60, max: 90, step: 1 },
+  { key: "rsiOversold", label: "RSI Oversold", group: "indicators", control: "slider", min: 10, max: 40, step: 1 },
+  { key: "vwapPeriod", label: "VWAP Period", group: "indicators", control: "slider", min: 10, max: 50, step: 1 },
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "risk"),
+  {
+    key: "emaThreshold",
+    label: "EMA Threshold",
+    group: "advanced",
+    control: "slider",
+    min: 0.0001,
+    max: 0.01,
+    step: 0.0001,
+    format: "percent",
+  },
+  {
+    key: "vwapThreshold",
+    label: "VWAP Threshold",
+    group: "advanced",
+    control: "slider",
+    min: 0.0001,
+    max: 0.01,
+    step: 0.0001,
+    format: "percent",
+  },
+  { key: "macdFastPeriod", label: "MACD Fast", group: "advanced", control: "number", min: 5, max: 30 },
+  { key: "macdSlowPeriod", label: "MACD Slow", group: "advanced", control: "number", min: 10, max: 50 },
+  { key: "macdSignalPeriod", label: "MACD Signal", group: "advanced", control: "number", min: 5, max: 20 },
+  {
+    key: "minBookImbalance",
+    label: "Min Book Imbalance",
+    group: "advanced",
+    control: "slider",
+    min: 0,
+    max: 0.5,
+    step: 0.01,
+    description: "Order book imbalance towards the trade direction needed to confirm a live entry",
+  },
+  {
+    key: "minAggressorRatio",
+    label: "Min Aggressor Ratio",
+    group: "advanced",
+    control: "slider",
+    min: 0.5,
+    max: 0.8,
+    step: 0.01,
+    format: "percent",
+    description: "Share of recent volume traded in the entry direction needed to confirm a live entry",
+  },
+  { key: "maxSpreadBps", label: "Max Spread (bps)", group: "advanced", control: "number", min: 1, max: 50 },
+]
+
+export class ScalpingStrategy implements Strategy<StrategyParameters> {
   private parameters: StrategyParameters
   private lastSignal: StrategySignal | null = null
   private activePosition: StrategyPosition | null = null
-  private recentTrades: Array<{
-    type: "ENTRY" | "EXIT"
-    position: "LONG" | "SHORT"
-    price: number
-    timestamp: number
-    profit?: number
-  }> = []
+  private recentTrades: ScalpingTrade[] = []
+  private indicators: IndicatorState | null = null
+  private signals: StrategySignal[] = []
 
   constructor(params?: Partial<StrategyParameters>) {
     // Default parameters
@@ -70,6 +154,9 @@ export class ScalpingStrategy {
       macdSignalPeriod: 9,
       vwapPeriod: 20,
       vwapThreshold: 0.0008, // 0.08%
+      minBookImbalance: 0.1,
+      minAggressorRatio: 0.55,
+      maxSpreadBps: 5,
       takeProfitPercent: 0.005, // 0.5%
       stopLossPercent: 0.003, // 0.3%
       maxHoldingTimeMinutes: 60,
@@ -94,6 +181,16 @@ export class ScalpingStrategy {
       ...this.parameters,
       ...params,
     }
+    // Indicator periods may have changed
+    this.indicators = null
+    this.signals = []
+  }
+
+  /**
+   * Get the parameter schema used to render strategy settings
+   */
+  public getParameterSchema(): StrategyParameterSchema {
+    return SCALPING_PARAMETER_SCHEMA
   }
 
   /**
@@ -106,13 +203,7 @@ export class ScalpingStrategy {
   /**
    * Get recent trades
    */
-  public getRecentTrades(): Array<{
-    type: "ENTRY" | "EXIT"
-    position: "LONG" | "SHORT"
-    price: number
-    timestamp: number
-    profit?: number
-  }> {
+  public getRecentTrades(): ScalpingTrade[] {
     return [...this.recentTrades]
   }
 
@@ -122,6 +213,8 @@ export class ScalpingStrategy {
   public reset(): void {
     this.activePosition = null
     this.lastSignal = null
+    this.indicators = null
+    this.signals = []
   }
 
   /**
@@ -145,9 +238,15 @@ export class ScalpingStrategy {
   }
 
   /**
-   * Calculate strategy signals based on kline data
+   * Calculate strategy signals based on kline data; entries on the latest candle also need order flow confirmation
+   * when a microstructure snapshot is given. Indicators are kept between calls, so only candles that are new since
+   * the previous call, and the latest candle if it changed, are processed.
    */
-  public calculateSignals(klines: Kline[], higherTimeframeEma?: number): StrategySignal[] {
+  public calculateSignals(
+    klines: Kline[],
+    higherTimeframeEma?: number,
+    microstructure?: MicrostructureSnapshot,
+  ): StrategySignal[] {
     try {
       // Validate input data
       if (!Array.isArray(klines)) {
@@ -172,343 +271,500 @@ export class ScalpingStrategy {
         return []
       }
 
-      // Extract data from klines
-      const closes = klines.map((k) => (typeof k.close === "number" ? k.close : Number.parseFloat(k.close)))
-      const highs = klines.map((k) => (typeof k.high === "number" ? k.high : Number.parseFloat(k.high)))
-      const lows = klines.map((k) => (typeof k.low === "number" ? k.low : Number.parseFloat(k.low)))
-      const volumes = klines.map((k) => (typeof k.volume === "number" ? k.volume : Number.parseFloat(k.volume)))
-      const timestamps = klines.map((k) =>
-        typeof k.openTime === "number" ? k.openTime : Number.parseInt(k.openTime as any),
-      )
+      for (let i = this.syncIndicators(klines); i < klines.length; i++) {
+        const liveMicrostructure = i === klines.length - 1 ? microstructure : undefined
+        this.processCandle(klines[i], minPeriod, detectPatternsAt(klines, i), higherTimeframeEma, liveMicrostructure)
+      }
 
-      // Calculate indicators
-      const shortEma = calculateEMA(closes, this.parameters.shortEmaPeriod)
-      const longEma = calculateEMA(closes, this.parameters.longEmaPeriod)
-      const rsi = calculateRSI(closes, this.parameters.rsiPeriod)
-      const macd = calculateMACD(
-        closes,
-        this.parameters.macdFastPeriod,
-        this.parameters.macdSlowPeriod,
-        this.parameters.macdSignalPeriod,
-      )
-      const vwap = calculateVWAP(highs, lows, closes, volumes, this.parameters.vwapPeriod)
-
-      const signals: StrategySignal[] = []
-
-      // Generate signals for each candle
-      for (let i = minPeriod; i < klines.length; i++) {
-        const currentPrice = closes[i]
-        const currentShortEma = shortEma[i]
-        const currentLongEma = longEma[i]
-        const currentRsi = rsi[i]
-        const currentMacd = macd.MACD[i]
-        const currentMacdSignal = macd.signal[i]
-        const currentMacdHistogram = macd.histogram[i]
-        const currentVwap = vwap[i]
-        const timestamp = timestamps[i]
-
-        // Skip if we don't have all indicators
-        if (!currentShortEma || !currentLongEma || !currentRsi || !currentMacd || !currentMacdSignal || !currentVwap) {
-          continue
-        }
+      // Only return signals for candles in this series
+      const firstOpenTime = toNumber(klines[0].openTime)
+      const expired = this.signals.findIndex((signal) => signal.timestamp >= firstOpenTime)
+      this.signals.splice(0, expired === -1 ? this.signals.length : expired)
+
+      return [...this.signals]
+    } catch (error) {
+      console.error("Error calculating signals:", error)
+      return []
+    }
+  }
+
+  // Index of the first kline that still needs processing: the latest candle seen so far, which may have changed.
+  // Indicators start over when the series does not continue the previous one.
+  private syncIndicators(klines: Kline[]): number {
+    const lastOpenTime = this.indicators?.lastOpenTime ?? null
 
-        let action: "BUY" | "SELL" | "CLOSE_LONG" | "CLOSE_SHORT" | "NONE" = "NONE"
-        let strength = 50
-        let reason = "No signal"
-        let stopLoss: number | null = null
-        let takeProfit: number | null = null
-
-        // Check for entry signals
-        if (!this.activePosition) {
-          // Long signal conditions
-          const isLongSignal =
-            // EMA crossover
-            shortEma[i] > longEma[i] &&
-            shortEma[i - 1] <= longEma[i - 1] &&
-            // RSI not overbought
-            currentRsi < this.parameters.rsiOverbought &&
-            // MACD crossing above signal line
-            currentMacdHistogram > 0 &&
-            macd.histogram[i - 1] <= 0 &&
-            // Price above VWAP
-            currentPrice > currentVwap &&
-            // Higher timeframe trend filter (if provided)
-            (!higherTimeframeEma || currentPrice > higherTimeframeEma)
-
-          // Short signal conditions
-          const isShortSignal =
-            // EMA crossover
-            shortEma[i] < longEma[i] &&
-            shortEma[i - 1] >= longEma[i - 1] &&
-            // RSI not oversold
-            currentRsi > this.parameters.rsiOversold &&
-            // MACD crossing below signal line
-            currentMacdHistogram < 0 &&
-            macd.histogram[i - 1] >= 0 &&
-            // Price below VWAP
-            currentPrice < currentVwap &&
-            // Higher timeframe trend filter (if provided)
-            (!higherTimeframeEma || currentPrice < higherTimeframeEma)
-
-          if (isLongSignal) {
-            action = "BUY"
-            strength = 75
-            reason = "EMA crossover with MACD confirmation and price above VWAP"
-            stopLoss = currentPrice * (1 - this.parameters.stopLossPercent)
-            takeProfit = currentPrice * (1 + this.parameters.takeProfitPercent)
-
-            // Create active position
-            this.activePosition = {
-              type: "LONG",
-              entryPrice: currentPrice,
-              entryTime: timestamp,
-              stopLoss,
-              takeProfit,
-            }
-
-            // Record trade
-            this.recentTrades.push({
-              type: "ENTRY",
-              position: "LONG",
-              price: currentPrice,
-              timestamp,
-            })
-
-            // Limit recent trades history
-            if (this.recentTrades.length > 50) {
-              this.recentTrades.shift()
-            }
-          } else if (isShortSignal) {
-            action = "SELL"
-            strength = 75
-            reason = "EMA crossover with MACD confirmation and price below VWAP"
-            stopLoss = currentPrice * (1 + this.parameters.stopLossPercent)
-            takeProfit = currentPrice * (1 - this.parameters.takeProfitPercent)
-
-            // Create active position
-            this.activePosition = {
-              type: "SHORT",
-              entryPrice: currentPrice,
-              entryTime: timestamp,
-              stopLoss,
-              takeProfit,
-            }
-
-            // Record trade
-            this.recentTrades.push({
-              type: "ENTRY",
-              position: "SHORT",
-              price: currentPrice,
-              timestamp,
-            })
-
-            // Limit recent trades history
-            if (this.recentTrades.length > 50) {
-              this.recentTrades.shift()
-            }
-          }
+    if (lastOpenTime !== null) {
+      for (let i = klines.length - 1; i >= 0; i--) {
+        const openTime = toNumber(klines[i].openTime)
+        if (openTime === lastOpenTime) {
+          return i
         }
-        // Check for exit signals
-        else if (this.activePosition) {
-          const holdingTimeMinutes = (timestamp - this.activePosition.entryTime) / (1000 * 60)
-
-          // Exit long position
-          if (this.activePosition.type === "LONG") {
-            // Take profit
-            if (currentPrice >= this.activePosition.entryPrice * (1 + this.parameters.takeProfitPercent)) {
-              action = "CLOSE_LONG"
-              strength = 90
-              reason = "Take profit reached"
-
-              // Calculate profit
-              const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "LONG",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Stop loss
-            else if (currentPrice <= this.activePosition.entryPrice * (1 - this.parameters.stopLossPercent)) {
-              action = "CLOSE_LONG"
-              strength = 90
-              reason = "Stop loss triggered"
-
-              // Calculate loss
-              const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "LONG",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Max holding time
-            else if (holdingTimeMinutes >= this.parameters.maxHoldingTimeMinutes) {
-              action = "CLOSE_LONG"
-              strength = 70
-              reason = "Max holding time reached"
-
-              // Calculate profit/loss
-              const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "LONG",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Trend reversal
-            else if (shortEma[i] < longEma[i] && shortEma[i - 1] >= longEma[i - 1] && currentMacdHistogram < 0) {
-              action = "CLOSE_LONG"
-              strength = 60
-              reason = "Trend reversal detected"
-
-              // Calculate profit/loss
-              const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "LONG",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-          }
-          // Exit short position
-          else if (this.activePosition.type === "SHORT") {
-            // Take profit
-            if (currentPrice <= this.activePosition.entryPrice * (1 - this.parameters.takeProfitPercent)) {
-              action = "CLOSE_SHORT"
-              strength = 90
-              reason = "Take profit reached"
-
-              // Calculate profit
-              const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "SHORT",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Stop loss
-            else if (currentPrice >= this.activePosition.entryPrice * (1 + this.parameters.stopLossPercent)) {
-              action = "CLOSE_SHORT"
-              strength = 90
-              reason = "Stop loss triggered"
-
-              // Calculate loss
-              const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "SHORT",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Max holding time
-            else if (holdingTimeMinutes >= this.parameters.maxHoldingTimeMinutes) {
-              action = "CLOSE_SHORT"
-              strength = 70
-              reason = "Max holding time reached"
-
-              // Calculate profit/loss
-              const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "SHORT",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-            // Trend reversal
-            else if (shortEma[i] > longEma[i] && shortEma[i - 1] <= longEma[i - 1] && currentMacdHistogram > 0) {
-              action = "CLOSE_SHORT"
-              strength = 60
-              reason = "Trend reversal detected"
-
-              // Calculate profit/loss
-              const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
-
-              // Record trade
-              this.recentTrades.push({
-                type: "EXIT",
-                position: "SHORT",
-                price: currentPrice,
-                timestamp,
-                profit,
-              })
-
-              this.activePosition = null
-            }
-          }
+        if (openTime < lastOpenTime) {
+          break
+        }
+      }
+    }
+
+    this.indicators = createIndicatorState(this.parameters)
+    this.signals = []
+    return 0
+  }
+
+  // Adds a new candle, or revises the latest one from the strategy state it started with
+  private processCandle(
+    kline: Kline,
+    minPeriod: number,
+    patterns: PatternMatch[],
+    higherTimeframeEma?: number,
+    liveMicrostructure?: MicrostructureSnapshot,
+  ): void {
+    const state = this.indicators as IndicatorState
+    const openTime = toNumber(kline.openTime)
+    const close = toNumber(kline.close)
+    const revise = openTime === state.lastOpenTime
+
+    if (revise) {
+      this.activePosition = state.committedPosition
+      this.recentTrades = [...state.committedTrades]
+      if (this.signals.length > 0 && this.signals[this.signals.length - 1].timestamp === openTime) {
+        this.signals.pop()
+      }
+    } else {
+      state.committedPosition = this.activePosition
+      state.committedTrades = [...this.recentTrades]
+      state.previous = state.current
+      state.candles++
+      state.lastOpenTime = openTime
+    }
+
+    state.current = updateIndicators(state, kline, revise)
+
+    // Same warm-up as a full pass over the series: the first signal is for the candle at index minPeriod
+    if (state.candles <= minPeriod || !state.current || !state.previous) {
+      return
+    }
+
+    const signal = this.evaluateCandle(
+      close,
+      openTime,
+      state.current,
+      state.previous,
+      patterns,
+      higherTimeframeEma,
+      liveMicrostructure,
+    )
+    this.signals.push(signal)
+    this.lastSignal = signal
+  }
+
+  // Entry and exit rules for one candle; opening or closing a position updates the strategy state
+  private evaluateCandle(
+    currentPrice: number,
+    timestamp: number,
+    current: IndicatorValues,
+    previous: IndicatorValues,
+    patterns: PatternMatch[],
+    higherTimeframeEma?: number,
+    liveMicrostructure?: MicrostructureSnapshot,
+  ): StrategySignal {
+    const { rsi: currentRsi, macdHistogram: currentMacdHistogram, vwap: currentVwap } = current
+
+    let action: "BUY" | "SELL" | "CLOSE_LONG" | "CLOSE_SHORT" | "NONE" = "NONE"
+    let strength = 50
+    let reason = "No signal"
+    let stopLoss: number | null = null
+    let takeProfit: number | null = null
+
+    // Check for entry signals
+    if (!this.activePosition) {
+      // Long signal conditions
+      const isLongSignal =
+        // EMA crossover
+        current.shortEma > current.longEma &&
+        previous.shortEma <= previous.longEma &&
+        // RSI not overbought
+        currentRsi < this.parameters.rsiOverbought &&
+        // MACD crossing above signal line
+        currentMacdHistogram > 0 &&
+        previous.macdHistogram <= 0 &&
+        // Price above VWAP
+        currentPrice > currentVwap &&
+        // Higher timeframe trend filter (if provided)
+        (!higherTimeframeEma || currentPrice > higherTimeframeEma) &&
+        // Order flow confirmation (if provided)
+        (!liveMicrostructure || this.confirmsWithMicrostructure("LONG", liveMicrostructure))
+
+      // Short signal conditions
+      const isShortSignal =
+        // EMA crossover
+        current.shortEma < current.longEma &&
+        previous.shortEma >= previous.longEma &&
+        // RSI not oversold
+        currentRsi > this.parameters.rsiOversold &&
+        // MACD crossing below signal line
+        currentMacdHistogram < 0 &&
+        previous.macdHistogram >= 0 &&
+        // Price below VWAP
+        currentPrice < currentVwap &&
+        // Higher timeframe trend filter (if provided)
+        (!higherTimeframeEma || currentPrice < higherTimeframeEma) &&
+        // Order flow confirmation (if provided)
+        (!liveMicrostructure || this.confirmsWithMicrostructure("SHORT", liveMicrostructure))
+
+      if (isLongSignal) {
+        action = "BUY"
+        strength = liveMicrostructure ? 85 : 75
+        reason = liveMicrostructure
+          ? "EMA crossover with MACD and order flow confirmation and price above VWAP"
+          : "EMA crossover with MACD confirmation and price above VWAP"
+        stopLoss = currentPrice * (1 - this.parameters.stopLossPercent)
+        takeProfit = currentPrice * (1 + this.parameters.takeProfitPercent)
+
+        // Create active position
+        this.activePosition = {
+          type: "LONG",
+          entryPrice: currentPrice,
+          entryTime: timestamp,
+          stopLoss,
+          takeProfit,
         }
 
-        // Create signal
-        const signal: StrategySignal = {
-          action,
+        // Record trade
+        this.recentTrades.push({
+          type: "ENTRY",
+          position: "LONG",
           price: currentPrice,
           timestamp,
-          strength,
-          reason,
+        })
+
+        // Limit recent trades history
+        if (this.recentTrades.length > 50) {
+          this.recentTrades.shift()
+        }
+      } else if (isShortSignal) {
+        action = "SELL"
+        strength = liveMicrostructure ? 85 : 75
+        reason = liveMicrostructure
+          ? "EMA crossover with MACD and order flow confirmation and price below VWAP"
+          : "EMA crossover with MACD confirmation and price below VWAP"
+        stopLoss = currentPrice * (1 + this.parameters.stopLossPercent)
+        takeProfit = currentPrice * (1 - this.parameters.takeProfitPercent)
+
+        // Create active position
+        this.activePosition = {
+          type: "SHORT",
+          entryPrice: currentPrice,
+          entryTime: timestamp,
           stopLoss,
           takeProfit,
-          indicators: {
-            shortEma: currentShortEma,
-            longEma: currentLongEma,
-            rsi: currentRsi,
-            macd: currentMacd,
-            macdSignal: currentMacdSignal,
-            macdHistogram: currentMacdHistogram,
-            vwap: currentVwap,
-          },
         }
 
-        signals.push(signal)
-        this.lastSignal = signal
+        // Record trade
+        this.recentTrades.push({
+          type: "ENTRY",
+          position: "SHORT",
+          price: currentPrice,
+          timestamp,
+        })
+
+        // Limit recent trades history
+        if (this.recentTrades.length > 50) {
+          this.recentTrades.shift()
+        }
+      }
+    }
+    // Check for exit signals
+    else if (this.activePosition) {
+      const holdingTimeMinutes = (timestamp - this.activePosition.entryTime) / (1000 * 60)
+
+      // Exit long position
+      if (this.activePosition.type === "LONG") {
+        // Take profit
+        if (currentPrice >= this.activePosition.entryPrice * (1 + this.parameters.takeProfitPercent)) {
+          action = "CLOSE_LONG"
+          strength = 90
+          reason = "Take profit reached"
+
+          // Calculate profit
+          const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "LONG",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Stop loss
+        else if (currentPrice <= this.activePosition.entryPrice * (1 - this.parameters.stopLossPercent)) {
+          action = "CLOSE_LONG"
+          strength = 90
+          reason = "Stop loss triggered"
+
+          // Calculate loss
+          const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "LONG",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Max holding time
+        else if (holdingTimeMinutes >= this.parameters.maxHoldingTimeMinutes) {
+          action = "CLOSE_LONG"
+          strength = 70
+          reason = "Max holding time reached"
+
+          // Calculate profit/loss
+          const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "LONG",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Trend reversal
+        else if (
+          current.shortEma < current.longEma &&
+          previous.shortEma >= previous.longEma &&
+          currentMacdHistogram < 0
+        ) {
+          action = "CLOSE_LONG"
+          strength = 60
+          reason = "Trend reversal detected"
+
+          // Calculate profit/loss
+          const profit = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "LONG",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+      }
+      // Exit short position
+      else if (this.activePosition.type === "SHORT") {
+        // Take profit
+        if (currentPrice <= this.activePosition.entryPrice * (1 - this.parameters.takeProfitPercent)) {
+          action = "CLOSE_SHORT"
+          strength = 90
+          reason = "Take profit reached"
+
+          // Calculate profit
+          const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "SHORT",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Stop loss
+        else if (currentPrice >= this.activePosition.entryPrice * (1 + this.parameters.stopLossPercent)) {
+          action = "CLOSE_SHORT"
+          strength = 90
+          reason = "Stop loss triggered"
+
+          // Calculate loss
+          const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "SHORT",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Max holding time
+        else if (holdingTimeMinutes >= this.parameters.maxHoldingTimeMinutes) {
+          action = "CLOSE_SHORT"
+          strength = 70
+          reason = "Max holding time reached"
+
+          // Calculate profit/loss
+          const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "SHORT",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
+        // Trend reversal
+        else if (
+          current.shortEma > current.longEma &&
+          previous.shortEma <= previous.longEma &&
+          currentMacdHistogram > 0
+        ) {
+          action = "CLOSE_SHORT"
+          strength = 60
+          reason = "Trend reversal detected"
+
+          // Calculate profit/loss
+          const profit = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
+
+          // Record trade
+          this.recentTrades.push({
+            type: "EXIT",
+            position: "SHORT",
+            price: currentPrice,
+            timestamp,
+            profit,
+          })
+
+          this.activePosition = null
+        }
       }
+    }
 
-      return signals
-    } catch (error) {
-      console.error("Error calculating signals:", error)
-      return []
+    // Create signal
+    const signal: StrategySignal = {
+      action,
+      price: currentPrice,
+      timestamp,
+      strength,
+      reason,
+      stopLoss,
+      takeProfit,
+      indicators: {
+        ...current,
+        ...toPatternIndicators(patterns),
+        ...(liveMicrostructure && {
+          bookImbalance: liveMicrostructure.bookImbalance,
+          aggressorBuyRatio: liveMicrostructure.aggressorBuyRatio,
+          cumulativeVolumeDelta: liveMicrostructure.cumulativeVolumeDelta,
+          spreadBps: liveMicrostructure.spreadBps,
+          microprice: liveMicrostructure.microprice,
+          largeTrades: liveMicrostructure.largeTrades.length,
+        }),
+      },
     }
+
+    return signal
+  }
+
+  // Order flow has to lean the same way as the candle signal: resting liquidity on our side, aggressors
+  // trading in our direction, a tight spread and no large trades on the other side
+  private confirmsWithMicrostructure(direction: "LONG" | "SHORT", microstructure: MicrostructureSnapshot): boolean {
+    const { minBookImbalance, minAggressorRatio, maxSpreadBps } = this.parameters
+
+    if (microstructure.spreadBps > maxSpreadBps) {
+      return false
+    }
+
+    const largeTradeDelta = microstructure.largeTrades.reduce(
+      (delta, trade) => delta + (trade.isBuyerMaker ? -trade.quantity : trade.quantity),
+      0,
+    )
+
+    if (direction === "LONG") {
+      return (
+        microstructure.bookImbalance >= minBookImbalance &&
+        microstructure.aggressorBuyRatio >= minAggressorRatio &&
+        largeTradeDelta >= 0
+      )
+    }
+
+    return (
+      microstructure.bookImbalance <= -minBookImbalance &&
+      microstructure.aggressorBuyRatio <= 1 - minAggressorRatio &&
+      largeTradeDelta <= 0
+    )
+  }
+}
+
+function toNumber(value: number | string): number {
+  return typeof value === "number" ? value : Number.parseFloat(value)
+}
+
+function createIndicatorState(parameters: StrategyParameters): IndicatorState {
+  return {
+    shortEma: new IncrementalEMA(parameters.shortEmaPeriod),
+    longEma: new IncrementalEMA(parameters.longEmaPeriod),
+    rsi: new IncrementalRSI(parameters.rsiPeriod),
+    macd: new IncrementalMACD(parameters.macdFastPeriod, parameters.macdSlowPeriod, parameters.macdSignalPeriod),
+    vwap: new IncrementalVWAP(parameters.vwapPeriod),
+    candles: 0,
+    lastOpenTime: null,
+    current: null,
+    previous: null,
+    committedPosition: null,
+    committedTrades: [],
+  }
+}
+
+// Feed one candle to every indicator; null until all of them have warmed up
+function updateIndicators(state: IndicatorState, kline: Kline, revise: boolean): IndicatorValues | null {
+  const close = toNumber(kline.close)
+  const candle = {
+    high: toNumber(kline.high),
+    low: toNumber(kline.low),
+    close,
+    volume: toNumber(kline.volume),
+  }
+
+  const shortEma = revise ? state.shortEma.revise(close) : state.shortEma.add(close)
+  const longEma = revise ? state.longEma.revise(close) : state.longEma.add(close)
+  const rsi = revise ? state.rsi.revise(close) : state.rsi.add(close)
+  const macd = revise ? state.macd.revise(close) : state.macd.add(close)
+  const vwap = revise ? state.vwap.revise(candle) : state.vwap.add(candle)
+
+  if (
+    shortEma === null ||
+    longEma === null ||
+    rsi === null ||
+    macd === null ||
+    macd.signal === null ||
+    macd.histogram === null ||
+    vwap === null
+  ) {
+    return null
+  }
+
+  return {
+    shortEma,
+    longEma,
+    rsi,
+    macd: macd.macd,
+    macdSignal: macd.signal,
+    macdHistogram: macd.histogram,
+    vwap,
   }
 }
 
@@ -0,0 +1,122 @@
+/**
+ * Strategy Registry
+ * Strategies register here by name so TradingService, backtests and the UI can create them without hard-wiring a class
+ */
+import { StrategyError } from "../../error-handling"
+import { ScalpingStrategy, SCALPING_PARAMETER_SCHEMA } from "./scalping-strategy"
+import { TrendFollowingStrategy, TREND_FOLLOWING_PARAMETER_SCHEMA } from "./trend-following-strategy"
+import { MeanReversionStrategy, MEAN_REVERSION_PARAMETER_SCHEMA } from "./mean-reversion-strategy"
+import { RuleStrategy, RULE_PARAMETER_SCHEMA } from "./rule-strategy"
+import type { Strategy, StrategyParameterSchema, StrategyParameterUpdate } from "./strategy"
+
+export interface StrategyDefinition {
+  name: string
+  label: string
+  description: string
+  parameterSchema: StrategyParameterSchema
+  create: (params?: StrategyParameterUpdate) => Strategy
+}
+
+export class StrategyRegistry {
+  private static instance: StrategyRegistry
+  private definitions = new Map<string, StrategyDefinition>()
+
+  private constructor() {
+    // Built-in strategies
+    this.register({
+      name: "SCALPING",
+      label: "Scalping",
+      description: "EMA crossovers confirmed by RSI, MACD and VWAP on short timeframes",
+      parameterSchema: SCALPING_PARAMETER_SCHEMA,
+      create: (params) => new ScalpingStrategy(params),
+    })
+    this.register({
+      name: "TREND_FOLLOWING",
+      label: "Trend Following",
+      description: "ADX trend filter with Ichimoku cloud and Parabolic SAR entries and exits",
+      parameterSchema: TREND_FOLLOWING_PARAMETER_SCHEMA,
+      create: (params) => new TrendFollowingStrategy(params),
+    })
+    this.register({
+      name: "MEAN_REVERSION",
+      label: "Mean Reversion",
+      description: "Fades Bollinger Band extremes confirmed by Stochastic and Williams %R",
+      parameterSchema: MEAN_REVERSION_PARAMETER_SCHEMA,
+      create: (params) => new MeanReversionStrategy(params),
+    })
+    this.register({
+      name: "RULES",
+      label: "Custom Rules",
+      description: "Entries and exits defined by editable indicator rules such as ema(9) crosses_above ema(21)",
+      parameterSchema: RULE_PARAMETER_SCHEMA,
+      create: (params) => new RuleStrategy(params),
+    })
+  }
+
+  public static getInstance(): StrategyRegistry {
+    if (!StrategyRegistry.instance) {
+      StrategyRegistry.instance = new StrategyRegistry()
+    }
+    return StrategyRegistry.instance
+  }
+
+  /**
+   * Register a strategy; registering an existing name replaces it
+   */
+  public register(definition: StrategyDefinition): void {
+    if (!definition.name) {
+      throw new StrategyError("Strategy name is required", {
+        code: "INVALID_STRATEGY_DEFINITION",
+        severity: "medium",
+      })
+    }
+
+    this.definitions.set(definition.name, definition)
+  }
+
+  /**
+   * Remove a registered strategy
+   */
+  public unregister(name: string): boolean {
+    return this.definitions.delete(name)
+  }
+
+  /**
+   * Check if a strategy is registered
+   */
+  public has(name: string): boolean {
+    return this.definitions.has(name)
+  }
+
+  /**
+   * Get a strategy definition by name
+   */
+  public get(name: string): StrategyDefinition | undefined {
+    return this.definitions.get(name)
+  }
+
+  /**
+   * List all registered strategies
+   */
+  public list(): StrategyDefinition[] {
+    return Array.from(this.definitions.values())
+  }
+
+  /**
+   * Create a strategy instance by name
+   */
+  public create(name: string, params: StrategyParameterUpdate = {}): Strategy {
+    const definition = this.definitions.get(name)
+
+    if (!definition) {
+      throw new StrategyError(`Unknown strategy: ${name}`, {
+        code: "UNKNOWN_STRATEGY",
+        context: { name, registered: Array.from(this.definitions.keys()) },
+      })
+    }
+
+    return definition.create(params)
+  }
+}
+
+export const strategyRegistry = StrategyRegistry.getInstance()
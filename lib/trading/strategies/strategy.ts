@@ -0,0 +1,128 @@
+/**
+ * Strategy Interface
+ * Contract shared by every trading strategy, plus the parameter schema used to render strategy settings
+ */
+import type { Kline, MicrostructureSnapshot } from "../../types/market-types"
+
+export interface StrategyPosition {
+  type: "LONG" | "SHORT"
+  entryPrice: number
+  entryTime: number
+  stopLoss?: number
+  takeProfit?: number
+}
+
+export interface StrategySignal {
+  action: "BUY" | "SELL" | "CLOSE_LONG" | "CLOSE_SHORT" | "NONE"
+  price: number
+  timestamp: number
+  strength: number
+  reason: string
+  stopLoss: number | null
+  takeProfit: number | null
+  indicators: Record<string, number | string | boolean>
+}
+
+/**
+ * Parameters every strategy must expose; TradingService relies on these for sizing and trade limits
+ */
+export interface BaseStrategyParameters {
+  symbol: string
+  interval: string
+  takeProfitPercent: number
+  stopLossPercent: number
+  maxHoldingTimeMinutes: number
+  maxTradesPerHour: number
+  leverageMultiplier: number
+}
+
+// Parameter updates may carry strategy-specific keys; strategies ignore keys they do not use
+export type StrategyParameterUpdate = Partial<BaseStrategyParameters> & Record<string, any>
+
+export type StrategyParameterGroup = "indicators" | "risk" | "advanced"
+
+export interface StrategyParameterDefinition {
+  key: string
+  label: string
+  group: StrategyParameterGroup
+  control: "slider" | "number" | "select" | "text"
+  min?: number
+  max?: number
+  step?: number
+  format?: "percent" | "minutes" | "multiplier"
+  options?: Array<{ value: string; label: string }>
+  description?: string
+}
+
+export type StrategyParameterSchema = StrategyParameterDefinition[]
+
+export interface Strategy<P extends BaseStrategyParameters = BaseStrategyParameters> {
+  // Microstructure, when given, describes the market right now and only applies to the latest candle
+  calculateSignals(
+    klines: Kline[],
+    higherTimeframeEma?: number,
+    microstructure?: MicrostructureSnapshot,
+  ): StrategySignal[]
+  getParameters(): P
+  updateParameters(params: Partial<P>): void
+  reset(): void
+  getParameterSchema(): StrategyParameterSchema
+}
+
+export const TIMEFRAME_OPTIONS = [
+  { value: "1m", label: "1 minute" },
+  { value: "5m", label: "5 minutes" },
+  { value: "15m", label: "15 minutes" },
+  { value: "30m", label: "30 minutes" },
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "1d", label: "1 day" },
+]
+
+/**
+ * Schema entries for the base parameters, shared by the built-in strategies
+ */
+export const BASE_PARAMETER_SCHEMA: StrategyParameterSchema = [
+  { key: "interval", label: "Timeframe", group: "indicators", control: "select", options: TIMEFRAME_OPTIONS },
+  {
+    key: "takeProfitPercent",
+    label: "Take Profit",
+    group: "risk",
+    control: "slider",
+    min: 0.001,
+    max: 0.05,
+    step: 0.001,
+    format: "percent",
+  },
+  {
+    key: "stopLossPercent",
+    label: "Stop Loss",
+    group: "risk",
+    control: "slider",
+    min: 0.001,
+    max: 0.03,
+    step: 0.001,
+    format: "percent",
+  },
+  {
+    key: "maxHoldingTimeMinutes",
+    label: "Max Holding Time",
+    group: "risk",
+    control: "slider",
+    min: 5,
+    max: 1440,
+    step: 5,
+    format: "minutes",
+  },
+  {
+    key: "leverageMultiplier",
+    label: "Leverage",
+    group: "risk",
+    control: "slider",
+    min: 1,
+    max: 20,
+    step: 1,
+    format: "multiplier",
+  },
+  { key: "maxTradesPerHour", label: "Max Trades Per Hour", group: "risk", control: "slider", min: 1, max: 20, step: 1 },
+]
@@ -0,0 +1,324 @@
+import type { Kline } from "../../types/market-types"
+import { calculateDMI, calculateIchimoku, calculateParabolicSAR } from "../../indicators"
+import { detectPatterns, groupPatternsByCandle, toPatternIndicators } from "../../market/pattern-detector"
+import { ValidationError } from "../../error-handling"
+import { BASE_PARAMETER_SCHEMA } from "./strategy"
+import type {
+  BaseStrategyParameters,
+  Strategy,
+  StrategyParameterSchema,
+  StrategyPosition,
+  StrategySignal,
+} from "./strategy"
+
+export interface TrendFollowingParameters extends BaseStrategyParameters {
+  symbol: string
+  interval: string
+  adxPeriod: number
+  adxThreshold: number
+  ichimokuConversionPeriod: number
+  ichimokuBasePeriod: number
+  ichimokuSpanBPeriod: number
+  ichimokuDisplacement: number
+  sarAcceleration: number
+  sarMaxAcceleration: number
+  takeProfitPercent: number
+  stopLossPercent: number
+  maxHoldingTimeMinutes: number
+  maxTradesPerHour: number
+  leverageMultiplier: number
+}
+
+export const TREND_FOLLOWING_PARAMETER_SCHEMA: StrategyParameterSchema = [
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "indicators"),
+  { key: "adxPeriod", label: "ADX Period", group: "indicators", control: "slider", min: 7, max: 30, step: 1 },
+  { key: "adxThreshold", label: "ADX Threshold", group: "indicators", control: "slider", min: 15, max: 40, step: 1 },
+  {
+    key: "sarAcceleration",
+    label: "SAR Acceleration",
+    group: "indicators",
+    control: "slider",
+    min: 0.01,
+    max: 0.05,
+    step: 0.005,
+  },
+  {
+    key: "sarMaxAcceleration",
+    label: "SAR Max Acceleration",
+    group: "indicators",
+    control: "slider",
+    min: 0.1,
+    max: 0.5,
+    step: 0.05,
+  },
+  ...BASE_PARAMETER_SCHEMA.filter((field) => field.group === "risk"),
+  { key: "ichimokuConversionPeriod", label: "Tenkan Period", group: "advanced", control: "number", min: 5, max: 20 },
+  { key: "ichimokuBasePeriod", label: "Kijun Period", group: "advanced", control: "number", min: 10, max: 60 },
+  { key: "ichimokuSpanBPeriod", label: "Senkou B Period", group: "advanced", control: "number", min: 20, max: 120 },
+  { key: "ichimokuDisplacement", label: "Displacement", group: "advanced", control: "number", min: 10, max: 60 },
+]
+
+/**
+ * Trend following strategy
+ * Enters on a Parabolic SAR flip or DI crossover when ADX confirms a trend and
+ * price is on the right side of the Ichimoku cloud; exits when SAR flips back.
+ */
+export class TrendFollowingStrategy implements Strategy<TrendFollowingParameters> {
+  private parameters: TrendFollowingParameters
+  private lastSignal: StrategySignal | null = null
+  private activePosition: StrategyPosition | null = null
+
+  constructor(params?: Partial<TrendFollowingParameters>) {
+    // Default parameters
+    this.parameters = {
+      symbol: "BTCUSDT",
+      interval: "15m",
+      adxPeriod: 14,
+      adxThreshold: 25,
+      ichimokuConversionPeriod: 9,
+      ichimokuBasePeriod: 26,
+      ichimokuSpanBPeriod: 52,
+      ichimokuDisplacement: 26,
+      sarAcceleration: 0.02,
+      sarMaxAcceleration: 0.2,
+      takeProfitPercent: 0.02, // 2%
+      stopLossPercent: 0.01, // 1%
+      maxHoldingTimeMinutes: 480,
+      maxTradesPerHour: 2,
+      leverageMultiplier: 3,
+      ...params,
+    }
+  }
+
+  /**
+   * Get strategy parameters
+   */
+  public getParameters(): TrendFollowingParameters {
+    return { ...this.parameters }
+  }
+
+  /**
+   * Update strategy parameters
+   */
+  public updateParameters(params: Partial<TrendFollowingParameters>): void {
+    this.parameters = {
+      ...this.parameters,
+      ...params,
+    }
+  }
+
+  /**
+   * Get the parameter schema used to render strategy settings
+   */
+  public getParameterSchema(): StrategyParameterSchema {
+    return TREND_FOLLOWING_PARAMETER_SCHEMA
+  }
+
+  /**
+   * Get active position
+   */
+  public getActivePosition(): StrategyPosition | null {
+    return this.activePosition ? { ...this.activePosition } : null
+  }
+
+  /**
+   * Reset strategy state
+   */
+  public reset(): void {
+    this.activePosition = null
+    this.lastSignal = null
+  }
+
+  /**
+   * Calculate position size based on account balance and risk
+   */
+  public calculatePositionSize(accountBalance: number, currentPrice: number): number {
+    const riskAmount = accountBalance * 0.02 // 2% risk per trade
+    const stopLossDistance = currentPrice * this.parameters.stopLossPercent
+    const leveragedPositionSize = (riskAmount / stopLossDistance) * this.parameters.leverageMultiplier
+    const maxPositionSize = (accountBalance * 0.2 * this.parameters.leverageMultiplier) / currentPrice
+
+    return Math.min(leveragedPositionSize, maxPositionSize)
+  }
+
+  /**
+   * Calculate strategy signals based on kline data
+   */
+  public calculateSignals(klines: Kline[], higherTimeframeEma?: number): StrategySignal[] {
+    try {
+      if (!Array.isArray(klines)) {
+        throw new ValidationError("Invalid klines data: expected array", {
+          context: { invalidData: klines },
+        })
+      }
+
+      const {
+        adxPeriod,
+        adxThreshold,
+        ichimokuConversionPeriod,
+        ichimokuBasePeriod,
+        ichimokuSpanBPeriod,
+        ichimokuDisplacement,
+        sarAcceleration,
+        sarMaxAcceleration,
+        takeProfitPercent,
+        stopLossPercent,
+        maxHoldingTimeMinutes,
+      } = this.parameters
+
+      // The cloud at candle i is the leading spans computed displacement candles earlier
+      const minPeriod = Math.max(2 * adxPeriod, ichimokuSpanBPeriod + ichimokuDisplacement)
+
+      if (klines.length <= minPeriod) {
+        return []
+      }
+
+      const closes = klines.map((k) => Number(k.close))
+      const highs = klines.map((k) => Number(k.high))
+      const lows = klines.map((k) => Number(k.low))
+      const timestamps = klines.map((k) => Number(k.openTime))
+
+      // Calculate indicators
+      const dmi = calculateDMI(highs, lows, closes, adxPeriod)
+      const ichimoku = calculateIchimoku(
+        highs,
+        lows,
+        ichimokuConversionPeriod,
+        ichimokuBasePeriod,
+        ichimokuSpanBPeriod,
+        ichimokuDisplacement,
+      )
+      const sar = calculateParabolicSAR(highs, lows, sarAcceleration, sarMaxAcceleration)
+      const patterns = groupPatternsByCandle(detectPatterns(klines), klines.length)
+
+      const signals: StrategySignal[] = []
+
+      for (let i = minPeriod; i < klines.length; i++) {
+        const currentPrice = closes[i]
+        const timestamp = timestamps[i]
+        const adx = dmi.adx[i]
+        const plusDI = dmi.plusDI[i]
+        const minusDI = dmi.minusDI[i]
+        const conversion = ichimoku.conversionLine[i]
+        const base = ichimoku.baseLine[i]
+        const spanA = ichimoku.leadingSpanA[i - ichimokuDisplacement]
+        const spanB = ichimoku.leadingSpanB[i - ichimokuDisplacement]
+
+        // Skip if we don't have all indicators
+        if ([adx, plusDI, minusDI, conversion, base, spanA, spanB, sar[i], sar[i - 1]].some((v) => !Number.isFinite(v))) {
+          continue
+        }
+
+        const cloudTop = Math.max(spanA, spanB)
+        const cloudBottom = Math.min(spanA, spanB)
+        const sarBullishFlip = sar[i] < currentPrice && sar[i - 1] >= closes[i - 1]
+        const sarBearishFlip = sar[i] > currentPrice && sar[i - 1] <= closes[i - 1]
+        const diBullishCross = plusDI > minusDI && dmi.plusDI[i - 1] <= dmi.minusDI[i - 1]
+        const diBearishCross = plusDI < minusDI && dmi.plusDI[i - 1] >= dmi.minusDI[i - 1]
+        const isTrending = adx > adxThreshold
+
+        let action: StrategySignal["action"] = "NONE"
+        let strength = 50
+        let reason = "No signal"
+        let stopLoss: number | null = null
+        let takeProfit: number | null = null
+
+        // Check for entry signals
+        if (!this.activePosition) {
+          const isLongSignal =
+            isTrending &&
+            (sarBullishFlip || diBullishCross) &&
+            plusDI > minusDI &&
+            currentPrice > cloudTop &&
+            conversion > base &&
+            (!higherTimeframeEma || currentPrice > higherTimeframeEma)
+
+          const isShortSignal =
+            isTrending &&
+            (sarBearishFlip || diBearishCross) &&
+            minusDI > plusDI &&
+            currentPrice < cloudBottom &&
+            conversion < base &&
+            (!higherTimeframeEma || currentPrice < higherTimeframeEma)
+
+          if (isLongSignal || isShortSignal) {
+            const type = isLongSignal ? "LONG" : "SHORT"
+            action = isLongSignal ? "BUY" : "SELL"
+            strength = Math.min(95, 60 + (adx - adxThreshold))
+            reason = isLongSignal
+              ? "Uptrend confirmed by ADX, SAR and price above Ichimoku cloud"
+              : "Downtrend confirmed by ADX, SAR and price below Ichimoku cloud"
+            stopLoss = isLongSignal ? currentPrice * (1 - stopLossPercent) : currentPrice * (1 + stopLossPercent)
+            takeProfit = isLongSignal ? currentPrice * (1 + takeProfitPercent) : currentPrice * (1 - takeProfitPercent)
+
+            this.activePosition = {
+              type,
+              entryPrice: currentPrice,
+              entryTime: timestamp,
+              stopLoss,
+              takeProfit,
+            }
+          }
+        }
+        // Check for exit signals
+        else {
+          const { type, entryPrice, entryTime } = this.activePosition
+          const holdingTimeMinutes = (timestamp - entryTime) / (1000 * 60)
+          const profit = type === "LONG" ? (currentPrice - entryPrice) / entryPrice : (entryPrice - currentPrice) / entryPrice
+          const exitAction = type === "LONG" ? "CLOSE_LONG" : "CLOSE_SHORT"
+
+          if (profit >= takeProfitPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Take profit reached"
+          } else if (profit <= -stopLossPercent) {
+            action = exitAction
+            strength = 90
+            reason = "Stop loss triggered"
+          } else if ((type === "LONG" && sarBearishFlip) || (type === "SHORT" && sarBullishFlip)) {
+            action = exitAction
+            strength = 80
+            reason = "Parabolic SAR reversal"
+          } else if (holdingTimeMinutes >= maxHoldingTimeMinutes) {
+            action = exitAction
+            strength = 70
+            reason = "Max holding time reached"
+          }
+
+          if (action !== "NONE") {
+            this.activePosition = null
+          }
+        }
+
+        const signal: StrategySignal = {
+          action,
+          price: currentPrice,
+          timestamp,
+          strength,
+          reason,
+          stopLoss,
+          takeProfit,
+          indicators: {
+            adx,
+            plusDI,
+            minusDI,
+            sar: sar[i],
+            tenkan: conversion,
+            kijun: base,
+            cloudTop,
+            cloudBottom,
+            ...toPatternIndicators(patterns[i]),
+          },
+        }
+
+        signals.push(signal)
+        this.lastSignal = signal
+      }
+
+      return signals
+    } catch (error) {
+      console.error("Error calculating trend following signals:", error)
+      return []
+    }
+  }
+}
@@ -3,31 +3,70 @@
  * Handles trade execution and order management with integrated risk management
  */
 import { v4 as uuidv4 } from "uuid"
-import { ScalpingStrategy } from "./strategies/scalping-strategy"
+import { createStrategy } from "./strategies"
 import { enhancedMarketDataService } from "../market/enhanced-market-data-service"
 import { binanceApiService } from "../binance/binance-api-service"
+import { binanceUserDataStream } from "../binance/user-data-stream"
+import { bracketOrderManager, getOpenQuantity, parseBracketClientOrderId } from "../binance/bracket-order-manager"
+import { formatOrderViolations, orderNormalizer } from "../binance/order-normalizer"
+import { EXECUTION_CLIENT_ORDER_PREFIX, executionAlgorithms } from "../binance/execution-algorithms"
 import { riskManager } from "./risk-manager"
 import { performanceAnalytics } from "./performance-analytics"
+import { initializeTradeJournal } from "./journal"
+import { PaperFillSimulator } from "./paper-fill-simulator"
+import { reconcilePosition } from "./position-reconciler"
 import { marketRegimeDetector } from "../market/market-regime-detector"
+import type { MarketRegime } from "../market/market-regime-detector"
+import type { RegimeProbabilities } from "../market/regime-model"
+import { MicrostructureTracker } from "../market/microstructure-tracker"
+import { KlineResampler, parseTimeframe } from "../market/kline-resampler"
 import { errorHandler } from "../error-handler"
 import type { Kline } from "../market/interfaces"
-import type { StrategySignal } from "./strategies/scalping-strategy"
-import type { StrategyParameters } from "../types/market-types"
+import type { StrategySignal } from "./strategies/strategy"
+import type {
+  BaseStrategyParameters,
+  Strategy,
+  StrategyParameterSchema,
+  StrategyParameterUpdate,
+} from "./strategies"
 import type { OrderSide, OrderType } from "../binance/binance-api-service"
+import type {
+  AlgoExecution,
+  AlgoExecutionRequest,
+  ExecutionAlgorithm,
+  OrderTradeUpdate,
+  PositionSide,
+  UserDataEvent,
+} from "../types/binance-types"
+import type { FillModelConfig, SimulatedFill } from "./paper-fill-simulator"
+import type { ExchangeExitOrder, PositionReconciliation } from "./position-reconciler"
+
+export interface EntryExecutionConfig {
+  algorithm: ExecutionAlgorithm
+  minNotional: number // Entries worth at least this much in quote currency are worked by the algorithm
+  durationMs: number // TWAP window; iceberg and chase timeout
+  slices: number // TWAP slices; an iceberg shows this fraction of the entry at a time
+}
 
 export interface TradingServiceConfig {
   symbol: string
   timeframe: string
-  strategyType: "SCALPING" | "TREND_FOLLOWING" | "MEAN_REVERSION"
-  strategyParameters?: Partial<StrategyParameters>
+  strategyType: string // Name of a registered strategy, e.g. "SCALPING"
+  strategyParameters?: StrategyParameterUpdate
   paperTrading?: boolean
   accountBalance?: number
   maxLeverage?: number
   enableRiskManagement?: boolean
   enableMarketRegimeDetection?: boolean
   enablePerformanceTracking?: boolean
+  enableMicrostructure?: boolean // Confirm entries with live trade flow and order book features
+  fillModel?: Partial<FillModelConfig> // Fees, slippage and latency applied to paper fills
+  hedgeMode?: boolean // Hold LONG and SHORT legs separately; live accounts are switched to it, or detected when unset
+  entryExecution?: Partial<EntryExecutionConfig> // Work large live entries through an execution algorithm
 }
 
+export type PositionLeg = "LONG" | "SHORT"
+
 export interface TradeExecutionResult {
   success: boolean
   orderId?: string
@@ -39,6 +78,26 @@ export interface TradeExecutionResult {
   clientOrderId?: string
 }
 
+export interface ActivePosition {
+  entryPrice: number
+  entryTime: number
+  type: PositionLeg
+  quantity: number
+  stopLoss: number
+  takeProfit: number
+  bestPrice: number // Most favourable price since entry, used for the trailing stop
+  trailingStopActive: boolean
+  entryFee?: number
+  exitFee?: number
+  orderId?: string
+  clientOrderId?: string
+  stopLossOrderId?: string
+  takeProfitOrderId?: string
+  bracketId?: string
+  tradeId?: string
+  closeOrderId?: string // Market order closing the position on an exit signal, until it fills
+}
+
 export interface TradingServiceState {
   id: string
   symbol: string
@@ -47,21 +106,16 @@ export interface TradingServiceState {
   isActive: boolean
   isPaperTrading: boolean
   accountBalance: number
-  activePosition: {
-    entryPrice: number
-    entryTime: number
-    type: "LONG" | "SHORT"
-    quantity: number
-    stopLoss: number
-    takeProfit: number
-    orderId?: string
-    clientOrderId?: string
-  } | null
+  hedgeMode: boolean
+  activePosition: ActivePosition | null // In hedge mode the most recently opened leg
+  positions: ActivePosition[] // Every open position; both legs may be open in hedge mode
   lastSignal: StrategySignal | null
   recentSignals: StrategySignal[]
-  strategyParameters: StrategyParameters
+  strategyParameters: BaseStrategyParameters
   marketRegime: string
+  marketRegimeProbabilities: RegimeProbabilities | null
   riskProfile: string
+  positionReconciliations: PositionReconciliation[] // Latest comparison with the exchange in live mode, one per leg
   pnl: {
     totalPnl: number
     winCount: number
@@ -73,30 +127,45 @@ export interface TradingServiceState {
   }
 }
 
+// Minimum trailing stop move, as a fraction of the entry price, so live stop orders aren't amended on every tick
+const TRAILING_STOP_MIN_STEP = 0.001
+
+// Untracked orders whose stream updates are kept in case their order response is still in flight
+const MAX_BUFFERED_ORDERS = 20
+
+// Defaults for the entry execution algorithm once one is configured
+const DEFAULT_ENTRY_EXECUTION: EntryExecutionConfig = {
+  algorithm: "TWAP",
+  minNotional: 50000,
+  durationMs: 60 * 1000,
+  slices: 6,
+}
+
+// Every timeframe is resampled from this many 1m klines; older history is only fetched for exchange intervals
+const BASE_KLINE_LIMIT = 1500
+const EXCHANGE_INTERVALS = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "3d", "1w"]
+
 export class TradingService {
   private id: string
   private symbol: string
   private timeframe: string
-  private strategyType: "SCALPING" | "TREND_FOLLOWING" | "MEAN_REVERSION"
-  private strategy: ScalpingStrategy
-  private strategyParams: StrategyParameters
+  private strategyType: string
+  private strategy: Strategy
+  private strategyParams: BaseStrategyParameters
+  // Parameters as last set by the user; regime adaptation always starts from these
+  private regimeBaseParams: BaseStrategyParameters
   private isActive = false
   private isPaperTrading = true
   private accountBalance = 10000 // Default paper trading balance
   private klineData: Kline[] = []
   private higherTimeframeKlineData: Kline[] = []
+  private klineResampler: KlineResampler | null = null
   private lastSignal: StrategySignal | null = null
   private recentSignals: StrategySignal[] = []
-  private activePosition: {
-    entryPrice: number
-    entryTime: number
-    type: "LONG" | "SHORT"
-    quantity: number
-    stopLoss: number
-    takeProfit: number
-    orderId?: string
-    clientOrderId?: string
-  } | null = null
+  // One position at a time in one-way mode; in hedge mode the LONG and SHORT legs are tracked separately
+  private positions: Map<PositionLeg, ActivePosition> = new Map()
+  private hedgeMode = false
+  private requestedHedgeMode: boolean | undefined
   private pnl = {
     totalPnl: 0,
     winCount: 0,
@@ -113,10 +182,24 @@ export class TradingService {
   private enableRiskManagement = true
   private enableMarketRegimeDetection = true
   private enablePerformanceTracking = true
+  private enableMicrostructure = false
+  private microstructureTracker: MicrostructureTracker | null = null
   private maxLeverage = 5
   private currentMarketRegime = "UNKNOWN"
+  private currentRegimeProbabilities: RegimeProbabilities | null = null
   private currentRiskProfile = "MEDIUM"
-  private orderMonitorInterval: NodeJS.Timeout | null = null
+  private unsubscribeUserData: (() => void) | null = null
+  private bufferedOrderUpdates: Map<string, OrderTradeUpdate[]> = new Map()
+  private amendingStopLosses: Set<PositionLeg> = new Set()
+  private fillSimulator: PaperFillSimulator
+  private isPaperOrderPending = false
+  private isLiveOrderPending = false
+  private entryExecution: EntryExecutionConfig | null = null // null: every live entry is one market order
+  private algoEntryFee: number | null = null // Commission of the child orders while an algorithm works an entry
+  private isReconciling = false
+  private reconcileAgain = false
+  private positionReconciliations: PositionReconciliation[] = []
+  private unsubscribeReconnect: (() => void) | null = null
 
   constructor(config: TradingServiceConfig) {
     this.id = uuidv4()
@@ -129,15 +212,21 @@ export class TradingService {
     this.enableRiskManagement = config.enableRiskManagement !== false
     this.enableMarketRegimeDetection = config.enableMarketRegimeDetection !== false
     this.enablePerformanceTracking = config.enablePerformanceTracking !== false
-
-    // Initialize strategy with parameters
-    this.strategy = new ScalpingStrategy({
+    this.enableMicrostructure = config.enableMicrostructure === true
+    this.requestedHedgeMode = config.hedgeMode
+    this.hedgeMode = config.hedgeMode === true
+    this.fillSimulator = new PaperFillSimulator(config.fillModel)
+    this.entryExecution = config.entryExecution ? { ...DEFAULT_ENTRY_EXECUTION, ...config.entryExecution } : null
+
+    // Initialize the configured strategy with parameters
+    this.strategy = createStrategy(this.strategyType, {
       symbol: this.symbol,
       interval: this.timeframe,
       ...config.strategyParameters,
     })
 
     this.strategyParams = this.strategy.getParameters()
+    this.regimeBaseParams = this.strategyParams
 
     // Set test mode for Binance API if paper trading is enabled
     if (this.isPaperTrading) {
@@ -155,7 +244,16 @@ export class TradingService {
   /**
    * Updates strategy parameters
    */
-  public updateStrategyParameters(params: Partial<StrategyParameters>): void {
+  public updateStrategyParameters(params: StrategyParameterUpdate): void {
+    this.applyStrategyParameters(params)
+    this.regimeBaseParams = this.strategyParams
+
+    // Keep the new parameters adapted to the regime in force
+    this.adaptToMarketRegime()
+  }
+
+  // Set strategy parameters without changing the base that regime adaptation starts from
+  private applyStrategyParameters(params: StrategyParameterUpdate): void {
     this.strategy.updateParameters(params)
     this.strategyParams = this.strategy.getParameters()
   }
@@ -163,10 +261,17 @@ export class TradingService {
   /**
    * Gets current strategy parameters
    */
-  public getStrategyParameters(): StrategyParameters {
+  public getStrategyParameters(): BaseStrategyParameters {
     return this.strategy.getParameters()
   }
 
+  /**
+   * Gets the parameter schema of the active strategy
+   */
+  public getStrategyParameterSchema(): StrategyParameterSchema {
+    return this.strategy.getParameterSchema()
+  }
+
   /**
    * Start the trading service
    */
@@ -176,6 +281,11 @@ export class TradingService {
     }
 
     try {
+      // Reload the persisted trade journal before any new trades are recorded
+      if (this.enablePerformanceTracking) {
+        await initializeTradeJournal()
+      }
+
       // Initialize data
       await this.initializeData()
 
@@ -184,7 +294,8 @@ export class TradingService {
 
       // Start order monitoring if not in paper trading mode
       if (!this.isPaperTrading) {
-        this.startOrderMonitoring()
+        await this.initializePositionMode()
+        await this.startOrderMonitoring()
       }
 
       this.isActive = true
@@ -215,10 +326,7 @@ export class TradingService {
     this.unsubscribeFunctions = []
 
     // Stop order monitoring
-    if (this.orderMonitorInterval) {
-      clearInterval(this.orderMonitorInterval)
-      this.orderMonitorInterval = null
-    }
+    this.stopOrderMonitoring()
 
     this.isActive = false
   }
@@ -235,12 +343,16 @@ export class TradingService {
       isActive: this.isActive,
       isPaperTrading: this.isPaperTrading,
       accountBalance: this.accountBalance,
-      activePosition: this.activePosition,
+      hedgeMode: this.hedgeMode,
+      activePosition: this.getActivePosition(),
+      positions: Array.from(this.positions.values()),
       lastSignal: this.lastSignal,
       recentSignals: this.recentSignals,
       strategyParameters: this.strategyParams,
       marketRegime: this.currentMarketRegime,
+      marketRegimeProbabilities: this.currentRegimeProbabilities,
       riskProfile: this.currentRiskProfile,
+      positionReconciliations: this.positionReconciliations,
       pnl: { ...this.pnl },
     }
   }
@@ -277,27 +389,28 @@ export class TradingService {
    */
   private async initializeData(): Promise<void> {
     try {
-      // Fetch klines for main strategy
-      const klinesResult = await enhancedMarketDataService.getKlines(this.symbol, this.timeframe, 500)
-      if (klinesResult.error || !klinesResult.data) {
-        throw new Error(`Failed to fetch ${this.timeframe} klines: ${klinesResult.error?.message || "Unknown error"}`)
-      }
-      this.klineData = klinesResult.data
-
-      // Fetch higher timeframe klines for trend filter
+      // Build the strategy and trend filter timeframes from one 1m series so they always agree
       const higherTimeframe = this.getHigherTimeframe(this.timeframe)
-      const higherTimeframeKlinesResult = await enhancedMarketDataService.getKlines(this.symbol, higherTimeframe, 100)
-      if (higherTimeframeKlinesResult.error || !higherTimeframeKlinesResult.data) {
-        throw new Error(
-          `Failed to fetch ${higherTimeframe} klines: ${higherTimeframeKlinesResult.error?.message || "Unknown error"}`,
-        )
+      this.klineResampler = new KlineResampler([this.timeframe, higherTimeframe])
+
+      const baseKlinesResult = await enhancedMarketDataService.getKlines(this.symbol, "1m", BASE_KLINE_LIMIT)
+      if (baseKlinesResult.error || !baseKlinesResult.data) {
+        throw new Error(`Failed to fetch 1m klines: ${baseKlinesResult.error?.message || "Unknown error"}`)
       }
-      this.higherTimeframeKlineData = higherTimeframeKlinesResult.data
+      this.klineResampler.loadKlines(baseKlinesResult.data)
+
+      // Longer history than the 1m series covers comes from the exchange, when it has the interval
+      await this.seedKlineHistory(this.timeframe, 500)
+      await this.seedKlineHistory(higherTimeframe, 100)
+
+      this.klineData = this.klineResampler.getKlines(this.timeframe)
+      this.higherTimeframeKlineData = this.klineResampler.getKlines(higherTimeframe)
 
       // Detect market regime if enabled
       if (this.enableMarketRegimeDetection) {
-        const marketCondition = marketRegimeDetector.detectRegime(this.symbol, this.klineData, this.timeframe)
-        this.currentMarketRegime = marketCondition.regime
+        const { regime, estimate } = marketRegimeDetector.updateRegime(this.symbol, this.klineData, this.timeframe)
+        this.currentMarketRegime = regime
+        this.currentRegimeProbabilities = estimate.probabilities
 
         // Adapt strategy parameters to market regime
         this.adaptToMarketRegime()
@@ -305,7 +418,12 @@ export class TradingService {
 
       // Update risk manager if enabled
       if (this.enableRiskManagement) {
-        await riskManager.updatePortfolioStats()
+        if (!this.isPaperTrading) {
+          await riskManager.updatePortfolioStats()
+        } else if (riskManager.getPortfolioStats().totalEquity <= 0) {
+          // Paper equity is the paper balance, seeded here unless a portfolio already set it
+          riskManager.setTotalEquity(this.accountBalance)
+        }
       }
 
       // Calculate initial signals
@@ -323,51 +441,87 @@ export class TradingService {
     }
   }
 
+  /**
+   * Fill a timeframe with older candles from the exchange when the 1m series is too short for it
+   */
+  private async seedKlineHistory(timeframe: string, limit: number): Promise<void> {
+    if (!this.klineResampler || !EXCHANGE_INTERVALS.includes(timeframe)) {
+      return
+    }
+    if (this.klineResampler.getKlines(timeframe).length >= limit) {
+      return
+    }
+
+    const result = await enhancedMarketDataService.getKlines(this.symbol, timeframe, limit)
+    if (result.error || !result.data) {
+      throw new Error(`Failed to fetch ${timeframe} klines: ${result.error?.message || "Unknown error"}`)
+    }
+    this.klineResampler.seedHistory(timeframe, result.data)
+  }
+
   /**
    * Get higher timeframe for trend filtering
    */
   private getHigherTimeframe(timeframe: string): string {
-    const timeframes = ["1m", "3m", "5m", "15m", "30m", "1h", "2h", "4h", "6h", "8h", "12h", "1d", "3d", "1w", "1M"]
-    const currentIndex = timeframes.indexOf(timeframe)
+    const currentIndex = EXCHANGE_INTERVALS.indexOf(timeframe)
 
-    if (currentIndex === -1 || currentIndex >= timeframes.length - 1) {
-      return "1d" // Default to daily if timeframe not found or already at highest
+    // Timeframes the exchange doesn't have use the first interval at least three times as long
+    if (currentIndex === -1) {
+      const intervalMs = parseTimeframe(timeframe)
+      return EXCHANGE_INTERVALS.find((interval) => parseTimeframe(interval) >= intervalMs * 3) || "1w"
     }
 
-    return timeframes[currentIndex + 2] || timeframes[timeframes.length - 1]
+    return EXCHANGE_INTERVALS[currentIndex + 2] || EXCHANGE_INTERVALS[EXCHANGE_INTERVALS.length - 1]
   }
 
   /**
    * Subscribe to real-time data
    */
   private subscribeToRealtimeData(): void {
-    // Subscribe to main timeframe klines
-    const unsubscribe1 = enhancedMarketDataService.subscribeToKlines(this.symbol, this.timeframe, (result) => {
+    const resampler = this.klineResampler
+    if (!resampler) return
+
+    // One 1m stream drives every timeframe, including candles that are still forming
+    const unsubscribe1 = enhancedMarketDataService.subscribeToKlines(this.symbol, "1m", (result) => {
       if (result.error || !result.data || result.data.length === 0) return
+      resampler.addKline(result.data[result.data.length - 1])
+    })
+    this.unsubscribeFunctions.push(unsubscribe1)
 
-      this.klineData = result.data
+    // Main timeframe candles
+    const unsubscribe2 = resampler.subscribe(this.timeframe, (update) => {
+      // A closed candle is always followed by the first update of the next one
+      if (update.isClosed) return
+      this.klineData = resampler.getKlines(this.timeframe)
 
       // Update signals
       this.updateSignals()
 
+      // Trail the stop and check stop levels before acting on new signals
+      this.manageActivePosition()
+
       // Check for trade execution
       this.checkForTradeExecution()
     })
-    this.unsubscribeFunctions.push(unsubscribe1)
+    this.unsubscribeFunctions.push(unsubscribe2)
 
-    // Subscribe to higher timeframe klines
+    // Higher timeframe candles
     const higherTimeframe = this.getHigherTimeframe(this.timeframe)
-    const unsubscribe2 = enhancedMarketDataService.subscribeToKlines(this.symbol, higherTimeframe, (result) => {
-      if (result.error || !result.data || result.data.length === 0) return
-      this.higherTimeframeKlineData = result.data
+    const unsubscribe3 = resampler.subscribe(higherTimeframe, (update) => {
+      this.higherTimeframeKlineData = resampler.getKlines(higherTimeframe)
 
-      // Update market regime if enabled
-      if (this.enableMarketRegimeDetection) {
-        const marketCondition = marketRegimeDetector.detectRegime(this.symbol, this.klineData, this.timeframe)
+      // Update market regime if enabled, once per closed candle
+      if (this.enableMarketRegimeDetection && update.isClosed) {
+        const { regime, changed, estimate } = marketRegimeDetector.updateRegime(
+          this.symbol,
+          this.klineData,
+          this.timeframe,
+        )
+        this.currentRegimeProbabilities = estimate.probabilities
 
-        // Only update if regime has changed
-        if (marketCondition.regime !== this.currentMarketRegime) {
-          this.currentMarketRegime = marketCondition.regime
+        // Only adapt once the regime has changed past the hysteresis thresholds
+        if (changed) {
+          this.currentMarketRegime = regime
           console.log(`Market regime changed to ${this.currentMarketRegime}`)
 
           // Adapt strategy parameters to new regime
@@ -375,94 +529,439 @@ export class TradingService {
         }
       }
     })
-    this.unsubscribeFunctions.push(unsubscribe2)
+    this.unsubscribeFunctions.push(unsubscribe3)
+
+    // Track trade flow and the order book for entry confirmation
+    if (this.enableMicrostructure) {
+      const tracker = new MicrostructureTracker(this.symbol)
+      tracker.start()
+      this.microstructureTracker = tracker
+      this.unsubscribeFunctions.push(() => {
+        tracker.stop()
+        this.microstructureTracker = null
+      })
+    }
   }
 
   /**
    * Adapt strategy parameters to current market regime
    */
   private adaptToMarketRegime(): void {
-    if (!this.enableMarketRegimeDetection) return
-
-    const optimizedParams = marketRegimeDetector.getOptimizedParameters(
-      this.symbol,
-      this.klineData,
-      this.timeframe,
-      this.strategyParams,
+    if (!this.enableMarketRegimeDetection || !this.currentRegimeProbabilities) return
+
+    // Adjustments scale with the regime probability and start from the user's parameters, so they never compound
+    const regime = this.currentMarketRegime as MarketRegime
+    const optimizedParams = marketRegimeDetector.adjustParametersForRegime(
+      regime,
+      this.currentRegimeProbabilities[regime] ?? 0,
+      this.regimeBaseParams,
     )
 
     console.log(`Adapting strategy parameters to ${this.currentMarketRegime} regime`)
-    this.updateStrategyParameters(optimizedParams)
+    this.applyStrategyParameters(optimizedParams)
   }
 
   /**
-   * Start monitoring open orders
+   * Follow order updates from the user data stream
    */
-  private startOrderMonitoring(): void {
-    if (this.orderMonitorInterval) {
-      clearInterval(this.orderMonitorInterval)
+  private async startOrderMonitoring(): Promise<void> {
+    this.stopOrderMonitoring()
+
+    this.unsubscribeUserData = binanceUserDataStream.subscribe((event: UserDataEvent) => {
+      if (event.eventType === "ORDER_TRADE_UPDATE" && event.symbol === this.symbol) {
+        this.handleOrderUpdate(event)
+      }
+    })
+
+    // Portfolio stats follow account updates from the same stream
+    if (this.enableRiskManagement) {
+      riskManager.trackAccountUpdates()
     }
 
-    this.orderMonitorInterval = setInterval(async () => {
-      if (!this.activePosition || !this.activePosition.orderId) return
+    // Updates sent while the stream was down are lost, so the position is read from the exchange again
+    this.unsubscribeReconnect = binanceUserDataStream.onReconnect(() => {
+      this.reconcilePosition()
+    })
 
-      try {
-        // Check order status
-        const orderStatus = await binanceApiService.getOrderStatus(this.symbol, {
-          orderId: Number.parseInt(this.activePosition.orderId),
-        })
+    await binanceUserDataStream.start()
+    await bracketOrderManager.start()
+    await this.reconcilePosition()
+  }
 
-        // If order is filled, update position
-        if (orderStatus.status === "FILLED") {
-          console.log(`Order ${this.activePosition.orderId} filled at ${orderStatus.price}`)
+  /**
+   * Stop following order updates
+   */
+  private stopOrderMonitoring(): void {
+    if (this.unsubscribeUserData) {
+      this.unsubscribeUserData()
+      this.unsubscribeUserData = null
+    }
+    if (this.unsubscribeReconnect) {
+      this.unsubscribeReconnect()
+      this.unsubscribeReconnect = null
+    }
+    this.bufferedOrderUpdates.clear()
+  }
 
-          // Update position with actual fill price
-          this.activePosition.entryPrice = Number.parseFloat(orderStatus.price)
+  /**
+   * Rebuild the active position from the exchange position and open orders, flagging where local state had
+   * drifted. Runs at startup and after every user data stream reconnect, since order updates may have been missed.
+   */
+  private async reconcilePosition(): Promise<void> {
+    // A reconnect during a running pass or while an entry is in flight is covered by one more pass afterwards
+    if (this.isReconciling || this.isLiveOrderPending) {
+      this.reconcileAgain = true
+      return
+    }
 
-          // Place stop loss and take profit orders
-          if (!this.isPaperTrading) {
-            this.placeStopLossAndTakeProfit()
-          }
+    this.isReconciling = true
+    try {
+      do {
+        this.reconcileAgain = false
+        await this.applyExchangePosition()
+      } while (this.reconcileAgain)
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: {
+          action: "reconcilePosition",
+          symbol: this.symbol,
+        },
+        severity: "high",
+      })
+    } finally {
+      this.isReconciling = false
+    }
+  }
+
+  /**
+   * Read the exchange position once and make the tracked positions match it
+   */
+  private async applyExchangePosition(): Promise<void> {
+    // Brackets settle fills they missed first, so their orders describe the current position
+    await bracketOrderManager.reconcile(this.symbol)
+
+    const [positions, openOrders] = await Promise.all([
+      binanceApiService.getPositionRisk(this.symbol),
+      binanceApiService.getOpenOrders(this.symbol),
+    ])
+
+    // Hedge mode legs are compared with their own side of the exchange position
+    const legs: (PositionLeg | null)[] = this.hedgeMode ? ["LONG", "SHORT"] : [null]
+    const reconciliations = legs.map((leg) => {
+      const local = leg ? this.positions.get(leg) ?? null : this.getActivePosition()
+      const legPositions = leg ? positions.filter((position) => position.positionSide === leg) : positions
+      return { local, reconciliation: reconcilePosition(this.symbol, local, legPositions, openOrders) }
+    })
+    this.positionReconciliations = reconciliations.map(({ reconciliation }) => reconciliation)
+
+    for (const { local, reconciliation } of reconciliations) {
+      reconciliation.mismatches.forEach((mismatch) => {
+        console.warn(`[${this.symbol}] Position mismatch (${mismatch.type}): ${mismatch.message}`)
+      })
+      await this.applyReconciliation(local, reconciliation)
+    }
+  }
+
+  /**
+   * Make one tracked position match what the exchange holds for it
+   */
+  private async applyReconciliation(
+    local: ActivePosition | null,
+    reconciliation: PositionReconciliation,
+  ): Promise<void> {
+    const exchange = reconciliation.position
+
+    // A position closed while updates were missed; its exit price and PnL are not known here
+    if (local && (!exchange || exchange.type !== local.type)) {
+      this.positions.delete(local.type)
+      if (this.enableRiskManagement) {
+        riskManager.releasePosition(this.symbol, this.getPositionSide(local.type))
+      }
+      if (this.enablePerformanceTracking && local.tradeId) {
+        const trade = performanceAnalytics.getTrade(local.tradeId)
+        if (trade) {
+          performanceAnalytics.updateTrade(local.tradeId, { notes: `${trade.notes}\nExit: closed on the exchange` })
         }
-        // If order is canceled or expired, clear active position
-        else if (orderStatus.status === "CANCELED" || orderStatus.status === "EXPIRED") {
-          console.log(`Order ${this.activePosition.orderId} ${orderStatus.status.toLowerCase()}`)
-          this.activePosition = null
+      }
+      this.strategy.reset()
+    }
+
+    if (!exchange) {
+      return
+    }
+
+    // Keep what only the local position knows, such as its trade and trailing stop
+    const kept = this.positions.get(exchange.type)
+    const defaultExits = this.getDefaultExits(exchange.type, exchange.entryPrice)
+    const bracketId = exchange.stopLoss?.bracketId
+    const bracket =
+      bracketId && bracketId === exchange.takeProfit?.bracketId ? bracketOrderManager.getBracket(bracketId) : null
+    const isCovered = bracket !== null && Math.abs(getOpenQuantity(bracket) - exchange.quantity) <= 1e-9
+
+    const position: ActivePosition = {
+      ...kept,
+      entryTime: kept?.entryTime ?? Date.now(),
+      bestPrice: kept?.bestPrice ?? exchange.entryPrice,
+      trailingStopActive: kept?.trailingStopActive ?? false,
+      type: exchange.type,
+      quantity: exchange.quantity,
+      entryPrice: exchange.entryPrice,
+      stopLoss: exchange.stopLoss?.price ?? kept?.stopLoss ?? defaultExits.stopLoss,
+      takeProfit: exchange.takeProfit?.price ?? kept?.takeProfit ?? defaultExits.takeProfit,
+      stopLossOrderId: exchange.stopLoss?.orderId.toString(),
+      takeProfitOrderId: exchange.takeProfit?.orderId.toString(),
+      bracketId: isCovered ? bracket.id : undefined,
+    }
+    this.positions.set(exchange.type, position)
+
+    if (this.enableRiskManagement) {
+      const notional = exchange.quantity * exchange.entryPrice
+      riskManager.registerPosition(this.symbol, exchange.type, notional, this.getPositionSide(exchange.type))
+    }
+    this.replayOrderUpdates(position.stopLossOrderId, position.takeProfitOrderId)
+
+    if (!isCovered) {
+      await this.replaceExitOrders(position, exchange.exitOrders)
+    }
+  }
+
+  /**
+   * Protect the rebuilt position with one bracket over its whole size, then cancel the exit orders it replaces
+   */
+  private async replaceExitOrders(position: ActivePosition, previousOrders: ExchangeExitOrder[]): Promise<void> {
+    await this.placeStopLossAndTakeProfit(position)
+
+    // Without a new bracket the old exits are better than none
+    if (!position.bracketId) {
+      return
+    }
+
+    const bracketIds = new Set<string>()
+    for (const order of previousOrders) {
+      if (order.bracketId && bracketOrderManager.getBracket(order.bracketId)) {
+        bracketIds.add(order.bracketId)
+      } else {
+        await binanceApiService.cancelOrder(this.symbol, { orderId: order.orderId })
+      }
+    }
+    for (const bracketId of bracketIds) {
+      await bracketOrderManager.cancelBracket(bracketId)
+    }
+  }
+
+  /**
+   * Apply an order update to the position it belongs to
+   */
+  private handleOrderUpdate(update: OrderTradeUpdate): void {
+    // Child orders of an entry being worked by an execution algorithm only add their commission to the entry
+    if (this.algoEntryFee !== null && update.clientOrderId.startsWith(EXECUTION_CLIENT_ORDER_PREFIX)) {
+      if (update.executionType === "TRADE") {
+        this.algoEntryFee += update.commission
+      }
+      return
+    }
+
+    const orderId = update.orderId.toString()
+    const bracketLeg = parseBracketClientOrderId(update.clientOrderId)
+    const position = Array.from(this.positions.values()).find(
+      (p) =>
+        (Boolean(p.bracketId) && bracketLeg?.bracketId === p.bracketId) ||
+        [p.orderId, p.stopLossOrderId, p.takeProfitOrderId, p.closeOrderId].includes(orderId),
+    )
+
+    if (!position) {
+      this.bufferOrderUpdate(orderId, update)
+      return
+    }
+
+    // Entry order
+    if (orderId === position.orderId) {
+      if (update.executionType === "TRADE") {
+        position.entryFee = (position.entryFee || 0) + update.commission
+      }
+
+      if (update.orderStatus === "FILLED") {
+        console.log(`Order ${orderId} filled at ${update.averagePrice}`)
+
+        // Update position with actual fill price
+        position.entryPrice = update.averagePrice
+        if (!position.trailingStopActive) {
+          position.bestPrice = update.averagePrice
+        }
+
+        if (this.enablePerformanceTracking && position.tradeId) {
+          performanceAnalytics.updateTrade(position.tradeId, {
+            entryPrice: update.averagePrice,
+            fees: position.entryFee,
+          })
         }
-      } catch (error) {
+      }
+      // If order is canceled or expired, clear the position and its protective orders
+      else if (update.orderStatus === "CANCELED" || update.orderStatus === "EXPIRED") {
+        console.log(`Order ${orderId} ${update.orderStatus.toLowerCase()}`)
+        this.positions.delete(position.type)
+
+        if (this.enableRiskManagement) {
+          riskManager.releasePosition(this.symbol, this.getPositionSide(position.type))
+        }
+        this.cancelPositionOrders(position)
+      }
+      return
+    }
+
+    // Stop loss, take profit or closing order; resized and moved exits keep the bracket id in their client order id
+    if (update.executionType === "TRADE") {
+      position.exitFee = (position.exitFee || 0) + update.commission
+    }
+
+    // The exits protected the position until the closing order filled, and only go now
+    if (orderId === position.closeOrderId) {
+      if (update.orderStatus === "FILLED") {
+        this.handleExchangeExit(position, update, "Exit signal")
+        this.cancelPositionOrders(position)
+      } else if (update.orderStatus === "CANCELED" || update.orderStatus === "EXPIRED") {
+        console.log(`Closing order ${orderId} ${update.orderStatus.toLowerCase()}, position stays open`)
+        position.closeOrderId = undefined
+      }
+      return
+    }
+
+    if (update.orderStatus === "FILLED") {
+      const isStopLoss = bracketLeg ? bracketLeg.leg === "STOP_LOSS" : orderId === position.stopLossOrderId
+      this.handleExchangeExit(position, update, isStopLoss ? "Stop loss" : "Take profit")
+    }
+  }
+
+  /**
+   * Close out a position after its stop loss or take profit filled on the exchange
+   */
+  private handleExchangeExit(position: ActivePosition, update: OrderTradeUpdate, reason: string): void {
+    const exitPrice = update.averagePrice
+    const fees = (position.entryFee || 0) + (position.exitFee || 0)
+
+    // Calculate PnL net of entry and exit fees
+    const grossPnl =
+      position.type === "LONG"
+        ? (exitPrice - position.entryPrice) * position.quantity
+        : (position.entryPrice - exitPrice) * position.quantity
+    const pnl = grossPnl - fees
+    const pnlPercent = pnl / (position.entryPrice * position.quantity)
+
+    console.log(`${reason} filled at ${exitPrice}, closing ${position.type} position`)
+
+    // Update PnL statistics
+    this.updatePnlStats(pnl)
+
+    // Record trade completion in performance analytics if enabled
+    if (this.enablePerformanceTracking && position.tradeId) {
+      const trade = performanceAnalytics.getTrade(position.tradeId)
+      if (trade) {
+        performanceAnalytics.updateTrade(position.tradeId, {
+          exitPrice,
+          exitTime: update.transactionTime,
+          pnl,
+          pnlPercent,
+          fees,
+          notes: `${trade.notes}\nExit: ${reason} filled at ${exitPrice}`,
+        })
+      }
+    }
+
+    // Update risk manager if enabled
+    if (this.enableRiskManagement) {
+      const positionSide = this.getPositionSide(position.type)
+      riskManager.recordTrade(this.symbol, position.entryTime, update.transactionTime, pnl, positionSide)
+    }
+
+    // Clear the position
+    this.positions.delete(position.type)
+
+    // Reset strategy state
+    this.strategy.reset()
+
+    // The bracket cancels the other protective order
+  }
+
+  /**
+   * Cancel the orders protecting a position. In hedge mode only its own bracket goes, so the other leg keeps its
+   * exits; in one-way mode every open order for the symbol goes after the bracket.
+   */
+  private cancelPositionOrders(position: ActivePosition): void {
+    const bracketId = position.bracketId
+    // The bracket goes first, so its exits are not reported as cancelled from outside
+    const cancelBracket =
+      bracketId && bracketOrderManager.getBracket(bracketId)
+        ? bracketOrderManager.cancelBracket(bracketId)
+        : Promise.resolve()
+
+    cancelBracket
+      .then(() => {
+        if (!this.hedgeMode) {
+          return binanceApiService.cancelAllOpenOrders(this.symbol)
+        }
+      })
+      .catch((error) => {
         errorHandler.handleError(error, {
           context: {
-            action: "monitorOrder",
+            action: "cancelPositionOrders",
             symbol: this.symbol,
-            orderId: this.activePosition.orderId,
+            positionType: position.type,
           },
-          severity: "medium",
+          severity: "high",
         })
-      }
-    }, 5000) // Check every 5 seconds
+      })
+  }
+
+  /**
+   * Keep updates for untracked orders; a fill can arrive before the order response that tells us its id
+   */
+  private bufferOrderUpdate(orderId: string, update: OrderTradeUpdate): void {
+    const updates = this.bufferedOrderUpdates.get(orderId) || []
+    updates.push(update)
+    this.bufferedOrderUpdates.set(orderId, updates)
+
+    if (this.bufferedOrderUpdates.size > MAX_BUFFERED_ORDERS) {
+      const [oldestOrderId] = this.bufferedOrderUpdates.keys()
+      this.bufferedOrderUpdates.delete(oldestOrderId)
+    }
   }
 
   /**
-   * Place stop loss and take profit orders
+   * Apply buffered updates for orders that are now tracked by a position
    */
-  private async placeStopLossAndTakeProfit(): Promise<void> {
-    if (!this.activePosition) return
+  private replayOrderUpdates(...orderIds: (string | undefined)[]): void {
+    orderIds.forEach((orderId) => {
+      const updates = orderId ? this.bufferedOrderUpdates.get(orderId) : undefined
+      if (orderId && updates) {
+        this.bufferedOrderUpdates.delete(orderId)
+        updates.forEach((update) => this.handleOrderUpdate(update))
+      }
+    })
+  }
 
+  /**
+   * Place stop loss and take profit orders as a bracket, so a fill of one cancels the other
+   */
+  private async placeStopLossAndTakeProfit(position: ActivePosition): Promise<void> {
     try {
-      const { type, entryPrice, quantity, stopLoss, takeProfit } = this.activePosition
-      const side: OrderSide = type === "LONG" ? "SELL" : "BUY"
+      const { type, quantity, stopLoss, takeProfit } = position
 
-      // Place stop loss order
-      const stopLossOrder = await binanceApiService.placeOrder(this.symbol, side, "STOP_MARKET", quantity, {
-        stopPrice: stopLoss,
-        reduceOnly: true,
+      const bracket = await bracketOrderManager.protectPosition({
+        symbol: this.symbol,
+        direction: type,
+        positionSide: this.getPositionSide(type),
+        quantity,
+        takeProfitPrice: takeProfit,
+        stopLossPrice: stopLoss,
       })
 
-      // Place take profit order
-      const takeProfitOrder = await binanceApiService.placeOrder(this.symbol, side, "TAKE_PROFIT_MARKET", quantity, {
-        stopPrice: takeProfit,
-        reduceOnly: true,
-      })
+      // Keep the bracket so trailing stop ratchets can move the stop and fills can close the position
+      if (this.positions.get(type) === position) {
+        position.bracketId = bracket.id
+        position.stopLossOrderId = bracket.stopLoss?.orderId?.toString()
+        position.takeProfitOrderId = bracket.takeProfit?.orderId?.toString()
+        this.replayOrderUpdates(position.stopLossOrderId, position.takeProfitOrderId)
+      }
 
       console.log(`Placed stop loss at ${stopLoss} and take profit at ${takeProfit}`)
     } catch (error) {
@@ -470,10 +969,129 @@ export class TradingService {
         context: {
           action: "placeStopLossAndTakeProfit",
           symbol: this.symbol,
-          position: this.activePosition,
+          position,
+        },
+        severity: "high",
+      })
+    }
+  }
+
+  /**
+   * Ratchet the trailing stops and, in paper mode, close positions once a stop or target is hit
+   */
+  private manageActivePosition(): void {
+    if (this.positions.size === 0 || this.isPaperOrderPending || this.klineData.length === 0) {
+      return
+    }
+
+    const price = this.klineData[this.klineData.length - 1].close
+    const positions = Array.from(this.positions.values())
+    positions.forEach((position) => this.updateTrailingStop(position, price))
+
+    // Live positions are closed by the stop loss and take profit orders on the exchange
+    if (this.isPaperTrading) {
+      // One paper fill at a time; a second hedge leg that was hit is closed on the next update
+      const hit = positions.find(({ type, stopLoss, takeProfit }) => {
+        const stopHit = type === "LONG" ? price <= stopLoss : price >= stopLoss
+        const targetHit = type === "LONG" ? price >= takeProfit : price <= takeProfit
+        return stopHit || targetHit
+      })
+
+      if (hit) {
+        this.closePositionInPaperMode(hit.type, price)
+      }
+    }
+  }
+
+  /**
+   * Move the stop loss behind price once the trailing stop is activated
+   */
+  private updateTrailingStop(position: ActivePosition, price: number): void {
+    if (!this.enableRiskManagement) {
+      return
+    }
+
+    position.bestPrice =
+      position.type === "LONG" ? Math.max(position.bestPrice, price) : Math.min(position.bestPrice, price)
+
+    const trailingStop = riskManager.calculateTrailingStop(
+      position.type,
+      position.entryPrice,
+      position.bestPrice,
+      position.stopLoss,
+    )
+
+    if (trailingStop === null) {
+      return
+    }
+
+    if (Math.abs(trailingStop - position.stopLoss) < position.entryPrice * TRAILING_STOP_MIN_STEP) {
+      return
+    }
+
+    const previousStop = position.stopLoss
+    position.stopLoss = trailingStop
+    position.trailingStopActive = true
+
+    console.log(`${this.isPaperTrading ? "[PAPER] " : ""}Trailing stop moved from ${previousStop} to ${trailingStop}`)
+
+    // Note each ratchet on the trade so the journal shows how the exit was managed
+    if (this.enablePerformanceTracking && position.tradeId) {
+      const trade = performanceAnalytics.getTrade(position.tradeId)
+      if (trade) {
+        const ratchet = `Trailing stop ${previousStop.toPrecision(6)} -> ${trailingStop.toPrecision(6)} @ ${price}`
+        performanceAnalytics.updateTrade(position.tradeId, { notes: `${trade.notes}\n${ratchet}` })
+      }
+    }
+
+    if (!this.isPaperTrading) {
+      this.amendStopLossOrder(position.type)
+    }
+  }
+
+  /**
+   * Replace the exchange stop loss order of a position until it matches the latest trailing stop
+   */
+  private async amendStopLossOrder(type: PositionLeg): Promise<void> {
+    // A running amend picks up later ratchets when it loops
+    if (this.amendingStopLosses.has(type)) {
+      return
+    }
+
+    this.amendingStopLosses.add(type)
+    let amendedStop: number | null = null
+
+    try {
+      let position = this.positions.get(type)
+      while (position && position.stopLoss !== amendedStop) {
+        const stopLoss: number = position.stopLoss
+
+        // A position whose bracket could not be placed gets one at the current stop
+        if (!position.bracketId) {
+          await this.placeStopLossAndTakeProfit(position)
+          amendedStop = stopLoss
+        } else {
+          // The bracket places the new stop before cancelling the old one, so the position is never unprotected
+          const bracket = await bracketOrderManager.updateExitPrices(position.bracketId, { stopLossPrice: stopLoss })
+
+          position.stopLossOrderId = bracket.stopLoss?.orderId?.toString()
+          amendedStop = stopLoss
+          this.replayOrderUpdates(position.stopLossOrderId)
+        }
+
+        position = this.positions.get(type)
+      }
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: {
+          action: "amendStopLossOrder",
+          symbol: this.symbol,
+          position: this.positions.get(type),
         },
         severity: "high",
       })
+    } finally {
+      this.amendingStopLosses.delete(type)
     }
   }
 
@@ -486,7 +1104,8 @@ export class TradingService {
     }
 
     // Calculate signals using the strategy
-    const signals = this.strategy.calculateSignals(this.klineData)
+    const microstructure = this.microstructureTracker?.getSnapshot() ?? undefined
+    const signals = this.strategy.calculateSignals(this.klineData, undefined, microstructure)
 
     if (signals.length > 0) {
       // Get the latest signal
@@ -515,6 +1134,11 @@ export class TradingService {
       return
     }
 
+    // An order is still waiting on its fill, or the position is being read from the exchange
+    if (this.isPaperOrderPending || this.isLiveOrderPending || this.isReconciling) {
+      return
+    }
+
     const { action, price, stopLoss, takeProfit } = this.lastSignal
     const now = Date.now()
 
@@ -532,7 +1156,7 @@ export class TradingService {
     }
 
     // Handle entry signals
-    if (action === "BUY" && !this.activePosition) {
+    if (action === "BUY" && this.canOpenPosition("LONG")) {
       // Calculate position size with risk management if enabled
       let quantity: number
 
@@ -552,6 +1176,18 @@ export class TradingService {
           return
         }
 
+        // Reserve the position with the shared portfolio so correlated services can't open alongside it
+        const portfolioCheck = riskManager.reservePosition(
+          this.symbol,
+          "LONG",
+          quantity * price,
+          this.getPositionSide("LONG"),
+        )
+        if (!portfolioCheck.allowed) {
+          console.log(`Portfolio risk check prevented trade: ${portfolioCheck.reason}`)
+          return
+        }
+
         this.currentRiskProfile =
           positionSizeResult.confidence > 0.7 ? "LOW" : positionSizeResult.confidence > 0.4 ? "MEDIUM" : "HIGH"
       } else {
@@ -567,7 +1203,7 @@ export class TradingService {
 
       this.tradeCount++
       this.lastTradeTime = now
-    } else if (action === "SELL" && !this.activePosition) {
+    } else if (action === "SELL" && this.canOpenPosition("SHORT")) {
       // Calculate position size with risk management if enabled
       let quantity: number
 
@@ -587,6 +1223,18 @@ export class TradingService {
           return
         }
 
+        // Reserve the position with the shared portfolio so correlated services can't open alongside it
+        const portfolioCheck = riskManager.reservePosition(
+          this.symbol,
+          "SHORT",
+          quantity * price,
+          this.getPositionSide("SHORT"),
+        )
+        if (!portfolioCheck.allowed) {
+          console.log(`Portfolio risk check prevented trade: ${portfolioCheck.reason}`)
+          return
+        }
+
         this.currentRiskProfile =
           positionSizeResult.confidence > 0.7 ? "LOW" : positionSizeResult.confidence > 0.4 ? "MEDIUM" : "HIGH"
       } else {
@@ -604,17 +1252,17 @@ export class TradingService {
       this.lastTradeTime = now
     }
     // Handle exit signals
-    else if (action === "CLOSE_LONG" && this.activePosition && this.activePosition.type === "LONG") {
+    else if (action === "CLOSE_LONG" && this.positions.has("LONG")) {
       if (this.isPaperTrading) {
-        this.closePositionInPaperMode(price)
+        this.closePositionInPaperMode("LONG", price)
       } else {
-        this.closePosition(price)
+        this.closePosition("LONG", price)
       }
-    } else if (action === "CLOSE_SHORT" && this.activePosition && this.activePosition.type === "SHORT") {
+    } else if (action === "CLOSE_SHORT" && this.positions.has("SHORT")) {
       if (this.isPaperTrading) {
-        this.closePositionInPaperMode(price)
+        this.closePositionInPaperMode("SHORT", price)
       } else {
-        this.closePosition(price)
+        this.closePosition("SHORT", price)
       }
     }
   }
@@ -641,103 +1289,165 @@ export class TradingService {
   /**
    * Execute trade in paper trading mode
    */
-  private executeTradeInPaperMode(
+  private async executeTradeInPaperMode(
     side: "BUY" | "SELL",
     price: number,
     quantity: number,
     stopLoss: number | null,
     takeProfit: number | null,
-  ): void {
+  ): Promise<void> {
     console.log(`[PAPER] Executing ${side} order: ${quantity} ${this.symbol} @ ${price}`)
 
-    // Create active position
-    this.activePosition = {
-      entryPrice: price,
-      entryTime: Date.now(),
-      type: side === "BUY" ? "LONG" : "SHORT",
-      quantity,
-      stopLoss: stopLoss || (side === "BUY" ? price * 0.99 : price * 1.01),
-      takeProfit: takeProfit || (side === "BUY" ? price * 1.02 : price * 0.98),
-      orderId: `paper_${Date.now()}`,
-      clientOrderId: `paper_client_${Date.now()}`,
-    }
+    this.isPaperOrderPending = true
 
-    // Record trade in performance analytics if enabled
-    if (this.enablePerformanceTracking) {
-      performanceAnalytics.recordTrade({
-        symbol: this.symbol,
-        side,
-        entryPrice: price,
-        exitPrice: null,
-        quantity,
+    try {
+      // Fill against the order book after the simulated latency, like a live market order
+      const fill = await this.fillSimulator.executeMarketOrder(this.symbol, side, quantity, price)
+
+      // Create the position
+      const type: PositionLeg = side === "BUY" ? "LONG" : "SHORT"
+      const position: ActivePosition = {
+        entryPrice: fill.averagePrice,
         entryTime: Date.now(),
-        exitTime: null,
-        pnl: null,
-        pnlPercent: null,
-        fees: 0,
-        stopLoss: this.activePosition.stopLoss,
-        takeProfit: this.activePosition.takeProfit,
-        strategy: this.strategyType,
-        timeframe: this.timeframe,
-        notes: `Market regime: ${this.currentMarketRegime}, Risk profile: ${this.currentRiskProfile}`,
-        tags: [this.currentMarketRegime, this.currentRiskProfile],
+        type,
+        quantity: fill.filledQuantity,
+        stopLoss: stopLoss || (side === "BUY" ? price * 0.99 : price * 1.01),
+        takeProfit: takeProfit || (side === "BUY" ? price * 1.02 : price * 0.98),
+        bestPrice: fill.averagePrice,
+        trailingStopActive: false,
+        entryFee: fill.fee,
+        orderId: `paper_${Date.now()}`,
+        clientOrderId: `paper_client_${Date.now()}`,
+      }
+      this.positions.set(type, position)
+
+      // Record trade in performance analytics if enabled
+      if (this.enablePerformanceTracking) {
+        const context = `Market regime: ${this.currentMarketRegime}, Risk profile: ${this.currentRiskProfile}`
+
+        position.tradeId = performanceAnalytics.recordTrade({
+          symbol: this.symbol,
+          side,
+          entryPrice: fill.averagePrice,
+          exitPrice: null,
+          quantity: fill.filledQuantity,
+          entryTime: Date.now(),
+          exitTime: null,
+          pnl: null,
+          pnlPercent: null,
+          fees: fill.fee,
+          stopLoss: position.stopLoss,
+          takeProfit: position.takeProfit,
+          positionSide: this.getPositionSide(type),
+          strategy: this.strategyType,
+          timeframe: this.timeframe,
+          notes: `${context}\nEntry: ${this.describeFill(fill)}`,
+          tags: [this.currentMarketRegime, this.currentRiskProfile],
+        })
+      }
+    } catch (error) {
+      // Free the portfolio slot reserved for this entry
+      if (this.enableRiskManagement) {
+        riskManager.releasePosition(this.symbol, this.getPositionSide(side === "BUY" ? "LONG" : "SHORT"))
+      }
+
+      errorHandler.handleError(error, {
+        context: {
+          action: "executeTradeInPaperMode",
+          symbol: this.symbol,
+          side,
+          price,
+          quantity,
+        },
+        severity: "medium",
       })
+    } finally {
+      this.isPaperOrderPending = false
     }
   }
 
   /**
-   * Close position in paper trading mode
+   * Close a position in paper trading mode
    */
-  private closePositionInPaperMode(currentPrice: number): void {
-    if (!this.activePosition) {
+  private async closePositionInPaperMode(type: PositionLeg, currentPrice: number): Promise<void> {
+    const position = this.positions.get(type)
+    if (!position) {
       return
     }
 
-    console.log(
-      `[PAPER] Closing ${this.activePosition.type} position: ${this.activePosition.quantity} ${this.symbol} @ ${currentPrice}`,
-    )
+    const side: OrderSide = position.type === "LONG" ? "SELL" : "BUY"
 
-    // Calculate PnL
-    let pnl = 0
-    let pnlPercent = 0
+    console.log(`[PAPER] Closing ${position.type} position: ${position.quantity} ${this.symbol} @ ${currentPrice}`)
 
-    if (this.activePosition.type === "LONG") {
-      pnl = (currentPrice - this.activePosition.entryPrice) * this.activePosition.quantity
-      pnlPercent = (currentPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-    } else {
-      pnl = (this.activePosition.entryPrice - currentPrice) * this.activePosition.quantity
-      pnlPercent = (this.activePosition.entryPrice - currentPrice) / this.activePosition.entryPrice
-    }
+    this.isPaperOrderPending = true
+
+    try {
+      const fill = await this.fillSimulator.executeMarketOrder(this.symbol, side, position.quantity, currentPrice)
+      const exitPrice = fill.averagePrice
+      const fees = (position.entryFee || 0) + fill.fee
 
-    // Update account balance
-    this.accountBalance += pnl
+      // Calculate PnL net of entry and exit fees
+      const grossPnl =
+        position.type === "LONG"
+          ? (exitPrice - position.entryPrice) * position.quantity
+          : (position.entryPrice - exitPrice) * position.quantity
+      const pnl = grossPnl - fees
+      const pnlPercent = pnl / (position.entryPrice * position.quantity)
 
-    // Update PnL statistics
-    this.updatePnlStats(pnl)
+      // Update account balance
+      this.accountBalance += pnl
 
-    // Record trade completion in performance analytics if enabled
-    if (this.enablePerformanceTracking) {
-      const tradeId = this.activePosition.clientOrderId
-      if (tradeId) {
-        performanceAnalytics.updateTrade(tradeId, {
-          exitPrice: currentPrice,
-          exitTime: Date.now(),
-          pnl,
-          pnlPercent,
-        })
+      // Update PnL statistics
+      this.updatePnlStats(pnl)
+
+      // Record trade completion in performance analytics if enabled
+      if (this.enablePerformanceTracking) {
+        const tradeId = position.tradeId
+        const trade = tradeId ? performanceAnalytics.getTrade(tradeId) : null
+        if (tradeId && trade) {
+          performanceAnalytics.updateTrade(tradeId, {
+            exitPrice,
+            exitTime: Date.now(),
+            pnl,
+            pnlPercent,
+            fees,
+            notes: `${trade.notes}\nExit: ${this.describeFill(fill)}`,
+          })
+        }
       }
-    }
 
-    // Update risk manager if enabled
-    if (this.enableRiskManagement) {
-      riskManager.recordTrade(this.symbol, this.activePosition.entryTime, Date.now(), pnl)
-    }
+      // Update risk manager if enabled
+      if (this.enableRiskManagement) {
+        riskManager.recordTrade(this.symbol, position.entryTime, Date.now(), pnl, this.getPositionSide(type))
+      }
 
-    // Clear active position
-    this.activePosition = null
+      // Clear the position
+      this.positions.delete(type)
 
-    // Reset strategy state
-    this.strategy.reset()
+      // Reset strategy state
+      this.strategy.reset()
+    } catch (error) {
+      errorHandler.handleError(error, {
+        context: {
+          action: "closePositionInPaperMode",
+          symbol: this.symbol,
+          price: currentPrice,
+          positionType: position.type,
+        },
+        severity: "medium",
+      })
+    } finally {
+      this.isPaperOrderPending = false
+    }
+  }
+
+  /**
+   * Summarize a simulated fill for the trade notes
+   */
+  private describeFill(fill: SimulatedFill): string {
+    const latency = Math.round(fill.latencyMs)
+    const slippage = (fill.slippage * 100).toFixed(3)
+    return `${fill.averagePrice} after ${latency}ms, slippage ${slippage}%, fee ${fill.fee.toFixed(4)}`
   }
 
   /**
@@ -750,7 +1460,37 @@ export class TradingService {
     stopLoss: number | null,
     takeProfit: number | null,
   ): Promise<TradeExecutionResult> {
+    this.isLiveOrderPending = true
+    const type: PositionLeg = side === "BUY" ? "LONG" : "SHORT"
+
     try {
+      // Round to the exchange filters up front so the position records the quantity actually ordered
+      const validation = await orderNormalizer.normalize({
+        symbol: this.symbol,
+        side,
+        type: "MARKET",
+        quantity,
+        referencePrice: price,
+      })
+      validation.adjustments.forEach((adjustment) => console.log(`[${this.symbol}] ${adjustment}`))
+
+      if (!validation.valid) {
+        const error = formatOrderViolations(validation)
+        console.log(`Order rejected by exchange filters: ${error}`)
+
+        // Free the portfolio slot reserved for this entry
+        if (this.enableRiskManagement) {
+          riskManager.releasePosition(this.symbol, this.getPositionSide(type))
+        }
+        return { success: false, error }
+      }
+      quantity = validation.quantity
+
+      // Large entries are worked by the execution algorithm instead of going out as one market order
+      if (this.entryExecution && quantity * price >= this.entryExecution.minNotional) {
+        return await this.executeAlgoEntry(this.entryExecution, side, price, quantity, stopLoss, takeProfit)
+      }
+
       console.log(`Executing ${side} order: ${quantity} ${this.symbol} @ ${price}`)
 
       // Generate client order ID
@@ -759,55 +1499,51 @@ export class TradingService {
       // Place market order
       const orderResponse = await binanceApiService.placeOrder(this.symbol, side, "MARKET", quantity, {
         newClientOrderId: clientOrderId,
+        positionSide: this.getPositionSide(type),
       })
 
-      // Create active position
-      this.activePosition = {
+      // Create the position
+      const defaultExits = this.getDefaultExits(type, price)
+      const position: ActivePosition = {
         entryPrice: Number.parseFloat(orderResponse.price) || price,
         entryTime: Date.now(),
-        type: side === "BUY" ? "LONG" : "SHORT",
+        type,
         quantity,
-        stopLoss: stopLoss || (side === "BUY" ? price * 0.99 : price * 1.01),
-        takeProfit: takeProfit || (side === "BUY" ? price * 1.02 : price * 0.98),
+        stopLoss: stopLoss || defaultExits.stopLoss,
+        takeProfit: takeProfit || defaultExits.takeProfit,
+        bestPrice: Number.parseFloat(orderResponse.price) || price,
+        trailingStopActive: false,
         orderId: orderResponse.orderId.toString(),
         clientOrderId,
       }
+      this.positions.set(type, position)
+
+      // The fill may already have arrived on the user data stream
+      this.replayOrderUpdates(position.orderId)
+      if (this.positions.get(type) !== position) {
+        return { success: false, error: "Entry order was canceled or expired" }
+      }
 
       // Place stop loss and take profit orders
-      await this.placeStopLossAndTakeProfit()
+      await this.placeStopLossAndTakeProfit(position)
 
-      // Record trade in performance analytics if enabled
-      if (this.enablePerformanceTracking) {
-        performanceAnalytics.recordTrade({
-          symbol: this.symbol,
-          side,
-          entryPrice: this.activePosition.entryPrice,
-          exitPrice: null,
-          quantity,
-          entryTime: Date.now(),
-          exitTime: null,
-          pnl: null,
-          pnlPercent: null,
-          fees: 0, // We would calculate actual fees here
-          stopLoss: this.activePosition.stopLoss,
-          takeProfit: this.activePosition.takeProfit,
-          strategy: this.strategyType,
-          timeframe: this.timeframe,
-          notes: `Market regime: ${this.currentMarketRegime}, Risk profile: ${this.currentRiskProfile}`,
-          tags: [this.currentMarketRegime, this.currentRiskProfile],
-        })
-      }
+      this.recordEntryTrade(position, side)
 
       return {
         success: true,
         orderId: orderResponse.orderId.toString(),
-        price: this.activePosition.entryPrice,
+        price: position.entryPrice,
         quantity,
         side,
         type: "MARKET",
         clientOrderId,
       }
     } catch (error) {
+      // Free the portfolio slot reserved for this entry
+      if (this.enableRiskManagement && !this.positions.has(type)) {
+        riskManager.releasePosition(this.symbol, this.getPositionSide(type))
+      }
+
       errorHandler.handleError(error, {
         context: {
           action: "executeTrade",
@@ -823,85 +1559,226 @@ export class TradingService {
         success: false,
         error: error instanceof Error ? error.message : "Unknown error executing trade",
       }
+    } finally {
+      this.isLiveOrderPending = false
+
+      // A reconnect while the entry was in flight left reconciliation for afterwards
+      if (this.reconcileAgain) {
+        this.reconcilePosition()
+      }
     }
   }
 
   /**
-   * Close real position
+   * Work an entry through the execution algorithm; whatever filled by the end becomes the position
    */
-  private async closePosition(currentPrice: number): Promise<TradeExecutionResult> {
+  private async executeAlgoEntry(
+    config: EntryExecutionConfig,
+    side: "BUY" | "SELL",
+    price: number,
+    quantity: number,
+    stopLoss: number | null,
+    takeProfit: number | null,
+  ): Promise<TradeExecutionResult> {
+    const type: PositionLeg = side === "BUY" ? "LONG" : "SHORT"
+    const request: AlgoExecutionRequest = {
+      symbol: this.symbol,
+      side,
+      quantity,
+      positionSide: this.getPositionSide(type),
+    }
+
+    console.log(`Executing ${side} ${config.algorithm}: ${quantity} ${this.symbol} @ ${price}`)
+
+    let execution: AlgoExecution
+    let entryFee = 0
+    this.algoEntryFee = 0
     try {
-      if (!this.activePosition) {
-        return {
-          success: false,
-          error: "No active position to close",
-        }
+      if (config.algorithm === "ICEBERG") {
+        execution = await executionAlgorithms.executeIceberg({
+          ...request,
+          price,
+          visibleQuantity: quantity / config.slices,
+          timeoutMs: config.durationMs,
+        })
+      } else if (config.algorithm === "CHASE") {
+        execution = await executionAlgorithms.executeChase({ ...request, timeoutMs: config.durationMs })
+      } else {
+        execution = await executionAlgorithms.executeTwap({
+          ...request,
+          durationMs: config.durationMs,
+          slices: config.slices,
+        })
       }
+    } finally {
+      entryFee = this.algoEntryFee
+      this.algoEntryFee = null
+    }
 
-      console.log(`Closing position @ ${currentPrice}`)
+    console.log(
+      `${config.algorithm} entry ${execution.status.toLowerCase()}: ${execution.filledQuantity} of ${quantity} ` +
+        `@ ${execution.averagePrice}, shortfall ${execution.shortfall?.bps.toFixed(1)} bps`,
+    )
 
-      // Determine order side (opposite of position type)
-      const side: OrderSide = this.activePosition.type === "LONG" ? "SELL" : "BUY"
+    if (execution.averagePrice === null || execution.filledQuantity <= 0) {
+      // Free the portfolio slot reserved for this entry
+      if (this.enableRiskManagement) {
+        riskManager.releasePosition(this.symbol, this.getPositionSide(type))
+      }
+      return { success: false, error: execution.error ?? `${config.algorithm} entry ${execution.status.toLowerCase()}` }
+    }
 
-      // Cancel any existing stop loss or take profit orders
-      await binanceApiService.cancelAllOpenOrders(this.symbol)
+    // A partly filled execution opens the position with the filled quantity
+    const defaultExits = this.getDefaultExits(type, price)
+    const position: ActivePosition = {
+      entryPrice: execution.averagePrice,
+      entryTime: Date.now(),
+      type,
+      quantity: execution.filledQuantity,
+      stopLoss: stopLoss || defaultExits.stopLoss,
+      takeProfit: takeProfit || defaultExits.takeProfit,
+      bestPrice: execution.averagePrice,
+      trailingStopActive: false,
+      entryFee,
+    }
+    this.positions.set(type, position)
 
-      // Place market order to close position
-      const orderResponse = await binanceApiService.placeOrder(
-        this.symbol,
-        side,
-        "MARKET",
-        this.activePosition.quantity,
-        {
-          reduceOnly: true,
-        },
-      )
+    await this.placeStopLossAndTakeProfit(position)
+    this.recordEntryTrade(position, side)
 
-      // Calculate PnL
-      let pnl = 0
-      let pnlPercent = 0
-      const exitPrice = Number.parseFloat(orderResponse.price) || currentPrice
+    return {
+      success: true,
+      orderId: execution.id,
+      price: position.entryPrice,
+      quantity: position.quantity,
+      side,
+      type: config.algorithm === "TWAP" ? "MARKET" : "LIMIT",
+    }
+  }
 
-      if (this.activePosition.type === "LONG") {
-        pnl = (exitPrice - this.activePosition.entryPrice) * this.activePosition.quantity
-        pnlPercent = (exitPrice - this.activePosition.entryPrice) / this.activePosition.entryPrice
-      } else {
-        pnl = (this.activePosition.entryPrice - exitPrice) * this.activePosition.quantity
-        pnlPercent = (this.activePosition.entryPrice - exitPrice) / this.activePosition.entryPrice
-      }
+  // Record a new position in performance analytics if enabled
+  private recordEntryTrade(position: ActivePosition, side: "BUY" | "SELL"): void {
+    if (!this.enablePerformanceTracking) {
+      return
+    }
 
-      // Update PnL statistics
-      this.updatePnlStats(pnl)
+    position.tradeId = performanceAnalytics.recordTrade({
+      symbol: this.symbol,
+      side,
+      positionSide: this.getPositionSide(position.type),
+      entryPrice: position.entryPrice,
+      exitPrice: null,
+      quantity: position.quantity,
+      entryTime: Date.now(),
+      exitTime: null,
+      pnl: null,
+      pnlPercent: null,
+      fees: position.entryFee || 0,
+      stopLoss: position.stopLoss,
+      takeProfit: position.takeProfit,
+      strategy: this.strategyType,
+      timeframe: this.timeframe,
+      notes: `Market regime: ${this.currentMarketRegime}, Risk profile: ${this.currentRiskProfile}`,
+      tags: [this.currentMarketRegime, this.currentRiskProfile],
+    })
+  }
 
-      // Record trade completion in performance analytics if enabled
-      if (this.enablePerformanceTracking) {
-        const tradeId = this.activePosition.clientOrderId
-        if (tradeId) {
-          performanceAnalytics.updateTrade(tradeId, {
-            exitPrice,
-            exitTime: Date.now(),
-            pnl,
-            pnlPercent,
-          })
+  // Stop loss and take profit for positions whose signal or exchange orders give none
+  private getDefaultExits(type: "LONG" | "SHORT", price: number): { stopLoss: number; takeProfit: number } {
+    return type === "LONG"
+      ? { stopLoss: price * 0.99, takeProfit: price * 1.02 }
+      : { stopLoss: price * 1.01, takeProfit: price * 0.98 }
+  }
+
+  // The most recently opened leg, or the single position in one-way mode
+  private getActivePosition(): ActivePosition | null {
+    const positions = Array.from(this.positions.values())
+    return positions.reduce<ActivePosition | null>(
+      (latest, position) => (!latest || position.entryTime > latest.entryTime ? position : latest),
+      null,
+    )
+  }
+
+  // Position side sent with the orders of a leg; one-way accounts only accept BOTH
+  private getPositionSide(type: PositionLeg): PositionSide {
+    return this.hedgeMode ? type : "BOTH"
+  }
+
+  // Hedge mode holds one position per leg, one-way mode a single position
+  private canOpenPosition(type: PositionLeg): boolean {
+    return this.hedgeMode ? !this.positions.has(type) : this.positions.size === 0
+  }
+
+  /**
+   * Read the account position mode and switch it when the configuration asks for another one
+   */
+  private async initializePositionMode(): Promise<void> {
+    const accountHedgeMode = await binanceApiService.isHedgeMode(true)
+    if (this.requestedHedgeMode === undefined || this.requestedHedgeMode === accountHedgeMode) {
+      this.hedgeMode = accountHedgeMode
+      return
+    }
+
+    try {
+      await binanceApiService.setHedgeMode(this.requestedHedgeMode)
+      this.hedgeMode = this.requestedHedgeMode
+    } catch (error) {
+      // Binance refuses the switch while positions or orders are open on any symbol
+      this.hedgeMode = accountHedgeMode
+      errorHandler.handleError(error, {
+        context: {
+          action: "initializePositionMode",
+          symbol: this.symbol,
+          hedgeMode: this.requestedHedgeMode,
+        },
+        severity: "medium",
+      })
+      const mode = accountHedgeMode ? "hedge" : "one-way"
+      console.warn(`Could not switch position mode, trading ${this.symbol} in ${mode} mode`)
+    }
+  }
+
+  /**
+   * Close a real position
+   */
+  private async closePosition(type: PositionLeg, currentPrice: number): Promise<TradeExecutionResult> {
+    const position = this.positions.get(type)
+
+    try {
+      if (!position) {
+        return {
+          success: false,
+          error: "No active position to close",
         }
       }
 
-      // Update risk manager if enabled
-      if (this.enableRiskManagement) {
-        riskManager.recordTrade(this.symbol, this.activePosition.entryTime, Date.now(), pnl)
+      // Repeated exit signals wait for the closing order already sent
+      if (position.closeOrderId) {
+        return {
+          success: false,
+          error: "Position is already being closed",
+        }
       }
 
-      // Clear active position
-      this.activePosition = null
+      console.log(`Closing ${type} position @ ${currentPrice}`)
 
-      // Reset strategy state
-      this.strategy.reset()
+      // Determine order side (opposite of position type)
+      const side: OrderSide = type === "LONG" ? "SELL" : "BUY"
+
+      // Close first and keep the exits until the fill arrives, so the position is never left unprotected; the fill
+      // settles the trade with its price and commission
+      const orderResponse = await binanceApiService.placeOrder(this.symbol, side, "MARKET", position.quantity, {
+        reduceOnly: true,
+        positionSide: this.getPositionSide(type),
+      })
+      position.closeOrderId = orderResponse.orderId.toString()
+      this.replayOrderUpdates(position.closeOrderId)
 
       return {
         success: true,
-        orderId: orderResponse.orderId.toString(),
-        price: exitPrice,
-        quantity: this.activePosition.quantity,
+        orderId: position.closeOrderId,
+        price: Number.parseFloat(orderResponse.avgPrice || "0") || currentPrice,
+        quantity: position.quantity,
         side,
         type: "MARKET",
       }
@@ -911,7 +1788,7 @@ export class TradingService {
           action: "closePosition",
           symbol: this.symbol,
           price: currentPrice,
-          positionType: this.activePosition?.type,
+          positionType: type,
         },
         severity: "high",
       })
@@ -49,6 +49,7 @@ export interface OrderResponse {
   timeInForce: string
   type: string
   side: string
+  avgPrice?: string
 }
 
 /**
@@ -66,6 +67,8 @@ export interface OrderStatus {
   type: string
   side: string
   stopPrice?: string
+  positionSide?: PositionSide
+  avgPrice?: string // Futures only; "0" until the order fills
   time: number
   updateTime: number
 }
@@ -152,6 +155,37 @@ export interface SymbolInfo {
   filters: any[]
 }
 
+/**
+ * PRICE_FILTER: price and stop price limits
+ */
+export interface PriceFilter {
+  filterType: "PRICE_FILTER"
+  minPrice: string
+  maxPrice: string
+  tickSize: string
+}
+
+/**
+ * LOT_SIZE and MARKET_LOT_SIZE: quantity limits for all orders and for market orders
+ */
+export interface LotSizeFilter {
+  filterType: "LOT_SIZE" | "MARKET_LOT_SIZE"
+  minQty: string
+  maxQty: string
+  stepSize: string
+}
+
+/**
+ * MIN_NOTIONAL (futures: notional, spot: minNotional) and spot NOTIONAL: minimum order value
+ */
+export interface MinNotionalFilter {
+  filterType: "MIN_NOTIONAL" | "NOTIONAL"
+  notional?: string
+  minNotional?: string
+}
+
+export type SymbolFilter = PriceFilter | LotSizeFilter | MinNotionalFilter
+
 // Rate limit types
 export type RateLimitType = "REQUEST_WEIGHT" | "ORDERS" | "RAW_REQUESTS"
 export type RateLimitInterval = "SECOND" | "MINUTE" | "DAY"
@@ -166,6 +200,242 @@ export interface RateLimit {
   limit: number
 }
 
+// User data stream types
+export type ExecutionType = "NEW" | "CANCELED" | "CALCULATED" | "EXPIRED" | "TRADE" | "AMENDMENT"
+export type UserOrderStatus = "NEW" | "PARTIALLY_FILLED" | "FILLED" | "CANCELED" | "EXPIRED" | "EXPIRED_IN_MATCH"
+
+/**
+ * Order update from the user data stream (ORDER_TRADE_UPDATE)
+ */
+export interface OrderTradeUpdate {
+  eventType: "ORDER_TRADE_UPDATE"
+  eventTime: number
+  transactionTime: number
+  symbol: string
+  orderId: number
+  clientOrderId: string
+  side: OrderSide
+  orderType: OrderType
+  originalOrderType: OrderType
+  timeInForce: TimeInForce
+  positionSide: PositionSide
+  executionType: ExecutionType
+  orderStatus: UserOrderStatus
+  quantity: number
+  price: number
+  averagePrice: number
+  stopPrice: number
+  lastFilledQuantity: number
+  lastFilledPrice: number
+  filledQuantity: number
+  commission: number // Commission of the last fill
+  commissionAsset: string | null
+  realizedProfit: number // Realized profit of the last fill
+  tradeId: number
+  isMaker: boolean
+  reduceOnly: boolean
+  closePosition: boolean
+}
+
+/**
+ * Wallet balance change in an account update
+ */
+export interface AccountUpdateBalance {
+  asset: string
+  walletBalance: number
+  crossWalletBalance: number
+  balanceChange: number // Change excluding PnL and commission
+}
+
+/**
+ * Position change in an account update
+ */
+export interface AccountUpdatePosition {
+  symbol: string
+  positionSide: PositionSide
+  positionAmount: number
+  entryPrice: number
+  breakEvenPrice: number
+  accumulatedRealized: number
+  unrealizedPnl: number
+  marginType: "isolated" | "cross"
+  isolatedWallet: number
+}
+
+/**
+ * Balance and position update from the user data stream (ACCOUNT_UPDATE).
+ * Only assets and positions that changed are included.
+ */
+export interface AccountUpdate {
+  eventType: "ACCOUNT_UPDATE"
+  eventTime: number
+  transactionTime: number
+  reason: string // e.g. ORDER, FUNDING_FEE, DEPOSIT
+  balances: AccountUpdateBalance[]
+  positions: AccountUpdatePosition[]
+}
+
+/**
+ * Position at risk in a margin call
+ */
+export interface MarginCallPosition {
+  symbol: string
+  positionSide: PositionSide
+  positionAmount: number
+  marginType: "isolated" | "cross"
+  isolatedWallet: number
+  markPrice: number
+  unrealizedPnl: number
+  maintenanceMargin: number
+}
+
+/**
+ * Margin call from the user data stream (MARGIN_CALL)
+ */
+export interface MarginCall {
+  eventType: "MARGIN_CALL"
+  eventTime: number
+  crossWalletBalance: number | null // Only sent for crossed positions
+  positions: MarginCallPosition[]
+}
+
+/**
+ * Notice that the listen key expired and the stream will stop sending events
+ */
+export interface ListenKeyExpired {
+  eventType: "listenKeyExpired"
+  eventTime: number
+  listenKey: string
+}
+
+export type UserDataEvent = OrderTradeUpdate | AccountUpdate | MarginCall | ListenKeyExpired
+
+export type BracketStatus = "PENDING_ENTRY" | "OPEN" | "CLOSED" | "CANCELED"
+export type BracketLegType = "ENTRY" | "TAKE_PROFIT" | "STOP_LOSS"
+
+/**
+ * One order of a bracket. Resizing or moving an exit replaces its order, so the same leg may have several
+ * orders over its life; only the latest one is kept here.
+ */
+export interface BracketLeg {
+  type: BracketLegType
+  orderId: number | null // null until the exchange accepted the order
+  clientOrderId: string
+  revision: number
+  price: number // Limit price of the entry, trigger price of the exits; 0 for market entries
+  quantity: number
+  filledQuantity: number
+  status: UserOrderStatus | "PENDING"
+}
+
+/**
+ * Entry, take profit and stop loss orders managed as one unit
+ */
+export interface BracketOrder {
+  id: string
+  symbol: string
+  direction: "LONG" | "SHORT"
+  positionSide?: PositionSide
+  status: BracketStatus
+  quantity: number // Entry quantity, or the position size when protecting an existing position
+  exitedQuantity: number // Filled by the exit legs so far
+  takeProfitPrice: number // 0 when unknown, e.g. for a bracket rebuilt after its take profit order was gone
+  stopLossPrice: number
+  entry: BracketLeg | null // null when the bracket protects a position that was opened elsewhere
+  takeProfit: BracketLeg | null
+  stopLoss: BracketLeg | null
+  createdAt: number
+  updatedAt: number
+}
+
+/**
+ * Request for a new bracket
+ */
+export interface BracketOrderRequest {
+  symbol: string
+  direction: "LONG" | "SHORT"
+  quantity: number
+  takeProfitPrice: number
+  stopLossPrice: number
+  entryType?: "MARKET" | "LIMIT" // Defaults to MARKET
+  entryPrice?: number // Required for LIMIT entries
+  positionSide?: PositionSide
+}
+
+export type ExecutionAlgorithm = "TWAP" | "ICEBERG" | "CHASE"
+export type AlgoExecutionStatus = "RUNNING" | "COMPLETED" | "CANCELED" | "EXPIRED" | "FAILED"
+
+/**
+ * Cost of an execution against the mid price when it started. Positive values are costs, negative ones savings.
+ */
+export interface ImplementationShortfall {
+  arrivalPrice: number // Mid price when the execution started
+  averagePrice: number | null // null until something filled
+  finalPrice: number // Mid price when the execution ended; prices the quantity left unfilled
+  executionCost: number // Quote currency lost on the filled quantity
+  opportunityCost: number // Quote currency lost on the unfilled quantity
+  totalCost: number
+  bps: number // Total cost relative to the value of the whole order at the arrival price
+}
+
+/**
+ * Progress of an execution algorithm working one parent order
+ */
+export interface AlgoExecution {
+  id: string
+  algorithm: ExecutionAlgorithm
+  symbol: string
+  side: OrderSide
+  status: AlgoExecutionStatus
+  quantity: number
+  filledQuantity: number
+  averagePrice: number | null // null until something filled
+  arrivalPrice: number
+  orderCount: number // Child orders placed so far
+  shortfall: ImplementationShortfall | null // Set once the execution has finished
+  error: string | null
+  startedAt: number
+  updatedAt: number
+  finishedAt: number | null
+}
+
+/**
+ * Fields shared by every execution algorithm request
+ */
+export interface AlgoExecutionRequest {
+  symbol: string
+  side: OrderSide
+  quantity: number
+  reduceOnly?: boolean
+  positionSide?: PositionSide
+  onProgress?: (execution: AlgoExecution) => void
+}
+
+/**
+ * Market orders spread evenly over a time window
+ */
+export interface TwapRequest extends AlgoExecutionRequest {
+  durationMs: number
+  slices: number
+}
+
+/**
+ * A limit order shown one visible quantity at a time
+ */
+export interface IcebergRequest extends AlgoExecutionRequest {
+  price: number
+  visibleQuantity: number
+  timeoutMs?: number // Unfilled quantity is cancelled after this; no limit by default
+}
+
+/**
+ * A post-only limit order kept at the best bid (buys) or ask (sells)
+ */
+export interface ChaseRequest extends AlgoExecutionRequest {
+  timeoutMs: number
+  limitPrice?: number // Worst price to chase to
+}
+
 /**
  * Binance API service interface
  * Defines methods for interacting with the Binance API
@@ -186,9 +456,11 @@ export interface BinanceApiServiceInterface {
 
   // Position operations
   getPositionRisk(symbol?: string): Promise<PositionRisk[]>
-  getPosition(symbol: string): Promise<PositionRisk | null>
+  getPosition(symbol: string, positionSide?: PositionSide): Promise<PositionRisk | null>
   hasPosition(symbol: string): Promise<boolean>
-  getPositionSize(symbol: string): Promise<number>
+  getPositionSize(symbol: string, positionSide?: PositionSide): Promise<number>
+  isHedgeMode(refresh?: boolean): Promise<boolean>
+  setHedgeMode(enabled: boolean): Promise<void>
 
   // Order operations
   placeOrder(
@@ -208,5 +480,6 @@ export interface BinanceApiServiceInterface {
     takeProfitPrice: number,
     stopLossPrice: number,
     quantity: number,
-  ): Promise<[OrderResponse, OrderResponse]>
+    direction?: "LONG" | "SHORT",
+  ): Promise<BracketOrder>
 }
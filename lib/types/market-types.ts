@@ -42,6 +42,36 @@ export interface OrderBook {
   asks: OrderBookEntry[]
 }
 
+/**
+ * Represents a diff depth event from the @depth stream
+ * A quantity of 0 removes the price level
+ */
+export interface DepthUpdate {
+  eventTime: number
+  firstUpdateId: number // U
+  finalUpdateId: number // u
+  previousFinalUpdateId: number // pu
+  bids: OrderBookEntry[]
+  asks: OrderBookEntry[]
+}
+
+/**
+ * Trade-flow and order book features over a recent window, used as confirmation by short-term strategies
+ */
+export interface MicrostructureSnapshot {
+  timestamp: number
+  tradeCount: number
+  cumulativeVolumeDelta: number // Buy minus sell aggressor volume over the window
+  buyVolume: number
+  sellVolume: number
+  aggressorBuyRatio: number // 0 to 1
+  bookImbalance: number // -1 (asks) to 1 (bids)
+  spread: number
+  spreadBps: number
+  microprice: number
+  largeTrades: Trade[]
+}
+
 /**
  * Represents a single trade
  */
@@ -0,0 +1,144 @@
+/**
+ * Microstructure Indicators Library
+ *
+ * This file contains indicators computed from the trade tape and the order book rather than from candles.
+ * Trades are expected in chronological order; a trade with isBuyerMaker set was initiated by a seller.
+ */
+import type { OrderBook, Trade } from "../types/market-types"
+
+/**
+ * Calculate Cumulative Volume Delta (CVD)
+ * @param trades Array of trades in chronological order
+ * @returns Array of running buy aggressor volume minus sell aggressor volume
+ */
+export function calculateCumulativeVolumeDelta(trades: Trade[]): number[] {
+  if (!trades || trades.length === 0) {
+    return []
+  }
+
+  const cvd: number[] = []
+  let delta = 0
+
+  for (const trade of trades) {
+    delta += trade.isBuyerMaker ? -trade.quantity : trade.quantity
+    cvd.push(delta)
+  }
+
+  return cvd
+}
+
+/**
+ * Calculate aggressor volumes and the buy aggressor ratio
+ * @param trades Array of trades
+ * @returns Buy and sell aggressor volumes, and the share of volume bought at the ask (0.5 when there is no volume)
+ */
+export function calculateAggressorRatio(trades: Trade[]): { buyVolume: number; sellVolume: number; buyRatio: number } {
+  let buyVolume = 0
+  let sellVolume = 0
+
+  for (const trade of trades || []) {
+    if (trade.isBuyerMaker) {
+      sellVolume += trade.quantity
+    } else {
+      buyVolume += trade.quantity
+    }
+  }
+
+  const totalVolume = buyVolume + sellVolume
+  return { buyVolume, sellVolume, buyRatio: totalVolume > 0 ? buyVolume / totalVolume : 0.5 }
+}
+
+/**
+ * Calculate the bid-ask spread
+ * @param orderBook Order book with bids sorted high to low and asks sorted low to high
+ * @returns Absolute spread and spread in basis points of the mid price, or null for a one-sided book
+ */
+export function calculateSpread(orderBook: OrderBook): { spread: number; spreadBps: number } | null {
+  const bestBid = orderBook?.bids[0]
+  const bestAsk = orderBook?.asks[0]
+  if (!bestBid || !bestAsk) {
+    return null
+  }
+
+  const spread = bestAsk.price - bestBid.price
+  const midPrice = (bestAsk.price + bestBid.price) / 2
+
+  return { spread, spreadBps: (spread / midPrice) * 10000 }
+}
+
+/**
+ * Calculate the microprice, the mid price weighted towards the side with less resting quantity
+ * @param orderBook Order book with bids sorted high to low and asks sorted low to high
+ * @returns Microprice, or null for a one-sided book
+ */
+export function calculateMicroprice(orderBook: OrderBook): number | null {
+  const bestBid = orderBook?.bids[0]
+  const bestAsk = orderBook?.asks[0]
+  if (!bestBid || !bestAsk) {
+    return null
+  }
+
+  const totalQuantity = bestBid.quantity + bestAsk.quantity
+  if (totalQuantity === 0) {
+    return (bestBid.price + bestAsk.price) / 2
+  }
+
+  return (bestBid.price * bestAsk.quantity + bestAsk.price * bestBid.quantity) / totalQuantity
+}
+
+/**
+ * Calculate order book imbalance within a distance of the mid price
+ * @param orderBook Order book with bids sorted high to low and asks sorted low to high
+ * @param depthBps Distance from the mid price in basis points (default: 10)
+ * @returns Notional imbalance from -1 (all asks) to 1 (all bids)
+ */
+export function calculateOrderBookImbalance(orderBook: OrderBook, depthBps = 10): number {
+  const bestBid = orderBook?.bids[0]
+  const bestAsk = orderBook?.asks[0]
+  if (!bestBid || !bestAsk) {
+    return 0
+  }
+
+  const midPrice = (bestBid.price + bestAsk.price) / 2
+  const minBidPrice = midPrice * (1 - depthBps / 10000)
+  const maxAskPrice = midPrice * (1 + depthBps / 10000)
+
+  let bidNotional = 0
+  for (const bid of orderBook.bids) {
+    if (bid.price < minBidPrice) break
+    bidNotional += bid.price * bid.quantity
+  }
+
+  let askNotional = 0
+  for (const ask of orderBook.asks) {
+    if (ask.price > maxAskPrice) break
+    askNotional += ask.price * ask.quantity
+  }
+
+  const totalNotional = bidNotional + askNotional
+  return totalNotional > 0 ? (bidNotional - askNotional) / totalNotional : 0
+}
+
+/**
+ * Detect trades much larger than the typical trade
+ * @param trades Array of trades
+ * @param multiplier Size relative to the median trade quantity that counts as large (default: 5)
+ * @returns Trades at or above the threshold, in input order
+ */
+export function detectLargeTrades(trades: Trade[], multiplier = 5): Trade[] {
+  if (!trades || trades.length === 0 || multiplier <= 0) {
+    return []
+  }
+
+  // The median is not dragged up by the large trades themselves
+  const quantities = trades.map((trade) => trade.quantity).sort((a, b) => a - b)
+  const middle = Math.floor(quantities.length / 2)
+  const median = quantities.length % 2 === 0 ? (quantities[middle - 1] + quantities[middle]) / 2 : quantities[middle]
+
+  if (median <= 0) {
+    return []
+  }
+
+  const threshold = median * multiplier
+  return trades.filter((trade) => trade.quantity >= threshold)
+}
@@ -0,0 +1,15 @@
+import path from "path"
+import { defineConfig } from "vitest/config"
+
+export default defineConfig({
+  resolve: {
+    // Same "@/" root alias as tsconfig.json, so modules that use it can be tested
+    alias: { "@": path.resolve(__dirname) },
+  },
+  test: {
+    poolOptions: {
+      // Node 20 keeps the global WebSocket behind a flag; live trading tests stream from the exchange simulator
+      forks: { execArgv: ["--experimental-websocket"] },
+    },
+  },
+})